@@ -55,6 +55,7 @@ export class CircularString extends LineString {
     for (const point of this.points) {
       circularStringCopy.addPoint(point.copy());
     }
+    circularStringCopy.srid = this.srid;
     return circularStringCopy;
   }
 }
@@ -3,9 +3,9 @@ import {
   Curve,
   Geometry,
   GeometryType,
+  IsSimpleOp,
   type LineString,
   SFException,
-  ShamosHoey,
 } from "./internal.ts";
 
 /**
@@ -166,7 +166,7 @@ export class CompoundCurve extends Curve {
    * {@inheritDoc}
    */
   public isSimple(): boolean {
-    return ShamosHoey.simplePolygonLineStrings(this._lineStrings);
+    return IsSimpleOp.isSimple(this);
   }
 
   /**
@@ -180,6 +180,7 @@ export class CompoundCurve extends Curve {
     for (const lineString of this.lineStrings) {
       compoundCurveCopy.addLineString(lineString.copy());
     }
+    compoundCurveCopy.srid = this.srid;
     return compoundCurveCopy;
   }
 
@@ -193,9 +194,10 @@ export class CompoundCurve extends Curve {
   /**
    * {@inheritDoc}
    */
-  public equals(obj: Geometry): boolean {
+  public override equals(obj: Geometry): boolean {
     let equal = true;
     if (
+      super.equals(obj) &&
       obj instanceof CompoundCurve &&
       this.numLineStrings() === obj.numLineStrings()
     ) {
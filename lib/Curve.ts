@@ -44,9 +44,4 @@ export abstract class Curve extends Geometry {
   public isClosed(): boolean {
     return !this.isEmpty() && this.startPoint().equals(this.endPoint());
   }
-
-  /**
-   * Check for curve equality
-   */
-  public abstract equals(obj: Geometry): boolean;
 }
@@ -1,11 +1,6 @@
 import type { LineString } from "./internal.ts";
 import { Curve, SFException } from "./internal.ts";
-import {
-  Geometry,
-  GeometryType,
-  Surface,
-  UnsupportedOperationException,
-} from "./internal.ts";
+import { Geometry, GeometryType, IsSimpleOp, Surface } from "./internal.ts";
 
 /**
  * A planar surface defined by an exterior ring and zero or more interior ring.
@@ -169,6 +164,7 @@ export class CurvePolygon<T extends Curve = Curve> extends Surface {
         throw new SFException("CurvePolygon copy failed, ring is not a curve");
       }
     }
+    curvePolygonCopy.srid = this.srid;
     return curvePolygonCopy;
   }
 
@@ -183,9 +179,7 @@ export class CurvePolygon<T extends Curve = Curve> extends Surface {
    * {@inheritDoc}
    */
   public isSimple(): boolean {
-    throw new UnsupportedOperationException(
-      "Is Simple not implemented for CurvePolygon",
-    );
+    return IsSimpleOp.isSimple(this);
   }
 
   /**
@@ -193,7 +187,7 @@ export class CurvePolygon<T extends Curve = Curve> extends Surface {
    */
   public equals(obj: CurvePolygon<T>): boolean {
     let equal = true;
-    if (obj instanceof CurvePolygon) {
+    if (super.equals(obj) && obj instanceof CurvePolygon) {
       if (this.numRings() === obj.numRings()) {
         for (let i = 0; i < this.numRings(); i++) {
           if (!this.getRing(i).equals(obj.getRing(i))) {
@@ -1,5 +1,21 @@
-import type { GeometryEnvelope, GeometryType, Point } from "./internal.ts";
-import { GeometryEnvelopeBuilder, GeometryUtils } from "./internal.ts";
+import type {
+  BufferOptions,
+  Geodesic,
+  GeometryEnvelope,
+  GeometryType,
+  IntersectionMatrix,
+  Point,
+  ValidationError,
+} from "./internal.ts";
+import {
+  BufferOp,
+  GeometryEnvelopeBuilder,
+  GeometryUtils,
+  GeometryValidator,
+  MakeValidOp,
+  OverlayOp,
+  RelateOp,
+} from "./internal.ts";
 
 /**
  * The root of the geometry type hierarchy
@@ -20,6 +36,11 @@ export abstract class Geometry {
    */
   private _hasM: boolean;
 
+  /**
+   * Spatial reference system identifier
+   */
+  private _srid?: number;
+
   /**
    * Constructor
    * @param geometryType geometry type
@@ -85,6 +106,24 @@ export abstract class Geometry {
     this._hasM = hasM;
   }
 
+  /**
+   * Get the spatial reference system identifier. Within a collection or other
+   * composite geometry the outermost geometry carries the identifier, which
+   * applies to all of its child geometries.
+   * @returns srid or undefined when not set
+   */
+  public get srid(): number | undefined {
+    return this._srid;
+  }
+
+  /**
+   * Set the spatial reference system identifier
+   * @param srid srid or undefined to clear
+   */
+  public set srid(srid: number | undefined) {
+    this._srid = srid;
+  }
+
   /**
    * Update currently false hasZ and hasM values using the provided geometry
    * @param geometry  geometry
@@ -190,6 +229,289 @@ export abstract class Geometry {
     return GeometryUtils.getDegreesCentroid(this);
   }
 
+  /**
+   * Get the planar area of the geometry, zero for points and curves
+   * @returns area
+   */
+  public getArea(): number {
+    return GeometryUtils.getArea(this);
+  }
+
+  /**
+   * Get the planar minimum distance to another geometry, zero when they
+   * intersect
+   * @param geometry geometry
+   * @returns distance
+   */
+  public getDistance(geometry: Geometry): number {
+    return GeometryUtils.getDistance(this, geometry);
+  }
+
+  /**
+   * Get the length of the geometry curves, zero for points and surfaces
+   * @param use3D true to include z coordinate changes when present
+   * @returns length
+   */
+  public getLength(use3D = false): number {
+    return GeometryUtils.getLength(this, use3D);
+  }
+
+  /**
+   * Get the perimeter of the geometry surfaces, zero for points and curves
+   * @param use3D true to include z coordinate changes when present
+   * @returns perimeter
+   */
+  public getPerimeter(use3D = false): number {
+    return GeometryUtils.getPerimeter(this, use3D);
+  }
+
+  /**
+   * Get the geodesic area of the geometry surfaces on an ellipsoid, with x
+   * longitudes and y latitudes in degrees
+   * @param geodesic geodesic ellipsoid calculations, WGS84 by default
+   * @returns area in square meters
+   */
+  public getGeodesicArea(geodesic?: Geodesic): number {
+    return GeometryUtils.getGeodesicArea(this, geodesic);
+  }
+
+  /**
+   * Get the geodesic length of the geometry curves on an ellipsoid, with x
+   * longitudes and y latitudes in degrees
+   * @param geodesic geodesic ellipsoid calculations, WGS84 by default
+   * @returns length in meters
+   */
+  public getGeodesicLength(geodesic?: Geodesic): number {
+    return GeometryUtils.getGeodesicLength(this, geodesic);
+  }
+
+  /**
+   * Get the geodesic perimeter of the geometry surfaces on an ellipsoid, with
+   * x longitudes and y latitudes in degrees
+   * @param geodesic geodesic ellipsoid calculations, WGS84 by default
+   * @returns perimeter in meters
+   */
+  public getGeodesicPerimeter(geodesic?: Geodesic): number {
+    return GeometryUtils.getGeodesicPerimeter(this, geodesic);
+  }
+
+  /**
+   * Compute the DE-9IM intersection matrix with another geometry
+   * @param geometry geometry
+   * @param epsilon distance tolerance
+   * @returns intersection matrix
+   */
+  public relate(
+    geometry: Geometry,
+    epsilon?: number,
+  ): IntersectionMatrix {
+    return RelateOp.relate(this, geometry, epsilon);
+  }
+
+  /**
+   * Determine if the DE-9IM intersection matrix with another geometry matches
+   * a pattern
+   * @param geometry geometry
+   * @param pattern nine character pattern of 'T', 'F', '*', '0', '1' and '2'
+   * @param epsilon distance tolerance
+   * @returns true if matches
+   */
+  public relatePattern(
+    geometry: Geometry,
+    pattern: string,
+    epsilon?: number,
+  ): boolean {
+    return this.relate(geometry, epsilon).matches(pattern);
+  }
+
+  /**
+   * Determine if the geometry intersects another geometry
+   * @param geometry geometry
+   * @param epsilon distance tolerance
+   * @returns true if intersects
+   */
+  public intersects(geometry: Geometry, epsilon?: number): boolean {
+    return this.relate(geometry, epsilon).isIntersects();
+  }
+
+  /**
+   * Determine if the geometry is disjoint from another geometry
+   * @param geometry geometry
+   * @param epsilon distance tolerance
+   * @returns true if disjoint
+   */
+  public disjoint(geometry: Geometry, epsilon?: number): boolean {
+    return this.relate(geometry, epsilon).isDisjoint();
+  }
+
+  /**
+   * Determine if the geometry contains another geometry
+   * @param geometry geometry
+   * @param epsilon distance tolerance
+   * @returns true if contains
+   */
+  public contains(geometry: Geometry, epsilon?: number): boolean {
+    return this.relate(geometry, epsilon).isContains();
+  }
+
+  /**
+   * Determine if the geometry is within another geometry
+   * @param geometry geometry
+   * @param epsilon distance tolerance
+   * @returns true if within
+   */
+  public within(geometry: Geometry, epsilon?: number): boolean {
+    return this.relate(geometry, epsilon).isWithin();
+  }
+
+  /**
+   * Determine if the geometry covers another geometry
+   * @param geometry geometry
+   * @param epsilon distance tolerance
+   * @returns true if covers
+   */
+  public covers(geometry: Geometry, epsilon?: number): boolean {
+    return this.relate(geometry, epsilon).isCovers();
+  }
+
+  /**
+   * Determine if the geometry is covered by another geometry
+   * @param geometry geometry
+   * @param epsilon distance tolerance
+   * @returns true if covered by
+   */
+  public coveredBy(geometry: Geometry, epsilon?: number): boolean {
+    return this.relate(geometry, epsilon).isCoveredBy();
+  }
+
+  /**
+   * Determine if the geometry touches another geometry
+   * @param geometry geometry
+   * @param epsilon distance tolerance
+   * @returns true if touches
+   */
+  public touches(geometry: Geometry, epsilon?: number): boolean {
+    return this.relate(geometry, epsilon).isTouches(
+      this.getDimension(),
+      geometry.getDimension(),
+    );
+  }
+
+  /**
+   * Determine if the geometry crosses another geometry
+   * @param geometry geometry
+   * @param epsilon distance tolerance
+   * @returns true if crosses
+   */
+  public crosses(geometry: Geometry, epsilon?: number): boolean {
+    return this.relate(geometry, epsilon).isCrosses(
+      this.getDimension(),
+      geometry.getDimension(),
+    );
+  }
+
+  /**
+   * Determine if the geometry overlaps another geometry
+   * @param geometry geometry
+   * @param epsilon distance tolerance
+   * @returns true if overlaps
+   */
+  public overlaps(geometry: Geometry, epsilon?: number): boolean {
+    return this.relate(geometry, epsilon).isOverlaps(
+      this.getDimension(),
+      geometry.getDimension(),
+    );
+  }
+
+  /**
+   * Determine if the geometry is topologically equal to another geometry,
+   * where two empty geometries are equal
+   * @param geometry geometry
+   * @param epsilon distance tolerance
+   * @returns true if topologically equal
+   */
+  public equalsTopo(geometry: Geometry, epsilon?: number): boolean {
+    return (this.isEmpty() && geometry.isEmpty()) ||
+      this.relate(geometry, epsilon).isEquals(
+        this.getDimension(),
+        geometry.getDimension(),
+      );
+  }
+
+  /**
+   * Get the intersection with another polygonal geometry
+   * @param geometry polygonal geometry
+   * @param epsilon distance tolerance
+   * @returns intersection
+   */
+  public intersection(geometry: Geometry, epsilon?: number): Geometry {
+    return OverlayOp.intersection(this, geometry, epsilon);
+  }
+
+  /**
+   * Get the union with another polygonal geometry
+   * @param geometry polygonal geometry
+   * @param epsilon distance tolerance
+   * @returns union
+   */
+  public union(geometry: Geometry, epsilon?: number): Geometry {
+    return OverlayOp.union(this, geometry, epsilon);
+  }
+
+  /**
+   * Get the difference with another polygonal geometry
+   * @param geometry polygonal geometry to subtract
+   * @param epsilon distance tolerance
+   * @returns difference
+   */
+  public difference(geometry: Geometry, epsilon?: number): Geometry {
+    return OverlayOp.difference(this, geometry, epsilon);
+  }
+
+  /**
+   * Get the symmetric difference with another polygonal geometry
+   * @param geometry polygonal geometry
+   * @param epsilon distance tolerance
+   * @returns symmetric difference
+   */
+  public symDifference(geometry: Geometry, epsilon?: number): Geometry {
+    return OverlayOp.symDifference(this, geometry, epsilon);
+  }
+
+  /**
+   * Get the buffer area within a distance of the geometry
+   * @param distance buffer distance, negative to erode polygons
+   * @param options buffer options
+   * @returns buffer polygon, multi polygon or empty polygon
+   */
+  public buffer(distance: number, options?: BufferOptions): Geometry {
+    return BufferOp.buffer(this, distance, options);
+  }
+
+  /**
+   * Determine if the geometry is valid
+   * @returns true if valid
+   */
+  public isValid(): boolean {
+    return GeometryValidator.isValid(this);
+  }
+
+  /**
+   * Validate the geometry
+   * @returns validation errors with reasons and locations, empty when valid
+   */
+  public validate(): ValidationError[] {
+    return GeometryValidator.validate(this);
+  }
+
+  /**
+   * Make the geometry valid, keeping all of its area
+   * @returns valid geometry
+   */
+  public makeValid(): Geometry {
+    return MakeValidOp.makeValid(this);
+  }
+
   /**
    * Copy the geometry
    * @returnsgeometry copy
@@ -217,7 +539,8 @@ export abstract class Geometry {
     return !(
       this.geometryType !== obj.geometryType ||
       this.hasM !== obj.hasM ||
-      this.hasZ !== obj.hasZ
+      this.hasZ !== obj.hasZ ||
+      this.srid !== obj.srid
     );
   }
 }
@@ -2,6 +2,7 @@ import {
   Curve,
   Geometry,
   GeometryType,
+  IsSimpleOp,
   LineString,
   MultiLineString,
   MultiPoint,
@@ -10,7 +11,6 @@ import {
   Polygon,
   SFException,
   Surface,
-  UnsupportedOperationException,
 } from "./internal.ts";
 
 /**
@@ -364,8 +364,9 @@ export class GeometryCollection<T extends Geometry = Geometry>
     const hasM = this.hasM;
     const geometryCollectionCopy = GeometryCollection.create(hasZ, hasM);
     for (const geometry of this.geometries) {
-      geometryCollectionCopy.addGeometry(geometry);
+      geometryCollectionCopy.addGeometry(geometry.copy());
     }
+    geometryCollectionCopy.srid = this.srid;
     return geometryCollectionCopy;
   }
 
@@ -380,9 +381,7 @@ export class GeometryCollection<T extends Geometry = Geometry>
    * {@inheritDoc}
    */
   public isSimple(): boolean {
-    throw new UnsupportedOperationException(
-      "Is Simple not implemented for GeometryCollection",
-    );
+    return IsSimpleOp.isSimple(this);
   }
 
   /**
@@ -391,6 +390,7 @@ export class GeometryCollection<T extends Geometry = Geometry>
   public equals(obj: Geometry): boolean {
     let equals = true;
     if (
+      super.equals(obj) &&
       obj instanceof GeometryCollection &&
       this.numGeometries() === obj.numGeometries()
     ) {
@@ -132,9 +132,20 @@ export class GeometryTypeUtils {
   }
 
   /**
-   * Get the geometry type from the name
+   * Get the geometry type from the name, case insensitive
    * @param name name
-   * @returns geometry type
+   * @returns geometry type or undefined if not a geometry type name
+   */
+  static fromName(name: string): GeometryType | undefined {
+    const upperName = name.toUpperCase();
+    return GeometryTypeUtils.values().find(
+      (geometryType) => GeometryType[geometryType].toUpperCase() === upperName,
+    );
+  }
+
+  /**
+   * Get all geometry types
+   * @returns geometry types
    */
   static values(): GeometryType[] {
     return [
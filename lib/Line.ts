@@ -68,6 +68,7 @@ export class Line extends LineString {
     for (const point of this.points) {
       lineCopy.addPoint(point.copy());
     }
+    lineCopy.srid = this.srid;
     return lineCopy;
   }
 }
@@ -3,8 +3,8 @@ import {
   Curve,
   Geometry,
   GeometryType,
+  IsSimpleOp,
   SFException,
-  ShamosHoey,
 } from "./internal.ts";
 
 /**
@@ -142,7 +142,7 @@ export class LineString extends Curve {
    * {@inheritDoc}
    */
   public isSimple(): boolean {
-    return ShamosHoey.simplePolygonPoints(this._points);
+    return IsSimpleOp.isSimple(this);
   }
 
   /**
@@ -156,6 +156,7 @@ export class LineString extends Curve {
     for (const point of this.points) {
       lineStringCopy.addPoint(point.copy());
     }
+    lineStringCopy.srid = this.srid;
     return lineStringCopy;
   }
 
@@ -169,9 +170,13 @@ export class LineString extends Curve {
   /**
    * {@inheritDoc}
    */
-  public equals(obj: LineString): boolean {
+  public override equals(obj: LineString): boolean {
     let equal = true;
-    if (obj instanceof LineString && this.numPoints() === obj.numPoints()) {
+    if (
+      super.equals(obj) &&
+      obj instanceof LineString &&
+      this.numPoints() === obj.numPoints()
+    ) {
       for (let i = 0; i < this._points.length; i++) {
         if (!this.getPoint(i).equals(obj.getPoint(i))) {
           equal = false;
@@ -66,6 +66,7 @@ export class LinearRing extends LineString {
     for (const point of this.points) {
       linearRingCopy.addPoint(point.copy());
     }
+    linearRingCopy.srid = this.srid;
     return linearRingCopy;
   }
 }
@@ -123,6 +123,7 @@ export class MultiLineString extends MultiCurve<LineString> {
     for (const lineString of this.lineStrings) {
       multiLineStringCopy.addLineString(lineString.copy());
     }
+    multiLineStringCopy.srid = this.srid;
     return multiLineStringCopy;
   }
 }
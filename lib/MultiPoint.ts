@@ -103,6 +103,7 @@ export class MultiPoint extends GeometryCollection<Point> {
     for (const point of this.points) {
       multiPointCopy.addPoint(point.copy());
     }
+    multiPointCopy.srid = this.srid;
     return multiPointCopy;
   }
 
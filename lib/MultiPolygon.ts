@@ -104,6 +104,7 @@ export class MultiPolygon extends MultiSurface<Polygon> {
     for (const polygon of this.polygons) {
       multiPolygonCopy.addPolygon(polygon.copy());
     }
+    multiPolygonCopy.srid = this.srid;
     return multiPolygonCopy;
   }
 }
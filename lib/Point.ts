@@ -176,6 +176,7 @@ export class Point extends Geometry {
     pointCopy.y = this.y;
     pointCopy.z = this.z;
     pointCopy.m = this.m;
+    pointCopy.srid = this.srid;
     return pointCopy;
   }
 
@@ -183,7 +184,7 @@ export class Point extends Geometry {
    * {@inheritDoc}
    */
   public isEmpty(): boolean {
-    return false;
+    return Number.isNaN(this.x) && Number.isNaN(this.y);
   }
 
   /**
@@ -200,10 +201,25 @@ export class Point extends Geometry {
     return (
       super.equals(obj) &&
       obj instanceof Point &&
-      this.m === obj.m &&
-      this.z === obj.z &&
-      this.x === obj.x &&
-      this.y === obj.y
+      Point.equalValues(this.m, obj.m) &&
+      Point.equalValues(this.z, obj.z) &&
+      Point.equalValues(this.x, obj.x) &&
+      Point.equalValues(this.y, obj.y)
     );
   }
+
+  /**
+   * Determine if two coordinate values are equal, where NaN values (used by
+   * empty points) are equal to each other
+   * @param value1 value 1
+   * @param value2 value 2
+   * @returns true if equal
+   */
+  private static equalValues(
+    value1: number | undefined,
+    value2: number | undefined,
+  ): boolean {
+    return value1 === value2 ||
+      (Number.isNaN(value1) && Number.isNaN(value2));
+  }
 }
@@ -69,6 +69,7 @@ export class Polygon extends CurvePolygon<LineString> {
     for (const ring of this.rings) {
       polygonCopy.addRing(ring.copy());
     }
+    polygonCopy.srid = this.srid;
     return polygonCopy;
   }
 
@@ -1,10 +1,5 @@
 import type { Polygon } from "./internal.ts";
-import {
-  Geometry,
-  GeometryType,
-  Surface,
-  UnsupportedOperationException,
-} from "./internal.ts";
+import { Geometry, GeometryType, IsSimpleOp, Surface } from "./internal.ts";
 
 /**
  * Contiguous collection of polygons which share common boundary segments.
@@ -193,6 +188,7 @@ export class PolyhedralSurface extends Surface {
     for (const polygon of this.polygons) {
       polyhedralSurfaceCopy.addPolygon(polygon.copy());
     }
+    polyhedralSurfaceCopy.srid = this.srid;
     return polyhedralSurfaceCopy;
   }
 
@@ -207,9 +203,7 @@ export class PolyhedralSurface extends Surface {
    * {@inheritDoc}
    */
   public isSimple(): boolean {
-    throw new UnsupportedOperationException(
-      "Is Simple not implemented for PolyhedralSurface",
-    );
+    return IsSimpleOp.isSimple(this);
   }
 
   /**
@@ -218,6 +212,7 @@ export class PolyhedralSurface extends Surface {
   public equals(obj: PolyhedralSurface): boolean {
     let equal = true;
     if (
+      super.equals(obj) &&
       obj instanceof PolyhedralSurface &&
       this.numPatches() === obj.numPatches()
     ) {
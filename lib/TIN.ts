@@ -62,6 +62,7 @@ export class TIN extends PolyhedralSurface {
     for (const polygon of this.polygons) {
       tinCopy.addPolygon(polygon.copy());
     }
+    tinCopy.srid = this.srid;
     return tinCopy;
   }
 }
@@ -56,6 +56,7 @@ export class Triangle extends Polygon {
     for (const ring of this.rings) {
       newTriangle.addRing(ring.copy());
     }
+    newTriangle.srid = this.srid;
     return newTriangle;
   }
 }
@@ -125,6 +125,7 @@ export class ExtendedGeometryCollection<T extends Geometry = Geometry>
     }
     extendedGeometryCollectionCopy._editableGeometryType =
       this._editableGeometryType;
+    extendedGeometryCollectionCopy.srid = this.srid;
     return extendedGeometryCollectionCopy;
   }
 
@@ -136,7 +137,8 @@ export class ExtendedGeometryCollection<T extends Geometry = Geometry>
   ): boolean {
     return (
       obj instanceof ExtendedGeometryCollection &&
-      this.geometryType === obj.geometryType
+      this.geometryType === obj.geometryType &&
+      super.equals(obj)
     );
   }
 }
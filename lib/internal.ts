@@ -65,6 +65,27 @@ export * from "./util/centroid/DegreesCentroid.ts";
 export * from "./util/centroid/CentroidCurve.ts";
 export * from "./util/centroid/CentroidSurface.ts";
 
+/**
+ * Measure
+ */
+export * from "./util/measure/GeometryMeasure.ts";
+export * from "./util/measure/GeometryDistance.ts";
+
+/**
+ * Geodesic
+ */
+export * from "./util/geodesic/Ellipsoid.ts";
+export * from "./util/geodesic/GeodesicInverse.ts";
+export * from "./util/geodesic/GeodesicDirect.ts";
+export * from "./util/geodesic/Geodesic.ts";
+export * from "./util/geodesic/GeodesicMeasure.ts";
+
+/**
+ * Navigation
+ */
+export * from "./util/navigation/GreatCircle.ts";
+export * from "./util/navigation/RhumbLine.ts";
+
 /**
  * Geometry Envelope
  */
@@ -77,6 +98,101 @@ export * from "./util/GeometryEnvelopeBuilder.ts";
 export * from "./util/GeometryPrinter.ts";
 export * from "./util/serialize/GeometrySerializer.ts";
 
+/**
+ * Well-Known Text
+ */
+export * from "./util/wkt/TextReader.ts";
+export * from "./util/wkt/WKTReader.ts";
+export * from "./util/wkt/WKTWriter.ts";
+
+/**
+ * Well-Known Binary
+ */
+export * from "./util/wkb/ByteOrder.ts";
+export * from "./util/wkb/ByteReader.ts";
+export * from "./util/wkb/ByteWriter.ts";
+export * from "./util/wkb/GeometryTypeInfo.ts";
+export * from "./util/wkb/GeometryCodes.ts";
+export * from "./util/wkb/WKBReader.ts";
+export * from "./util/wkb/WKBWriter.ts";
+
+/**
+ * Curve
+ */
+export * from "./util/curve/CurveLinearizer.ts";
+
+/**
+ * GeoJSON
+ */
+export * from "./util/geojson/GeoJSONTypes.ts";
+export * from "./util/geojson/Feature.ts";
+export * from "./util/geojson/UnsupportedTypePolicy.ts";
+export * from "./util/geojson/GeoJSONWriter.ts";
+export * from "./util/geojson/GeoJSONReader.ts";
+
+/**
+ * Algorithm
+ */
+export * from "./util/algorithm/Location.ts";
+export * from "./util/algorithm/SegmentUtils.ts";
+export * from "./util/algorithm/GeometryComponents.ts";
+export * from "./util/algorithm/PointLocator.ts";
+
+/**
+ * Relate
+ */
+export * from "./util/relate/Dimension.ts";
+export * from "./util/relate/IntersectionMatrix.ts";
+export * from "./util/relate/RelateOp.ts";
+
+/**
+ * Overlay
+ */
+export * from "./util/overlay/OverlayType.ts";
+export * from "./util/overlay/OverlayGraph.ts";
+export * from "./util/overlay/OverlayOp.ts";
+
+/**
+ * Clip
+ */
+export * from "./util/clip/GeometryClipper.ts";
+export * from "./util/clip/RectangleClipper.ts";
+export * from "./util/clip/PolygonClipper.ts";
+export * from "./util/clip/AntimeridianCutter.ts";
+
+/**
+ * Buffer
+ */
+export * from "./util/buffer/BufferCapStyle.ts";
+export * from "./util/buffer/BufferJoinStyle.ts";
+export * from "./util/buffer/BufferOptions.ts";
+export * from "./util/buffer/OffsetCurveBuilder.ts";
+export * from "./util/buffer/BufferOp.ts";
+
+/**
+ * Triangulate
+ */
+export * from "./util/triangulate/DelaunayTriangulator.ts";
+export * from "./util/triangulate/DelaunayTriangulation.ts";
+export * from "./util/triangulate/VoronoiDiagramBuilder.ts";
+export * from "./util/triangulate/TriangulationArrays.ts";
+export * from "./util/triangulate/PolygonTriangulator.ts";
+
+/**
+ * Hull
+ */
+export * from "./util/hull/ConvexHull.ts";
+export * from "./util/hull/ConcaveHull.ts";
+
+/**
+ * Validation
+ */
+export * from "./util/valid/ValidationErrorType.ts";
+export * from "./util/valid/ValidationError.ts";
+export * from "./util/valid/GeometryValidator.ts";
+export * from "./util/valid/MakeValidOp.ts";
+export * from "./util/valid/IsSimpleOp.ts";
+
 /**
  * Sweep
  */
@@ -87,12 +203,50 @@ export * from "./util/sweep/EventQueue.ts";
 export * from "./util/sweep/Segment.ts";
 export * from "./util/sweep/ShamosHoey.ts";
 
+/**
+ * Segment Intersection
+ */
+export * from "./util/sweep/SegmentIntersectionType.ts";
+export * from "./util/sweep/SegmentIntersection.ts";
+export * from "./util/sweep/SegmentIntersector.ts";
+
 /**
  * Geometry Utils
  */
 export * from "./util/GeometryUtils.ts";
 export * from "./util/GeometryConstants.ts";
 
+/**
+ * Traverse
+ */
+export * from "./util/traverse/GeometryCoordinate.ts";
+export * from "./util/traverse/GeometryVisitor.ts";
+export * from "./util/traverse/GeometryTraversal.ts";
+
+/**
+ * Transform
+ */
+export * from "./util/transform/Projection.ts";
+export * from "./util/transform/GeographicProjection.ts";
+export * from "./util/transform/WebMercatorProjection.ts";
+export * from "./util/transform/TransverseMercatorProjection.ts";
+export * from "./util/transform/PolarStereographicProjection.ts";
+export * from "./util/transform/LambertConformalConicProjection.ts";
+export * from "./util/transform/CoordinateTransform.ts";
+export * from "./util/transform/ProjectionTransform.ts";
+export * from "./util/transform/CoordinateTransforms.ts";
+export * from "./util/transform/AffineTransformation.ts";
+
+/**
+ * Index
+ */
+export * from "./util/index/PriorityQueue.ts";
+export * from "./util/index/RTreeEntry.ts";
+export * from "./util/index/RTree.ts";
+export * from "./util/index/PointIndex.ts";
+export * from "./util/index/KdTree.ts";
+export * from "./util/index/Quadtree.ts";
+
 /**
  * Union of all geometry types
  */
@@ -73,4 +73,9 @@ export class GeometryConstants {
    * Degrees to Radians conversion
    */
   public static readonly DEGREES_TO_RADIANS = Math.PI / 180.0;
+
+  /**
+   * Mean earth radius in meters, used for spherical navigation
+   */
+  public static readonly EARTH_MEAN_RADIUS: number = 6371008.8;
 }
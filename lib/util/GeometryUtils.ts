@@ -1,31 +1,45 @@
 import type {
   Curve,
+  Geodesic,
   Geometry,
   GeometryUnion,
   TIN,
   Triangle,
+  TriangulationArrays,
 } from "../internal.ts";
 import {
+  AntimeridianCutter,
   CentroidCurve,
   CentroidPoint,
   CentroidSurface,
   CircularString,
   CompoundCurve,
+  ConcaveHull,
+  ConvexHull,
+  CoordinateTransforms,
   CurvePolygon,
   DegreesCentroid,
+  DelaunayTriangulation,
+  GeodesicMeasure,
   GeometryCollection,
   GeometryConstants,
+  GeometryDistance,
   GeometryEnvelope,
+  GeometryMeasure,
   GeometryType,
   Line,
   LineString,
+  MakeValidOp,
   MultiLineString,
   MultiPoint,
   MultiPolygon,
   Point,
   Polygon,
+  PolygonTriangulator,
   PolyhedralSurface,
+  RectangleClipper,
   SFException,
+  VoronoiDiagramBuilder,
 } from "../internal.ts";
 
 /**
@@ -285,6 +299,108 @@ export class GeometryUtils {
     return DegreesCentroid.getCentroid(geometry);
   }
 
+  /**
+   * Get the planar area of the geometry, with circular segment areas for
+   * arcs and surface areas for polyhedral surfaces. Points and curves have
+   * no area.
+   *
+   * @param geometry geometry
+   * @returns area
+   * @see GeometryMeasure
+   */
+  public static getArea(geometry: Geometry): number {
+    return GeometryMeasure.getArea(geometry);
+  }
+
+  /**
+   * Get the planar minimum distance between two geometries, zero when they
+   * intersect. Curves are linearized.
+   *
+   * @param geometry1 first geometry
+   * @param geometry2 second geometry
+   * @returns distance, infinity when either geometry is empty
+   * @see GeometryDistance
+   */
+  public static getDistance(geometry1: Geometry, geometry2: Geometry): number {
+    return GeometryDistance.getDistance(geometry1, geometry2);
+  }
+
+  /**
+   * Get the length of the geometry curves, with true arc lengths for
+   * circular strings. Points and surfaces have no length.
+   *
+   * @param geometry geometry
+   * @param use3D true to include z coordinate changes when present
+   * @returns length
+   * @see GeometryMeasure
+   */
+  public static getLength(geometry: Geometry, use3D = false): number {
+    return GeometryMeasure.getLength(geometry, use3D);
+  }
+
+  /**
+   * Get the perimeter of the geometry surfaces, the length of their rings.
+   * Points and curves have no perimeter.
+   *
+   * @param geometry geometry
+   * @param use3D true to include z coordinate changes when present
+   * @returns perimeter
+   * @see GeometryMeasure
+   */
+  public static getPerimeter(geometry: Geometry, use3D = false): number {
+    return GeometryMeasure.getPerimeter(geometry, use3D);
+  }
+
+  /**
+   * Get the geodesic area of the geometry surfaces on an ellipsoid, with x
+   * longitudes and y latitudes in degrees. Points and curves have no area.
+   *
+   * @param geometry geometry
+   * @param geodesic geodesic ellipsoid calculations, WGS84 by default
+   * @returns area in square meters
+   * @see GeodesicMeasure
+   */
+  public static getGeodesicArea(
+    geometry: Geometry,
+    geodesic?: Geodesic,
+  ): number {
+    return GeodesicMeasure.getArea(geometry, geodesic);
+  }
+
+  /**
+   * Get the geodesic length of the geometry curves on an ellipsoid, with x
+   * longitudes and y latitudes in degrees. Points and surfaces have no
+   * length.
+   *
+   * @param geometry geometry
+   * @param geodesic geodesic ellipsoid calculations, WGS84 by default
+   * @returns length in meters
+   * @see GeodesicMeasure
+   */
+  public static getGeodesicLength(
+    geometry: Geometry,
+    geodesic?: Geodesic,
+  ): number {
+    return GeodesicMeasure.getLength(geometry, geodesic);
+  }
+
+  /**
+   * Get the geodesic perimeter of the geometry surfaces on an ellipsoid, with
+   * x longitudes and y latitudes in degrees. Points and curves have no
+   * perimeter.
+   *
+   * @param geometry geometry
+   * @param geodesic geodesic ellipsoid calculations, WGS84 by default
+   * @returns perimeter in meters
+   * @see GeodesicMeasure
+   */
+  public static getGeodesicPerimeter(
+    geometry: Geometry,
+    geodesic?: Geodesic,
+  ): number {
+    return GeodesicMeasure.getPerimeter(geometry, geodesic);
+  }
+
   /**
    * Minimize the WGS84 geometry using the shortest x distance between each
    * connected set of points. Resulting x values will be in the range: -540.0
@@ -538,6 +654,32 @@ export class GeometryUtils {
     }
   }
 
+  /**
+   * Cut the WGS84 geometry where it crosses the antimeridian, connecting
+   * points across the shortest x distance. Points are wrapped, crossing lines
+   * become multi line strings and crossing polygons become multi polygons,
+   * all with x values in the range: -180.0 &lt;= x &lt;= 180.0
+   *
+   * @param geometry geometry in degrees
+   * @returns cut geometry or undefined when empty
+   * @see AntimeridianCutter
+   */
+  public static cutAntimeridian(geometry: Geometry): Geometry | undefined {
+    return new AntimeridianCutter().cut(geometry);
+  }
+
+  /**
+   * Merge the WGS84 geometry parts cut at the antimeridian, the inverse of
+   * {@link GeometryUtils#cutAntimeridian}
+   *
+   * @param geometry cut geometry in degrees
+   * @returns merged geometry
+   * @see AntimeridianCutter
+   */
+  public static mergeAntimeridian(geometry: Geometry): Geometry {
+    return new AntimeridianCutter().merge(geometry);
+  }
+
   /**
    * Normalize the WGS84 geometry using the shortest x distance between each
    * connected set of points. Resulting x values will be in the range: -180.0
@@ -1479,6 +1621,24 @@ export class GeometryUtils {
     return intersection;
   }
 
+  /**
+   * Transform the geometry from the source to the target spatial reference
+   * system, keeping z and m values
+   *
+   * @param geometry geometry
+   * @param sourceSrid source spatial reference system id
+   * @param targetSrid target spatial reference system id
+   * @returns transformed geometry
+   * @see CoordinateTransforms
+   */
+  public static transform(
+    geometry: Geometry,
+    sourceSrid: number,
+    targetSrid: number,
+  ): Geometry {
+    return CoordinateTransforms.transform(geometry, sourceSrid, targetSrid);
+  }
+
   /**
    * Convert a geometry in degrees to a geometry in meters
    *
@@ -2214,111 +2374,144 @@ export class GeometryUtils {
   }
 
   /**
-   * Crop the geometry in meters by the envelope bounds in meters. Cropping
-   * removes points outside the envelope and creates new points on the line
-   * intersections with the envelope.
+   * Crop the geometry by the envelope bounds. Cropping removes points outside
+   * the envelope and creates new points on the line intersections with the
+   * envelope, interpolating z and m values. The envelope may be in any
+   * coordinate reference system matching the geometry.
    *
-   * @param geometry geometry in meters
-   * @param envelope envelope in meters
-   * @returnscropped geometry in meters or undefined
+   * @param geometry geometry
+   * @param envelope envelope
+   * @returnscropped geometry or undefined
    * @since 1.1.1
+   * @see RectangleClipper
    */
   public static crop(
     geometry: Geometry,
     envelope: GeometryEnvelope,
   ): Geometry | undefined {
-    let crop: Geometry | undefined;
+    return new RectangleClipper(envelope).clip(geometry);
+  }
 
-    if (
-      GeometryUtils.containsGeometryEnvelope(envelope, geometry.getEnvelope())
-    ) {
-      crop = geometry;
-    } else {
-      switch (geometry.geometryType) {
-        case GeometryType.Point: {
-          crop = GeometryUtils.cropPoint(geometry as Point, envelope);
-          break;
-        }
-        case GeometryType.LineString: {
-          crop = GeometryUtils.cropLineString(geometry as LineString, envelope);
-          break;
-        }
-        case GeometryType.Polygon: {
-          crop = GeometryUtils.cropPolygon(geometry as Polygon, envelope);
-          break;
-        }
-        case GeometryType.MultiPoint: {
-          crop = GeometryUtils.cropMultiPoint(geometry as MultiPoint, envelope);
-          break;
-        }
-        case GeometryType.MultiLineString: {
-          crop = GeometryUtils.cropMultiLineString(
-            geometry as MultiLineString,
-            envelope,
-          );
-          break;
-        }
-        case GeometryType.MultiPolygon: {
-          crop = GeometryUtils.cropMultiPolygon(
-            geometry as MultiPolygon,
-            envelope,
-          );
-          break;
-        }
-        case GeometryType.CircularString: {
-          crop = GeometryUtils.cropCircularString(
-            geometry as CircularString,
-            envelope,
-          );
-          break;
-        }
-        case GeometryType.CompoundCurve: {
-          crop = GeometryUtils.cropCompoundCurve(
-            geometry as CompoundCurve,
-            envelope,
-          );
-          break;
-        }
-        case GeometryType.CurvePolygon: {
-          const curvePolygon = geometry as CurvePolygon;
-          crop = GeometryUtils.cropCurvePolygon(curvePolygon, envelope);
-          break;
-        }
-        case GeometryType.PolyhedralSurface: {
-          crop = GeometryUtils.cropPolyhedralSurface(
-            geometry as PolyhedralSurface,
-            envelope,
-          );
-          break;
-        }
-        case GeometryType.Tin: {
-          crop = GeometryUtils.cropPolyhedralSurface(geometry as TIN, envelope);
-          break;
-        }
-        case GeometryType.Triangle: {
-          crop = GeometryUtils.cropPolygon(geometry as Triangle, envelope);
-          break;
-        }
-        case GeometryType.GeometryCollection:
-        case GeometryType.MultiCurve:
-        case GeometryType.MultiSurface: {
-          const cropCollection = GeometryCollection.create();
-          const geomCollection = geometry as GeometryCollection;
-          for (const subGeometry of geomCollection.geometries) {
-            const subCrop = GeometryUtils.crop(subGeometry, envelope);
-            if (subCrop) {
-              cropCollection.addGeometry(subCrop);
-            }
-          }
-          crop = cropCollection;
-          break;
-        }
-        default:
-          break;
-      }
-    }
+  /**
+   * Get the convex hull of every vertex of the geometry
+   *
+   * @param geometry geometry
+   * @returns empty polygon, point, line string or polygon
+   * @see ConvexHull
+   */
+  public static convexHull(geometry: Geometry): Geometry {
+    return ConvexHull.hull(geometry);
+  }
 
-    return crop;
+  /**
+   * Get the concave hull of every vertex of the geometry. The length ratio
+   * from 0 to 1 sets the longest hull edge between the shortest and the
+   * longest Delaunay triangulation edges, 1 giving the convex hull.
+   *
+   * @param geometry geometry
+   * @param lengthRatio edge length ratio
+   * @param allowHoles true to allow holes
+   * @returns empty polygon, point, line string or polygon
+   * @see ConcaveHull
+   */
+  public static concaveHull(
+    geometry: Geometry,
+    lengthRatio: number,
+    allowHoles = false,
+  ): Geometry {
+    return ConcaveHull.hull(geometry, lengthRatio, allowHoles);
+  }
+
+  /**
+   * Get the Delaunay triangulation of every vertex of the geometry
+   *
+   * @param geometry geometry
+   * @returns TIN of triangles, empty when the vertices are collinear
+   * @see DelaunayTriangulation
+   */
+  public static delaunayTriangulation(geometry: Geometry): TIN {
+    return DelaunayTriangulation.triangulate(geometry);
+  }
+
+  /**
+   * Get the constrained Delaunay triangulation of every vertex of the
+   * geometry and constraint geometry, honoring the constraint line and
+   * polygon ring segments
+   *
+   * @param geometry geometry
+   * @param constraints constraint lines and polygons
+   * @param clipToPolygons true to keep only the triangles within the
+   *        constraint polygons and outside their holes
+   * @returns TIN of triangles, empty when the vertices are collinear
+   * @see DelaunayTriangulation
+   */
+  public static constrainedDelaunayTriangulation(
+    geometry: Geometry,
+    constraints: Geometry,
+    clipToPolygons = false,
+  ): TIN {
+    return DelaunayTriangulation.triangulateConstrained(
+      geometry,
+      constraints,
+      clipToPolygons,
+    );
+  }
+
+  /**
+   * Get the Voronoi diagram of every vertex of the geometry
+   *
+   * @param geometry geometry
+   * @param envelope clipping envelope, defaults to the vertex envelope
+   *        expanded by a margin
+   * @returns geometry collection of cell polygons in the order of the unique
+   *          vertices
+   * @see VoronoiDiagramBuilder
+   */
+  public static voronoiDiagram(
+    geometry: Geometry,
+    envelope?: GeometryEnvelope,
+  ): GeometryCollection {
+    return new VoronoiDiagramBuilder(geometry, envelope).getDiagram();
+  }
+
+  /**
+   * Triangulate the polygons of the geometry, including holes, by ear
+   * clipping
+   *
+   * @param geometry polygonal geometry
+   * @returns TIN of counter clockwise triangles
+   * @see PolygonTriangulator
+   */
+  public static triangulatePolygon(geometry: Geometry): TIN {
+    return PolygonTriangulator.triangulate(geometry);
+  }
+
+  /**
+   * Triangulate the polygons of the geometry, including holes, by ear
+   * clipping into flat vertex and index arrays for rendering
+   *
+   * @param geometry polygonal geometry
+   * @returns vertex and triangle index arrays
+   * @see PolygonTriangulator
+   */
+  public static triangulatePolygonArrays(
+    geometry: Geometry,
+  ): TriangulationArrays {
+    return PolygonTriangulator.triangulateToArrays(geometry);
+  }
+
+  /**
+   * Make the geometry valid, keeping all of its area. Self intersecting
+   * polygons are split, overlapping polygons dissolved, consecutive duplicate
+   * points dropped, rings closed and reoriented, stray holes moved and
+   * collapsed polygons and holes returned as lines or points
+   *
+   * @param geometry geometry
+   * @returns valid geometry
+   * @see MakeValidOp
+   */
+  public static makeValid(geometry: Geometry): Geometry {
+    return MakeValidOp.makeValid(geometry);
   }
 
   /**
@@ -2350,6 +2543,9 @@ export class GeometryUtils {
    * @param envelope envelope in meters
    * @returnscropped points in meters or empty array
    * @since 1.1.1
+   * @deprecated intersections are found from web mercator bearings, use
+   *             {@link RectangleClipper} to clip in any coordinate reference
+   *             system
    */
   public static cropPoints(
     points: Point[],
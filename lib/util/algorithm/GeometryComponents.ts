@@ -0,0 +1,299 @@
+import type {
+  Geometry,
+  GeometryCollection,
+  LineString,
+  MultiPoint,
+  Point,
+  Polygon,
+  PolyhedralSurface,
+} from "../../internal.ts";
+import { CurveLinearizer, GeometryType, SFException } from "../../internal.ts";
+
+/**
+ * Decomposition of a geometry into its non empty points, line point lists
+ * and polygon ring point lists. Curves are linearized, consecutive duplicate
+ * points removed and polygon rings closed.
+ */
+export class GeometryComponents {
+  /**
+   * Points
+   */
+  private readonly _points: Point[] = [];
+
+  /**
+   * Lines, each with at least two distinct points
+   */
+  private readonly _lines: Point[][] = [];
+
+  /**
+   * Polygons, each a list of closed rings with the exterior ring first
+   */
+  private readonly _polygons: Point[][][] = [];
+
+  /**
+   * Constructor
+   * @param geometry geometry
+   */
+  public constructor(geometry: Geometry) {
+    this.add(CurveLinearizer.linearize(geometry));
+  }
+
+  /**
+   * Get the points
+   * @returns points
+   */
+  public get points(): Point[] {
+    return this._points;
+  }
+
+  /**
+   * Get the lines
+   * @returns lines
+   */
+  public get lines(): Point[][] {
+    return this._lines;
+  }
+
+  /**
+   * Get the polygons
+   * @returns polygons of rings
+   */
+  public get polygons(): Point[][][] {
+    return this._polygons;
+  }
+
+  /**
+   * Determine if there are no components
+   * @returns true if empty
+   */
+  public isEmpty(): boolean {
+    return this._points.length === 0 && this._lines.length === 0 &&
+      this._polygons.length === 0;
+  }
+
+  /**
+   * Get the highest dimension of the components
+   * @returns 2 for polygons, 1 for lines, 0 for points, -1 when empty
+   */
+  public getDimension(): number {
+    let dimension = -1;
+    if (this._polygons.length > 0) {
+      dimension = 2;
+    } else if (this._lines.length > 0) {
+      dimension = 1;
+    } else if (this._points.length > 0) {
+      dimension = 0;
+    }
+    return dimension;
+  }
+
+  /**
+   * Get all component segments as start and end point pairs
+   * @returns segments
+   */
+  public getSegments(): [Point, Point][] {
+    const segments: [Point, Point][] = [];
+    for (const line of this._lines) {
+      GeometryComponents.addSegments(line, segments);
+    }
+    for (const polygon of this._polygons) {
+      for (const ring of polygon) {
+        GeometryComponents.addSegments(ring, segments);
+      }
+    }
+    return segments;
+  }
+
+  /**
+   * Get every vertex of a geometry, including those of degenerate lines and
+   * polygons. Curves are linearized.
+   * @param geometry geometry
+   * @returns vertices
+   */
+  public static getVertices(geometry: Geometry): Point[] {
+    const vertices: Point[] = [];
+    GeometryComponents.addVertices(
+      CurveLinearizer.linearize(geometry),
+      vertices,
+    );
+    return vertices;
+  }
+
+  /**
+   * Add the vertices of a linear geometry
+   * @param geometry geometry
+   * @param vertices vertices
+   */
+  private static addVertices(geometry: Geometry, vertices: Point[]): void {
+    switch (geometry.geometryType) {
+      case GeometryType.Point: {
+        if (!geometry.isEmpty()) {
+          vertices.push(geometry as Point);
+        }
+        break;
+      }
+      case GeometryType.LineString: {
+        vertices.push(...(geometry as LineString).points);
+        break;
+      }
+      case GeometryType.Polygon:
+      case GeometryType.Triangle: {
+        for (const ring of (geometry as Polygon).rings) {
+          vertices.push(...ring.points);
+        }
+        break;
+      }
+      case GeometryType.MultiPoint: {
+        for (const point of (geometry as MultiPoint).points) {
+          GeometryComponents.addVertices(point, vertices);
+        }
+        break;
+      }
+      case GeometryType.MultiLineString:
+      case GeometryType.MultiPolygon:
+      case GeometryType.GeometryCollection:
+      case GeometryType.MultiCurve:
+      case GeometryType.MultiSurface: {
+        for (const child of (geometry as GeometryCollection).geometries) {
+          GeometryComponents.addVertices(child, vertices);
+        }
+        break;
+      }
+      case GeometryType.PolyhedralSurface:
+      case GeometryType.Tin: {
+        for (const polygon of (geometry as PolyhedralSurface).polygons) {
+          GeometryComponents.addVertices(polygon, vertices);
+        }
+        break;
+      }
+      default:
+        throw new SFException(
+          `Unsupported Geometry Type: ${geometry.geometryType}`,
+        );
+    }
+  }
+
+  /**
+   * Add the segments of a point list
+   * @param points points
+   * @param segments segments
+   */
+  private static addSegments(
+    points: Point[],
+    segments: [Point, Point][],
+  ): void {
+    for (let i = 1; i < points.length; i++) {
+      segments.push([points[i - 1], points[i]]);
+    }
+  }
+
+  /**
+   * Add a linear geometry
+   * @param geometry geometry
+   */
+  private add(geometry: Geometry): void {
+    switch (geometry.geometryType) {
+      case GeometryType.Point: {
+        if (!geometry.isEmpty()) {
+          this._points.push(geometry as Point);
+        }
+        break;
+      }
+      case GeometryType.LineString: {
+        this.addLine((geometry as LineString).points);
+        break;
+      }
+      case GeometryType.Polygon:
+      case GeometryType.Triangle: {
+        this.addPolygon(geometry as Polygon);
+        break;
+      }
+      case GeometryType.MultiPoint: {
+        for (const point of (geometry as MultiPoint).points) {
+          this.add(point);
+        }
+        break;
+      }
+      case GeometryType.MultiLineString:
+      case GeometryType.MultiPolygon:
+      case GeometryType.GeometryCollection:
+      case GeometryType.MultiCurve:
+      case GeometryType.MultiSurface: {
+        for (const child of (geometry as GeometryCollection).geometries) {
+          this.add(child);
+        }
+        break;
+      }
+      case GeometryType.PolyhedralSurface:
+      case GeometryType.Tin: {
+        for (const polygon of (geometry as PolyhedralSurface).polygons) {
+          this.addPolygon(polygon);
+        }
+        break;
+      }
+      default:
+        throw new SFException(
+          `Unsupported Geometry Type: ${geometry.geometryType}`,
+        );
+    }
+  }
+
+  /**
+   * Add a line, or a point when the line has a single distinct point
+   * @param points line points
+   */
+  private addLine(points: Point[]): void {
+    const line = GeometryComponents.removeDuplicates(points);
+    if (line.length > 1) {
+      this._lines.push(line);
+    } else if (line.length === 1) {
+      this._points.push(line[0]);
+    }
+  }
+
+  /**
+   * Add a polygon, skipping degenerate rings and polygons with a degenerate
+   * exterior ring
+   * @param polygon polygon
+   */
+  private addPolygon(polygon: Polygon): void {
+    const rings: Point[][] = [];
+    for (const ring of polygon.rings) {
+      const points = GeometryComponents.removeDuplicates(ring.points);
+      if (
+        points.length > 1 &&
+        (points[0].x !== points[points.length - 1].x ||
+          points[0].y !== points[points.length - 1].y)
+      ) {
+        points.push(points[0]);
+      }
+      if (points.length >= 4) {
+        rings.push(points);
+      } else if (rings.length === 0) {
+        break;
+      }
+    }
+    if (rings.length > 0) {
+      this._polygons.push(rings);
+    }
+  }
+
+  /**
+   * Remove consecutive duplicate points
+   * @param points points
+   * @returns points without consecutive duplicates
+   */
+  private static removeDuplicates(points: Point[]): Point[] {
+    const result: Point[] = [];
+    for (const point of points) {
+      const previous = result[result.length - 1];
+      if (
+        previous === undefined || previous.x !== point.x ||
+        previous.y !== point.y
+      ) {
+        result.push(point);
+      }
+    }
+    return result;
+  }
+}
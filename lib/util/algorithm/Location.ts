@@ -0,0 +1,19 @@
+/**
+ * Topological location of a point relative to a geometry
+ */
+export enum Location {
+  /**
+   * Interior of the geometry
+   */
+  Interior = 0,
+
+  /**
+   * Boundary of the geometry
+   */
+  Boundary = 1,
+
+  /**
+   * Exterior of the geometry
+   */
+  Exterior = 2,
+}
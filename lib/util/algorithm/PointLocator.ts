@@ -0,0 +1,202 @@
+import type { Geometry, Point } from "../../internal.ts";
+import { GeometryComponents, Location, SegmentUtils } from "../../internal.ts";
+
+/**
+ * Locates points in the interior, boundary or exterior of a geometry within a
+ * distance tolerance. Polygon interiors take precedence over lines and points,
+ * and line boundaries are determined by the mod 2 rule, where end points shared
+ * by an odd number of lines are on the boundary.
+ */
+export class PointLocator {
+  /**
+   * Geometry components
+   */
+  private readonly _components: GeometryComponents;
+
+  /**
+   * Distance tolerance
+   */
+  private readonly _epsilon: number;
+
+  /**
+   * Line boundary points
+   */
+  private readonly _boundaryPoints: Point[] = [];
+
+  /**
+   * Constructor
+   * @param geometry geometry or geometry components
+   * @param epsilon distance tolerance
+   */
+  public constructor(
+    geometry: Geometry | GeometryComponents,
+    epsilon: number,
+  ) {
+    this._components = geometry instanceof GeometryComponents
+      ? geometry
+      : new GeometryComponents(geometry);
+    this._epsilon = epsilon;
+
+    const endPoints = new Map<string, [Point, number]>();
+    for (const line of this._components.lines) {
+      const start = line[0];
+      const end = line[line.length - 1];
+      if (start.x !== end.x || start.y !== end.y) {
+        for (const point of [start, end]) {
+          const key = `${point.x},${point.y}`;
+          const entry = endPoints.get(key);
+          if (entry === undefined) {
+            endPoints.set(key, [point, 1]);
+          } else {
+            entry[1]++;
+          }
+        }
+      }
+    }
+    for (const [point, count] of endPoints.values()) {
+      if (count % 2 === 1) {
+        this._boundaryPoints.push(point);
+      }
+    }
+  }
+
+  /**
+   * Get the geometry components
+   * @returns geometry components
+   */
+  public get components(): GeometryComponents {
+    return this._components;
+  }
+
+  /**
+   * Get the line boundary points
+   * @returns boundary points
+   */
+  public get boundaryPoints(): Point[] {
+    return this._boundaryPoints;
+  }
+
+  /**
+   * Locate the point
+   * @param point point
+   * @returns location
+   */
+  public locate(point: Point): Location {
+    let location = this.locateArea(point);
+    if (location === Location.Exterior) {
+      if (
+        this._boundaryPoints.some((boundaryPoint) =>
+          SegmentUtils.distance(point, boundaryPoint) <= this._epsilon
+        )
+      ) {
+        location = Location.Boundary;
+      } else if (
+        this._components.lines.some((line) => this.onPath(point, line)) ||
+        this._components.points.some((other) =>
+          SegmentUtils.distance(point, other) <= this._epsilon
+        )
+      ) {
+        location = Location.Interior;
+      }
+    }
+    return location;
+  }
+
+  /**
+   * Locate the point relative to the polygons only
+   * @param point point
+   * @returns location
+   */
+  public locateArea(point: Point): Location {
+    let location = Location.Exterior;
+    for (const polygon of this._components.polygons) {
+      const polygonLocation = this.locatePolygon(point, polygon);
+      if (polygonLocation === Location.Interior) {
+        location = Location.Interior;
+        break;
+      } else if (polygonLocation === Location.Boundary) {
+        location = Location.Boundary;
+      }
+    }
+    return location;
+  }
+
+  /**
+   * Locate the point relative to a polygon
+   * @param point point
+   * @param rings closed polygon rings, exterior ring first
+   * @returns location
+   */
+  public locatePolygon(point: Point, rings: Point[][]): Location {
+    let location = this.locateRing(point, rings[0]);
+    if (location === Location.Interior) {
+      for (let i = 1; i < rings.length; i++) {
+        const holeLocation = this.locateRing(point, rings[i]);
+        if (holeLocation === Location.Boundary) {
+          location = Location.Boundary;
+          break;
+        } else if (holeLocation === Location.Interior) {
+          location = Location.Exterior;
+          break;
+        }
+      }
+    }
+    return location;
+  }
+
+  /**
+   * Locate the point relative to the area enclosed by a ring
+   * @param point point
+   * @param ring closed ring
+   * @returns location
+   */
+  public locateRing(point: Point, ring: Point[]): Location {
+    if (this.onPath(point, ring)) {
+      return Location.Boundary;
+    }
+    return PointLocator.isInRing(point, ring)
+      ? Location.Interior
+      : Location.Exterior;
+  }
+
+  /**
+   * Determine if a point is inside a ring using ray casting, without a
+   * boundary tolerance
+   * @param point point
+   * @param ring closed ring
+   * @returns true if inside
+   */
+  public static isInRing(point: Point, ring: Point[]): boolean {
+    let inside = false;
+    for (let i = 1; i < ring.length; i++) {
+      const point1 = ring[i - 1];
+      const point2 = ring[i];
+      if (
+        (point1.y > point.y) !== (point2.y > point.y) &&
+        point.x <
+          ((point2.x - point1.x) * (point.y - point1.y)) /
+                (point2.y - point1.y) + point1.x
+      ) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  /**
+   * Determine if the point is on a path of points
+   * @param point point
+   * @param path path points
+   * @returns true if on the path
+   */
+  private onPath(point: Point, path: Point[]): boolean {
+    for (let i = 1; i < path.length; i++) {
+      if (
+        SegmentUtils.pointOnSegment(point, path[i - 1], path[i], this._epsilon)
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
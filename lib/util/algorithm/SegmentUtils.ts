@@ -0,0 +1,233 @@
+import { Point } from "../../internal.ts";
+
+/**
+ * Line segment computations using a distance tolerance
+ */
+export class SegmentUtils {
+  /**
+   * Get the orientation of point r relative to the directed line from p to q,
+   * as twice the signed area of the triangle
+   * @param p line start point
+   * @param q line end point
+   * @param r point
+   * @returns positive if counter clockwise (left), negative if clockwise
+   *          (right), zero if collinear
+   */
+  public static orientation(p: Point, q: Point, r: Point): number {
+    return (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x);
+  }
+
+  /**
+   * Get the distance between two points
+   * @param point1 point 1
+   * @param point2 point 2
+   * @returns distance
+   */
+  public static distance(point1: Point, point2: Point): number {
+    return Math.hypot(point2.x - point1.x, point2.y - point1.y);
+  }
+
+  /**
+   * Get the projection factor of a point onto the line through the segment,
+   * 0 at the start and 1 at the end
+   * @param point point
+   * @param start segment start point
+   * @param end segment end point
+   * @returns projection factor
+   */
+  public static projectionFactor(
+    point: Point,
+    start: Point,
+    end: Point,
+  ): number {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const length2 = dx * dx + dy * dy;
+    return length2 === 0
+      ? 0
+      : ((point.x - start.x) * dx + (point.y - start.y) * dy) / length2;
+  }
+
+  /**
+   * Get the distance from a point to a segment
+   * @param point point
+   * @param start segment start point
+   * @param end segment end point
+   * @returns distance
+   */
+  public static distanceToSegment(
+    point: Point,
+    start: Point,
+    end: Point,
+  ): number {
+    const factor = Math.min(
+      1,
+      Math.max(0, SegmentUtils.projectionFactor(point, start, end)),
+    );
+    return Math.hypot(
+      start.x + factor * (end.x - start.x) - point.x,
+      start.y + factor * (end.y - start.y) - point.y,
+    );
+  }
+
+  /**
+   * Determine if a point is on a segment within the tolerance
+   * @param point point
+   * @param start segment start point
+   * @param end segment end point
+   * @param epsilon distance tolerance
+   * @returns true if on the segment
+   */
+  public static pointOnSegment(
+    point: Point,
+    start: Point,
+    end: Point,
+    epsilon: number,
+  ): boolean {
+    return point.x >= Math.min(start.x, end.x) - epsilon &&
+      point.x <= Math.max(start.x, end.x) + epsilon &&
+      point.y >= Math.min(start.y, end.y) - epsilon &&
+      point.y <= Math.max(start.y, end.y) + epsilon &&
+      SegmentUtils.distanceToSegment(point, start, end) <= epsilon;
+  }
+
+  /**
+   * Get the intersection points of two segments within the tolerance. Segment
+   * end points on the other segment are returned as is, a proper crossing is
+   * returned as the computed crossing point and collinear overlapping
+   * segments return both overlap end points.
+   * @param p1 first segment start point
+   * @param p2 first segment end point
+   * @param q1 second segment start point
+   * @param q2 second segment end point
+   * @param epsilon distance tolerance
+   * @returns intersection points, empty when disjoint
+   */
+  public static intersection(
+    p1: Point,
+    p2: Point,
+    q1: Point,
+    q2: Point,
+    epsilon: number,
+  ): Point[] {
+    const intersections: Point[] = [];
+    if (
+      Math.max(p1.x, p2.x) + epsilon < Math.min(q1.x, q2.x) ||
+      Math.max(q1.x, q2.x) + epsilon < Math.min(p1.x, p2.x) ||
+      Math.max(p1.y, p2.y) + epsilon < Math.min(q1.y, q2.y) ||
+      Math.max(q1.y, q2.y) + epsilon < Math.min(p1.y, p2.y)
+    ) {
+      return intersections;
+    }
+
+    const addIntersection = (point: Point) => {
+      if (
+        !intersections.some((intersection) =>
+          SegmentUtils.distance(intersection, point) <= epsilon
+        )
+      ) {
+        intersections.push(point);
+      }
+    };
+    if (SegmentUtils.pointOnSegment(p1, q1, q2, epsilon)) {
+      addIntersection(p1);
+    }
+    if (SegmentUtils.pointOnSegment(p2, q1, q2, epsilon)) {
+      addIntersection(p2);
+    }
+    if (SegmentUtils.pointOnSegment(q1, p1, p2, epsilon)) {
+      addIntersection(q1);
+    }
+    if (SegmentUtils.pointOnSegment(q2, p1, p2, epsilon)) {
+      addIntersection(q2);
+    }
+
+    if (intersections.length === 0) {
+      const d1 = SegmentUtils.orientation(q1, q2, p1);
+      const d2 = SegmentUtils.orientation(q1, q2, p2);
+      const d3 = SegmentUtils.orientation(p1, p2, q1);
+      const d4 = SegmentUtils.orientation(p1, p2, q2);
+      if (
+        ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) &&
+        ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))
+      ) {
+        const fraction = d1 / (d1 - d2);
+        intersections.push(
+          SegmentUtils.interpolate(p1, p2, fraction),
+        );
+      }
+    }
+
+    return intersections;
+  }
+
+  /**
+   * Interpolate a point along a segment, including z and m values when both
+   * segment points have them
+   * @param start segment start point
+   * @param end segment end point
+   * @param fraction fraction along the segment
+   * @returns point
+   */
+  public static interpolate(
+    start: Point,
+    end: Point,
+    fraction: number,
+  ): Point {
+    const point = Point.createFromXY(
+      start.x + fraction * (end.x - start.x),
+      start.y + fraction * (end.y - start.y),
+    );
+    if (start.z !== undefined && end.z !== undefined) {
+      point.z = start.z + fraction * (end.z - start.z);
+    }
+    if (start.m !== undefined && end.m !== undefined) {
+      point.m = start.m + fraction * (end.m - start.m);
+    }
+    return point;
+  }
+
+  /**
+   * Create a copy of a point with z and m values interpolated from the
+   * nearest point on the segments
+   * @param point point
+   * @param segments segments
+   * @returns point
+   */
+  public static interpolateZM(
+    point: Point,
+    segments: [Point, Point][],
+  ): Point {
+    let nearest: [Point, Point] | undefined;
+    let minDistance = Number.POSITIVE_INFINITY;
+    for (const segment of segments) {
+      const distance = SegmentUtils.distanceToSegment(
+        point,
+        segment[0],
+        segment[1],
+      );
+      if (distance < minDistance) {
+        minDistance = distance;
+        nearest = segment;
+      }
+    }
+    const result = Point.createFromXY(point.x, point.y);
+    if (nearest !== undefined) {
+      const fraction = Math.min(
+        1,
+        Math.max(
+          0,
+          SegmentUtils.projectionFactor(point, nearest[0], nearest[1]),
+        ),
+      );
+      const source = SegmentUtils.interpolate(
+        nearest[0],
+        nearest[1],
+        fraction,
+      );
+      result.z = source.z;
+      result.m = source.m;
+    }
+    return result;
+  }
+}
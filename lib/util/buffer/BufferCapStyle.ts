@@ -0,0 +1,19 @@
+/**
+ * Buffer end cap style of line ends and points
+ */
+export enum BufferCapStyle {
+  /**
+   * Semicircle around the end point
+   */
+  Round = 0,
+
+  /**
+   * Cap ending at the end point
+   */
+  Flat = 1,
+
+  /**
+   * Square cap extending the buffer distance beyond the end point
+   */
+  Square = 2,
+}
@@ -0,0 +1,20 @@
+/**
+ * Buffer join style of the outer corners of lines and polygon rings
+ */
+export enum BufferJoinStyle {
+  /**
+   * Circular arc around the corner vertex
+   */
+  Round = 0,
+
+  /**
+   * Sharp corner where the offset lines meet, bevelled when beyond the mitre
+   * limit
+   */
+  Mitre = 1,
+
+  /**
+   * Straight line cutting the corner
+   */
+  Bevel = 2,
+}
@@ -0,0 +1,127 @@
+import type { BufferOptions, Geometry, Point } from "../../internal.ts";
+import {
+  GeometryComponents,
+  GeometryConstants,
+  Location,
+  MultiPolygon,
+  OffsetCurveBuilder,
+  OverlayGraph,
+  Polygon,
+  SegmentUtils,
+} from "../../internal.ts";
+
+/**
+ * Buffer operation computing the area within a distance of a geometry.
+ * Raw offset curves of every point, line and polygon ring are noded into a
+ * planar graph and the buffer is the area where the curves have a positive
+ * winding number, which also unions the buffers of multi part geometries and
+ * collections. Negative distances erode polygons and ignore points and
+ * lines. Curves are linearized and results are 2D polygons or multi
+ * polygons, an empty polygon when nothing remains.
+ */
+export class BufferOp {
+  /**
+   * Buffer a geometry
+   * @param geometry geometry
+   * @param distance buffer distance, negative to erode polygons
+   * @param options buffer options
+   * @returns buffer polygon, multi polygon or empty polygon
+   */
+  public static buffer(
+    geometry: Geometry,
+    distance: number,
+    options?: BufferOptions,
+  ): Geometry {
+    const builder = new OffsetCurveBuilder(distance, options);
+    const components = new GeometryComponents(geometry);
+
+    const curves: Point[][] = [];
+    const addCurve = (curve: Point[]) => {
+      if (curve.length > 3) {
+        curves.push(curve);
+      }
+    };
+    for (const point of components.points) {
+      addCurve(builder.getPointCurve(point));
+    }
+    for (const line of components.lines) {
+      addCurve(builder.getLineCurve(line));
+    }
+    for (const polygon of components.polygons) {
+      for (let i = 0; i < polygon.length; i++) {
+        const ring = polygon[i];
+        const counterClockwise = OverlayGraph.signedArea(ring) > 0;
+        addCurve(
+          builder.getRingCurve(
+            counterClockwise === (i === 0) ? ring : ring.slice().reverse(),
+          ),
+        );
+      }
+    }
+
+    const epsilon = GeometryConstants.DEFAULT_EQUAL_EPSILON;
+    const graph = new OverlayGraph(epsilon);
+    for (const curve of curves) {
+      graph.addRing(curve);
+    }
+    graph.node();
+
+    const locate = (point: Point): Location =>
+      BufferOp.locate(point, curves, epsilon);
+    const edges: [number, number][] = [];
+    for (const edge of graph.edges) {
+      const [left, right] = graph.isInteriorOnSides(edge, locate);
+      if (left !== right) {
+        edges.push(left ? edge : [edge[1], edge[0]]);
+      }
+    }
+
+    const polygons = graph.buildPolygons(edges);
+    let buffer: Geometry;
+    if (polygons.length === 0) {
+      buffer = Polygon.create();
+    } else if (polygons.length === 1) {
+      buffer = polygons[0];
+    } else {
+      buffer = MultiPolygon.createFromPolygons(polygons);
+    }
+    buffer.srid = geometry.srid;
+    return buffer;
+  }
+
+  /**
+   * Locate a point in the area of positive winding number of the curves
+   * @param point point
+   * @param curves closed curves
+   * @param epsilon distance tolerance
+   * @returns location
+   */
+  private static locate(
+    point: Point,
+    curves: Point[][],
+    epsilon: number,
+  ): Location {
+    let winding = 0;
+    for (const curve of curves) {
+      for (let i = 1; i < curve.length; i++) {
+        const start = curve[i - 1];
+        const end = curve[i];
+        if (SegmentUtils.pointOnSegment(point, start, end, epsilon)) {
+          return Location.Boundary;
+        }
+        if (start.y <= point.y) {
+          if (
+            end.y > point.y && SegmentUtils.orientation(start, end, point) > 0
+          ) {
+            winding++;
+          }
+        } else if (
+          end.y <= point.y && SegmentUtils.orientation(start, end, point) < 0
+        ) {
+          winding--;
+        }
+      }
+    }
+    return winding > 0 ? Location.Interior : Location.Exterior;
+  }
+}
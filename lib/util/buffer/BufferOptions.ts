@@ -0,0 +1,27 @@
+import type { BufferCapStyle, BufferJoinStyle } from "../../internal.ts";
+
+/**
+ * Buffer options
+ */
+export interface BufferOptions {
+  /**
+   * Number of line segments approximating a quarter circle, default 8
+   */
+  quadrantSegments?: number;
+
+  /**
+   * End cap style, default round
+   */
+  capStyle?: BufferCapStyle;
+
+  /**
+   * Join style, default round
+   */
+  joinStyle?: BufferJoinStyle;
+
+  /**
+   * Maximum ratio of the mitre length to the buffer distance before a mitre
+   * join is bevelled, default 5
+   */
+  mitreLimit?: number;
+}
@@ -0,0 +1,353 @@
+import type { BufferOptions } from "../../internal.ts";
+import {
+  BufferCapStyle,
+  BufferJoinStyle,
+  Point,
+  SegmentUtils,
+  SFException,
+} from "../../internal.ts";
+
+/**
+ * Builds the raw closed offset curves of buffers. Curves are offset to the
+ * right of their direction for positive distances and to the left for
+ * negative distances, so that buffer areas have a positive winding number.
+ * Raw curves may self intersect and are cleaned by the buffer operation.
+ */
+export class OffsetCurveBuilder {
+  /**
+   * Default number of segments approximating a quarter circle
+   */
+  public static readonly DEFAULT_QUADRANT_SEGMENTS = 8;
+
+  /**
+   * Default mitre limit
+   */
+  public static readonly DEFAULT_MITRE_LIMIT = 5;
+
+  /**
+   * Signed buffer distance
+   */
+  private readonly _distance: number;
+
+  /**
+   * Number of segments approximating a quarter circle
+   */
+  private readonly _quadrantSegments: number;
+
+  /**
+   * End cap style
+   */
+  private readonly _capStyle: BufferCapStyle;
+
+  /**
+   * Join style
+   */
+  private readonly _joinStyle: BufferJoinStyle;
+
+  /**
+   * Mitre limit
+   */
+  private readonly _mitreLimit: number;
+
+  /**
+   * Constructor
+   * @param distance signed buffer distance
+   * @param options buffer options
+   */
+  public constructor(distance: number, options: BufferOptions = {}) {
+    this._distance = distance;
+    this._quadrantSegments = options.quadrantSegments ??
+      OffsetCurveBuilder.DEFAULT_QUADRANT_SEGMENTS;
+    this._capStyle = options.capStyle ?? BufferCapStyle.Round;
+    this._joinStyle = options.joinStyle ?? BufferJoinStyle.Round;
+    this._mitreLimit = options.mitreLimit ??
+      OffsetCurveBuilder.DEFAULT_MITRE_LIMIT;
+    if (
+      !Number.isInteger(this._quadrantSegments) || this._quadrantSegments < 1
+    ) {
+      throw new SFException(
+        `Invalid quadrant segments: ${options.quadrantSegments}`,
+      );
+    }
+    if (!(this._mitreLimit > 0)) {
+      throw new SFException(`Invalid mitre limit: ${options.mitreLimit}`);
+    }
+  }
+
+  /**
+   * Get the signed buffer distance
+   * @returns distance
+   */
+  public get distance(): number {
+    return this._distance;
+  }
+
+  /**
+   * Get the number of segments approximating a quarter circle
+   * @returns quadrant segments
+   */
+  public get quadrantSegments(): number {
+    return this._quadrantSegments;
+  }
+
+  /**
+   * Get the end cap style
+   * @returns cap style
+   */
+  public get capStyle(): BufferCapStyle {
+    return this._capStyle;
+  }
+
+  /**
+   * Get the join style
+   * @returns join style
+   */
+  public get joinStyle(): BufferJoinStyle {
+    return this._joinStyle;
+  }
+
+  /**
+   * Get the mitre limit
+   * @returns mitre limit
+   */
+  public get mitreLimit(): number {
+    return this._mitreLimit;
+  }
+
+  /**
+   * Get the closed counter clockwise buffer curve of a point
+   * @param point point
+   * @returns closed curve points, empty for flat caps and non positive
+   *          distances
+   */
+  public getPointCurve(point: Point): Point[] {
+    const curve: Point[] = [];
+    const distance = this._distance;
+    if (distance > 0) {
+      if (this._capStyle === BufferCapStyle.Round) {
+        const segments = 4 * this._quadrantSegments;
+        for (let i = 0; i < segments; i++) {
+          const angle = (2 * Math.PI * i) / segments;
+          curve.push(
+            Point.createFromXY(
+              point.x + distance * Math.cos(angle),
+              point.y + distance * Math.sin(angle),
+            ),
+          );
+        }
+      } else if (this._capStyle === BufferCapStyle.Square) {
+        curve.push(
+          Point.createFromXY(point.x - distance, point.y - distance),
+          Point.createFromXY(point.x + distance, point.y - distance),
+          Point.createFromXY(point.x + distance, point.y + distance),
+          Point.createFromXY(point.x - distance, point.y + distance),
+        );
+      }
+      if (curve.length > 0) {
+        curve.push(curve[0]);
+      }
+    }
+    return curve;
+  }
+
+  /**
+   * Get the closed buffer curve of a line, offset along both sides and
+   * around both end caps
+   * @param points line points, without consecutive duplicates
+   * @returns closed curve points, empty for non positive distances
+   */
+  public getLineCurve(points: Point[]): Point[] {
+    const curve: Point[] = [];
+    if (this._distance > 0 && points.length > 1) {
+      const reversed = points.slice().reverse();
+      const path = [...points, ...reversed.slice(1)];
+      this.addOffsetPath(path, curve, [points.length - 1, path.length - 1]);
+    }
+    return curve;
+  }
+
+  /**
+   * Get the closed offset curve of a polygon ring
+   * @param ring closed ring points, without consecutive duplicates, counter
+   *        clockwise for exterior rings and clockwise for interior rings
+   * @returns closed curve points
+   */
+  public getRingCurve(ring: Point[]): Point[] {
+    const curve: Point[] = [];
+    this.addOffsetPath(ring, curve, []);
+    return curve;
+  }
+
+  /**
+   * Add the closed offset of a closed path
+   * @param path closed path points, the last point equal to the first
+   * @param curve curve points
+   * @param caps path indices of end cap vertices
+   */
+  private addOffsetPath(path: Point[], curve: Point[], caps: number[]): void {
+    const count = path.length - 1;
+    for (let i = 0; i < count; i++) {
+      const previous = path[(i + count - 1) % count];
+      const vertex = path[i];
+      const next = path[i + 1];
+      if (caps.includes(i === 0 ? count : i)) {
+        this.addCap(previous, vertex, curve);
+      } else {
+        this.addJoin(previous, vertex, next, curve);
+      }
+    }
+    if (curve.length > 0) {
+      curve.push(curve[0]);
+    }
+  }
+
+  /**
+   * Add the offset join at a vertex, connecting the offset of the previous
+   * segment to the offset of the next segment
+   * @param previous previous point
+   * @param vertex vertex
+   * @param next next point
+   * @param curve curve points
+   */
+  private addJoin(
+    previous: Point,
+    vertex: Point,
+    next: Point,
+    curve: Point[],
+  ): void {
+    const normal1 = this.offsetNormal(previous, vertex);
+    const normal2 = this.offsetNormal(vertex, next);
+    const end = this.offsetPoint(vertex, normal1);
+    const start = this.offsetPoint(vertex, normal2);
+    const side = Math.sign(this._distance);
+    const orientation = SegmentUtils.orientation(previous, vertex, next) /
+      (SegmentUtils.distance(previous, vertex) *
+        SegmentUtils.distance(vertex, next));
+    const dot = normal1[0] * normal2[0] + normal1[1] * normal2[1];
+
+    if (Math.abs(orientation) < 1e-12 && dot > 0) {
+      curve.push(end);
+    } else if (orientation * side > 0 || Math.abs(orientation) < 1e-12) {
+      switch (this._joinStyle) {
+        case BufferJoinStyle.Round: {
+          this.addArc(vertex, end, start, curve);
+          break;
+        }
+        case BufferJoinStyle.Mitre: {
+          const ratio = Math.sqrt(2 / (1 + dot));
+          if (1 + dot > 1e-12 && ratio <= this._mitreLimit) {
+            const scale = this._distance / (1 + dot);
+            curve.push(
+              Point.createFromXY(
+                vertex.x + (normal1[0] + normal2[0]) * scale,
+                vertex.y + (normal1[1] + normal2[1]) * scale,
+              ),
+            );
+          } else {
+            curve.push(end, start);
+          }
+          break;
+        }
+        default: {
+          curve.push(end, start);
+        }
+      }
+    } else {
+      curve.push(end, Point.createFromXY(vertex.x, vertex.y), start);
+    }
+  }
+
+  /**
+   * Add the end cap at a line end point, turning from the offset on one side
+   * of the line to the offset on the other side
+   * @param previous previous point
+   * @param vertex line end point
+   * @param curve curve points
+   */
+  private addCap(previous: Point, vertex: Point, curve: Point[]): void {
+    const normal = this.offsetNormal(previous, vertex);
+    const end = this.offsetPoint(vertex, normal);
+    const start = this.offsetPoint(vertex, [-normal[0], -normal[1]]);
+    switch (this._capStyle) {
+      case BufferCapStyle.Round: {
+        this.addArc(vertex, end, start, curve);
+        break;
+      }
+      case BufferCapStyle.Square: {
+        const length = SegmentUtils.distance(previous, vertex);
+        const dx = (vertex.x - previous.x) / length * this._distance;
+        const dy = (vertex.y - previous.y) / length * this._distance;
+        curve.push(
+          Point.createFromXY(end.x + dx, end.y + dy),
+          Point.createFromXY(start.x + dx, start.y + dy),
+        );
+        break;
+      }
+      default: {
+        curve.push(end, start);
+      }
+    }
+  }
+
+  /**
+   * Add a circular arc around a center from a start point to an end point,
+   * counter clockwise for positive distances and clockwise for negative
+   * distances
+   * @param center arc center
+   * @param from arc start point
+   * @param to arc end point
+   * @param curve curve points
+   */
+  private addArc(center: Point, from: Point, to: Point, curve: Point[]): void {
+    const side = Math.sign(this._distance);
+    const radius = Math.abs(this._distance);
+    const fromAngle = Math.atan2(from.y - center.y, from.x - center.x);
+    const toAngle = Math.atan2(to.y - center.y, to.x - center.x);
+    let sweep = side * (toAngle - fromAngle);
+    while (sweep < 0) {
+      sweep += 2 * Math.PI;
+    }
+    if (sweep > 2 * Math.PI - 1e-9) {
+      sweep = 0;
+    }
+    const segments = Math.max(
+      1,
+      Math.ceil(sweep / (Math.PI / 2 / this._quadrantSegments) - 1e-9),
+    );
+    curve.push(from);
+    for (let i = 1; i < segments; i++) {
+      const angle = fromAngle + side * sweep * i / segments;
+      curve.push(
+        Point.createFromXY(
+          center.x + radius * Math.cos(angle),
+          center.y + radius * Math.sin(angle),
+        ),
+      );
+    }
+    curve.push(to);
+  }
+
+  /**
+   * Get the unit normal of a segment on the offset side
+   * @param start segment start point
+   * @param end segment end point
+   * @returns offset side unit normal
+   */
+  private offsetNormal(start: Point, end: Point): [number, number] {
+    const length = SegmentUtils.distance(start, end);
+    return [(end.y - start.y) / length, (start.x - end.x) / length];
+  }
+
+  /**
+   * Offset a point by the buffer distance along a unit normal
+   * @param point point
+   * @param normal offset side unit normal
+   * @returns offset point
+   */
+  private offsetPoint(point: Point, normal: [number, number]): Point {
+    return Point.createFromXY(
+      point.x + normal[0] * this._distance,
+      point.y + normal[1] * this._distance,
+    );
+  }
+}
@@ -0,0 +1,562 @@
+import type { Geometry } from "../../internal.ts";
+import {
+  Geodesic,
+  GeometryClipper,
+  GeometryCollection,
+  GeometryComponents,
+  GeometryConstants,
+  GeometryEnvelopeBuilder,
+  GeometryType,
+  LineString,
+  MultiLineString,
+  MultiPolygon,
+  OverlayOp,
+  Point,
+  Polygon,
+  PolygonClipper,
+  SegmentUtils,
+} from "../../internal.ts";
+
+/**
+ * Cuts WGS84 geometries in degrees where they cross the antimeridian, so
+ * that every part lies within the longitude range: -180.0 &lt;= x &lt;= 180.0
+ * Consecutive points are connected across the shortest longitude difference,
+ * so geometries may be normalized or minimized before cutting. Lines are cut
+ * into multi line strings and polygons into multi polygons, with z and m
+ * values interpolated at the cut. Points are wrapped into the longitude
+ * range.
+ *
+ * A polygon ring crossing the antimeridian an odd number of times encloses a
+ * pole. Following the right hand rule of counter clockwise exterior rings and
+ * clockwise interior rings, an exterior ring travelling east or an interior
+ * ring travelling west encloses the north pole, otherwise the south pole. The
+ * ring is closed along the pole latitude before cutting.
+ */
+export class AntimeridianCutter extends GeometryClipper {
+  /**
+   * Distance tolerance for merging
+   */
+  private readonly _epsilon: number;
+
+  /**
+   * Constructor
+   * @param epsilon distance tolerance for merging
+   */
+  public constructor(
+    epsilon: number = GeometryConstants.DEFAULT_EQUAL_EPSILON,
+  ) {
+    super();
+    this._epsilon = epsilon;
+  }
+
+  /**
+   * Get the distance tolerance for merging
+   * @returns epsilon
+   */
+  public get epsilon(): number {
+    return this._epsilon;
+  }
+
+  /**
+   * Cut the geometry at the antimeridian
+   * @param geometry geometry
+   * @returns cut geometry or undefined when empty
+   */
+  public cut(geometry: Geometry): Geometry | undefined {
+    return this.clip(geometry);
+  }
+
+  /**
+   * Merge geometry parts cut at the antimeridian, the inverse of cutting.
+   * Consecutive line strings ending and starting on opposite sides of the
+   * antimeridian are joined, keeping one antimeridian point, and polygons
+   * touching the antimeridian are unioned across it, dropping the cut points
+   * and pole closures. Merged longitudes are normalized, with edges crossing the
+   * antimeridian connecting across the shortest longitude difference.
+   * @param geometry cut geometry
+   * @returns merged geometry
+   */
+  public merge(geometry: Geometry): Geometry {
+    let merged: Geometry;
+    switch (geometry.geometryType) {
+      case GeometryType.MultiLineString: {
+        merged = this.mergeLines(geometry as MultiLineString);
+        break;
+      }
+      case GeometryType.MultiPolygon: {
+        merged = this.mergePolygons(geometry as MultiPolygon);
+        break;
+      }
+      case GeometryType.GeometryCollection: {
+        const collection = GeometryCollection.create(
+          geometry.hasZ,
+          geometry.hasM,
+        );
+        collection.geometries = (geometry as GeometryCollection).geometries
+          .map((child) => this.merge(child));
+        merged = collection;
+        break;
+      }
+      default:
+        merged = geometry.copy();
+    }
+    merged.srid = geometry.srid;
+    return merged;
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected containsPoint(_point: Point): boolean {
+    return true;
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected override clipPoint(point: Point): Point {
+    const clip = point.copy();
+    if (Math.abs(clip.x) > 180) {
+      clip.x = Geodesic.angleNormalize(clip.x);
+    }
+    return clip;
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected clipLine(points: Point[]): Point[][] {
+    const parts: Point[][] = [];
+    if (points.length === 0) {
+      return parts;
+    }
+    const unwrapped = AntimeridianCutter.unwrap(points);
+    let part = [unwrapped[0]];
+    let strip = AntimeridianCutter.getStrip(unwrapped[0].x);
+    for (let i = 1; i < unwrapped.length; i++) {
+      const start = unwrapped[i - 1];
+      const end = unwrapped[i];
+      const direction = Math.sign(end.x - start.x);
+      for (const x of AntimeridianCutter.getCrossings(start.x, end.x)) {
+        const cut = SegmentUtils.interpolate(
+          start,
+          end,
+          (x - start.x) / (end.x - start.x),
+        );
+        cut.x = x;
+        part.push(cut);
+        parts.push(
+          AntimeridianCutter.shift(
+            part,
+            Math.round((x - direction * 180) / 360),
+          ),
+        );
+        part = [cut.copy()];
+        strip = undefined;
+      }
+
+      // A point on the antimeridian ends the part when the line continues to
+      // the other side
+      const endStrip = AntimeridianCutter.getStrip(end.x);
+      if (endStrip !== undefined) {
+        if (strip !== undefined && strip !== endStrip) {
+          parts.push(AntimeridianCutter.shift(part, strip));
+          part = [start.copy()];
+        }
+        strip = endStrip;
+      }
+      part.push(end);
+    }
+    parts.push(
+      AntimeridianCutter.shift(
+        part,
+        strip ?? Math.ceil((part[0].x - 180) / 360),
+      ),
+    );
+    return parts;
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected clipPolygon(polygon: Polygon): Polygon[] {
+    const polygons: Polygon[] = [];
+    if (polygon.isEmpty()) {
+      return polygons;
+    }
+
+    const rings = polygon.rings;
+    const unwrapped = Polygon.create(polygon.hasZ, polygon.hasM);
+    const exterior = AntimeridianCutter.unwrapRing(rings[0].points, false);
+    unwrapped.addRing(AntimeridianCutter.createRing(exterior, polygon));
+    const minX = Math.min(...exterior.map((point) => point.x));
+    for (let i = 1; i < rings.length; i++) {
+      const hole = AntimeridianCutter.unwrapRing(rings[i].points, true);
+      if (hole.length > 0) {
+        const strip = Math.floor((hole[0].x - minX) / 360);
+        unwrapped.addRing(
+          AntimeridianCutter.createRing(
+            AntimeridianCutter.shift(hole, strip),
+            polygon,
+          ),
+        );
+      }
+    }
+
+    const envelope = GeometryEnvelopeBuilder.buildEnvelope(unwrapped);
+    const minStrip = Math.floor((envelope.minX + 180) / 360);
+    const maxStrip = Math.ceil((envelope.maxX - 180) / 360);
+    if (minStrip === maxStrip) {
+      polygons.push(AntimeridianCutter.shiftPolygon(unwrapped, minStrip));
+    } else {
+      const minY = Math.min(envelope.minY, -90);
+      const maxY = Math.max(envelope.maxY, 90);
+      for (let strip = minStrip; strip <= maxStrip; strip++) {
+        const clipper = new PolygonClipper(
+          AntimeridianCutter.createRectangle(
+            360 * strip - 180,
+            minY,
+            360 * strip + 180,
+            maxY,
+          ),
+        );
+        const clip = clipper.clip(unwrapped);
+        if (clip !== undefined) {
+          for (const rings of new GeometryComponents(clip).polygons) {
+            const piece = Polygon.create(polygon.hasZ, polygon.hasM);
+            for (const ring of rings) {
+              piece.addRing(AntimeridianCutter.createRing(ring, polygon));
+            }
+            polygons.push(AntimeridianCutter.shiftPolygon(piece, strip));
+          }
+        }
+      }
+    }
+    return polygons;
+  }
+
+  /**
+   * Join consecutive line strings cut at the antimeridian
+   * @param multiLineString multi line string
+   * @returns line string or multi line string
+   */
+  private mergeLines(multiLineString: MultiLineString): Geometry {
+    const lines: Point[][] = [];
+    for (const lineString of multiLineString.lineStrings) {
+      const points = lineString.points.map((point) => point.copy());
+      const previous = lines[lines.length - 1];
+      if (
+        previous !== undefined && points.length > 1 &&
+        this.isCut(previous[previous.length - 1], points[0])
+      ) {
+        previous.push(...points.slice(1));
+      } else {
+        lines.push(points);
+      }
+    }
+
+    const lineStrings = lines.map((points) => {
+      const lineString = LineString.create(
+        multiLineString.hasZ,
+        multiLineString.hasM,
+      );
+      lineString.points = points;
+      return lineString;
+    });
+    let merged: Geometry;
+    if (lineStrings.length === 1) {
+      merged = lineStrings[0];
+    } else {
+      const lines = MultiLineString.create(
+        multiLineString.hasZ,
+        multiLineString.hasM,
+      );
+      lines.lineStrings = lineStrings;
+      merged = lines;
+    }
+    return merged;
+  }
+
+  /**
+   * Union polygons cut at the antimeridian
+   * @param multiPolygon multi polygon
+   * @returns polygon or multi polygon
+   */
+  private mergePolygons(multiPolygon: MultiPolygon): Geometry {
+    const onAntimeridian = (polygon: Polygon, x: number) =>
+      polygon.rings.some((ring) =>
+        ring.points.some((point) => Math.abs(point.x - x) <= this._epsilon)
+      );
+    const polygons = multiPolygon.polygons;
+    const west = polygons.filter((polygon) =>
+      onAntimeridian(polygon, -180) && !onAntimeridian(polygon, 180)
+    );
+    if (
+      west.length === 0 ||
+      !polygons.some((polygon) => onAntimeridian(polygon, 180))
+    ) {
+      return multiPolygon.copy();
+    }
+
+    // Move the western parts east of the antimeridian and union, restoring
+    // the z and m values from the parts
+    const shifted = MultiPolygon.create(multiPolygon.hasZ, multiPolygon.hasM);
+    shifted.polygons = polygons.map((polygon) =>
+      west.includes(polygon)
+        ? AntimeridianCutter.shiftPolygon(polygon, -1)
+        : polygon
+    );
+    const segments = new GeometryComponents(shifted).getSegments();
+    const union = OverlayOp.union(
+      shifted,
+      MultiPolygon.create(),
+      this._epsilon,
+    );
+
+    const merged: Polygon[] = [];
+    for (const rings of new GeometryComponents(union).polygons) {
+      const polygon = Polygon.create(multiPolygon.hasZ, multiPolygon.hasM);
+      for (const ring of rings) {
+        const points = this.removeCutPoints(
+          ring.map((point) => SegmentUtils.interpolateZM(point, segments)),
+        );
+        if (points.length > 0) {
+          polygon.addRing(
+            AntimeridianCutter.createRing(points, multiPolygon),
+          );
+        }
+      }
+      if (!polygon.isEmpty()) {
+        merged.push(polygon);
+      }
+    }
+
+    let result: Geometry;
+    if (merged.length === 1) {
+      result = merged[0];
+    } else {
+      const merge = MultiPolygon.create(multiPolygon.hasZ, multiPolygon.hasM);
+      merge.polygons = merged;
+      result = merge;
+    }
+    return result;
+  }
+
+  /**
+   * Remove the antimeridian cut points and pole closure from a merged ring
+   * and normalize its longitudes. Only points the cutter could have
+   * introduced are removed: antimeridian points on a straight run whose
+   * replacing edge spans less than 180 degrees of longitude. Other
+   * antimeridian vertices are kept so the normalized edges stay unambiguous.
+   * @param ring closed ring points east of the antimeridian where crossing
+   * @returns closed normalized ring points
+   */
+  private removeCutPoints(ring: Point[]): Point[] {
+    let points = ring.slice(0, ring.length - 1);
+    const xs = points.map((point) => point.x);
+    if (Math.max(...xs) - Math.min(...xs) >= 360 - this._epsilon) {
+      points = points.filter((point) => 90 - Math.abs(point.y) > this._epsilon);
+    }
+    points = points.filter((point, i) => {
+      let keep = true;
+      if (Math.abs(point.x - 180) <= this._epsilon && points.length > 3) {
+        const previous = points[(i + points.length - 1) % points.length];
+        const next = points[(i + 1) % points.length];
+        keep = Math.abs(next.x - previous.x) >= 180 ||
+          SegmentUtils.distanceToSegment(point, previous, next) >
+            this._epsilon;
+      }
+      return keep;
+    });
+
+    const normalized: Point[] = [];
+    for (const point of points) {
+      const copy = point.copy();
+      copy.x = Geodesic.angleNormalize(copy.x);
+      const previous = normalized[normalized.length - 1];
+      if (
+        previous === undefined || previous.x !== copy.x ||
+        previous.y !== copy.y
+      ) {
+        normalized.push(copy);
+      }
+    }
+    if (
+      normalized.length > 1 &&
+      normalized[0].x === normalized[normalized.length - 1].x &&
+      normalized[0].y === normalized[normalized.length - 1].y
+    ) {
+      normalized.pop();
+    }
+    if (normalized.length < 3) {
+      return [];
+    }
+    normalized.push(normalized[0].copy());
+    return normalized;
+  }
+
+  /**
+   * Determine if two line end points are the two sides of an antimeridian
+   * cut
+   * @param end line end point
+   * @param start next line start point
+   * @returns true if cut
+   */
+  private isCut(end: Point, start: Point): boolean {
+    return Math.abs(Math.abs(end.x) - 180) <= this._epsilon &&
+      Math.abs(Math.abs(start.x) - 180) <= this._epsilon &&
+      Math.sign(end.x) !== Math.sign(start.x) &&
+      Math.abs(end.y - start.y) <= this._epsilon;
+  }
+
+  /**
+   * Copy the points with longitudes continuous across the antimeridian,
+   * starting from a normalized longitude
+   * @param points points
+   * @returns unwrapped points
+   */
+  private static unwrap(points: Point[]): Point[] {
+    const unwrapped: Point[] = [];
+    for (const point of points) {
+      const copy = point.copy();
+      const previous = unwrapped[unwrapped.length - 1];
+      copy.x = previous === undefined
+        ? Geodesic.angleNormalize(point.x)
+        : previous.x + Geodesic.angleNormalize(point.x - previous.x);
+      unwrapped.push(copy);
+    }
+    return unwrapped;
+  }
+
+  /**
+   * Unwrap a closed ring, closing rings enclosing a pole along the pole
+   * latitude
+   * @param points closed ring points
+   * @param hole true for an interior ring
+   * @returns closed unwrapped ring points
+   */
+  private static unwrapRing(points: Point[], hole: boolean): Point[] {
+    const unwrapped = AntimeridianCutter.unwrap(points);
+    if (unwrapped.length > 1) {
+      const first = unwrapped[0];
+      const last = unwrapped[unwrapped.length - 1];
+      const travel = last.x - first.x;
+      if (Math.abs(travel) > 180) {
+        const poleY = (travel > 0) !== hole ? 90 : -90;
+        const lastPole = last.copy();
+        lastPole.y = poleY;
+        const firstPole = first.copy();
+        firstPole.y = poleY;
+        unwrapped.push(lastPole, firstPole, first.copy());
+      }
+    }
+    return unwrapped;
+  }
+
+  /**
+   * Get the antimeridian longitudes strictly between two longitudes, in
+   * order from the start longitude
+   * @param x1 start longitude
+   * @param x2 end longitude
+   * @returns crossing longitudes
+   */
+  private static getCrossings(x1: number, x2: number): number[] {
+    const crossings: number[] = [];
+    if (x1 < x2) {
+      for (let x = 360 * Math.floor((x1 - 180) / 360) + 180; x < x2; x += 360) {
+        if (x > x1) {
+          crossings.push(x);
+        }
+      }
+    } else if (x1 > x2) {
+      for (let x = 360 * Math.ceil((x1 - 180) / 360) + 180; x > x2; x -= 360) {
+        if (x < x1) {
+          crossings.push(x);
+        }
+      }
+    }
+    return crossings;
+  }
+
+  /**
+   * Get the 360 degree strip containing a longitude, strip 0 being the
+   * normalized longitude range
+   * @param x unwrapped longitude
+   * @returns strip, undefined for longitudes on the antimeridian
+   */
+  private static getStrip(x: number): number | undefined {
+    return Number.isInteger((x - 180) / 360) ? undefined : Math.round(x / 360);
+  }
+
+  /**
+   * Shift points from a strip into the normalized longitude range
+   * @param points points
+   * @param strip strip
+   * @returns shifted points
+   */
+  private static shift(points: Point[], strip: number): Point[] {
+    return points.map((point) => {
+      const copy = point.copy();
+      copy.x -= 360 * strip;
+      return copy;
+    });
+  }
+
+  /**
+   * Shift a polygon from a strip into the normalized longitude range
+   * @param polygon polygon
+   * @param strip strip
+   * @returns shifted polygon
+   */
+  private static shiftPolygon(polygon: Polygon, strip: number): Polygon {
+    const shifted = Polygon.create(polygon.hasZ, polygon.hasM);
+    for (const ring of polygon.rings) {
+      shifted.addRing(
+        AntimeridianCutter.createRing(
+          AntimeridianCutter.shift(ring.points, strip),
+          polygon,
+        ),
+      );
+    }
+    return shifted;
+  }
+
+  /**
+   * Create a ring with the dimensions of a geometry
+   * @param points ring points
+   * @param geometry geometry
+   * @returns ring
+   */
+  private static createRing(points: Point[], geometry: Geometry): LineString {
+    const ring = LineString.create(geometry.hasZ, geometry.hasM);
+    ring.points = points;
+    return ring;
+  }
+
+  /**
+   * Create a rectangle polygon
+   * @param minX minimum x
+   * @param minY minimum y
+   * @param maxX maximum x
+   * @param maxY maximum y
+   * @returns polygon
+   */
+  private static createRectangle(
+    minX: number,
+    minY: number,
+    maxX: number,
+    maxY: number,
+  ): Polygon {
+    const polygon = Polygon.create();
+    polygon.addRing(
+      AntimeridianCutter.createRing([
+        Point.createFromXY(minX, minY),
+        Point.createFromXY(maxX, minY),
+        Point.createFromXY(maxX, maxY),
+        Point.createFromXY(minX, maxY),
+        Point.createFromXY(minX, minY),
+      ], polygon),
+    );
+    return polygon;
+  }
+}
@@ -0,0 +1,470 @@
+import type {
+  Curve,
+  CurvePolygon,
+  Geometry,
+  GeometryCollection as GeometryCollectionType,
+  Point,
+} from "../../internal.ts";
+import {
+  CurveLinearizer,
+  ExtendedGeometryCollection,
+  GeometryCollection,
+  GeometryEnvelope,
+  GeometryType,
+  LineString,
+  MultiLineString,
+  MultiPoint,
+  MultiPolygon,
+  Polygon,
+  PolygonClipper,
+  PolyhedralSurface,
+  SegmentUtils,
+  SFException,
+  TIN,
+  Triangle,
+} from "../../internal.ts";
+
+/**
+ * Clips geometries of every type by a clipping area. Curves are linearized
+ * before clipping, lines clipped into multiple parts become multi line
+ * strings and polygons clipped into multiple parts become multi polygons.
+ * Clipped triangles stay triangles while they keep three corners and TINs
+ * are triangulated back into TINs. Clipped geometries keep the srid of the
+ * geometry.
+ */
+export abstract class GeometryClipper {
+  /**
+   * Clip the geometry
+   * @param geometry geometry
+   * @returns clipped geometry or undefined when nothing remains
+   */
+  public clip(geometry: Geometry): Geometry | undefined {
+    const clip = this.clipGeometry(geometry);
+    if (clip !== undefined) {
+      clip.srid = geometry.srid;
+    }
+    return clip;
+  }
+
+  /**
+   * Determine if a point is in the clipping area, including its boundary
+   * @param point point
+   * @returns true if the point is kept
+   */
+  protected abstract containsPoint(point: Point): boolean;
+
+  /**
+   * Clip a non empty point, copying it when in the clipping area
+   * @param point point
+   * @returns clipped point or undefined
+   */
+  protected clipPoint(point: Point): Point | undefined {
+    return this.containsPoint(point) ? point.copy() : undefined;
+  }
+
+  /**
+   * Clip a line into the parts within the clipping area
+   * @param points line points
+   * @returns clipped line parts
+   */
+  protected abstract clipLine(points: Point[]): Point[][];
+
+  /**
+   * Clip a polygon into the polygons within the clipping area
+   * @param polygon polygon
+   * @returns clipped polygons
+   */
+  protected abstract clipPolygon(polygon: Polygon): Polygon[];
+
+  /**
+   * Clip the geometry without setting the srid
+   * @param geometry geometry
+   * @returns clipped geometry or undefined
+   */
+  private clipGeometry(geometry: Geometry): Geometry | undefined {
+    let clip: Geometry | undefined;
+    switch (geometry.geometryType) {
+      case GeometryType.Point: {
+        const point = geometry as Point;
+        if (!point.isEmpty()) {
+          clip = this.clipPoint(point);
+        }
+        break;
+      }
+      case GeometryType.LineString: {
+        clip = GeometryClipper.createLines(
+          this.clipLineString(geometry as LineString),
+          geometry,
+        );
+        break;
+      }
+      case GeometryType.CircularString:
+      case GeometryType.CompoundCurve: {
+        clip = this.clipGeometry(
+          CurveLinearizer.linearizeCurve(geometry as Curve),
+        );
+        break;
+      }
+      case GeometryType.Polygon: {
+        clip = GeometryClipper.createPolygons(
+          this.clipPolygon(geometry as Polygon),
+          geometry,
+        );
+        break;
+      }
+      case GeometryType.Triangle: {
+        const polygons = this.clipPolygon(geometry as Polygon);
+        if (
+          polygons.length === 1 && polygons[0].numRings() === 1 &&
+          polygons[0].rings[0].numPoints() === 4
+        ) {
+          const triangle = Triangle.create(geometry.hasZ, geometry.hasM);
+          triangle.addRing(polygons[0].rings[0]);
+          clip = triangle;
+        } else {
+          clip = GeometryClipper.createPolygons(polygons, geometry);
+        }
+        break;
+      }
+      case GeometryType.CurvePolygon: {
+        clip = this.clipGeometry(
+          CurveLinearizer.linearizeCurvePolygon(geometry as CurvePolygon),
+        );
+        break;
+      }
+      case GeometryType.MultiPoint: {
+        const points: Point[] = [];
+        for (const point of (geometry as MultiPoint).points) {
+          const clipPoint = point.isEmpty() ? undefined : this.clipPoint(point);
+          if (clipPoint !== undefined) {
+            points.push(clipPoint);
+          }
+        }
+        if (points.length > 0) {
+          const multiPoint = MultiPoint.create(geometry.hasZ, geometry.hasM);
+          multiPoint.points = points;
+          clip = multiPoint;
+        }
+        break;
+      }
+      case GeometryType.MultiLineString: {
+        const lineStrings: LineString[] = [];
+        for (const lineString of (geometry as MultiLineString).lineStrings) {
+          lineStrings.push(...this.clipLineString(lineString));
+        }
+        if (lineStrings.length > 0) {
+          const multiLineString = MultiLineString.create(
+            geometry.hasZ,
+            geometry.hasM,
+          );
+          multiLineString.lineStrings = lineStrings;
+          clip = multiLineString;
+        }
+        break;
+      }
+      case GeometryType.MultiPolygon: {
+        const polygons: Polygon[] = [];
+        for (const polygon of (geometry as MultiPolygon).polygons) {
+          polygons.push(...this.clipPolygon(polygon));
+        }
+        if (polygons.length > 0) {
+          const multiPolygon = MultiPolygon.create(
+            geometry.hasZ,
+            geometry.hasM,
+          );
+          multiPolygon.polygons = polygons;
+          clip = multiPolygon;
+        }
+        break;
+      }
+      case GeometryType.Tin: {
+        const triangles: Polygon[] = [];
+        for (const polygon of (geometry as TIN).polygons) {
+          for (const clipped of this.clipPolygon(polygon)) {
+            triangles.push(...GeometryClipper.triangulate(clipped));
+          }
+        }
+        if (triangles.length > 0) {
+          const tin = TIN.create(geometry.hasZ, geometry.hasM);
+          tin.polygons = triangles;
+          clip = tin;
+        }
+        break;
+      }
+      case GeometryType.PolyhedralSurface: {
+        const polygons: Polygon[] = [];
+        for (const polygon of (geometry as PolyhedralSurface).polygons) {
+          polygons.push(...this.clipPolygon(polygon));
+        }
+        if (polygons.length > 0) {
+          const polyhedralSurface = PolyhedralSurface.create(
+            geometry.hasZ,
+            geometry.hasM,
+          );
+          polyhedralSurface.polygons = polygons;
+          clip = polyhedralSurface;
+        }
+        break;
+      }
+      case GeometryType.GeometryCollection: {
+        const geometries: Geometry[] = [];
+        for (const child of (geometry as GeometryCollectionType).geometries) {
+          const childClip = this.clipGeometry(child);
+          if (childClip !== undefined) {
+            geometries.push(childClip);
+          }
+        }
+        if (geometries.length > 0) {
+          const collection = GeometryCollection.create(
+            geometry.hasZ,
+            geometry.hasM,
+          );
+          collection.geometries = geometries;
+          clip = collection;
+        }
+        break;
+      }
+      case GeometryType.MultiCurve:
+      case GeometryType.MultiSurface: {
+        const collection = ExtendedGeometryCollection.create(
+          geometry.hasZ,
+          geometry.hasM,
+        );
+        collection.geometryType = geometry.geometryType;
+        for (const child of (geometry as GeometryCollectionType).geometries) {
+          const childClip = this.clipGeometry(child);
+          if (childClip instanceof GeometryCollection) {
+            collection.addGeometries(childClip.geometries);
+          } else if (childClip !== undefined) {
+            collection.addGeometry(childClip);
+          }
+        }
+        if (!collection.isEmpty()) {
+          clip = collection;
+        }
+        break;
+      }
+      default:
+        throw new SFException(
+          `Unsupported Geometry Type: ${geometry.geometryType}`,
+        );
+    }
+    return clip;
+  }
+
+  /**
+   * Clip a line string into line strings
+   * @param lineString line string
+   * @returns clipped line strings
+   */
+  private clipLineString(lineString: LineString): LineString[] {
+    return this.clipLine(lineString.points).map((points) => {
+      const clip = LineString.create(lineString.hasZ, lineString.hasM);
+      clip.points = points;
+      return clip;
+    });
+  }
+
+  /**
+   * Triangulate a clipped polygon, splitting it across the middle of a hole
+   * until no holes remain and then clipping ears from the exterior ring
+   * @param polygon clipped polygon
+   * @returns triangles
+   */
+  private static triangulate(polygon: Polygon): Triangle[] {
+    const triangles: Triangle[] = [];
+    const holes = polygon.rings.slice(1).filter((hole) =>
+      GeometryClipper.getSignedArea(hole.points) !== 0
+    );
+    if (holes.length > 0) {
+      const envelope = polygon.getEnvelope();
+      const holeEnvelope = holes[0].getEnvelope();
+      const x = (holeEnvelope.minX + holeEnvelope.maxX) / 2;
+      const split = Polygon.create(polygon.hasZ, polygon.hasM);
+      split.rings = [polygon.rings[0], ...holes];
+      for (
+        const half of [
+          GeometryEnvelope.createFromMinMaxXY(
+            envelope.minX,
+            envelope.minY,
+            x,
+            envelope.maxY,
+          ),
+          GeometryEnvelope.createFromMinMaxXY(
+            x,
+            envelope.minY,
+            envelope.maxX,
+            envelope.maxY,
+          ),
+        ]
+      ) {
+        const clip = new PolygonClipper(half.buildGeometry()).clip(split);
+        const parts = clip instanceof MultiPolygon
+          ? clip.polygons
+          : clip !== undefined
+          ? [clip as Polygon]
+          : [];
+        for (const part of parts) {
+          triangles.push(...GeometryClipper.triangulate(part));
+        }
+      }
+      return triangles;
+    }
+
+    const points = polygon.rings[0].points.slice(0, -1);
+    if (GeometryClipper.getSignedArea(points) < 0) {
+      points.reverse();
+    }
+    while (points.length > 3) {
+      let ear = -1;
+      let collinear = -1;
+      for (let i = 0; i < points.length && ear === -1; i++) {
+        const previous = points[(i + points.length - 1) % points.length];
+        const next = points[(i + 1) % points.length];
+        const orientation = SegmentUtils.orientation(
+          previous,
+          points[i],
+          next,
+        );
+        if (orientation === 0) {
+          collinear = i;
+        } else if (
+          orientation > 0 &&
+          !points.some((point) =>
+            point !== previous && point !== points[i] && point !== next &&
+            GeometryClipper.inTriangle(point, previous, points[i], next)
+          )
+        ) {
+          ear = i;
+        }
+      }
+      if (ear === -1 && collinear === -1) {
+        break;
+      }
+      if (ear !== -1) {
+        triangles.push(
+          GeometryClipper.createTriangle(
+            points[(ear + points.length - 1) % points.length],
+            points[ear],
+            points[(ear + 1) % points.length],
+            polygon,
+          ),
+        );
+      }
+      points.splice(ear !== -1 ? ear : collinear, 1);
+    }
+    if (
+      points.length === 3 &&
+      SegmentUtils.orientation(points[0], points[1], points[2]) !== 0
+    ) {
+      triangles.push(
+        GeometryClipper.createTriangle(
+          points[0],
+          points[1],
+          points[2],
+          polygon,
+        ),
+      );
+    }
+    return triangles;
+  }
+
+  /**
+   * Get twice the signed area of a ring, positive when counter clockwise
+   * @param points ring points
+   * @returns twice the signed area
+   */
+  private static getSignedArea(points: Point[]): number {
+    let area = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+      area += SegmentUtils.orientation(points[0], points[i], points[i + 1]);
+    }
+    return area;
+  }
+
+  /**
+   * Determine if a point is in a counter clockwise triangle, including its
+   * boundary
+   * @param point point
+   * @param a first corner
+   * @param b second corner
+   * @param c third corner
+   * @returns true if in the triangle
+   */
+  private static inTriangle(
+    point: Point,
+    a: Point,
+    b: Point,
+    c: Point,
+  ): boolean {
+    return SegmentUtils.orientation(a, b, point) >= 0 &&
+      SegmentUtils.orientation(b, c, point) >= 0 &&
+      SegmentUtils.orientation(c, a, point) >= 0;
+  }
+
+  /**
+   * Create a triangle from corner points with the dimensions of a geometry
+   * @param a first corner
+   * @param b second corner
+   * @param c third corner
+   * @param geometry geometry
+   * @returns triangle
+   */
+  private static createTriangle(
+    a: Point,
+    b: Point,
+    c: Point,
+    geometry: Geometry,
+  ): Triangle {
+    const ring = LineString.create(geometry.hasZ, geometry.hasM);
+    ring.points = [a.copy(), b.copy(), c.copy(), a.copy()];
+    const triangle = Triangle.create(geometry.hasZ, geometry.hasM);
+    triangle.addRing(ring);
+    return triangle;
+  }
+
+  /**
+   * Create a line string or multi line string from clipped line strings
+   * @param lineStrings clipped line strings
+   * @param geometry clipped geometry
+   * @returns line geometry or undefined when empty
+   */
+  private static createLines(
+    lineStrings: LineString[],
+    geometry: Geometry,
+  ): Geometry | undefined {
+    let lines: Geometry | undefined;
+    if (lineStrings.length === 1) {
+      lines = lineStrings[0];
+    } else if (lineStrings.length > 1) {
+      const multiLineString = MultiLineString.create(
+        geometry.hasZ,
+        geometry.hasM,
+      );
+      multiLineString.lineStrings = lineStrings;
+      lines = multiLineString;
+    }
+    return lines;
+  }
+
+  /**
+   * Create a polygon or multi polygon from clipped polygons
+   * @param polygons clipped polygons
+   * @param geometry clipped geometry
+   * @returns polygonal geometry or undefined when empty
+   */
+  private static createPolygons(
+    polygons: Polygon[],
+    geometry: Geometry,
+  ): Geometry | undefined {
+    let polygonal: Geometry | undefined;
+    if (polygons.length === 1) {
+      polygonal = polygons[0];
+    } else if (polygons.length > 1) {
+      const multiPolygon = MultiPolygon.create(geometry.hasZ, geometry.hasM);
+      multiPolygon.polygons = polygons;
+      polygonal = multiPolygon;
+    }
+    return polygonal;
+  }
+}
@@ -0,0 +1,188 @@
+import type { Geometry, Point } from "../../internal.ts";
+import {
+  GeometryClipper,
+  GeometryComponents,
+  GeometryConstants,
+  LineString,
+  Location,
+  OverlayOp,
+  PointLocator,
+  Polygon,
+  SegmentUtils,
+  SFException,
+} from "../../internal.ts";
+
+/**
+ * Clips geometries by an arbitrary, possibly concave and holed, polygonal
+ * geometry. Lines are split where they cross the clipping polygon boundary
+ * and the parts inside or along the boundary are kept. Polygons are clipped
+ * by overlay intersection. Z and M values of new line vertices are
+ * interpolated along the clipped segment and those of new polygon vertices
+ * from the nearest point on the clipped polygon boundary.
+ */
+export class PolygonClipper extends GeometryClipper {
+  /**
+   * Clipping polygonal geometry
+   */
+  private readonly _polygon: Geometry;
+
+  /**
+   * Distance tolerance
+   */
+  private readonly _epsilon: number;
+
+  /**
+   * Clipping polygon locator
+   */
+  private readonly _locator: PointLocator;
+
+  /**
+   * Clipping polygon boundary segments
+   */
+  private readonly _segments: [Point, Point][];
+
+  /**
+   * Constructor
+   * @param polygon clipping polygon or multi polygon
+   * @param epsilon distance tolerance
+   */
+  public constructor(
+    polygon: Geometry,
+    epsilon: number = GeometryConstants.DEFAULT_EQUAL_EPSILON,
+  ) {
+    super();
+    const components = new GeometryComponents(polygon);
+    if (components.points.length > 0 || components.lines.length > 0) {
+      throw new SFException("Clipping geometry must be polygonal");
+    }
+    this._polygon = polygon;
+    this._epsilon = epsilon;
+    this._locator = new PointLocator(components, epsilon);
+    this._segments = components.getSegments();
+  }
+
+  /**
+   * Get the clipping polygonal geometry
+   * @returns clipping polygon
+   */
+  public get polygon(): Geometry {
+    return this._polygon;
+  }
+
+  /**
+   * Get the distance tolerance
+   * @returns epsilon
+   */
+  public get epsilon(): number {
+    return this._epsilon;
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected containsPoint(point: Point): boolean {
+    return this._locator.locateArea(point) !== Location.Exterior;
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected clipLine(points: Point[]): Point[][] {
+    const parts: Point[][] = [];
+    let part: Point[] | undefined;
+    for (let i = 1; i < points.length; i++) {
+      const start = points[i - 1];
+      const end = points[i];
+      if (start.x === end.x && start.y === end.y) {
+        continue;
+      }
+
+      const fractions = [0, 1];
+      for (const [segmentStart, segmentEnd] of this._segments) {
+        for (
+          const intersection of SegmentUtils.intersection(
+            start,
+            end,
+            segmentStart,
+            segmentEnd,
+            this._epsilon,
+          )
+        ) {
+          fractions.push(
+            Math.min(
+              1,
+              Math.max(
+                0,
+                SegmentUtils.projectionFactor(intersection, start, end),
+              ),
+            ),
+          );
+        }
+      }
+      fractions.sort((fraction1, fraction2) => fraction1 - fraction2);
+
+      for (let j = 1; j < fractions.length; j++) {
+        const fraction0 = fractions[j - 1];
+        const fraction1 = fractions[j];
+        if (fraction1 - fraction0 <= 0) {
+          continue;
+        }
+        const midpoint = SegmentUtils.interpolate(
+          start,
+          end,
+          (fraction0 + fraction1) / 2,
+        );
+        if (this.containsPoint(midpoint)) {
+          if (part === undefined) {
+            part = [this.pointAt(start, end, fraction0)];
+            parts.push(part);
+          }
+          part.push(this.pointAt(start, end, fraction1));
+        } else {
+          part = undefined;
+        }
+      }
+    }
+    return parts;
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected clipPolygon(polygon: Polygon): Polygon[] {
+    const subjectSegments = new GeometryComponents(polygon).getSegments();
+    const intersection = new GeometryComponents(
+      OverlayOp.intersection(polygon, this._polygon, this._epsilon),
+    );
+    return intersection.polygons.map((rings) => {
+      const clip = Polygon.create(polygon.hasZ, polygon.hasM);
+      for (const ring of rings) {
+        const clipRing = LineString.create(polygon.hasZ, polygon.hasM);
+        clipRing.points = ring.map((point) =>
+          SegmentUtils.interpolateZM(point, subjectSegments)
+        );
+        clip.addRing(clipRing);
+      }
+      return clip;
+    });
+  }
+
+  /**
+   * Get the point at a fraction along a segment, copying the end points
+   * @param start segment start point
+   * @param end segment end point
+   * @param fraction fraction along the segment
+   * @returns point
+   */
+  private pointAt(start: Point, end: Point, fraction: number): Point {
+    let point: Point;
+    if (fraction === 0) {
+      point = start.copy();
+    } else if (fraction === 1) {
+      point = end.copy();
+    } else {
+      point = SegmentUtils.interpolate(start, end, fraction);
+    }
+    return point;
+  }
+}
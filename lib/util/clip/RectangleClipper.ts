@@ -0,0 +1,230 @@
+import type { GeometryEnvelope, Point } from "../../internal.ts";
+import {
+  GeometryClipper,
+  LineString,
+  Polygon,
+  SegmentUtils,
+} from "../../internal.ts";
+
+/**
+ * Clips geometries by an axis aligned rectangle in any coordinate reference
+ * system. Lines are clipped segment by segment with the Liang-Barsky
+ * algorithm and polygon rings with the Sutherland-Hodgman algorithm, which
+ * may leave zero area edges along the rectangle when concave polygons are
+ * clipped. Z and M values are interpolated at new vertices.
+ */
+export class RectangleClipper extends GeometryClipper {
+  /**
+   * Clipping rectangle
+   */
+  private readonly _envelope: GeometryEnvelope;
+
+  /**
+   * Constructor
+   * @param envelope clipping rectangle
+   */
+  public constructor(envelope: GeometryEnvelope) {
+    super();
+    this._envelope = envelope;
+  }
+
+  /**
+   * Get the clipping rectangle
+   * @returns envelope
+   */
+  public get envelope(): GeometryEnvelope {
+    return this._envelope;
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected containsPoint(point: Point): boolean {
+    return this._envelope.containsPoint(point);
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected clipLine(points: Point[]): Point[][] {
+    const parts: Point[][] = [];
+    let part: Point[] | undefined;
+    for (let i = 1; i < points.length; i++) {
+      const start = points[i - 1];
+      const end = points[i];
+      const fractions = this.clipSegment(start, end);
+      if (fractions === undefined) {
+        part = undefined;
+        continue;
+      }
+      const [fraction0, fraction1] = fractions;
+      if (part === undefined || fraction0 > 0) {
+        part = [
+          fraction0 > 0
+            ? SegmentUtils.interpolate(start, end, fraction0)
+            : start.copy(),
+        ];
+        parts.push(part);
+      }
+      part.push(
+        fraction1 < 1
+          ? SegmentUtils.interpolate(start, end, fraction1)
+          : end.copy(),
+      );
+      if (fraction1 < 1) {
+        part = undefined;
+      }
+    }
+    return parts.filter((clipPart) =>
+      clipPart.some((point) =>
+        point.x !== clipPart[0].x || point.y !== clipPart[0].y
+      )
+    );
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected clipPolygon(polygon: Polygon): Polygon[] {
+    const polygons: Polygon[] = [];
+    const rings: LineString[] = [];
+    for (const ring of polygon.rings) {
+      const points = this.clipRing(ring.points);
+      if (points.length > 0) {
+        const clipRing = LineString.create(ring.hasZ, ring.hasM);
+        clipRing.points = points;
+        rings.push(clipRing);
+      } else if (rings.length === 0) {
+        break;
+      }
+    }
+    if (rings.length > 0) {
+      const clip = Polygon.create(polygon.hasZ, polygon.hasM);
+      clip.rings = rings;
+      polygons.push(clip);
+    }
+    return polygons;
+  }
+
+  /**
+   * Clip a segment using the Liang-Barsky algorithm
+   * @param start segment start point
+   * @param end segment end point
+   * @returns start and end fractions of the clipped segment, undefined when
+   *          outside the rectangle
+   */
+  private clipSegment(
+    start: Point,
+    end: Point,
+  ): [number, number] | undefined {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const p = [-dx, dx, -dy, dy];
+    const q = [
+      start.x - this._envelope.minX,
+      this._envelope.maxX - start.x,
+      start.y - this._envelope.minY,
+      this._envelope.maxY - start.y,
+    ];
+    let fraction0 = 0;
+    let fraction1 = 1;
+    for (let i = 0; i < 4; i++) {
+      if (p[i] === 0) {
+        if (q[i] < 0) {
+          return undefined;
+        }
+      } else {
+        const fraction = q[i] / p[i];
+        if (p[i] < 0) {
+          fraction0 = Math.max(fraction0, fraction);
+        } else {
+          fraction1 = Math.min(fraction1, fraction);
+        }
+      }
+    }
+    return fraction0 <= fraction1 ? [fraction0, fraction1] : undefined;
+  }
+
+  /**
+   * Clip a ring using the Sutherland-Hodgman algorithm, starting the clipped
+   * ring at the first ring point when kept
+   * @param ring ring points
+   * @returns closed clipped ring points, empty when fewer than three points
+   *          remain
+   */
+  private clipRing(ring: Point[]): Point[] {
+    let points = ring.slice();
+    if (
+      points.length > 1 &&
+      points[0].x === points[points.length - 1].x &&
+      points[0].y === points[points.length - 1].y
+    ) {
+      points.pop();
+    }
+
+    const envelope = this._envelope;
+    const edgeDistances: ((point: Point) => number)[] = [
+      (point) => point.x - envelope.minX,
+      (point) => envelope.maxX - point.x,
+      (point) => point.y - envelope.minY,
+      (point) => envelope.maxY - point.y,
+    ];
+    for (const distance of edgeDistances) {
+      const clipped: Point[] = [];
+      for (let i = 0; i < points.length; i++) {
+        const current = points[i];
+        const previous = points[(i + points.length - 1) % points.length];
+        const currentDistance = distance(current);
+        const previousDistance = distance(previous);
+        if (currentDistance >= 0) {
+          if (previousDistance < 0) {
+            clipped.push(
+              SegmentUtils.interpolate(
+                previous,
+                current,
+                previousDistance / (previousDistance - currentDistance),
+              ),
+            );
+          }
+          clipped.push(current);
+        } else if (previousDistance >= 0) {
+          clipped.push(
+            SegmentUtils.interpolate(
+              previous,
+              current,
+              previousDistance / (previousDistance - currentDistance),
+            ),
+          );
+        }
+      }
+      points = clipped;
+    }
+
+    const start = points.indexOf(ring[0]);
+    if (start > 0) {
+      points = [...points.slice(start), ...points.slice(0, start)];
+    }
+
+    const result: Point[] = [];
+    for (const point of points) {
+      const previous = result[result.length - 1];
+      if (
+        previous === undefined || previous.x !== point.x ||
+        previous.y !== point.y
+      ) {
+        result.push(point.copy());
+      }
+    }
+    while (
+      result.length > 1 && result[0].x === result[result.length - 1].x &&
+      result[0].y === result[result.length - 1].y
+    ) {
+      result.pop();
+    }
+    if (result.length < 3) {
+      return [];
+    }
+    result.push(result[0].copy());
+    return result;
+  }
+}
@@ -0,0 +1,358 @@
+import type {
+  CompoundCurve,
+  Curve,
+  CurvePolygon,
+  Geometry,
+} from "../../internal.ts";
+import {
+  CircularString,
+  ExtendedGeometryCollection,
+  GeometryCollection,
+  GeometryType,
+  LineString,
+  MultiLineString,
+  MultiPolygon,
+  Point,
+  Polygon,
+  SFException,
+} from "../../internal.ts";
+
+/**
+ * Linearizes circular arcs into line segments, converting curve geometries to
+ * their linear equivalents
+ */
+export class CurveLinearizer {
+  /**
+   * Default maximum angle in radians swept by a single linearized arc segment
+   */
+  public static readonly DEFAULT_MAX_ANGLE = Math.PI / 64;
+
+  /**
+   * Linearize the geometry, replacing circular strings and compound curves
+   * with line strings, curve polygons with polygons, multi curves with multi
+   * line strings and multi surfaces of polygons with multi polygons. Linear
+   * geometries are copied.
+   * @param geometry geometry
+   * @param maxAngle maximum angle in radians swept by an arc segment
+   * @returns linear geometry
+   */
+  public static linearize(
+    geometry: Geometry,
+    maxAngle: number = CurveLinearizer.DEFAULT_MAX_ANGLE,
+  ): Geometry {
+    let linear: Geometry;
+    switch (geometry.geometryType) {
+      case GeometryType.LineString:
+      case GeometryType.CircularString:
+      case GeometryType.CompoundCurve: {
+        linear = CurveLinearizer.linearizeCurve(geometry as Curve, maxAngle);
+        break;
+      }
+      case GeometryType.CurvePolygon: {
+        linear = CurveLinearizer.linearizeCurvePolygon(
+          geometry as CurvePolygon,
+          maxAngle,
+        );
+        break;
+      }
+      case GeometryType.MultiCurve: {
+        const multiLineString = MultiLineString.create(
+          geometry.hasZ,
+          geometry.hasM,
+        );
+        for (const curve of (geometry as GeometryCollection).geometries) {
+          multiLineString.addLineString(
+            CurveLinearizer.linearizeCurve(curve as Curve, maxAngle),
+          );
+        }
+        linear = multiLineString;
+        break;
+      }
+      case GeometryType.MultiSurface: {
+        const surfaces = (geometry as GeometryCollection).geometries.map((
+          surface,
+        ) => CurveLinearizer.linearize(surface, maxAngle));
+        if (surfaces.every((surface) => surface instanceof Polygon)) {
+          const multiPolygon = MultiPolygon.create(
+            geometry.hasZ,
+            geometry.hasM,
+          );
+          multiPolygon.addPolygons(surfaces as Polygon[]);
+          linear = multiPolygon;
+        } else {
+          const multiSurface = ExtendedGeometryCollection.create(
+            geometry.hasZ,
+            geometry.hasM,
+          );
+          multiSurface.geometryType = GeometryType.MultiSurface;
+          multiSurface.addGeometries(surfaces);
+          linear = multiSurface;
+        }
+        break;
+      }
+      case GeometryType.GeometryCollection: {
+        const geometryCollection = GeometryCollection.create(
+          geometry.hasZ,
+          geometry.hasM,
+        );
+        for (const child of (geometry as GeometryCollection).geometries) {
+          geometryCollection.addGeometry(
+            CurveLinearizer.linearize(child, maxAngle),
+          );
+        }
+        linear = geometryCollection;
+        break;
+      }
+      default:
+        linear = geometry.copy();
+    }
+    linear.srid = geometry.srid;
+    return linear;
+  }
+
+  /**
+   * Linearize a curve into a line string
+   * @param curve line string, circular string or compound curve
+   * @param maxAngle maximum angle in radians swept by an arc segment
+   * @returns line string
+   */
+  public static linearizeCurve(
+    curve: Curve,
+    maxAngle: number = CurveLinearizer.DEFAULT_MAX_ANGLE,
+  ): LineString {
+    const lineString = LineString.create(curve.hasZ, curve.hasM);
+    CurveLinearizer.addCurvePoints(lineString, curve, maxAngle);
+    return lineString;
+  }
+
+  /**
+   * Linearize a curve polygon into a polygon
+   * @param curvePolygon curve polygon
+   * @param maxAngle maximum angle in radians swept by an arc segment
+   * @returns polygon
+   */
+  public static linearizeCurvePolygon(
+    curvePolygon: CurvePolygon,
+    maxAngle: number = CurveLinearizer.DEFAULT_MAX_ANGLE,
+  ): Polygon {
+    const polygon = Polygon.create(curvePolygon.hasZ, curvePolygon.hasM);
+    for (const ring of curvePolygon.rings) {
+      polygon.addRing(CurveLinearizer.linearizeCurve(ring, maxAngle));
+    }
+    return polygon;
+  }
+
+  /**
+   * Add the linearized points of a curve to a line string, skipping a first
+   * point equal to the current last point
+   * @param lineString line string
+   * @param curve curve
+   * @param maxAngle maximum angle in radians swept by an arc segment
+   */
+  private static addCurvePoints(
+    lineString: LineString,
+    curve: Curve,
+    maxAngle: number,
+  ): void {
+    if (curve instanceof CircularString) {
+      CurveLinearizer.addArcPoints(lineString, curve.points, maxAngle);
+    } else if (curve instanceof LineString) {
+      curve.points.forEach((point, index) => {
+        if (index === 0) {
+          CurveLinearizer.addPoint(lineString, point.copy());
+        } else {
+          lineString.addPoint(point.copy());
+        }
+      });
+    } else if (curve.geometryType === GeometryType.CompoundCurve) {
+      for (const child of (curve as CompoundCurve).lineStrings) {
+        CurveLinearizer.addCurvePoints(lineString, child, maxAngle);
+      }
+    } else {
+      throw new SFException(`Unsupported Curve Type: ${curve.geometryType}`);
+    }
+  }
+
+  /**
+   * Add the linearized points of consecutive three point circular arcs
+   * @param lineString line string
+   * @param points circular string points
+   * @param maxAngle maximum angle in radians swept by an arc segment
+   */
+  private static addArcPoints(
+    lineString: LineString,
+    points: Point[],
+    maxAngle: number,
+  ): void {
+    if (points.length > 0) {
+      CurveLinearizer.addPoint(lineString, points[0].copy());
+    }
+    let i = 0;
+    for (; i + 2 < points.length; i += 2) {
+      CurveLinearizer.addArc(
+        lineString,
+        points[i],
+        points[i + 1],
+        points[i + 2],
+        maxAngle,
+      );
+    }
+    for (i++; i < points.length; i++) {
+      lineString.addPoint(points[i].copy());
+    }
+  }
+
+  /**
+   * Add the linearized points of the circular arc through three points,
+   * excluding the start point
+   * @param lineString line string
+   * @param start arc start point
+   * @param middle point on the arc
+   * @param end arc end point
+   * @param maxAngle maximum angle in radians swept by an arc segment
+   */
+  private static addArc(
+    lineString: LineString,
+    start: Point,
+    middle: Point,
+    end: Point,
+    maxAngle: number,
+  ): void {
+    const x1 = middle.x - start.x;
+    const y1 = middle.y - start.y;
+    const x2 = end.x - start.x;
+    const y2 = end.y - start.y;
+
+    let centerX: number;
+    let centerY: number;
+    let counterClockwise: boolean;
+    if (x2 === 0 && y2 === 0) {
+      // Full circle with the middle point opposite the start point
+      centerX = start.x + x1 / 2;
+      centerY = start.y + y1 / 2;
+      counterClockwise = true;
+    } else {
+      const cross = x1 * y2 - y1 * x2;
+      const scale = Math.hypot(x1, y1) * Math.hypot(x2, y2);
+      if (Math.abs(cross) <= 1e-12 * scale) {
+        // Collinear points form a straight line
+        lineString.addPoint(middle.copy());
+        lineString.addPoint(end.copy());
+        return;
+      }
+      const d = 2 * cross;
+      const length1 = x1 * x1 + y1 * y1;
+      const length2 = x2 * x2 + y2 * y2;
+      centerX = start.x + (y2 * length1 - y1 * length2) / d;
+      centerY = start.y + (x1 * length2 - x2 * length1) / d;
+      counterClockwise = cross > 0;
+    }
+
+    const radius = Math.hypot(start.x - centerX, start.y - centerY);
+    CurveLinearizer.addArcSegment(
+      lineString,
+      start,
+      middle,
+      centerX,
+      centerY,
+      radius,
+      counterClockwise,
+      maxAngle,
+    );
+    CurveLinearizer.addArcSegment(
+      lineString,
+      middle,
+      end,
+      centerX,
+      centerY,
+      radius,
+      counterClockwise,
+      maxAngle,
+    );
+  }
+
+  /**
+   * Add the linearized points of an arc between two points, excluding the
+   * start point, interpolating z and m values by angle
+   * @param lineString line string
+   * @param from start point
+   * @param to end point
+   * @param centerX circle center x
+   * @param centerY circle center y
+   * @param radius circle radius
+   * @param counterClockwise true if the arc is counter clockwise
+   * @param maxAngle maximum angle in radians swept by an arc segment
+   */
+  private static addArcSegment(
+    lineString: LineString,
+    from: Point,
+    to: Point,
+    centerX: number,
+    centerY: number,
+    radius: number,
+    counterClockwise: boolean,
+    maxAngle: number,
+  ): void {
+    const startAngle = Math.atan2(from.y - centerY, from.x - centerX);
+    let sweep = Math.atan2(to.y - centerY, to.x - centerX) - startAngle;
+    if (counterClockwise) {
+      while (sweep <= 0) {
+        sweep += 2 * Math.PI;
+      }
+    } else {
+      while (sweep >= 0) {
+        sweep -= 2 * Math.PI;
+      }
+    }
+
+    const segments = Math.max(1, Math.ceil(Math.abs(sweep) / maxAngle));
+    for (let i = 1; i < segments; i++) {
+      const fraction = i / segments;
+      const angle = startAngle + sweep * fraction;
+      const point = Point.create(lineString.hasZ, lineString.hasM);
+      point.x = centerX + radius * Math.cos(angle);
+      point.y = centerY + radius * Math.sin(angle);
+      if (lineString.hasZ) {
+        point.z = CurveLinearizer.interpolate(from.z, to.z, fraction);
+      }
+      if (lineString.hasM) {
+        point.m = CurveLinearizer.interpolate(from.m, to.m, fraction);
+      }
+      lineString.addPoint(point);
+    }
+    lineString.addPoint(to.copy());
+  }
+
+  /**
+   * Add a point unless equal to the current last point
+   * @param lineString line string
+   * @param point point
+   */
+  private static addPoint(lineString: LineString, point: Point): void {
+    if (
+      lineString.isEmpty() ||
+      !lineString.getPoint(lineString.numPoints() - 1).equals(point)
+    ) {
+      lineString.addPoint(point);
+    }
+  }
+
+  /**
+   * Linearly interpolate an optional value
+   * @param value1 start value
+   * @param value2 end value
+   * @param fraction fraction between the values
+   * @returns interpolated value
+   */
+  private static interpolate(
+    value1: number | undefined,
+    value2: number | undefined,
+    fraction: number,
+  ): number | undefined {
+    let value: number | undefined;
+    if (value1 !== undefined && value2 !== undefined) {
+      value = value1 + (value2 - value1) * fraction;
+    }
+    return value;
+  }
+}
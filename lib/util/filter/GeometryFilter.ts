@@ -8,9 +8,12 @@ export interface GeometryFilter {
   /**
    * Filter the geometry
    *
-   * @param containingType geometry type of the geometry containing this geometry element, null if geometry is top level
+   * @param containingType geometry type of the geometry containing this geometry element, undefined if geometry is top level
    * @param geometry geometry, may be modified
    * @returns true if passes filter and geometry should be included
    */
-  filter(containingType: GeometryType, geometry: Geometry): boolean;
+  filter(
+    containingType: GeometryType | undefined,
+    geometry: Geometry,
+  ): boolean;
 }
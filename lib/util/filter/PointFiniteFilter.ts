@@ -93,7 +93,10 @@ export class PointFiniteFilter implements GeometryFilter {
   /**
    * {@inheritDoc}
    */
-  public filter(containingType: GeometryType, geometry: Geometry): boolean {
+  public filter(
+    _containingType: GeometryType | undefined,
+    geometry: Geometry,
+  ): boolean {
     return (
       geometry.geometryType !== GeometryType.Point ||
       !(geometry instanceof Point) ||
@@ -149,10 +152,8 @@ export class PointFiniteFilter implements GeometryFilter {
    * @returns true if passes
    */
   private filterZ(point: Point): boolean {
-    if (point.z === undefined) {
-      throw new SFException("Point does not have z value");
-    }
-    return !(this._filterZ && point.hasZ) || this.filterValue(point.z);
+    return !(this._filterZ && point.hasZ) ||
+      this.filterValue(point.z ?? Number.NaN);
   }
 
   /**
@@ -162,9 +163,7 @@ export class PointFiniteFilter implements GeometryFilter {
    * @returns true if passes
    */
   private filterM(point: Point): boolean {
-    if (point.m === undefined) {
-      throw new SFException("Point does not have m value");
-    }
-    return !(this._filterM && point.hasM) || this.filterValue(point.m);
+    return !(this._filterM && point.hasM) ||
+      this.filterValue(point.m ?? Number.NaN);
   }
 }
@@ -0,0 +1,84 @@
+import { SFException } from "../../internal.ts";
+
+/**
+ * Ellipsoid of revolution defined by its equatorial radius and flattening
+ */
+export class Ellipsoid {
+  /**
+   * WGS84 ellipsoid
+   */
+  public static readonly WGS84: Ellipsoid = new Ellipsoid(
+    6378137,
+    1 / 298.257223563,
+  );
+
+  /**
+   * GRS80 ellipsoid
+   */
+  public static readonly GRS80: Ellipsoid = new Ellipsoid(
+    6378137,
+    1 / 298.257222101,
+  );
+
+  /**
+   * Equatorial radius in meters
+   */
+  private readonly _semiMajorAxis: number;
+
+  /**
+   * Flattening, negative for prolate ellipsoids
+   */
+  private readonly _flattening: number;
+
+  /**
+   * Constructor
+   * @param semiMajorAxis equatorial radius in meters
+   * @param flattening flattening
+   */
+  constructor(semiMajorAxis: number, flattening: number) {
+    if (!(Number.isFinite(semiMajorAxis) && semiMajorAxis > 0)) {
+      throw new SFException(
+        `Equatorial radius must be positive, found ${semiMajorAxis}`,
+      );
+    }
+    if (!(Number.isFinite(flattening) && flattening < 1)) {
+      throw new SFException(
+        `Flattening must be less than 1, found ${flattening}`,
+      );
+    }
+    this._semiMajorAxis = semiMajorAxis;
+    this._flattening = flattening;
+  }
+
+  /**
+   * Get the equatorial radius
+   * @returns equatorial radius in meters
+   */
+  public get semiMajorAxis(): number {
+    return this._semiMajorAxis;
+  }
+
+  /**
+   * Get the flattening
+   * @returns flattening
+   */
+  public get flattening(): number {
+    return this._flattening;
+  }
+
+  /**
+   * Get the polar semi axis
+   * @returns polar semi axis in meters
+   */
+  public get semiMinorAxis(): number {
+    return this._semiMajorAxis * (1 - this._flattening);
+  }
+
+  /**
+   * Get the first eccentricity squared
+   * @returns eccentricity squared
+   */
+  public get eccentricitySquared(): number {
+    return this._flattening * (2 - this._flattening);
+  }
+}
@@ -0,0 +1,1499 @@
+import type { GeodesicDirect, GeodesicInverse } from "../../internal.ts";
+import { Ellipsoid } from "../../internal.ts";
+
+/**
+ * Intermediate values of the distance and reduced length series
+ */
+interface Lengths {
+  /**
+   * Distance divided by the polar semi axis
+   */
+  s12b: number;
+
+  /**
+   * Reduced length divided by the polar semi axis
+   */
+  m12b: number;
+
+  /**
+   * Difference of the distance and reduced length series constants
+   */
+  m0: number;
+}
+
+/**
+ * Starting guess for the inverse problem Newton iteration
+ */
+interface InverseStart {
+  /**
+   * Arc length on the auxiliary sphere, negative when not a short line
+   */
+  sig12: number;
+
+  /**
+   * Sine and cosine of the first azimuth
+   */
+  salp1: number;
+  calp1: number;
+
+  /**
+   * Sine and cosine of the second azimuth, set for short lines
+   */
+  salp2: number;
+  calp2: number;
+
+  /**
+   * Mean ellipsoid scale, set for short lines
+   */
+  dnm: number;
+}
+
+/**
+ * Longitude difference of a geodesic for a first azimuth, with the
+ * intermediate auxiliary sphere values
+ */
+interface Lambda12 {
+  lam12: number;
+  salp2: number;
+  calp2: number;
+  sig12: number;
+  ssig1: number;
+  csig1: number;
+  ssig2: number;
+  csig2: number;
+  eps: number;
+  domg12: number;
+  dlam12: number;
+}
+
+/**
+ * Geodesics on an ellipsoid of revolution, solving the direct and inverse
+ * problems to round off accuracy. Port of the algorithms of C. F. F. Karney,
+ * Algorithms for geodesics, J. Geodesy 87, 43-55 (2013), as implemented in
+ * GeographicLib with series expanded to sixth order in the flattening.
+ * Longitudes may be given in any range, with longitude differences taken the
+ * short way around, so geodesics cross the antimeridian as needed.
+ *
+ * GeographicLib is Copyright (c) Charles Karney (2011-2022) and licensed
+ * under the MIT/X11 License.
+ */
+export class Geodesic {
+  /**
+   * Series order
+   */
+  private static readonly ORDER = 6;
+
+  /**
+   * Newton iterations before bisection
+   */
+  private static readonly MAXIT1 = 20;
+
+  /**
+   * Total Newton and bisection iterations
+   */
+  private static readonly MAXIT2 = Geodesic.MAXIT1 + 53 + 10;
+
+  /**
+   * Smallest value with a representable square
+   */
+  private static readonly TINY = Math.sqrt(Number.MIN_VALUE);
+
+  /**
+   * Tolerances
+   */
+  private static readonly TOL0 = Number.EPSILON;
+  private static readonly TOL1 = 200 * Geodesic.TOL0;
+  private static readonly TOL2 = Math.sqrt(Geodesic.TOL0);
+  private static readonly TOLB = Geodesic.TOL0;
+  private static readonly XTHRESH = 1000 * Geodesic.TOL2;
+
+  /**
+   * Degrees to radians factor
+   */
+  private static readonly DEGREE = Math.PI / 180;
+
+  /**
+   * Geodesics on the WGS84 ellipsoid
+   */
+  public static readonly WGS84: Geodesic = new Geodesic(Ellipsoid.WGS84);
+
+  /**
+   * Ellipsoid
+   */
+  private readonly _ellipsoid: Ellipsoid;
+
+  /**
+   * Equatorial radius
+   */
+  private readonly _a: number;
+
+  /**
+   * Flattening
+   */
+  private readonly _f: number;
+
+  /**
+   * One minus the flattening
+   */
+  private readonly _f1: number;
+
+  /**
+   * Eccentricity squared
+   */
+  private readonly _e2: number;
+
+  /**
+   * Second eccentricity squared
+   */
+  private readonly _ep2: number;
+
+  /**
+   * Third flattening
+   */
+  private readonly _n: number;
+
+  /**
+   * Polar semi axis
+   */
+  private readonly _b: number;
+
+  /**
+   * Authalic radius squared
+   */
+  private readonly _c2: number;
+
+  /**
+   * Tolerance for short lines
+   */
+  private readonly _etol2: number;
+
+  /**
+   * A3 series coefficients
+   */
+  private readonly _A3x: number[] = [];
+
+  /**
+   * C3 series coefficients
+   */
+  private readonly _C3x: number[] = [];
+
+  /**
+   * C4 series coefficients
+   */
+  private readonly _C4x: number[] = [];
+
+  /**
+   * Constructor
+   * @param ellipsoid ellipsoid
+   */
+  constructor(ellipsoid: Ellipsoid = Ellipsoid.WGS84) {
+    this._ellipsoid = ellipsoid;
+    this._a = ellipsoid.semiMajorAxis;
+    this._f = ellipsoid.flattening;
+    this._f1 = 1 - this._f;
+    this._e2 = this._f * (2 - this._f);
+    this._ep2 = this._e2 / (this._f1 * this._f1);
+    this._n = this._f / (2 - this._f);
+    this._b = this._a * this._f1;
+    const e = Math.sqrt(Math.abs(this._e2));
+    this._c2 = (this._a * this._a +
+      this._b * this._b *
+        (this._e2 === 0
+          ? 1
+          : (this._e2 > 0 ? Math.atanh(e) : Math.atan(e)) / e)) / 2;
+    this._etol2 = 0.1 * Geodesic.TOL2 /
+      Math.sqrt(
+        Math.max(0.001, Math.abs(this._f)) *
+          Math.min(1, 1 - this._f / 2) / 2,
+      );
+    this.computeA3Coefficients();
+    this.computeC3Coefficients();
+    this.computeC4Coefficients();
+  }
+
+  /**
+   * Get the ellipsoid
+   * @returns ellipsoid
+   */
+  public get ellipsoid(): Ellipsoid {
+    return this._ellipsoid;
+  }
+
+  /**
+   * Get the total area of the ellipsoid
+   * @returns area in square meters
+   */
+  public get ellipsoidArea(): number {
+    return 4 * Math.PI * this._c2;
+  }
+
+  /**
+   * Solve the inverse geodesic problem, the shortest path between two points
+   * @param lat1 first point latitude in degrees
+   * @param lon1 first point longitude in degrees
+   * @param lat2 second point latitude in degrees
+   * @param lon2 second point longitude in degrees
+   * @returns distance, azimuths and area
+   */
+  public inverse(
+    lat1: number,
+    lon1: number,
+    lat2: number,
+    lon2: number,
+  ): GeodesicInverse {
+    const diff = Geodesic.angleDiff(lon1, lon2);
+    let lon12 = diff[0];
+    let lon12s = diff[1];
+
+    // Make the longitude difference positive
+    let lonsign = lon12 >= 0 ? 1 : -1;
+    lon12 = lonsign * Geodesic.angleRound(lon12);
+    lon12s = Geodesic.angleRound((180 - lon12) - lonsign * lon12s);
+    const lam12 = lon12 * Geodesic.DEGREE;
+    let slam12: number;
+    let clam12: number;
+    if (lon12 > 90) {
+      [slam12, clam12] = Geodesic.sinCosDegrees(lon12s);
+      clam12 = -clam12;
+    } else {
+      [slam12, clam12] = Geodesic.sinCosDegrees(lon12);
+    }
+
+    // Treat points really close to the equator as on the equator
+    lat1 = Geodesic.angleRound(Geodesic.latitudeFix(lat1));
+    lat2 = Geodesic.angleRound(Geodesic.latitudeFix(lat2));
+
+    // Swap points so the point with the larger absolute latitude is first
+    const swapp = Math.abs(lat1) < Math.abs(lat2) ? -1 : 1;
+    if (swapp < 0) {
+      lonsign *= -1;
+      [lat1, lat2] = [lat2, lat1];
+    }
+    // Make the first latitude non positive
+    const latsign = lat1 < 0 ? 1 : -1;
+    lat1 *= latsign;
+    lat2 *= latsign;
+
+    let [sbet1, cbet1] = Geodesic.sinCosDegrees(lat1);
+    sbet1 *= this._f1;
+    [sbet1, cbet1] = Geodesic.normalize(sbet1, cbet1);
+    cbet1 = Math.max(Geodesic.TINY, cbet1);
+
+    let [sbet2, cbet2] = Geodesic.sinCosDegrees(lat2);
+    sbet2 *= this._f1;
+    [sbet2, cbet2] = Geodesic.normalize(sbet2, cbet2);
+    cbet2 = Math.max(Geodesic.TINY, cbet2);
+
+    // Force bet2 = +/- bet1 when the measures of their difference vanish
+    if (cbet1 < -sbet1) {
+      if (cbet2 === cbet1) {
+        sbet2 = sbet2 < 0 ? sbet1 : -sbet1;
+      }
+    } else if (Math.abs(sbet2) === -sbet1) {
+      cbet2 = cbet1;
+    }
+
+    const dn1 = Math.sqrt(1 + this._ep2 * sbet1 * sbet1);
+    const dn2 = Math.sqrt(1 + this._ep2 * sbet2 * sbet2);
+
+    const C1a = new Array<number>(Geodesic.ORDER + 1).fill(0);
+    const C2a = new Array<number>(Geodesic.ORDER + 1).fill(0);
+    const C3a = new Array<number>(Geodesic.ORDER).fill(0);
+
+    let sig12 = 0;
+    let s12x = 0;
+    let salp1 = 0;
+    let calp1 = 0;
+    let salp2 = 0;
+    let calp2 = 0;
+    let omg12 = 0;
+    // somg12 > 1 marks that it needs to be calculated
+    let somg12 = 2;
+    let comg12 = 0;
+
+    let meridian = lat1 === -90 || slam12 === 0;
+    if (meridian) {
+      // Head to the target longitude, arriving heading north
+      calp1 = clam12;
+      salp1 = slam12;
+      calp2 = 1;
+      salp2 = 0;
+
+      const ssig1 = sbet1;
+      const csig1 = calp1 * cbet1;
+      const ssig2 = sbet2;
+      const csig2 = calp2 * cbet2;
+
+      sig12 = Math.atan2(
+        Math.max(0, csig1 * ssig2 - ssig1 * csig2),
+        csig1 * csig2 + ssig1 * ssig2,
+      );
+      const lengths = this.lengths(
+        this._n,
+        sig12,
+        ssig1,
+        csig1,
+        dn1,
+        ssig2,
+        csig2,
+        dn2,
+        C1a,
+        C2a,
+      );
+      s12x = lengths.s12b;
+      let m12x = lengths.m12b;
+      if (sig12 < 1 || m12x >= 0) {
+        // Prevent negative lengths for short lines
+        if (
+          sig12 < 3 * Geodesic.TINY ||
+          (sig12 < Geodesic.TOL0 && (s12x < 0 || m12x < 0))
+        ) {
+          sig12 = m12x = s12x = 0;
+        }
+        s12x *= this._b;
+      } else {
+        // Prolate and too close to anti podal
+        meridian = false;
+      }
+    }
+
+    if (
+      !meridian && sbet1 === 0 &&
+      (this._f <= 0 || lon12s >= this._f * 180)
+    ) {
+      // Geodesic runs along the equator
+      calp1 = calp2 = 0;
+      salp1 = salp2 = 1;
+      s12x = this._a * lam12;
+      sig12 = omg12 = lam12 / this._f1;
+    } else if (!meridian) {
+      const start = this.inverseStart(
+        sbet1,
+        cbet1,
+        dn1,
+        sbet2,
+        cbet2,
+        dn2,
+        lam12,
+        slam12,
+        clam12,
+        C1a,
+        C2a,
+      );
+      sig12 = start.sig12;
+      salp1 = start.salp1;
+      calp1 = start.calp1;
+
+      if (sig12 >= 0) {
+        // Short lines
+        salp2 = start.salp2;
+        calp2 = start.calp2;
+        s12x = sig12 * this._b * start.dnm;
+        omg12 = lam12 / (this._f1 * start.dnm);
+      } else {
+        // Newton's method on the longitude difference as a function of the
+        // first azimuth, bisecting a bracketing range when it fails
+        let numit = 0;
+        let salp1a = Geodesic.TINY;
+        let calp1a = 1;
+        let salp1b = Geodesic.TINY;
+        let calp1b = -1;
+        let tripn = false;
+        let tripb = false;
+        let lambda: Lambda12 | undefined;
+        for (; numit < Geodesic.MAXIT2; numit++) {
+          lambda = this.lambda12(
+            sbet1,
+            cbet1,
+            dn1,
+            sbet2,
+            cbet2,
+            dn2,
+            salp1,
+            calp1,
+            slam12,
+            clam12,
+            numit < Geodesic.MAXIT1,
+            C1a,
+            C2a,
+            C3a,
+          );
+          const v = lambda.lam12;
+          const dv = lambda.dlam12;
+          if (
+            tripb || !(Math.abs(v) >= (tripn ? 8 : 1) * Geodesic.TOL0)
+          ) {
+            break;
+          }
+          // Update the bracketing values
+          if (
+            v > 0 &&
+            (numit < Geodesic.MAXIT1 || calp1 / salp1 > calp1b / salp1b)
+          ) {
+            salp1b = salp1;
+            calp1b = calp1;
+          } else if (
+            v < 0 &&
+            (numit < Geodesic.MAXIT1 || calp1 / salp1 < calp1a / salp1a)
+          ) {
+            salp1a = salp1;
+            calp1a = calp1;
+          }
+          if (numit < Geodesic.MAXIT1 && dv > 0) {
+            const dalp1 = -v / dv;
+            if (Math.abs(dalp1) < Math.PI) {
+              const sdalp1 = Math.sin(dalp1);
+              const cdalp1 = Math.cos(dalp1);
+              const nsalp1 = salp1 * cdalp1 + calp1 * sdalp1;
+              if (nsalp1 > 0) {
+                calp1 = calp1 * cdalp1 - salp1 * sdalp1;
+                salp1 = nsalp1;
+                [salp1, calp1] = Geodesic.normalize(salp1, calp1);
+                tripn = Math.abs(v) <= 16 * Geodesic.TOL0;
+                continue;
+              }
+            }
+          }
+          // Use the midpoint of the bracket as the next estimate
+          salp1 = (salp1a + salp1b) / 2;
+          calp1 = (calp1a + calp1b) / 2;
+          [salp1, calp1] = Geodesic.normalize(salp1, calp1);
+          tripn = false;
+          tripb = Math.abs(salp1a - salp1) + (calp1a - calp1) <
+              Geodesic.TOLB ||
+            Math.abs(salp1 - salp1b) + (calp1 - calp1b) < Geodesic.TOLB;
+        }
+        const result = lambda as Lambda12;
+        salp2 = result.salp2;
+        calp2 = result.calp2;
+        sig12 = result.sig12;
+        const lengths = this.lengths(
+          result.eps,
+          sig12,
+          result.ssig1,
+          result.csig1,
+          dn1,
+          result.ssig2,
+          result.csig2,
+          dn2,
+          C1a,
+          C2a,
+        );
+        s12x = lengths.s12b * this._b;
+        // omg12 = lam12 - domg12
+        const sdomg12 = Math.sin(result.domg12);
+        const cdomg12 = Math.cos(result.domg12);
+        somg12 = slam12 * cdomg12 - clam12 * sdomg12;
+        comg12 = clam12 * cdomg12 + slam12 * sdomg12;
+      }
+    }
+
+    // Area between the geodesic and the equator
+    let area: number;
+    const salp0 = salp1 * cbet1;
+    const calp0 = Math.hypot(calp1, salp1 * sbet1);
+    if (calp0 !== 0 && salp0 !== 0) {
+      const [ssig1, csig1] = Geodesic.normalize(sbet1, calp1 * cbet1);
+      const [ssig2, csig2] = Geodesic.normalize(sbet2, calp2 * cbet2);
+      const k2 = calp0 * calp0 * this._ep2;
+      const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+      const A4 = this._a * this._a * calp0 * salp0 * this._e2;
+      const C4a = new Array<number>(Geodesic.ORDER).fill(0);
+      this.c4f(eps, C4a);
+      const B41 = Geodesic.sinCosSeries(false, ssig1, csig1, C4a);
+      const B42 = Geodesic.sinCosSeries(false, ssig2, csig2, C4a);
+      area = A4 * (B42 - B41);
+    } else {
+      // Avoid indeterminate auxiliary sphere arcs on the equator
+      area = 0;
+    }
+    if (!meridian && somg12 === 2) {
+      somg12 = Math.sin(omg12);
+      comg12 = Math.cos(omg12);
+    }
+    let alp12: number;
+    if (!meridian && comg12 > -0.7071 && sbet2 - sbet1 < 1.75) {
+      // Use tan(Gamma/2) = tan(omg12/2) *
+      // (tan(bet1/2) + tan(bet2/2)) / (1 + tan(bet1/2) * tan(bet2/2))
+      const domg12 = 1 + comg12;
+      const dbet1 = 1 + cbet1;
+      const dbet2 = 1 + cbet2;
+      alp12 = 2 * Math.atan2(
+        somg12 * (sbet1 * dbet2 + sbet2 * dbet1),
+        domg12 * (sbet1 * sbet2 + dbet1 * dbet2),
+      );
+    } else {
+      let salp12 = salp2 * calp1 - calp2 * salp1;
+      let calp12 = calp2 * calp1 + salp2 * salp1;
+      if (salp12 === 0 && calp12 < 0) {
+        salp12 = Geodesic.TINY * calp1;
+        calp12 = -1;
+      }
+      alp12 = Math.atan2(salp12, calp12);
+    }
+    area += this._c2 * alp12;
+    area *= swapp * lonsign * latsign;
+
+    // Convert to azimuths, undoing the swaps and sign changes
+    if (swapp < 0) {
+      [salp1, salp2] = [salp2, salp1];
+      [calp1, calp2] = [calp2, calp1];
+    }
+    salp1 *= swapp * lonsign;
+    calp1 *= swapp * latsign;
+    salp2 *= swapp * lonsign;
+    calp2 *= swapp * latsign;
+
+    return {
+      distance: 0 + s12x,
+      azimuth1: Geodesic.atan2Degrees(salp1, calp1),
+      azimuth2: Geodesic.atan2Degrees(salp2, calp2),
+      area: 0 + area,
+    };
+  }
+
+  /**
+   * Solve the direct geodesic problem, the end point of a geodesic
+   * @param lat1 start latitude in degrees
+   * @param lon1 start longitude in degrees
+   * @param azimuth1 start azimuth in degrees clockwise from north
+   * @param distance distance in meters, negative to go backwards
+   * @returns end point and azimuth
+   */
+  public direct(
+    lat1: number,
+    lon1: number,
+    azimuth1: number,
+    distance: number,
+  ): GeodesicDirect {
+    const [salp1, calp1] = Geodesic.sinCosDegrees(
+      Geodesic.angleRound(Geodesic.angleNormalize(azimuth1)),
+    );
+    let [sbet1, cbet1] = Geodesic.sinCosDegrees(
+      Geodesic.angleRound(Geodesic.latitudeFix(lat1)),
+    );
+    sbet1 *= this._f1;
+    [sbet1, cbet1] = Geodesic.normalize(sbet1, cbet1);
+    cbet1 = Math.max(Geodesic.TINY, cbet1);
+
+    // Equatorial crossing azimuth and the auxiliary sphere start point
+    const salp0 = salp1 * cbet1;
+    const calp0 = Math.hypot(calp1, salp1 * sbet1);
+    const somg1 = salp0 * sbet1;
+    const comg1 = sbet1 !== 0 || calp1 !== 0 ? cbet1 * calp1 : 1;
+    const [ssig1, csig1] = Geodesic.normalize(sbet1, comg1);
+
+    const k2 = calp0 * calp0 * this._ep2;
+    const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+
+    const A1m1 = Geodesic.a1m1f(eps);
+    const C1a = new Array<number>(Geodesic.ORDER + 1).fill(0);
+    Geodesic.c1f(eps, C1a);
+    const B11 = Geodesic.sinCosSeries(true, ssig1, csig1, C1a);
+    const s = Math.sin(B11);
+    const c = Math.cos(B11);
+    const stau1 = ssig1 * c + csig1 * s;
+    const ctau1 = csig1 * c - ssig1 * s;
+
+    const C1pa = new Array<number>(Geodesic.ORDER + 1).fill(0);
+    Geodesic.c1pf(eps, C1pa);
+
+    const C3a = new Array<number>(Geodesic.ORDER).fill(0);
+    this.c3f(eps, C3a);
+    const A3c = -this._f * salp0 * this.a3f(eps);
+    const B31 = Geodesic.sinCosSeries(true, ssig1, csig1, C3a);
+
+    // Arc length on the auxiliary sphere from the distance
+    const tau12 = distance / (this._b * (1 + A1m1));
+    const stau12 = Math.sin(tau12);
+    const ctau12 = Math.cos(tau12);
+    let B12 = -Geodesic.sinCosSeries(
+      true,
+      stau1 * ctau12 + ctau1 * stau12,
+      ctau1 * ctau12 - stau1 * stau12,
+      C1pa,
+    );
+    let sig12 = tau12 - (B12 - B11);
+    let ssig12 = Math.sin(sig12);
+    let csig12 = Math.cos(sig12);
+    if (Math.abs(this._f) > 0.01) {
+      // The reverted distance series is inaccurate for larger flattening,
+      // so correct with one Newton iteration
+      const ssig2 = ssig1 * csig12 + csig1 * ssig12;
+      const csig2 = csig1 * csig12 - ssig1 * ssig12;
+      B12 = Geodesic.sinCosSeries(true, ssig2, csig2, C1a);
+      const serr = (1 + A1m1) * (sig12 + (B12 - B11)) - distance / this._b;
+      sig12 = sig12 - serr / Math.sqrt(1 + k2 * ssig2 * ssig2);
+      ssig12 = Math.sin(sig12);
+      csig12 = Math.cos(sig12);
+    }
+
+    const ssig2 = ssig1 * csig12 + csig1 * ssig12;
+    let csig2 = csig1 * csig12 - ssig1 * ssig12;
+    const sbet2 = calp0 * ssig2;
+    let cbet2 = Math.hypot(salp0, calp0 * csig2);
+    if (cbet2 === 0) {
+      // Break the degeneracy of a meridian through a pole
+      cbet2 = csig2 = Geodesic.TINY;
+    }
+    const salp2 = salp0;
+    const calp2 = calp0 * csig2;
+
+    const somg2 = salp0 * ssig2;
+    const comg2 = csig2;
+    const omg12 = Math.atan2(
+      somg2 * comg1 - comg2 * somg1,
+      comg2 * comg1 + somg2 * somg1,
+    );
+    const lam12 = omg12 +
+      A3c * (sig12 + (Geodesic.sinCosSeries(true, ssig2, csig2, C3a) - B31));
+    const lon12 = lam12 / Geodesic.DEGREE;
+
+    return {
+      latitude: Geodesic.atan2Degrees(sbet2, this._f1 * cbet2),
+      longitude: Geodesic.angleNormalize(
+        Geodesic.angleNormalize(lon1) + Geodesic.angleNormalize(lon12),
+      ),
+      azimuth: Geodesic.atan2Degrees(salp2, calp2),
+    };
+  }
+
+  /**
+   * Evaluate the distance and reduced length series
+   * @param eps series parameter
+   * @param sig12 arc length on the auxiliary sphere
+   * @param ssig1 sine of the first arc
+   * @param csig1 cosine of the first arc
+   * @param dn1 first ellipsoid scale
+   * @param ssig2 sine of the second arc
+   * @param csig2 cosine of the second arc
+   * @param dn2 second ellipsoid scale
+   * @param C1a C1 coefficients to fill
+   * @param C2a C2 coefficients to fill
+   * @returns lengths
+   */
+  private lengths(
+    eps: number,
+    sig12: number,
+    ssig1: number,
+    csig1: number,
+    dn1: number,
+    ssig2: number,
+    csig2: number,
+    dn2: number,
+    C1a: number[],
+    C2a: number[],
+  ): Lengths {
+    let A1 = Geodesic.a1m1f(eps);
+    Geodesic.c1f(eps, C1a);
+    let A2 = Geodesic.a2m1f(eps);
+    Geodesic.c2f(eps, C2a);
+    const m0 = A1 - A2;
+    A1 = 1 + A1;
+    A2 = 1 + A2;
+    const B1 = Geodesic.sinCosSeries(true, ssig2, csig2, C1a) -
+      Geodesic.sinCosSeries(true, ssig1, csig1, C1a);
+    const B2 = Geodesic.sinCosSeries(true, ssig2, csig2, C2a) -
+      Geodesic.sinCosSeries(true, ssig1, csig1, C2a);
+    const J12 = m0 * sig12 + (A1 * B1 - A2 * B2);
+    return {
+      s12b: A1 * (sig12 + B1),
+      m12b: dn2 * (csig1 * ssig2) - dn1 * (ssig1 * csig2) -
+        csig1 * csig2 * J12,
+      m0,
+    };
+  }
+
+  /**
+   * Get the starting guess of the first azimuth for the inverse problem,
+   * solving short lines directly
+   * @param sbet1 sine of the first reduced latitude
+   * @param cbet1 cosine of the first reduced latitude
+   * @param dn1 first ellipsoid scale
+   * @param sbet2 sine of the second reduced latitude
+   * @param cbet2 cosine of the second reduced latitude
+   * @param dn2 second ellipsoid scale
+   * @param lam12 longitude difference in radians
+   * @param slam12 sine of the longitude difference
+   * @param clam12 cosine of the longitude difference
+   * @param C1a C1 coefficients work array
+   * @param C2a C2 coefficients work array
+   * @returns starting guess
+   */
+  private inverseStart(
+    sbet1: number,
+    cbet1: number,
+    dn1: number,
+    sbet2: number,
+    cbet2: number,
+    dn2: number,
+    lam12: number,
+    slam12: number,
+    clam12: number,
+    C1a: number[],
+    C2a: number[],
+  ): InverseStart {
+    const start: InverseStart = {
+      sig12: -1,
+      salp1: 0,
+      calp1: 0,
+      salp2: 0,
+      calp2: 0,
+      dnm: 0,
+    };
+    // bet12 = bet2 - bet1 in [0, pi), bet12a = bet2 + bet1 in (-pi, 0]
+    const sbet12 = sbet2 * cbet1 - cbet2 * sbet1;
+    const cbet12 = cbet2 * cbet1 + sbet2 * sbet1;
+    const sbet12a = sbet2 * cbet1 + cbet2 * sbet1;
+
+    const shortline = cbet12 >= 0 && sbet12 < 0.5 && cbet2 * lam12 < 0.5;
+    let somg12: number;
+    let comg12: number;
+    if (shortline) {
+      let sbetm2 = (sbet1 + sbet2) * (sbet1 + sbet2);
+      sbetm2 /= sbetm2 + (cbet1 + cbet2) * (cbet1 + cbet2);
+      start.dnm = Math.sqrt(1 + this._ep2 * sbetm2);
+      const omg12 = lam12 / (this._f1 * start.dnm);
+      somg12 = Math.sin(omg12);
+      comg12 = Math.cos(omg12);
+    } else {
+      somg12 = slam12;
+      comg12 = clam12;
+    }
+
+    start.salp1 = cbet2 * somg12;
+    start.calp1 = comg12 >= 0
+      ? sbet12 + cbet2 * sbet1 * somg12 * somg12 / (1 + comg12)
+      : sbet12a - cbet2 * sbet1 * somg12 * somg12 / (1 - comg12);
+
+    const ssig12 = Math.hypot(start.salp1, start.calp1);
+    const csig12 = sbet1 * sbet2 + cbet1 * cbet2 * comg12;
+    if (shortline && ssig12 < this._etol2) {
+      // Really short lines
+      start.salp2 = cbet1 * somg12;
+      start.calp2 = sbet12 - cbet1 * sbet2 *
+          (comg12 >= 0 ? somg12 * somg12 / (1 + comg12) : 1 - comg12);
+      [start.salp2, start.calp2] = Geodesic.normalize(
+        start.salp2,
+        start.calp2,
+      );
+      start.sig12 = Math.atan2(ssig12, csig12);
+    } else if (
+      Math.abs(this._n) > 0.1 || csig12 >= 0 ||
+      ssig12 >= 6 * Math.abs(this._n) * Math.PI * cbet1 * cbet1
+    ) {
+      // Zeroth order spherical approximation is good enough
+    } else {
+      // Scale to coordinates where the anti podal point is at the origin and
+      // the singular point is at y = 0, x = -1
+      const lam12x = Math.atan2(-slam12, -clam12);
+      let x: number;
+      let y: number;
+      let lamscale: number;
+      let betscale: number;
+      if (this._f >= 0) {
+        const k2 = sbet1 * sbet1 * this._ep2;
+        const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+        lamscale = this._f * cbet1 * this.a3f(eps) * Math.PI;
+        betscale = lamscale * cbet1;
+        x = lam12x / lamscale;
+        y = sbet12a / betscale;
+      } else {
+        const cbet12a = cbet2 * cbet1 - sbet2 * sbet1;
+        const bet12a = Math.atan2(sbet12a, cbet12a);
+        const lengths = this.lengths(
+          this._n,
+          Math.PI + bet12a,
+          sbet1,
+          -cbet1,
+          dn1,
+          sbet2,
+          cbet2,
+          dn2,
+          C1a,
+          C2a,
+        );
+        x = -1 + lengths.m12b / (cbet1 * cbet2 * lengths.m0 * Math.PI);
+        betscale = x < -0.01 ? sbet12a / x : -this._f * cbet1 * cbet1 * Math.PI;
+        lamscale = betscale / cbet1;
+        y = lam12 / lamscale;
+      }
+
+      if (y > -Geodesic.TOL1 && x > -1 - Geodesic.XTHRESH) {
+        // Strip near the cut
+        if (this._f >= 0) {
+          start.salp1 = Math.min(1, -x);
+          start.calp1 = -Math.sqrt(1 - start.salp1 * start.salp1);
+        } else {
+          start.calp1 = Math.max(x > -Geodesic.TOL1 ? 0 : -1, x);
+          start.salp1 = Math.sqrt(1 - start.calp1 * start.calp1);
+        }
+      } else {
+        const k = Geodesic.astroid(x, y);
+        const omg12a = lamscale *
+          (this._f >= 0 ? -x * k / (1 + k) : -y * (1 + k) / k);
+        somg12 = Math.sin(omg12a);
+        comg12 = -Math.cos(omg12a);
+        // Update the spherical estimate using omg12 instead of lam12
+        start.salp1 = cbet2 * somg12;
+        start.calp1 = sbet12a -
+          cbet2 * sbet1 * somg12 * somg12 / (1 - comg12);
+      }
+    }
+    // Sanity check on the starting guess, allowing NaN through
+    if (!(start.salp1 <= 0)) {
+      [start.salp1, start.calp1] = Geodesic.normalize(
+        start.salp1,
+        start.calp1,
+      );
+    } else {
+      start.salp1 = 1;
+      start.calp1 = 0;
+    }
+    return start;
+  }
+
+  /**
+   * Get the longitude difference of the geodesic with a first azimuth, less
+   * the target longitude difference, and its derivative
+   * @param sbet1 sine of the first reduced latitude
+   * @param cbet1 cosine of the first reduced latitude
+   * @param dn1 first ellipsoid scale
+   * @param sbet2 sine of the second reduced latitude
+   * @param cbet2 cosine of the second reduced latitude
+   * @param dn2 second ellipsoid scale
+   * @param salp1 sine of the first azimuth
+   * @param calp1 cosine of the first azimuth
+   * @param slam120 sine of the target longitude difference
+   * @param clam120 cosine of the target longitude difference
+   * @param diffp true to compute the derivative
+   * @param C1a C1 coefficients work array
+   * @param C2a C2 coefficients work array
+   * @param C3a C3 coefficients work array
+   * @returns longitude difference error and auxiliary sphere values
+   */
+  private lambda12(
+    sbet1: number,
+    cbet1: number,
+    dn1: number,
+    sbet2: number,
+    cbet2: number,
+    dn2: number,
+    salp1: number,
+    calp1: number,
+    slam120: number,
+    clam120: number,
+    diffp: boolean,
+    C1a: number[],
+    C2a: number[],
+    C3a: number[],
+  ): Lambda12 {
+    if (sbet1 === 0 && calp1 === 0) {
+      // Break the degeneracy of the equatorial line
+      calp1 = -Geodesic.TINY;
+    }
+
+    // sin(alp1) * cos(bet1) = sin(alp0)
+    const salp0 = salp1 * cbet1;
+    const calp0 = Math.hypot(calp1, salp1 * sbet1);
+
+    // tan(bet1) = tan(sig1) * cos(alp1)
+    // tan(omg1) = sin(alp0) * tan(sig1)
+    const somg1 = salp0 * sbet1;
+    const comg1 = calp1 * cbet1;
+    const [ssig1, csig1] = Geodesic.normalize(sbet1, comg1);
+
+    // Enforce symmetries when abs(bet2) = -bet1
+    const salp2 = cbet2 !== cbet1 ? salp0 / cbet2 : salp1;
+    const calp2 = cbet2 !== cbet1 || Math.abs(sbet2) !== -sbet1
+      ? Math.sqrt(
+        (calp1 * cbet1) * (calp1 * cbet1) +
+          (cbet1 < -sbet1
+            ? (cbet2 - cbet1) * (cbet1 + cbet2)
+            : (sbet1 - sbet2) * (sbet1 + sbet2)),
+      ) / cbet2
+      : Math.abs(calp1);
+    const somg2 = salp0 * sbet2;
+    const comg2 = calp2 * cbet2;
+    const [ssig2, csig2] = Geodesic.normalize(sbet2, comg2);
+
+    // sig12 = sig2 - sig1, limited to [0, pi]
+    const sig12 = Math.atan2(
+      Math.max(0, csig1 * ssig2 - ssig1 * csig2),
+      csig1 * csig2 + ssig1 * ssig2,
+    );
+
+    // omg12 = omg2 - omg1, limited to [0, pi]
+    const somg12 = Math.max(0, comg1 * somg2 - somg1 * comg2);
+    const comg12 = comg1 * comg2 + somg1 * somg2;
+    // eta = omg12 - lam120
+    const eta = Math.atan2(
+      somg12 * clam120 - comg12 * slam120,
+      comg12 * clam120 + somg12 * slam120,
+    );
+    const k2 = calp0 * calp0 * this._ep2;
+    const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+    this.c3f(eps, C3a);
+    const B312 = Geodesic.sinCosSeries(true, ssig2, csig2, C3a) -
+      Geodesic.sinCosSeries(true, ssig1, csig1, C3a);
+    const domg12 = -this._f * this.a3f(eps) * salp0 * (sig12 + B312);
+
+    let dlam12 = 0;
+    if (diffp) {
+      if (calp2 === 0) {
+        dlam12 = -2 * this._f1 * dn1 / sbet1;
+      } else {
+        const lengths = this.lengths(
+          eps,
+          sig12,
+          ssig1,
+          csig1,
+          dn1,
+          ssig2,
+          csig2,
+          dn2,
+          C1a,
+          C2a,
+        );
+        dlam12 = lengths.m12b * this._f1 / (calp2 * cbet2);
+      }
+    }
+
+    return {
+      lam12: eta + domg12,
+      salp2,
+      calp2,
+      sig12,
+      ssig1,
+      csig1,
+      ssig2,
+      csig2,
+      eps,
+      domg12,
+      dlam12,
+    };
+  }
+
+  /**
+   * Evaluate the A3 series
+   * @param eps series parameter
+   * @returns A3
+   */
+  private a3f(eps: number): number {
+    return Geodesic.polyval(Geodesic.ORDER - 1, this._A3x, 0, eps);
+  }
+
+  /**
+   * Evaluate the C3 series coefficients
+   * @param eps series parameter
+   * @param c coefficients to fill, from index 1
+   */
+  private c3f(eps: number, c: number[]): void {
+    let mult = 1;
+    let o = 0;
+    for (let l = 1; l < Geodesic.ORDER; l++) {
+      const m = Geodesic.ORDER - l - 1;
+      mult *= eps;
+      c[l] = mult * Geodesic.polyval(m, this._C3x, o, eps);
+      o += m + 1;
+    }
+  }
+
+  /**
+   * Evaluate the C4 series coefficients
+   * @param eps series parameter
+   * @param c coefficients to fill, from index 0
+   */
+  private c4f(eps: number, c: number[]): void {
+    let mult = 1;
+    let o = 0;
+    for (let l = 0; l < Geodesic.ORDER; l++) {
+      const m = Geodesic.ORDER - l - 1;
+      c[l] = mult * Geodesic.polyval(m, this._C4x, o, eps);
+      o += m + 1;
+      mult *= eps;
+    }
+  }
+
+  /**
+   * Compute the A3 series coefficients for the third flattening
+   */
+  private computeA3Coefficients(): void {
+    // deno-fmt-ignore
+    const coeff = [
+      // A3, coeff of eps^5, polynomial in n of order 0
+      -3, 128,
+      // A3, coeff of eps^4, polynomial in n of order 1
+      -2, -3, 64,
+      // A3, coeff of eps^3, polynomial in n of order 2
+      -1, -3, -1, 16,
+      // A3, coeff of eps^2, polynomial in n of order 2
+      3, -1, -2, 8,
+      // A3, coeff of eps^1, polynomial in n of order 1
+      1, -1, 2,
+      // A3, coeff of eps^0, polynomial in n of order 0
+      1, 1,
+    ];
+    let o = 0;
+    for (let j = Geodesic.ORDER - 1; j >= 0; j--) {
+      const p = Math.min(Geodesic.ORDER - j - 1, j);
+      this._A3x.push(
+        Geodesic.polyval(p, coeff, o, this._n) / coeff[o + p + 1],
+      );
+      o += p + 2;
+    }
+  }
+
+  /**
+   * Compute the C3 series coefficients for the third flattening
+   */
+  private computeC3Coefficients(): void {
+    // deno-fmt-ignore
+    const coeff = [
+      // C3[1], coeff of eps^5, polynomial in n of order 0
+      3, 128,
+      // C3[1], coeff of eps^4, polynomial in n of order 1
+      2, 5, 128,
+      // C3[1], coeff of eps^3, polynomial in n of order 2
+      -1, 3, 3, 64,
+      // C3[1], coeff of eps^2, polynomial in n of order 2
+      -1, 0, 1, 8,
+      // C3[1], coeff of eps^1, polynomial in n of order 1
+      -1, 1, 4,
+      // C3[2], coeff of eps^5, polynomial in n of order 0
+      5, 256,
+      // C3[2], coeff of eps^4, polynomial in n of order 1
+      1, 3, 128,
+      // C3[2], coeff of eps^3, polynomial in n of order 2
+      -3, -2, 3, 64,
+      // C3[2], coeff of eps^2, polynomial in n of order 2
+      1, -3, 2, 32,
+      // C3[3], coeff of eps^5, polynomial in n of order 0
+      7, 512,
+      // C3[3], coeff of eps^4, polynomial in n of order 1
+      -10, 9, 384,
+      // C3[3], coeff of eps^3, polynomial in n of order 2
+      5, -9, 5, 192,
+      // C3[4], coeff of eps^5, polynomial in n of order 0
+      7, 512,
+      // C3[4], coeff of eps^4, polynomial in n of order 1
+      -14, 7, 512,
+      // C3[5], coeff of eps^5, polynomial in n of order 0
+      21, 2560,
+    ];
+    let o = 0;
+    for (let l = 1; l < Geodesic.ORDER; l++) {
+      for (let j = Geodesic.ORDER - 1; j >= l; j--) {
+        const p = Math.min(Geodesic.ORDER - j - 1, j);
+        this._C3x.push(
+          Geodesic.polyval(p, coeff, o, this._n) / coeff[o + p + 1],
+        );
+        o += p + 2;
+      }
+    }
+  }
+
+  /**
+   * Compute the C4 series coefficients for the third flattening
+   */
+  private computeC4Coefficients(): void {
+    // deno-fmt-ignore
+    const coeff = [
+      // C4[0], coeff of eps^5, polynomial in n of order 0
+      97, 15015,
+      // C4[0], coeff of eps^4, polynomial in n of order 1
+      1088, 156, 45045,
+      // C4[0], coeff of eps^3, polynomial in n of order 2
+      -224, -4784, 1573, 45045,
+      // C4[0], coeff of eps^2, polynomial in n of order 3
+      -10656, 14144, -4576, -858, 45045,
+      // C4[0], coeff of eps^1, polynomial in n of order 4
+      64, 624, -4576, 6864, -3003, 15015,
+      // C4[0], coeff of eps^0, polynomial in n of order 5
+      100, 208, 572, 3432, -12012, 30030, 45045,
+      // C4[1], coeff of eps^5, polynomial in n of order 0
+      1, 9009,
+      // C4[1], coeff of eps^4, polynomial in n of order 1
+      -2944, 468, 135135,
+      // C4[1], coeff of eps^3, polynomial in n of order 2
+      5792, 1040, -1287, 135135,
+      // C4[1], coeff of eps^2, polynomial in n of order 3
+      5952, -11648, 9152, -2574, 135135,
+      // C4[1], coeff of eps^1, polynomial in n of order 4
+      -64, -624, 4576, -6864, 3003, 135135,
+      // C4[2], coeff of eps^5, polynomial in n of order 0
+      8, 10725,
+      // C4[2], coeff of eps^4, polynomial in n of order 1
+      1856, -936, 225225,
+      // C4[2], coeff of eps^3, polynomial in n of order 2
+      -8448, 4992, -1144, 225225,
+      // C4[2], coeff of eps^2, polynomial in n of order 3
+      -1440, 4160, -4576, 1716, 225225,
+      // C4[3], coeff of eps^5, polynomial in n of order 0
+      -136, 63063,
+      // C4[3], coeff of eps^4, polynomial in n of order 1
+      1024, -208, 105105,
+      // C4[3], coeff of eps^3, polynomial in n of order 2
+      3584, -3328, 1144, 315315,
+      // C4[4], coeff of eps^5, polynomial in n of order 0
+      -128, 135135,
+      // C4[4], coeff of eps^4, polynomial in n of order 1
+      -2560, 832, 405405,
+      // C4[5], coeff of eps^5, polynomial in n of order 0
+      128, 99099,
+    ];
+    let o = 0;
+    for (let l = 0; l < Geodesic.ORDER; l++) {
+      for (let j = Geodesic.ORDER - 1; j >= l; j--) {
+        const p = Geodesic.ORDER - j - 1;
+        this._C4x.push(
+          Geodesic.polyval(p, coeff, o, this._n) / coeff[o + p + 1],
+        );
+        o += p + 2;
+      }
+    }
+  }
+
+  /**
+   * Evaluate the A1 series, (1 - eps) * A1 - 1
+   * @param eps series parameter
+   * @returns A1 - 1
+   */
+  private static a1m1f(eps: number): number {
+    // (1-eps)*A1-1, polynomial in eps2 of order 3
+    const coeff = [1, 4, 64, 0, 256];
+    const p = Geodesic.ORDER / 2;
+    const t = Geodesic.polyval(p, coeff, 0, eps * eps) / coeff[p + 1];
+    return (t + eps) / (1 - eps);
+  }
+
+  /**
+   * Evaluate the C1 series coefficients
+   * @param eps series parameter
+   * @param c coefficients to fill, from index 1
+   */
+  private static c1f(eps: number, c: number[]): void {
+    // deno-fmt-ignore
+    const coeff = [
+      // C1[1]/eps^1, polynomial in eps2 of order 2
+      -1, 6, -16, 32,
+      // C1[2]/eps^2, polynomial in eps2 of order 2
+      -9, 64, -128, 2048,
+      // C1[3]/eps^3, polynomial in eps2 of order 1
+      9, -16, 768,
+      // C1[4]/eps^4, polynomial in eps2 of order 1
+      3, -5, 512,
+      // C1[5]/eps^5, polynomial in eps2 of order 0
+      -7, 1280,
+      // C1[6]/eps^6, polynomial in eps2 of order 0
+      -7, 2048,
+    ];
+    Geodesic.evenSeries(eps, c, coeff);
+  }
+
+  /**
+   * Evaluate the C1p series coefficients, reverting the C1 series
+   * @param eps series parameter
+   * @param c coefficients to fill, from index 1
+   */
+  private static c1pf(eps: number, c: number[]): void {
+    // deno-fmt-ignore
+    const coeff = [
+      // C1p[1]/eps^1, polynomial in eps2 of order 2
+      205, -432, 768, 1536,
+      // C1p[2]/eps^2, polynomial in eps2 of order 2
+      4005, -4736, 3840, 12288,
+      // C1p[3]/eps^3, polynomial in eps2 of order 1
+      -225, 116, 384,
+      // C1p[4]/eps^4, polynomial in eps2 of order 1
+      -7173, 2695, 7680,
+      // C1p[5]/eps^5, polynomial in eps2 of order 0
+      3467, 7680,
+      // C1p[6]/eps^6, polynomial in eps2 of order 0
+      38081, 61440,
+    ];
+    Geodesic.evenSeries(eps, c, coeff);
+  }
+
+  /**
+   * Evaluate the A2 series, (1 + eps) * A2 - 1
+   * @param eps series parameter
+   * @returns A2 - 1
+   */
+  private static a2m1f(eps: number): number {
+    // (eps+1)*A2-1, polynomial in eps2 of order 3
+    const coeff = [-11, -28, -192, 0, 256];
+    const p = Geodesic.ORDER / 2;
+    const t = Geodesic.polyval(p, coeff, 0, eps * eps) / coeff[p + 1];
+    return (t - eps) / (1 + eps);
+  }
+
+  /**
+   * Evaluate the C2 series coefficients
+   * @param eps series parameter
+   * @param c coefficients to fill, from index 1
+   */
+  private static c2f(eps: number, c: number[]): void {
+    // deno-fmt-ignore
+    const coeff = [
+      // C2[1]/eps^1, polynomial in eps2 of order 2
+      1, 2, 16, 32,
+      // C2[2]/eps^2, polynomial in eps2 of order 2
+      35, 64, 384, 2048,
+      // C2[3]/eps^3, polynomial in eps2 of order 1
+      15, 80, 768,
+      // C2[4]/eps^4, polynomial in eps2 of order 1
+      7, 35, 512,
+      // C2[5]/eps^5, polynomial in eps2 of order 0
+      63, 1280,
+      // C2[6]/eps^6, polynomial in eps2 of order 0
+      77, 2048,
+    ];
+    Geodesic.evenSeries(eps, c, coeff);
+  }
+
+  /**
+   * Evaluate series coefficients which are eps to the power of their index
+   * times polynomials in eps squared
+   * @param eps series parameter
+   * @param c coefficients to fill, from index 1
+   * @param coeff polynomial coefficients, each followed by its divisor
+   */
+  private static evenSeries(eps: number, c: number[], coeff: number[]): void {
+    const eps2 = eps * eps;
+    let d = eps;
+    let o = 0;
+    for (let l = 1; l <= Geodesic.ORDER; l++) {
+      const p = Math.floor((Geodesic.ORDER - l) / 2);
+      c[l] = d * Geodesic.polyval(p, coeff, o, eps2) / coeff[o + p + 1];
+      o += p + 2;
+      d *= eps;
+    }
+  }
+
+  /**
+   * Evaluate a sine or cosine series using Clenshaw summation
+   * @param sinp true for a sine series, false for a cosine series
+   * @param sinx sine of the argument
+   * @param cosx cosine of the argument
+   * @param c series coefficients, from index 1 for sine series
+   * @returns series sum
+   */
+  private static sinCosSeries(
+    sinp: boolean,
+    sinx: number,
+    cosx: number,
+    c: number[],
+  ): number {
+    let k = c.length;
+    let n = k - (sinp ? 1 : 0);
+    const ar = 2 * (cosx - sinx) * (cosx + sinx);
+    let y0 = n & 1 ? c[--k] : 0;
+    let y1 = 0;
+    n = Math.floor(n / 2);
+    while (n--) {
+      y1 = ar * y0 - y1 + c[--k];
+      y0 = ar * y1 - y0 + c[--k];
+    }
+    return sinp ? 2 * sinx * cosx * y0 : cosx * (y0 - y1);
+  }
+
+  /**
+   * Solve the astroid equation k^4 + 2 k^3 - (x^2 + y^2 - 1) k^2 - 2 y^2 k -
+   * y^2 = 0 for its positive root
+   * @param x x
+   * @param y y
+   * @returns positive root
+   */
+  private static astroid(x: number, y: number): number {
+    const p = x * x;
+    const q = y * y;
+    const r = (p + q - 1) / 6;
+    let k = 0;
+    if (!(q === 0 && r <= 0)) {
+      const S = p * q / 4;
+      const r2 = r * r;
+      const r3 = r * r2;
+      const disc = S * (S + 2 * r3);
+      let u = r;
+      if (disc >= 0) {
+        let T3 = S + r3;
+        T3 += T3 < 0 ? -Math.sqrt(disc) : Math.sqrt(disc);
+        const T = Math.cbrt(T3);
+        u += T + (T !== 0 ? r2 / T : 0);
+      } else {
+        const ang = Math.atan2(Math.sqrt(-disc), -(S + r3));
+        u += 2 * r * Math.cos(ang / 3);
+      }
+      const v = Math.sqrt(u * u + q);
+      const uv = u < 0 ? q / (v - u) : u + v;
+      const w = (uv - q) / (2 * v);
+      k = uv / (Math.sqrt(uv + w * w) + w);
+    }
+    return k;
+  }
+
+  /**
+   * Evaluate a polynomial with Horner's method
+   * @param n polynomial order
+   * @param p coefficients, highest order first
+   * @param s coefficient start index
+   * @param x polynomial argument
+   * @returns polynomial value
+   */
+  private static polyval(
+    n: number,
+    p: number[],
+    s: number,
+    x: number,
+  ): number {
+    let y = n < 0 ? 0 : p[s++];
+    while (--n >= 0) {
+      y = y * x + p[s++];
+    }
+    return y;
+  }
+
+  /**
+   * Normalize a sine and cosine pair
+   * @param s sine
+   * @param c cosine
+   * @returns normalized sine and cosine
+   */
+  private static normalize(s: number, c: number): [number, number] {
+    const r = Math.hypot(s, c);
+    return [s / r, c / r];
+  }
+
+  /**
+   * Add two numbers exactly
+   * @param u first number
+   * @param v second number
+   * @returns rounded sum and its round off error
+   */
+  private static sum(u: number, v: number): [number, number] {
+    const s = u + v;
+    let up = s - v;
+    let vpp = s - up;
+    up -= u;
+    vpp -= v;
+    return [s, -(up + vpp)];
+  }
+
+  /**
+   * Round an angle so small values are exact multiples of 2^-57, avoiding
+   * underflow near zero
+   * @param x angle in degrees
+   * @returns rounded angle
+   */
+  private static angleRound(x: number): number {
+    const z = 1 / 16;
+    let y = Math.abs(x);
+    y = y < z ? z - (z - y) : y;
+    return x < 0 ? -y : y;
+  }
+
+  /**
+   * Normalize an angle to the range [-180, 180]
+   * @param x angle in degrees
+   * @returns normalized angle
+   */
+  public static angleNormalize(x: number): number {
+    x = x % 360;
+    return x <= -180 ? x + 360 : (x <= 180 ? x : x - 360);
+  }
+
+  /**
+   * Replace latitudes beyond the poles with NaN
+   * @param x latitude in degrees
+   * @returns latitude or NaN
+   */
+  private static latitudeFix(x: number): number {
+    return Math.abs(x) > 90 ? Number.NaN : x;
+  }
+
+  /**
+   * Get the exact difference of two angles, reduced to [-180, 180]
+   * @param x first angle in degrees
+   * @param y second angle in degrees
+   * @returns difference y - x and its round off error
+   */
+  public static angleDiff(x: number, y: number): [number, number] {
+    const [s, t] = Geodesic.sum(
+      Geodesic.angleNormalize(-x),
+      Geodesic.angleNormalize(y),
+    );
+    const d = Geodesic.angleNormalize(s);
+    return Geodesic.sum(d === 180 && t > 0 ? -180 : d, t);
+  }
+
+  /**
+   * Get the sine and cosine of an angle in degrees, exact for multiples of
+   * 90 degrees
+   * @param x angle in degrees
+   * @returns sine and cosine
+   */
+  private static sinCosDegrees(x: number): [number, number] {
+    let r = x % 360;
+    const q = Math.round(r / 90);
+    r -= 90 * q;
+    r *= Geodesic.DEGREE;
+    const s = Math.sin(r);
+    const c = Math.cos(r);
+    let sinx: number;
+    let cosx: number;
+    switch ((q >>> 0) & 3) {
+      case 0:
+        sinx = s;
+        cosx = c;
+        break;
+      case 1:
+        sinx = c;
+        cosx = -s;
+        break;
+      case 2:
+        sinx = -s;
+        cosx = -c;
+        break;
+      default:
+        sinx = -c;
+        cosx = s;
+    }
+    if (x !== 0) {
+      sinx += 0;
+      cosx += 0;
+    }
+    return [sinx, cosx];
+  }
+
+  /**
+   * Get the angle in degrees of a point, exact for multiples of 45 degrees
+   * @param y y
+   * @param x x
+   * @returns angle in degrees in the range [-180, 180]
+   */
+  private static atan2Degrees(y: number, x: number): number {
+    let q = 0;
+    if (Math.abs(y) > Math.abs(x)) {
+      [x, y] = [y, x];
+      q = 2;
+    }
+    if (x < 0) {
+      x = -x;
+      q++;
+    }
+    let angle = Math.atan2(y, x) / Geodesic.DEGREE;
+    switch (q) {
+      case 1:
+        angle = (y >= 0 ? 180 : -180) - angle;
+        break;
+      case 2:
+        angle = 90 - angle;
+        break;
+      case 3:
+        angle = -90 + angle;
+        break;
+    }
+    return angle;
+  }
+}
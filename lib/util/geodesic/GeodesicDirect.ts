@@ -0,0 +1,20 @@
+/**
+ * Solution of the direct geodesic problem, the end point of a geodesic from a
+ * start point, azimuth and distance
+ */
+export interface GeodesicDirect {
+  /**
+   * End point latitude in degrees
+   */
+  latitude: number;
+
+  /**
+   * End point longitude in degrees, in the range [-180, 180]
+   */
+  longitude: number;
+
+  /**
+   * Forward azimuth at the end point in degrees clockwise from north
+   */
+  azimuth: number;
+}
@@ -0,0 +1,26 @@
+/**
+ * Solution of the inverse geodesic problem, the shortest path between two
+ * points
+ */
+export interface GeodesicInverse {
+  /**
+   * Distance between the points in meters
+   */
+  distance: number;
+
+  /**
+   * Azimuth at the first point in degrees clockwise from north
+   */
+  azimuth1: number;
+
+  /**
+   * Forward azimuth at the second point in degrees clockwise from north
+   */
+  azimuth2: number;
+
+  /**
+   * Area in square meters of the quadrilateral bounded by the geodesic, the
+   * meridians through the points and the equator, counter clockwise positive
+   */
+  area: number;
+}
@@ -0,0 +1,263 @@
+import type {
+  Curve,
+  CurvePolygon,
+  Geometry,
+  GeometryCollection,
+  LineString,
+  Point,
+  PolyhedralSurface,
+} from "../../internal.ts";
+import {
+  CurveLinearizer,
+  Geodesic,
+  GeometryType,
+  SFException,
+} from "../../internal.ts";
+
+/**
+ * Geodesic measurement of geometry distance, length, perimeter and area on an
+ * ellipsoid, WGS84 by default. Point x values are longitudes and y values are
+ * latitudes, in degrees. Edges follow the shortest geodesic between their
+ * points, so edges crossing the antimeridian are measured across it. Circular
+ * strings are linearized before measuring.
+ */
+export class GeodesicMeasure {
+  /**
+   * Get the geodesic distance between two points
+   * @param point1 first point
+   * @param point2 second point
+   * @param geodesic geodesic ellipsoid calculations
+   * @returns distance in meters
+   */
+  public static getDistance(
+    point1: Point,
+    point2: Point,
+    geodesic: Geodesic = Geodesic.WGS84,
+  ): number {
+    return geodesic.inverse(point1.y, point1.x, point2.y, point2.x).distance;
+  }
+
+  /**
+   * Get the geodesic length of the geometry curves, zero for points and
+   * surfaces
+   * @param geometry geometry
+   * @param geodesic geodesic ellipsoid calculations
+   * @returns length in meters
+   */
+  public static getLength(
+    geometry: Geometry,
+    geodesic: Geodesic = Geodesic.WGS84,
+  ): number {
+    let length = 0;
+    switch (geometry.geometryType) {
+      case GeometryType.Point:
+      case GeometryType.MultiPoint:
+      case GeometryType.Polygon:
+      case GeometryType.Triangle:
+      case GeometryType.CurvePolygon:
+      case GeometryType.PolyhedralSurface:
+      case GeometryType.Tin:
+        break;
+      case GeometryType.LineString:
+      case GeometryType.CircularString:
+      case GeometryType.CompoundCurve: {
+        length = GeodesicMeasure.getCurveLength(geometry as Curve, geodesic);
+        break;
+      }
+      case GeometryType.MultiLineString:
+      case GeometryType.MultiPolygon:
+      case GeometryType.GeometryCollection:
+      case GeometryType.MultiCurve:
+      case GeometryType.MultiSurface: {
+        for (const child of (geometry as GeometryCollection).geometries) {
+          length += GeodesicMeasure.getLength(child, geodesic);
+        }
+        break;
+      }
+      default:
+        throw new SFException(
+          `Unsupported Geometry Type: ${geometry.geometryType}`,
+        );
+    }
+    return length;
+  }
+
+  /**
+   * Get the geodesic perimeter of the geometry surfaces, the length of their
+   * rings, zero for points and curves
+   * @param geometry geometry
+   * @param geodesic geodesic ellipsoid calculations
+   * @returns perimeter in meters
+   */
+  public static getPerimeter(
+    geometry: Geometry,
+    geodesic: Geodesic = Geodesic.WGS84,
+  ): number {
+    let perimeter = 0;
+    switch (geometry.geometryType) {
+      case GeometryType.Point:
+      case GeometryType.MultiPoint:
+      case GeometryType.LineString:
+      case GeometryType.CircularString:
+      case GeometryType.CompoundCurve:
+      case GeometryType.MultiLineString:
+        break;
+      case GeometryType.Polygon:
+      case GeometryType.Triangle:
+      case GeometryType.CurvePolygon: {
+        for (const ring of (geometry as CurvePolygon).rings) {
+          perimeter += GeodesicMeasure.getCurveLength(ring, geodesic);
+        }
+        break;
+      }
+      case GeometryType.PolyhedralSurface:
+      case GeometryType.Tin: {
+        for (const polygon of (geometry as PolyhedralSurface).polygons) {
+          perimeter += GeodesicMeasure.getPerimeter(polygon, geodesic);
+        }
+        break;
+      }
+      case GeometryType.MultiPolygon:
+      case GeometryType.GeometryCollection:
+      case GeometryType.MultiCurve:
+      case GeometryType.MultiSurface: {
+        for (const child of (geometry as GeometryCollection).geometries) {
+          perimeter += GeodesicMeasure.getPerimeter(child, geodesic);
+        }
+        break;
+      }
+      default:
+        throw new SFException(
+          `Unsupported Geometry Type: ${geometry.geometryType}`,
+        );
+    }
+    return perimeter;
+  }
+
+  /**
+   * Get the geodesic area of the geometry surfaces, the exterior ring area
+   * less the hole areas, zero for points and curves
+   * @param geometry geometry
+   * @param geodesic geodesic ellipsoid calculations
+   * @returns area in square meters
+   */
+  public static getArea(
+    geometry: Geometry,
+    geodesic: Geodesic = Geodesic.WGS84,
+  ): number {
+    let area = 0;
+    switch (geometry.geometryType) {
+      case GeometryType.Point:
+      case GeometryType.MultiPoint:
+      case GeometryType.LineString:
+      case GeometryType.CircularString:
+      case GeometryType.CompoundCurve:
+      case GeometryType.MultiLineString:
+        break;
+      case GeometryType.Polygon:
+      case GeometryType.Triangle:
+      case GeometryType.CurvePolygon: {
+        const rings = (geometry as CurvePolygon).rings;
+        for (let i = 0; i < rings.length; i++) {
+          const ringArea = GeodesicMeasure.getRingArea(rings[i], geodesic);
+          area += i === 0 ? ringArea : -ringArea;
+        }
+        break;
+      }
+      case GeometryType.PolyhedralSurface:
+      case GeometryType.Tin: {
+        for (const polygon of (geometry as PolyhedralSurface).polygons) {
+          area += GeodesicMeasure.getArea(polygon, geodesic);
+        }
+        break;
+      }
+      case GeometryType.MultiPolygon:
+      case GeometryType.GeometryCollection:
+      case GeometryType.MultiCurve:
+      case GeometryType.MultiSurface: {
+        for (const child of (geometry as GeometryCollection).geometries) {
+          area += GeodesicMeasure.getArea(child, geodesic);
+        }
+        break;
+      }
+      default:
+        throw new SFException(
+          `Unsupported Geometry Type: ${geometry.geometryType}`,
+        );
+    }
+    return area;
+  }
+
+  /**
+   * Get the geodesic length of a curve
+   * @param curve line string, circular string or compound curve
+   * @param geodesic geodesic ellipsoid calculations
+   * @returns length in meters
+   */
+  public static getCurveLength(
+    curve: Curve,
+    geodesic: Geodesic = Geodesic.WGS84,
+  ): number {
+    const points = (CurveLinearizer.linearize(curve) as LineString).points;
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+      length += GeodesicMeasure.getDistance(points[i - 1], points[i], geodesic);
+    }
+    return length;
+  }
+
+  /**
+   * Get the unsigned geodesic area enclosed by a ring, the smaller of the two
+   * areas it divides the ellipsoid into
+   * @param curve ring curve
+   * @param geodesic geodesic ellipsoid calculations
+   * @returns area in square meters
+   */
+  private static getRingArea(curve: Curve, geodesic: Geodesic): number {
+    const points = (CurveLinearizer.linearize(curve) as LineString).points;
+    if (points.length < 3) {
+      return 0;
+    }
+    let area = 0;
+    let crossings = 0;
+    for (let i = 0; i < points.length; i++) {
+      const point1 = points[i];
+      const point2 = points[(i + 1) % points.length];
+      area += geodesic.inverse(point1.y, point1.x, point2.y, point2.x).area;
+      crossings += GeodesicMeasure.transit(point1.x, point2.x);
+    }
+
+    // Edge areas are measured to the equator, so a ring encircling a pole,
+    // crossing the prime meridian an odd number of times, is missing half of
+    // the ellipsoid
+    const ellipsoidArea = geodesic.ellipsoidArea;
+    if ((crossings & 1) !== 0) {
+      area += (area < 0 ? 1 : -1) * ellipsoidArea / 2;
+    }
+    area = area % ellipsoidArea;
+    if (area > ellipsoidArea / 2) {
+      area -= ellipsoidArea;
+    } else if (area <= -ellipsoidArea / 2) {
+      area += ellipsoidArea;
+    }
+    return Math.abs(area);
+  }
+
+  /**
+   * Determine the direction an edge crosses the prime meridian
+   * @param lon1 start longitude in degrees
+   * @param lon2 end longitude in degrees
+   * @returns 1 for eastward, -1 for westward and 0 for no crossing
+   */
+  private static transit(lon1: number, lon2: number): number {
+    lon1 = Geodesic.angleNormalize(lon1);
+    lon2 = Geodesic.angleNormalize(lon2);
+    const lon12 = Geodesic.angleDiff(lon1, lon2)[0];
+    if (lon1 <= 0 && lon2 > 0 && lon12 > 0) {
+      return 1;
+    } else if (lon2 <= 0 && lon1 > 0 && lon12 < 0) {
+      return -1;
+    }
+    return 0;
+  }
+}
@@ -0,0 +1,22 @@
+import type { Geometry } from "../../internal.ts";
+
+/**
+ * Feature of a geometry with properties and an optional identifier, as read
+ * from and written to a GeoJSON Feature
+ */
+export interface Feature {
+  /**
+   * Feature identifier
+   */
+  id?: string | number;
+
+  /**
+   * Geometry, undefined for an unlocated feature
+   */
+  geometry?: Geometry;
+
+  /**
+   * Properties
+   */
+  properties?: { [name: string]: unknown } | null;
+}
@@ -0,0 +1,268 @@
+import type {
+  Feature,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  GeoJSONGeometry,
+  GeoJSONPosition,
+  Geometry,
+} from "../../internal.ts";
+import {
+  GeoJSONWriter,
+  GeometryCollection,
+  LineString,
+  MultiLineString,
+  MultiPoint,
+  MultiPolygon,
+  Point,
+  Polygon,
+  SFException,
+  WKTReader,
+} from "../../internal.ts";
+
+/**
+ * GeoJSON (RFC 7946) reader of geometries, features and feature collections.
+ * A geometry written with its original well-known text in the
+ * {@link GeoJSONWriter.FOREIGN_MEMBER} foreign member is restored from it.
+ */
+export class GeoJSONReader {
+  /**
+   * Read a geometry from a GeoJSON geometry object
+   * @param geoJSON GeoJSON geometry object or JSON text
+   * @returns geometry
+   */
+  public static readGeometry(geoJSON: GeoJSONGeometry | string): Geometry {
+    return GeoJSONReader.readGeometryObject(
+      GeoJSONReader.parse(geoJSON) as GeoJSONGeometry,
+    );
+  }
+
+  /**
+   * Read a feature from a GeoJSON Feature object
+   * @param geoJSON GeoJSON Feature object or JSON text
+   * @returns feature
+   */
+  public static readFeature(geoJSON: GeoJSONFeature | string): Feature {
+    const obj = GeoJSONReader.parse(geoJSON) as GeoJSONFeature;
+    if (obj.type !== "Feature") {
+      throw new SFException(`Expected a GeoJSON Feature, found: ${obj.type}`);
+    }
+    const feature: Feature = {
+      properties: obj.properties ?? null,
+    };
+    if (obj.id !== undefined) {
+      feature.id = obj.id;
+    }
+    if (obj.geometry !== null && obj.geometry !== undefined) {
+      feature.geometry = GeoJSONReader.readGeometryObject(obj.geometry);
+    }
+    return feature;
+  }
+
+  /**
+   * Read the features of a GeoJSON FeatureCollection object
+   * @param geoJSON GeoJSON FeatureCollection object or JSON text
+   * @returns features
+   */
+  public static readFeatureCollection(
+    geoJSON: GeoJSONFeatureCollection | string,
+  ): Feature[] {
+    const obj = GeoJSONReader.parse(geoJSON) as GeoJSONFeatureCollection;
+    if (obj.type !== "FeatureCollection" || !Array.isArray(obj.features)) {
+      throw new SFException(
+        `Expected a GeoJSON FeatureCollection, found: ${obj.type}`,
+      );
+    }
+    return obj.features.map((feature) => GeoJSONReader.readFeature(feature));
+  }
+
+  /**
+   * Parse JSON text to a GeoJSON object
+   * @param geoJSON GeoJSON object or JSON text
+   * @returns GeoJSON object
+   */
+  private static parse(geoJSON: object | string): { type: string } {
+    const obj = typeof geoJSON === "string" ? JSON.parse(geoJSON) : geoJSON;
+    if (obj === null || typeof obj !== "object") {
+      throw new SFException("Expected a GeoJSON object");
+    }
+    return obj;
+  }
+
+  /**
+   * Read a geometry object
+   * @param geoJSON GeoJSON geometry object
+   * @returns geometry
+   */
+  private static readGeometryObject(geoJSON: GeoJSONGeometry): Geometry {
+    const wkt = geoJSON[GeoJSONWriter.FOREIGN_MEMBER];
+    if (typeof wkt === "string") {
+      return WKTReader.readGeometry(wkt);
+    }
+
+    let geometry: Geometry;
+    switch (geoJSON.type) {
+      case "Point": {
+        const coordinates = GeoJSONReader.coordinates(geoJSON, 1);
+        geometry = coordinates.length === 0
+          ? GeoJSONReader.createEmptyPoint()
+          : GeoJSONReader.readPosition(coordinates as GeoJSONPosition);
+        break;
+      }
+      case "MultiPoint": {
+        const multiPoint = MultiPoint.create();
+        for (const position of GeoJSONReader.coordinates(geoJSON, 2)) {
+          multiPoint.addPoint(
+            GeoJSONReader.readPosition(position as GeoJSONPosition),
+          );
+        }
+        geometry = multiPoint;
+        break;
+      }
+      case "LineString": {
+        geometry = GeoJSONReader.readLineString(
+          GeoJSONReader.coordinates(geoJSON, 2) as GeoJSONPosition[],
+        );
+        break;
+      }
+      case "MultiLineString": {
+        const multiLineString = MultiLineString.create();
+        for (const positions of GeoJSONReader.coordinates(geoJSON, 3)) {
+          multiLineString.addLineString(
+            GeoJSONReader.readLineString(positions as GeoJSONPosition[]),
+          );
+        }
+        geometry = multiLineString;
+        break;
+      }
+      case "Polygon": {
+        geometry = GeoJSONReader.readPolygon(
+          GeoJSONReader.coordinates(geoJSON, 3) as GeoJSONPosition[][],
+        );
+        break;
+      }
+      case "MultiPolygon": {
+        const multiPolygon = MultiPolygon.create();
+        for (const rings of GeoJSONReader.coordinates(geoJSON, 4)) {
+          multiPolygon.addPolygon(
+            GeoJSONReader.readPolygon(rings as GeoJSONPosition[][]),
+          );
+        }
+        geometry = multiPolygon;
+        break;
+      }
+      case "GeometryCollection": {
+        if (!Array.isArray(geoJSON.geometries)) {
+          throw new SFException(
+            "GeoJSON GeometryCollection is missing geometries",
+          );
+        }
+        const geometryCollection = GeometryCollection.create();
+        for (const child of geoJSON.geometries) {
+          geometryCollection.addGeometry(
+            GeoJSONReader.readGeometryObject(child),
+          );
+        }
+        geometry = geometryCollection;
+        break;
+      }
+      default:
+        throw new SFException(
+          `Unsupported GeoJSON geometry type: ${
+            (geoJSON as { type: string }).type
+          }`,
+        );
+    }
+    return geometry;
+  }
+
+  /**
+   * Get and validate the coordinates of a geometry object
+   * @param geoJSON GeoJSON geometry object
+   * @param depth array nesting depth of the coordinates, 1 for a position
+   * @returns coordinates
+   */
+  private static coordinates(
+    geoJSON: GeoJSONGeometry,
+    depth: number,
+  ): unknown[] {
+    const coordinates = geoJSON.coordinates;
+    if (!GeoJSONReader.isNested(coordinates, depth)) {
+      throw new SFException(
+        `Invalid GeoJSON ${geoJSON.type} coordinates: ${
+          JSON.stringify(coordinates)
+        }`,
+      );
+    }
+    return coordinates as unknown[];
+  }
+
+  /**
+   * Determine if the value is an array nested to the depth, ending in
+   * positions of at least two numbers
+   * @param value value
+   * @param depth array nesting depth, 1 for a position
+   * @returns true if valid
+   */
+  private static isNested(value: unknown, depth: number): boolean {
+    let valid = Array.isArray(value);
+    if (valid) {
+      const array = value as unknown[];
+      if (depth === 1) {
+        valid = array.length === 0 ||
+          (array.length >= 2 &&
+            array.every((number) => typeof number === "number"));
+      } else {
+        valid = array.every((element) =>
+          GeoJSONReader.isNested(element, depth - 1) &&
+          (depth > 2 || (element as unknown[]).length > 0)
+        );
+      }
+    }
+    return valid;
+  }
+
+  /**
+   * Read a position, ignoring any values beyond z
+   * @param position position
+   * @returns point
+   */
+  private static readPosition(position: GeoJSONPosition): Point {
+    return position.length > 2
+      ? Point.createFromXYZ(position[0], position[1], position[2])
+      : Point.createFromXY(position[0], position[1]);
+  }
+
+  /**
+   * Create an empty point
+   * @returns point with NaN coordinates
+   */
+  private static createEmptyPoint(): Point {
+    return Point.createFromXY(Number.NaN, Number.NaN);
+  }
+
+  /**
+   * Read line string positions
+   * @param positions positions
+   * @returns line string
+   */
+  private static readLineString(positions: GeoJSONPosition[]): LineString {
+    const lineString = LineString.create();
+    for (const position of positions) {
+      lineString.addPoint(GeoJSONReader.readPosition(position));
+    }
+    return lineString;
+  }
+
+  /**
+   * Read polygon ring positions
+   * @param rings ring positions
+   * @returns polygon
+   */
+  private static readPolygon(rings: GeoJSONPosition[][]): Polygon {
+    const polygon = Polygon.create();
+    for (const ring of rings) {
+      polygon.addRing(GeoJSONReader.readLineString(ring));
+    }
+    return polygon;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * GeoJSON position of x (longitude), y (latitude) and optional z (altitude)
+ */
+export type GeoJSONPosition = number[];
+
+/**
+ * GeoJSON bounding box of minimums followed by maximums for each dimension
+ */
+export type GeoJSONBBox = number[];
+
+/**
+ * Members common to all GeoJSON objects, including foreign members
+ */
+export interface GeoJSONObject {
+  /**
+   * GeoJSON type
+   */
+  type: string;
+
+  /**
+   * Bounding box
+   */
+  bbox?: GeoJSONBBox;
+
+  /**
+   * Foreign members
+   */
+  [member: string]: unknown;
+}
+
+/**
+ * GeoJSON Point
+ */
+export interface GeoJSONPoint extends GeoJSONObject {
+  type: "Point";
+  coordinates: GeoJSONPosition;
+}
+
+/**
+ * GeoJSON MultiPoint
+ */
+export interface GeoJSONMultiPoint extends GeoJSONObject {
+  type: "MultiPoint";
+  coordinates: GeoJSONPosition[];
+}
+
+/**
+ * GeoJSON LineString
+ */
+export interface GeoJSONLineString extends GeoJSONObject {
+  type: "LineString";
+  coordinates: GeoJSONPosition[];
+}
+
+/**
+ * GeoJSON MultiLineString
+ */
+export interface GeoJSONMultiLineString extends GeoJSONObject {
+  type: "MultiLineString";
+  coordinates: GeoJSONPosition[][];
+}
+
+/**
+ * GeoJSON Polygon
+ */
+export interface GeoJSONPolygon extends GeoJSONObject {
+  type: "Polygon";
+  coordinates: GeoJSONPosition[][];
+}
+
+/**
+ * GeoJSON MultiPolygon
+ */
+export interface GeoJSONMultiPolygon extends GeoJSONObject {
+  type: "MultiPolygon";
+  coordinates: GeoJSONPosition[][][];
+}
+
+/**
+ * GeoJSON GeometryCollection
+ */
+export interface GeoJSONGeometryCollection extends GeoJSONObject {
+  type: "GeometryCollection";
+  geometries: GeoJSONGeometry[];
+}
+
+/**
+ * GeoJSON Geometry
+ */
+export type GeoJSONGeometry =
+  | GeoJSONPoint
+  | GeoJSONMultiPoint
+  | GeoJSONLineString
+  | GeoJSONMultiLineString
+  | GeoJSONPolygon
+  | GeoJSONMultiPolygon
+  | GeoJSONGeometryCollection;
+
+/**
+ * GeoJSON Feature
+ */
+export interface GeoJSONFeature extends GeoJSONObject {
+  type: "Feature";
+  id?: string | number;
+  geometry: GeoJSONGeometry | null;
+  properties: { [name: string]: unknown } | null;
+}
+
+/**
+ * GeoJSON FeatureCollection
+ */
+export interface GeoJSONFeatureCollection extends GeoJSONObject {
+  type: "FeatureCollection";
+  features: GeoJSONFeature[];
+}
@@ -0,0 +1,462 @@
+import type {
+  Feature,
+  GeoJSONBBox,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  GeoJSONGeometry,
+  GeoJSONObject,
+  GeoJSONPosition,
+  Geometry,
+  GeometryCollection,
+  LineString,
+  MultiLineString,
+  MultiPoint,
+  Point,
+  PolyhedralSurface,
+} from "../../internal.ts";
+import {
+  CurveLinearizer,
+  GeometryEnvelope,
+  GeometryEnvelopeBuilder,
+  GeometryType,
+  GeometryTypeUtils,
+  MultiPolygon,
+  Polygon,
+  SFException,
+  UnsupportedTypePolicy,
+  WKTWriter,
+} from "../../internal.ts";
+
+/**
+ * GeoJSON (RFC 7946) writer of geometries, features and feature collections.
+ * Z values are written as the third position element, M values are not
+ * written.
+ */
+export class GeoJSONWriter {
+  /**
+   * Foreign member holding the well-known text of a geometry type without a
+   * GeoJSON equivalent
+   */
+  public static readonly FOREIGN_MEMBER = "wkt";
+
+  /**
+   * Policy for geometry types without a GeoJSON equivalent
+   */
+  private _unsupportedTypePolicy: UnsupportedTypePolicy;
+
+  /**
+   * Write bounding boxes
+   */
+  private _bbox: boolean;
+
+  /**
+   * Orient polygon rings by the right hand rule
+   */
+  private _rightHandRule: boolean;
+
+  /**
+   * Constructor
+   * @param unsupportedTypePolicy policy for geometry types without a GeoJSON
+   *        equivalent
+   * @param bbox write bounding boxes
+   * @param rightHandRule orient exterior rings counter clockwise and holes
+   *        clockwise
+   */
+  public constructor(
+    unsupportedTypePolicy: UnsupportedTypePolicy =
+      UnsupportedTypePolicy.Linearize,
+    bbox = false,
+    rightHandRule = false,
+  ) {
+    this._unsupportedTypePolicy = unsupportedTypePolicy;
+    this._bbox = bbox;
+    this._rightHandRule = rightHandRule;
+  }
+
+  /**
+   * Get the policy for geometry types without a GeoJSON equivalent
+   * @returns unsupported type policy
+   */
+  public get unsupportedTypePolicy(): UnsupportedTypePolicy {
+    return this._unsupportedTypePolicy;
+  }
+
+  /**
+   * Set the policy for geometry types without a GeoJSON equivalent
+   * @param unsupportedTypePolicy unsupported type policy
+   */
+  public set unsupportedTypePolicy(
+    unsupportedTypePolicy: UnsupportedTypePolicy,
+  ) {
+    this._unsupportedTypePolicy = unsupportedTypePolicy;
+  }
+
+  /**
+   * Are bounding boxes written
+   * @returns true if bounding boxes are written
+   */
+  public get bbox(): boolean {
+    return this._bbox;
+  }
+
+  /**
+   * Set if bounding boxes are written
+   * @param bbox true to write bounding boxes
+   */
+  public set bbox(bbox: boolean) {
+    this._bbox = bbox;
+  }
+
+  /**
+   * Are polygon rings oriented by the right hand rule
+   * @returns true if oriented
+   */
+  public get rightHandRule(): boolean {
+    return this._rightHandRule;
+  }
+
+  /**
+   * Set if polygon rings are oriented by the right hand rule, exterior rings
+   * counter clockwise and holes clockwise
+   * @param rightHandRule true to orient
+   */
+  public set rightHandRule(rightHandRule: boolean) {
+    this._rightHandRule = rightHandRule;
+  }
+
+  /**
+   * Write a geometry to a GeoJSON geometry object
+   * @param geometry geometry
+   * @returns GeoJSON geometry
+   */
+  public writeGeometry(geometry: Geometry): GeoJSONGeometry {
+    const geoJSON = this.writeGeometryObject(geometry);
+    this.addBBox(geoJSON, [geometry]);
+    return geoJSON;
+  }
+
+  /**
+   * Write a feature to a GeoJSON Feature object
+   * @param feature feature
+   * @returns GeoJSON Feature
+   */
+  public writeFeature(feature: Feature): GeoJSONFeature {
+    const geoJSON: GeoJSONFeature = {
+      type: "Feature",
+      geometry: feature.geometry !== undefined
+        ? this.writeGeometryObject(feature.geometry)
+        : null,
+      properties: feature.properties ?? null,
+    };
+    if (feature.id !== undefined) {
+      geoJSON.id = feature.id;
+    }
+    if (feature.geometry !== undefined) {
+      this.addBBox(geoJSON, [feature.geometry]);
+    }
+    return geoJSON;
+  }
+
+  /**
+   * Write features to a GeoJSON FeatureCollection object
+   * @param features features
+   * @returns GeoJSON FeatureCollection
+   */
+  public writeFeatureCollection(
+    features: Feature[],
+  ): GeoJSONFeatureCollection {
+    const geoJSON: GeoJSONFeatureCollection = {
+      type: "FeatureCollection",
+      features: features.map((feature) => this.writeFeature(feature)),
+    };
+    const geometries: Geometry[] = [];
+    for (const feature of features) {
+      if (feature.geometry !== undefined) {
+        geometries.push(feature.geometry);
+      }
+    }
+    this.addBBox(geoJSON, geometries);
+    return geoJSON;
+  }
+
+  /**
+   * Write a geometry without a bounding box
+   * @param geometry geometry
+   * @returns GeoJSON geometry
+   */
+  private writeGeometryObject(geometry: Geometry): GeoJSONGeometry {
+    let geoJSON: GeoJSONGeometry;
+    const geometryType = geometry.geometryType;
+    switch (geometryType) {
+      case GeometryType.Point: {
+        geoJSON = {
+          type: "Point",
+          coordinates: geometry.isEmpty()
+            ? []
+            : this.writePosition(geometry as Point, geometry.hasZ),
+        };
+        break;
+      }
+      case GeometryType.LineString: {
+        geoJSON = {
+          type: "LineString",
+          coordinates: this.writePositions(geometry as LineString),
+        };
+        break;
+      }
+      case GeometryType.Polygon: {
+        geoJSON = {
+          type: "Polygon",
+          coordinates: this.writeRings(geometry as Polygon),
+        };
+        break;
+      }
+      case GeometryType.MultiPoint: {
+        geoJSON = {
+          type: "MultiPoint",
+          coordinates: (geometry as MultiPoint).points.filter((point) =>
+            !point.isEmpty()
+          ).map((point) => this.writePosition(point, geometry.hasZ)),
+        };
+        break;
+      }
+      case GeometryType.MultiLineString: {
+        geoJSON = {
+          type: "MultiLineString",
+          coordinates: (geometry as MultiLineString).lineStrings.map((
+            lineString,
+          ) => this.writePositions(lineString, geometry.hasZ)),
+        };
+        break;
+      }
+      case GeometryType.MultiPolygon: {
+        geoJSON = {
+          type: "MultiPolygon",
+          coordinates: (geometry as MultiPolygon).polygons.map((polygon) =>
+            this.writeRings(polygon, geometry.hasZ)
+          ),
+        };
+        break;
+      }
+      case GeometryType.GeometryCollection: {
+        geoJSON = {
+          type: "GeometryCollection",
+          geometries: (geometry as GeometryCollection).geometries.map((
+            child,
+          ) => this.writeGeometryObject(child)),
+        };
+        break;
+      }
+      case GeometryType.CircularString:
+      case GeometryType.CompoundCurve:
+      case GeometryType.CurvePolygon:
+      case GeometryType.MultiCurve:
+      case GeometryType.MultiSurface:
+      case GeometryType.PolyhedralSurface:
+      case GeometryType.Tin:
+      case GeometryType.Triangle: {
+        geoJSON = this.writeUnsupportedGeometry(geometry);
+        break;
+      }
+      default:
+        throw new SFException(`Unsupported Geometry Type: ${geometryType}`);
+    }
+    return geoJSON;
+  }
+
+  /**
+   * Write a geometry type without a GeoJSON equivalent using the unsupported
+   * type policy
+   * @param geometry geometry
+   * @returns GeoJSON geometry
+   */
+  private writeUnsupportedGeometry(geometry: Geometry): GeoJSONGeometry {
+    if (this._unsupportedTypePolicy === UnsupportedTypePolicy.Reject) {
+      throw new SFException(
+        `Geometry Type not supported by GeoJSON: ${
+          GeometryTypeUtils.nameFromType(geometry.geometryType)
+        }`,
+      );
+    }
+    const geoJSON = this.writeGeometryObject(
+      GeoJSONWriter.toGeoJSONGeometry(geometry),
+    );
+    if (this._unsupportedTypePolicy === UnsupportedTypePolicy.ForeignMember) {
+      geoJSON[GeoJSONWriter.FOREIGN_MEMBER] = WKTWriter.writeGeometry(geometry);
+    }
+    return geoJSON;
+  }
+
+  /**
+   * Convert a geometry type without a GeoJSON equivalent to the closest
+   * geometry type with one
+   * @param geometry geometry
+   * @returns linear geometry
+   */
+  private static toGeoJSONGeometry(geometry: Geometry): Geometry {
+    let converted: Geometry;
+    switch (geometry.geometryType) {
+      case GeometryType.Triangle: {
+        converted = Polygon.createFromLineStrings(
+          (geometry as Polygon).rings.map((ring) => ring.copy()),
+        );
+        break;
+      }
+      case GeometryType.PolyhedralSurface:
+      case GeometryType.Tin: {
+        converted = GeoJSONWriter.toMultiPolygon(
+          geometry,
+          (geometry as PolyhedralSurface).polygons,
+        );
+        break;
+      }
+      case GeometryType.MultiSurface: {
+        const polygons: Polygon[] = [];
+        for (
+          const surface of (geometry as GeometryCollection).geometries
+        ) {
+          const linear = CurveLinearizer.linearize(surface);
+          if (linear instanceof Polygon) {
+            polygons.push(linear);
+          } else {
+            polygons.push(...(linear as PolyhedralSurface).polygons);
+          }
+        }
+        converted = GeoJSONWriter.toMultiPolygon(geometry, polygons);
+        break;
+      }
+      default:
+        converted = CurveLinearizer.linearize(geometry);
+    }
+    return converted;
+  }
+
+  /**
+   * Create a multi polygon of linearized polygons or triangles
+   * @param geometry geometry being converted
+   * @param polygons polygons
+   * @returns multi polygon
+   */
+  private static toMultiPolygon(
+    geometry: Geometry,
+    polygons: Polygon[],
+  ): MultiPolygon {
+    const multiPolygon = MultiPolygon.create(geometry.hasZ, geometry.hasM);
+    for (const polygon of polygons) {
+      multiPolygon.addPolygon(
+        GeoJSONWriter.toGeoJSONGeometry(polygon) as Polygon,
+      );
+    }
+    return multiPolygon;
+  }
+
+  /**
+   * Write a position
+   * @param point point
+   * @param hasZ write the z value
+   * @returns position
+   */
+  private writePosition(point: Point, hasZ: boolean): GeoJSONPosition {
+    const position = [point.x, point.y];
+    if (hasZ && point.z !== undefined) {
+      position.push(point.z);
+    }
+    return position;
+  }
+
+  /**
+   * Write line string positions
+   * @param lineString line string
+   * @param hasZ write z values
+   * @returns positions
+   */
+  private writePositions(
+    lineString: LineString,
+    hasZ: boolean = lineString.hasZ,
+  ): GeoJSONPosition[] {
+    return lineString.points.map((point) => this.writePosition(point, hasZ));
+  }
+
+  /**
+   * Write polygon ring positions, oriented by the right hand rule when enabled
+   * @param polygon polygon
+   * @param hasZ write z values
+   * @returns ring positions
+   */
+  private writeRings(
+    polygon: Polygon,
+    hasZ: boolean = polygon.hasZ,
+  ): GeoJSONPosition[][] {
+    return polygon.rings.map((ring, index) => {
+      const positions = this.writePositions(ring, hasZ);
+      if (this._rightHandRule) {
+        const area = GeoJSONWriter.signedArea(positions);
+        if (index === 0 ? area < 0 : area > 0) {
+          positions.reverse();
+        }
+      }
+      return positions;
+    });
+  }
+
+  /**
+   * Get the signed area of ring positions, positive when counter clockwise
+   * @param positions ring positions
+   * @returns signed area
+   */
+  private static signedArea(positions: GeoJSONPosition[]): number {
+    let area = 0;
+    for (let i = 0; i < positions.length; i++) {
+      const position1 = positions[i];
+      const position2 = positions[(i + 1) % positions.length];
+      area += position1[0] * position2[1] - position2[0] * position1[1];
+    }
+    return area / 2;
+  }
+
+  /**
+   * Add a bounding box of the geometries when enabled and not empty
+   * @param geoJSON GeoJSON object
+   * @param geometries geometries
+   */
+  private addBBox(geoJSON: GeoJSONObject, geometries: Geometry[]): void {
+    if (this._bbox) {
+      const envelope = new GeometryEnvelope();
+      envelope.minX = Number.MAX_VALUE;
+      envelope.maxX = -Number.MAX_VALUE;
+      envelope.minY = Number.MAX_VALUE;
+      envelope.maxY = -Number.MAX_VALUE;
+      for (const geometry of geometries) {
+        GeometryEnvelopeBuilder.buildEnvelopeWithEnvelope(geometry, envelope);
+      }
+      if (envelope.minX <= envelope.maxX && envelope.minY <= envelope.maxY) {
+        geoJSON.bbox = GeoJSONWriter.toBBox(envelope);
+      }
+    }
+  }
+
+  /**
+   * Convert an envelope to a bounding box
+   * @param envelope geometry envelope
+   * @returns bounding box
+   */
+  private static toBBox(envelope: GeometryEnvelope): GeoJSONBBox {
+    let bbox: GeoJSONBBox;
+    if (
+      envelope.hasZ && envelope.minZ !== undefined &&
+      envelope.maxZ !== undefined
+    ) {
+      bbox = [
+        envelope.minX,
+        envelope.minY,
+        envelope.minZ,
+        envelope.maxX,
+        envelope.maxY,
+        envelope.maxZ,
+      ];
+    } else {
+      bbox = [envelope.minX, envelope.minY, envelope.maxX, envelope.maxY];
+    }
+    return bbox;
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Policy for writing geometry types without a GeoJSON equivalent, such as
+ * curves, surfaces and triangulated irregular networks
+ */
+export enum UnsupportedTypePolicy {
+  /**
+   * Write the closest linear GeoJSON geometry, linearizing circular arcs
+   */
+  Linearize = 0,
+
+  /**
+   * Throw an exception
+   */
+  Reject = 1,
+
+  /**
+   * Write the linear GeoJSON geometry with the original geometry as well-known
+   * text in a foreign member, restored when read
+   */
+  ForeignMember = 2,
+}
@@ -0,0 +1,251 @@
+import type { Geometry } from "../../internal.ts";
+import {
+  ConvexHull,
+  DelaunayTriangulator,
+  GeometryComponents,
+  LineString,
+  OverlayGraph,
+  Point,
+  Polygon,
+  SegmentUtils,
+  SFException,
+} from "../../internal.ts";
+
+/**
+ * Concave hull of every vertex of a geometry, computed as a chi-shape by
+ * eroding the Delaunay triangulation of the vertices. Boundary triangles are
+ * removed longest boundary edge first while that edge is longer than the
+ * length threshold and the hull remains a single simple polygon. When holes
+ * are allowed, interior triangles with an edge longer than the threshold and
+ * no vertex on the boundary are removed as well, growing holes. The length
+ * threshold is the length ratio between the shortest and the longest
+ * triangulation edge lengths, a ratio of 1 giving the convex hull. Hulls are
+ * 2D and keep the srid of the geometry.
+ */
+export class ConcaveHull {
+  /**
+   * Get the concave hull of a geometry
+   * @param geometry geometry
+   * @param lengthRatio edge length ratio from 0 to 1
+   * @param allowHoles true to allow holes
+   * @returns empty polygon, point, line string or polygon, degenerate hulls
+   *          being convex hulls
+   */
+  public static hull(
+    geometry: Geometry,
+    lengthRatio: number,
+    allowHoles = false,
+  ): Geometry {
+    if (!(lengthRatio >= 0 && lengthRatio <= 1)) {
+      throw new SFException(`Invalid length ratio: ${lengthRatio}`);
+    }
+    const triangulator = new DelaunayTriangulator(
+      GeometryComponents.getVertices(geometry),
+    );
+    let hull: Geometry;
+    if (triangulator.triangles.length === 0) {
+      hull = ConvexHull.createHull(ConvexHull.hullPoints(triangulator.points));
+    } else {
+      hull = ConcaveHull.createHull(
+        triangulator,
+        ConcaveHull.erode(triangulator, lengthRatio, allowHoles),
+      );
+    }
+    hull.srid = geometry.srid;
+    return hull;
+  }
+
+  /**
+   * Erode the triangulation
+   * @param triangulator Delaunay triangulation
+   * @param lengthRatio edge length ratio
+   * @param allowHoles true to allow holes
+   * @returns removed triangle flags
+   */
+  private static erode(
+    triangulator: DelaunayTriangulator,
+    lengthRatio: number,
+    allowHoles: boolean,
+  ): boolean[] {
+    const { points, triangles, neighbors } = triangulator;
+    const edgeLength = (triangle: number, edge: number): number =>
+      SegmentUtils.distance(
+        points[triangles[triangle][edge]],
+        points[triangles[triangle][(edge + 1) % 3]],
+      );
+
+    let minLength = Number.POSITIVE_INFINITY;
+    let maxLength = 0;
+    for (let triangle = 0; triangle < triangles.length; triangle++) {
+      for (let edge = 0; edge < 3; edge++) {
+        const length = edgeLength(triangle, edge);
+        minLength = Math.min(minLength, length);
+        maxLength = Math.max(maxLength, length);
+      }
+    }
+    const threshold = minLength + lengthRatio * (maxLength - minLength);
+
+    const removed = triangles.map(() => false);
+    const boundaryEdges = points.map(() => 0);
+    const isBoundary = (triangle: number, edge: number): boolean => {
+      const neighbor = neighbors[triangle][edge];
+      return neighbor < 0 || removed[neighbor];
+    };
+
+    const queue: [number, number][] = [];
+    for (let triangle = 0; triangle < triangles.length; triangle++) {
+      let longest = 0;
+      for (let edge = 0; edge < 3; edge++) {
+        const length = edgeLength(triangle, edge);
+        longest = Math.max(longest, length);
+        if (isBoundary(triangle, edge)) {
+          boundaryEdges[triangles[triangle][edge]]++;
+          boundaryEdges[triangles[triangle][(edge + 1) % 3]]++;
+          ConcaveHull.push(queue, [triangle, length]);
+        }
+      }
+      if (allowHoles) {
+        ConcaveHull.push(queue, [triangle, longest]);
+      }
+    }
+
+    while (queue.length > 0) {
+      const [triangle, length] = ConcaveHull.pop(queue);
+      if (length <= threshold) {
+        break;
+      }
+      if (removed[triangle]) {
+        continue;
+      }
+      const vertices = triangles[triangle];
+      const boundary = [0, 1, 2].filter((edge) => isBoundary(triangle, edge));
+      let remove = false;
+      if (boundary.length === 1) {
+        remove = boundaryEdges[vertices[(boundary[0] + 2) % 3]] === 0 &&
+          edgeLength(triangle, boundary[0]) > threshold;
+      } else if (boundary.length === 0 && allowHoles) {
+        remove = vertices.every((vertex) => boundaryEdges[vertex] === 0);
+      }
+      if (remove) {
+        removed[triangle] = true;
+        for (let edge = 0; edge < 3; edge++) {
+          if (!boundary.includes(edge)) {
+            boundaryEdges[vertices[edge]]++;
+            boundaryEdges[vertices[(edge + 1) % 3]]++;
+            ConcaveHull.push(queue, [
+              neighbors[triangle][edge],
+              edgeLength(triangle, edge),
+            ]);
+          } else {
+            boundaryEdges[vertices[edge]]--;
+            boundaryEdges[vertices[(edge + 1) % 3]]--;
+          }
+        }
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Create the hull polygon from the boundary of the remaining triangles
+   * @param triangulator Delaunay triangulation
+   * @param removed removed triangle flags
+   * @returns polygon
+   */
+  private static createHull(
+    triangulator: DelaunayTriangulator,
+    removed: boolean[],
+  ): Polygon {
+    const { points, triangles, neighbors } = triangulator;
+    const next = new Map<number, number>();
+    for (let triangle = 0; triangle < triangles.length; triangle++) {
+      if (!removed[triangle]) {
+        for (let edge = 0; edge < 3; edge++) {
+          const neighbor = neighbors[triangle][edge];
+          if (neighbor < 0 || removed[neighbor]) {
+            next.set(
+              triangles[triangle][edge],
+              triangles[triangle][(edge + 1) % 3],
+            );
+          }
+        }
+      }
+    }
+
+    let shell: Point[] = [];
+    const holes: Point[][] = [];
+    for (const start of next.keys()) {
+      const ring: Point[] = [];
+      let vertex = start;
+      do {
+        ring.push(Point.createFromXY(points[vertex].x, points[vertex].y));
+        const following = next.get(vertex)!;
+        next.delete(vertex);
+        vertex = following;
+      } while (vertex !== start);
+      ring.push(ring[0].copy());
+      if (OverlayGraph.signedArea(ring) > 0) {
+        shell = ring;
+      } else {
+        holes.push(ring);
+      }
+    }
+
+    const polygon = Polygon.createFromLineString(
+      LineString.createFromPoints(shell),
+    );
+    for (const hole of holes) {
+      polygon.addRing(LineString.createFromPoints(hole));
+    }
+    return polygon;
+  }
+
+  /**
+   * Push an entry onto a max heap of triangles by edge length
+   * @param heap heap
+   * @param entry triangle and edge length
+   */
+  private static push(heap: [number, number][], entry: [number, number]): void {
+    heap.push(entry);
+    let index = heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (heap[parent][1] >= heap[index][1]) {
+        break;
+      }
+      [heap[parent], heap[index]] = [heap[index], heap[parent]];
+      index = parent;
+    }
+  }
+
+  /**
+   * Pop the longest entry from a max heap of triangles by edge length
+   * @param heap non empty heap
+   * @returns triangle and edge length
+   */
+  private static pop(heap: [number, number][]): [number, number] {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = 2 * index + 1;
+        const right = left + 1;
+        let largest = index;
+        if (left < heap.length && heap[left][1] > heap[largest][1]) {
+          largest = left;
+        }
+        if (right < heap.length && heap[right][1] > heap[largest][1]) {
+          largest = right;
+        }
+        if (largest === index) {
+          break;
+        }
+        [heap[largest], heap[index]] = [heap[index], heap[largest]];
+        index = largest;
+      }
+    }
+    return top;
+  }
+}
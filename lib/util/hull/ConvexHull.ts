@@ -0,0 +1,102 @@
+import type { Geometry } from "../../internal.ts";
+import {
+  GeometryComponents,
+  LineString,
+  Point,
+  Polygon,
+  SegmentUtils,
+} from "../../internal.ts";
+
+/**
+ * Convex hull of every vertex of a geometry, computed with the monotone chain
+ * algorithm. Hulls are 2D and keep the srid of the geometry.
+ */
+export class ConvexHull {
+  /**
+   * Get the convex hull of a geometry
+   * @param geometry geometry
+   * @returns empty polygon, point, line string or polygon depending on the
+   *          degeneracy of the hull
+   */
+  public static hull(geometry: Geometry): Geometry {
+    const hull = ConvexHull.createHull(
+      ConvexHull.hullPoints(GeometryComponents.getVertices(geometry)),
+    );
+    hull.srid = geometry.srid;
+    return hull;
+  }
+
+  /**
+   * Get the counter clockwise convex hull vertices of points, starting at
+   * the leftmost then lowest point, without collinear vertices and without
+   * repeating the first point
+   * @param points points
+   * @returns hull points
+   */
+  public static hullPoints(points: Point[]): Point[] {
+    const sorted = points.slice().sort((point1, point2) =>
+      point1.x - point2.x || point1.y - point2.y
+    );
+    const lower = ConvexHull.chain(sorted);
+    const upper = ConvexHull.chain(sorted.reverse());
+    lower.pop();
+    upper.pop();
+    const hull = lower.concat(upper);
+    if (
+      hull.length === 0 && sorted.length > 0
+    ) {
+      hull.push(sorted[0]);
+    }
+    return hull;
+  }
+
+  /**
+   * Create the hull geometry from hull points
+   * @param points counter clockwise hull points
+   * @returns empty polygon, point, line string or polygon
+   */
+  public static createHull(points: Point[]): Geometry {
+    const copies = points.map((point) => Point.createFromXY(point.x, point.y));
+    let hull: Geometry;
+    if (copies.length === 0) {
+      hull = Polygon.create();
+    } else if (copies.length === 1) {
+      hull = copies[0];
+    } else if (copies.length === 2) {
+      hull = LineString.createFromPoints(copies);
+    } else {
+      copies.push(copies[0].copy());
+      hull = Polygon.createFromLineString(LineString.createFromPoints(copies));
+    }
+    return hull;
+  }
+
+  /**
+   * Build a monotone chain of sorted points, turning counter clockwise
+   * @param points sorted points
+   * @returns chain points
+   */
+  private static chain(points: Point[]): Point[] {
+    const chain: Point[] = [];
+    for (const point of points) {
+      while (
+        chain.length > 1 &&
+        SegmentUtils.orientation(
+            chain[chain.length - 2],
+            chain[chain.length - 1],
+            point,
+          ) <= 0
+      ) {
+        chain.pop();
+      }
+      const previous = chain[chain.length - 1];
+      if (
+        previous === undefined || previous.x !== point.x ||
+        previous.y !== point.y
+      ) {
+        chain.push(point);
+      }
+    }
+    return chain;
+  }
+}
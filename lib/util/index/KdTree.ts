@@ -0,0 +1,342 @@
+import type { MultiPoint, Point, PointBounds } from "../../internal.ts";
+import { PointIndex, PriorityQueue } from "../../internal.ts";
+
+/**
+ * KD-tree node
+ */
+interface KdNode {
+  /**
+   * Node point
+   */
+  point: Point;
+
+  /**
+   * Split axis, 0 for x, 1 for y and 2 for z
+   */
+  axis: number;
+
+  /**
+   * Points below the node point on the split axis
+   */
+  left?: KdNode;
+
+  /**
+   * Points above the node point on the split axis
+   */
+  right?: KdNode;
+}
+
+/**
+ * KD-tree point index splitting alternately on x and y, and on z when the
+ * index uses z values. Bulk loading builds a balanced tree by median
+ * splits. Insertions keep the tree balanced as a scapegoat tree, rebuilding
+ * an unbalanced subtree when a point is inserted too deep, so bulk loading
+ * remains the faster way to index many points at once.
+ */
+export class KdTree extends PointIndex {
+  /**
+   * Maximum share of a node's points in one child subtree before an
+   * insertion deeper than the balanced height bound rebuilds it
+   */
+  private static readonly BALANCE = 0.7;
+
+  /**
+   * Root node
+   */
+  private _root?: KdNode;
+
+  /**
+   * Constructor
+   * @param epsilon duplicate point tolerance, duplicates allowed when
+   *        undefined
+   * @param use3D true to split and search with z values
+   */
+  constructor(epsilon?: number, use3D = false) {
+    super(epsilon, use3D);
+  }
+
+  /**
+   * Bulk load a balanced KD-tree
+   * @param points points or multi point
+   * @param epsilon duplicate point tolerance, duplicates allowed when
+   *        undefined
+   * @param use3D true to split and search with z values
+   * @returns KD-tree
+   */
+  public static load(
+    points: Point[] | MultiPoint,
+    epsilon?: number,
+    use3D = false,
+  ): KdTree {
+    const tree = new KdTree(epsilon, use3D);
+    tree.bulkLoad(points);
+    return tree;
+  }
+
+  /**
+   * Get the number of split axes
+   * @returns 3 when using z values, otherwise 2
+   */
+  public get dimensions(): number {
+    return this.use3D ? 3 : 2;
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected insertPoint(point: Point): void {
+    const path: KdNode[] = [];
+    let parent = this._root;
+    while (parent !== undefined) {
+      path.push(parent);
+      const below = this.getCoordinate(point, parent.axis) <
+        this.getCoordinate(parent.point, parent.axis);
+      const child = below ? parent.left : parent.right;
+      if (child === undefined) {
+        const node = { point, axis: path.length % this.dimensions };
+        if (below) {
+          parent.left = node;
+        } else {
+          parent.right = node;
+        }
+        path.push(node);
+        break;
+      }
+      parent = child;
+    }
+    if (this._root === undefined) {
+      this._root = { point, axis: 0 };
+    } else if (
+      path.length - 1 >
+        Math.log(this.size + 1) / Math.log(1 / KdTree.BALANCE)
+    ) {
+      this.rebalance(path);
+    }
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected build(points: Point[]): void {
+    this._root = this.buildNode([...points], 0, points.length, 0);
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected search(
+    bounds: PointBounds,
+    callback: (point: Point) => boolean,
+  ): void {
+    const minimums = [bounds.minX, bounds.minY, Number.NEGATIVE_INFINITY];
+    const maximums = [bounds.maxX, bounds.maxY, Number.POSITIVE_INFINITY];
+    const nodes = this._root !== undefined ? [this._root] : [];
+    while (nodes.length > 0) {
+      const node = nodes.pop() as KdNode;
+      const point = node.point;
+      if (
+        point.x >= bounds.minX && point.x <= bounds.maxX &&
+        point.y >= bounds.minY && point.y <= bounds.maxY &&
+        !callback(point)
+      ) {
+        return;
+      }
+      const value = this.getCoordinate(point, node.axis);
+      if (node.left !== undefined && minimums[node.axis] <= value) {
+        nodes.push(node.left);
+      }
+      if (node.right !== undefined && maximums[node.axis] >= value) {
+        nodes.push(node.right);
+      }
+    }
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected searchNearest(
+    point: Point,
+    k: number,
+    maxDistance: number,
+  ): Point[] {
+    // Farthest of the nearest points first, by negated distance
+    const nearest = new PriorityQueue<Point>();
+    const limit = () =>
+      nearest.size < k ? maxDistance : -(nearest.peekPriority() as number);
+    const nodes: [KdNode, number][] = this._root !== undefined
+      ? [[this._root, 0]]
+      : [];
+    while (nodes.length > 0) {
+      const [node, bound] = nodes.pop() as [KdNode, number];
+      if (bound > limit()) {
+        continue;
+      }
+      const distance = this.distance(point, node.point);
+      if (distance <= limit()) {
+        nearest.push(node.point, -distance);
+        if (nearest.size > k) {
+          nearest.pop();
+        }
+      }
+      const difference = this.getCoordinate(point, node.axis) -
+        this.getCoordinate(node.point, node.axis);
+      const [near, far] = difference < 0
+        ? [node.left, node.right]
+        : [node.right, node.left];
+      if (far !== undefined) {
+        nodes.push([far, Math.max(bound, Math.abs(difference))]);
+      }
+      if (near !== undefined) {
+        nodes.push([near, bound]);
+      }
+    }
+    const points: Point[] = [];
+    while (!nearest.isEmpty()) {
+      points.push(nearest.pop() as Point);
+    }
+    return points.reverse();
+  }
+
+  /**
+   * Rebuild the subtree of the deepest scapegoat on an insertion path, the
+   * ancestor with a child subtree holding too large a share of its points
+   * @param path nodes from the root to the inserted node
+   */
+  private rebalance(path: KdNode[]): void {
+    let childSize = 1;
+    for (let depth = path.length - 2; depth >= 0; depth--) {
+      const node = path[depth];
+      const sibling = node.left === path[depth + 1] ? node.right : node.left;
+      const size = 1 + childSize + KdTree.collect(sibling).length;
+      if (childSize > KdTree.BALANCE * size) {
+        const points = KdTree.collect(node);
+        const subtree = this.buildNode(points, 0, points.length, depth);
+        if (depth === 0) {
+          this._root = subtree;
+        } else if (path[depth - 1].left === node) {
+          path[depth - 1].left = subtree;
+        } else {
+          path[depth - 1].right = subtree;
+        }
+        break;
+      }
+      childSize = size;
+    }
+  }
+
+  /**
+   * Collect the points of a subtree
+   * @param node subtree node
+   * @returns points
+   */
+  private static collect(node?: KdNode): Point[] {
+    const points: Point[] = [];
+    const nodes = node !== undefined ? [node] : [];
+    while (nodes.length > 0) {
+      const next = nodes.pop() as KdNode;
+      points.push(next.point);
+      if (next.left !== undefined) {
+        nodes.push(next.left);
+      }
+      if (next.right !== undefined) {
+        nodes.push(next.right);
+      }
+    }
+    return points;
+  }
+
+  /**
+   * Build a balanced subtree from a range of points split at the median
+   * @param points points, reordered
+   * @param start range start index
+   * @param end range end index, exclusive
+   * @param depth subtree depth
+   * @returns subtree node or undefined for an empty range
+   */
+  private buildNode(
+    points: Point[],
+    start: number,
+    end: number,
+    depth: number,
+  ): KdNode | undefined {
+    if (start >= end) {
+      return undefined;
+    }
+    const axis = depth % this.dimensions;
+    const median = (start + end) >> 1;
+    this.select(points, start, end - 1, median, axis);
+    return {
+      point: points[median],
+      axis,
+      left: this.buildNode(points, start, median, depth + 1),
+      right: this.buildNode(points, median + 1, end, depth + 1),
+    };
+  }
+
+  /**
+   * Reorder the range of points so the point at the index is the one in its
+   * sorted position on the axis, with no greater points before it and no
+   * smaller points after it
+   * @param points points
+   * @param left range start index
+   * @param right range end index, inclusive
+   * @param index selected index
+   * @param axis coordinate axis
+   */
+  private select(
+    points: Point[],
+    left: number,
+    right: number,
+    index: number,
+    axis: number,
+  ): void {
+    while (right > left) {
+      const pivot = this.getCoordinate(points[(left + right) >> 1], axis);
+      let i = left;
+      let j = right;
+      while (i <= j) {
+        while (this.getCoordinate(points[i], axis) < pivot) {
+          i++;
+        }
+        while (this.getCoordinate(points[j], axis) > pivot) {
+          j--;
+        }
+        if (i <= j) {
+          const point = points[i];
+          points[i] = points[j];
+          points[j] = point;
+          i++;
+          j--;
+        }
+      }
+      if (index <= j) {
+        right = j;
+      } else if (index >= i) {
+        left = i;
+      } else {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Get the coordinate of a point on an axis
+   * @param point point
+   * @param axis 0 for x, 1 for y and 2 for z
+   * @returns coordinate
+   */
+  private getCoordinate(point: Point, axis: number): number {
+    let coordinate: number;
+    switch (axis) {
+      case 0:
+        coordinate = point.x;
+        break;
+      case 1:
+        coordinate = point.y;
+        break;
+      default:
+        coordinate = PointIndex.getZ(point);
+    }
+    return coordinate;
+  }
+}
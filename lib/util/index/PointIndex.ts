@@ -0,0 +1,387 @@
+import type { GeometryEnvelope, MultiPoint, Point } from "../../internal.ts";
+import { GeometryUtils, SFException } from "../../internal.ts";
+
+/**
+ * Search bounds of a point index
+ */
+export interface PointBounds {
+  /**
+   * Min x
+   */
+  minX: number;
+
+  /**
+   * Min y
+   */
+  minY: number;
+
+  /**
+   * Min z, unbounded when undefined
+   */
+  minZ?: number;
+
+  /**
+   * Max x
+   */
+  maxX: number;
+
+  /**
+   * Max y
+   */
+  maxY: number;
+
+  /**
+   * Max z, unbounded when undefined
+   */
+  maxZ?: number;
+}
+
+/**
+ * Spatial index of points for envelope, radius and nearest neighbor
+ * searches. Searches are planar unless the index uses z values, in which
+ * case points without z values are at a z of zero. Indexes with an epsilon
+ * ignore inserted points equal to an indexed point as determined by
+ * {@link GeometryUtils#isEqualWithEpsilon}.
+ */
+export abstract class PointIndex {
+  /**
+   * Duplicate point tolerance, duplicates allowed when undefined
+   */
+  private readonly _epsilon?: number;
+
+  /**
+   * True to search with z values
+   */
+  private readonly _use3D: boolean;
+
+  /**
+   * Number of points
+   */
+  private _size = 0;
+
+  /**
+   * Constructor
+   * @param epsilon duplicate point tolerance, duplicates allowed when
+   *        undefined
+   * @param use3D true to search with z values
+   */
+  protected constructor(epsilon?: number, use3D = false) {
+    if (epsilon !== undefined && !(epsilon >= 0)) {
+      throw new SFException(
+        `Point index epsilon must not be negative, found ${epsilon}`,
+      );
+    }
+    this._epsilon = epsilon;
+    this._use3D = use3D;
+  }
+
+  /**
+   * Get the duplicate point tolerance
+   * @returns epsilon or undefined when duplicates are allowed
+   */
+  public get epsilon(): number | undefined {
+    return this._epsilon;
+  }
+
+  /**
+   * Determine if searches use z values
+   * @returns true if 3D
+   */
+  public get use3D(): boolean {
+    return this._use3D;
+  }
+
+  /**
+   * Get the number of points
+   * @returns size
+   */
+  public get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Determine if there are no points
+   * @returns true if empty
+   */
+  public isEmpty(): boolean {
+    return this._size === 0;
+  }
+
+  /**
+   * Insert a point, the point itself and not a copy
+   * @param point point
+   * @returns true if inserted, false for empty and duplicate points
+   */
+  public insert(point: Point): boolean {
+    const inserted = !point.isEmpty() &&
+      this.findDuplicate(point) === undefined;
+    if (inserted) {
+      this.insertPoint(point);
+      this._size++;
+    }
+    return inserted;
+  }
+
+  /**
+   * Insert points
+   * @param points points or multi point
+   * @returns number of inserted points
+   */
+  public insertAll(points: Point[] | MultiPoint): number {
+    let inserted = 0;
+    for (const point of PointIndex.getPoints(points)) {
+      if (this.insert(point)) {
+        inserted++;
+      }
+    }
+    return inserted;
+  }
+
+  /**
+   * Find an indexed point equal to the point within the epsilon
+   * @param point point
+   * @returns duplicate point or undefined when none or duplicates allowed
+   */
+  public findDuplicate(point: Point): Point | undefined {
+    let duplicate: Point | undefined;
+    const epsilon = this._epsilon;
+    if (epsilon !== undefined && !this.isEmpty()) {
+      this.search(
+        {
+          minX: point.x - epsilon,
+          minY: point.y - epsilon,
+          maxX: point.x + epsilon,
+          maxY: point.y + epsilon,
+        },
+        (candidate) => {
+          if (GeometryUtils.isEqualWithEpsilon(candidate, point, epsilon)) {
+            duplicate = candidate;
+          }
+          return duplicate === undefined;
+        },
+      );
+    }
+    return duplicate;
+  }
+
+  /**
+   * Get all points
+   * @returns points
+   */
+  public all(): Point[] {
+    const points: Point[] = [];
+    this.search(
+      {
+        minX: Number.NEGATIVE_INFINITY,
+        minY: Number.NEGATIVE_INFINITY,
+        maxX: Number.POSITIVE_INFINITY,
+        maxY: Number.POSITIVE_INFINITY,
+      },
+      (point) => {
+        points.push(point);
+        return true;
+      },
+    );
+    return points;
+  }
+
+  /**
+   * Query the points within the envelope, including its z range when the
+   * index uses z values and the envelope has them
+   * @param envelope envelope
+   * @returns points
+   */
+  public queryEnvelope(envelope: GeometryEnvelope): Point[] {
+    const bounds: PointBounds = {
+      minX: envelope.minX,
+      minY: envelope.minY,
+      maxX: envelope.maxX,
+      maxY: envelope.maxY,
+    };
+    if (this._use3D) {
+      bounds.minZ = envelope.minZ;
+      bounds.maxZ = envelope.maxZ;
+    }
+    const points: Point[] = [];
+    this.search(bounds, (point) => {
+      if (
+        (bounds.minZ === undefined ||
+          PointIndex.getZ(point) >= bounds.minZ) &&
+        (bounds.maxZ === undefined || PointIndex.getZ(point) <= bounds.maxZ)
+      ) {
+        points.push(point);
+      }
+      return true;
+    });
+    return points;
+  }
+
+  /**
+   * Query the points within the distance of a center point, nearest first
+   * @param center center point
+   * @param radius search distance
+   * @returns points
+   */
+  public queryRadius(center: Point, radius: number): Point[] {
+    const points: [Point, number][] = [];
+    this.search(
+      {
+        minX: center.x - radius,
+        minY: center.y - radius,
+        maxX: center.x + radius,
+        maxY: center.y + radius,
+      },
+      (point) => {
+        const distance = this.distance(center, point);
+        if (distance <= radius) {
+          points.push([point, distance]);
+        }
+        return true;
+      },
+    );
+    return points.sort((point1, point2) => point1[1] - point2[1]).map((
+      point,
+    ) => point[0]);
+  }
+
+  /**
+   * Find the k nearest points, nearest first
+   * @param point query point
+   * @param k maximum number of points
+   * @param maxDistance maximum distance
+   * @returns nearest points
+   */
+  public nearest(
+    point: Point,
+    k = 1,
+    maxDistance = Number.POSITIVE_INFINITY,
+  ): Point[] {
+    return k < 1 || this.isEmpty()
+      ? []
+      : this.searchNearest(point, k, maxDistance);
+  }
+
+  /**
+   * Get the distance between points, including z values when the index uses
+   * them
+   * @param point1 first point
+   * @param point2 second point
+   * @returns distance
+   */
+  public distance(point1: Point, point2: Point): number {
+    return this._use3D
+      ? Math.hypot(
+        point1.x - point2.x,
+        point1.y - point2.y,
+        PointIndex.getZ(point1) - PointIndex.getZ(point2),
+      )
+      : Math.hypot(point1.x - point2.x, point1.y - point2.y);
+  }
+
+  /**
+   * Bulk load the points into the empty index, removing duplicates when the
+   * index has an epsilon
+   * @param points points or multi point
+   */
+  protected bulkLoad(points: Point[] | MultiPoint): void {
+    let distinct = PointIndex.getPoints(points);
+    if (this._epsilon !== undefined) {
+      distinct = PointIndex.removeDuplicates(distinct, this._epsilon);
+    }
+    this.build(distinct);
+    this._size = distinct.length;
+  }
+
+  /**
+   * Build the index structure from distinct non empty points
+   * @param points points
+   */
+  protected abstract build(points: Point[]): void;
+
+  /**
+   * Insert a non empty, non duplicate point into the index structure
+   * @param point point
+   */
+  protected abstract insertPoint(point: Point): void;
+
+  /**
+   * Search the points within the x and y bounds
+   * @param bounds search bounds, z values are ignored
+   * @param callback point callback, returning false to stop searching
+   */
+  protected abstract search(
+    bounds: PointBounds,
+    callback: (point: Point) => boolean,
+  ): void;
+
+  /**
+   * Find the k nearest points within a maximum distance, nearest first
+   * @param point query point
+   * @param k maximum number of points, at least one
+   * @param maxDistance maximum distance
+   * @returns nearest points
+   */
+  protected abstract searchNearest(
+    point: Point,
+    k: number,
+    maxDistance: number,
+  ): Point[];
+
+  /**
+   * Get the z value of a point, zero when undefined
+   * @param point point
+   * @returns z value
+   */
+  protected static getZ(point: Point): number {
+    return point.hasZ && point.z !== undefined ? point.z : 0;
+  }
+
+  /**
+   * Get the non empty points
+   * @param points points or multi point
+   * @returns points
+   */
+  protected static getPoints(points: Point[] | MultiPoint): Point[] {
+    return (Array.isArray(points) ? points : points.points).filter((point) =>
+      !point.isEmpty()
+    );
+  }
+
+  /**
+   * Remove points equal to an earlier point within the epsilon
+   * @param points points
+   * @param epsilon duplicate point tolerance
+   * @returns distinct points
+   */
+  private static removeDuplicates(
+    points: Point[],
+    epsilon: number,
+  ): Point[] {
+    const cellSize = epsilon > 0 ? epsilon : 1;
+    const cells = new Map<string, Point[]>();
+    const distinct: Point[] = [];
+    for (const point of points) {
+      const column = Math.floor(point.x / cellSize);
+      const row = Math.floor(point.y / cellSize);
+      let duplicate = false;
+      for (let i = -1; i <= 1 && !duplicate; i++) {
+        for (let j = -1; j <= 1 && !duplicate; j++) {
+          duplicate = cells.get(`${column + i},${row + j}`)?.some((other) =>
+            GeometryUtils.isEqualWithEpsilon(other, point, epsilon)
+          ) ?? false;
+        }
+      }
+      if (!duplicate) {
+        const key = `${column},${row}`;
+        const cell = cells.get(key);
+        if (cell === undefined) {
+          cells.set(key, [point]);
+        } else {
+          cell.push(point);
+        }
+        distinct.push(point);
+      }
+    }
+    return distinct;
+  }
+}
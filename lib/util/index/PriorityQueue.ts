@@ -0,0 +1,110 @@
+/**
+ * Binary heap priority queue of values ordered by ascending priority
+ * @param <T> value type
+ */
+export class PriorityQueue<T> {
+  /**
+   * Heap ordered values
+   */
+  private readonly _values: T[] = [];
+
+  /**
+   * Heap ordered priorities
+   */
+  private readonly _priorities: number[] = [];
+
+  /**
+   * Get the number of values
+   * @returns size
+   */
+  public get size(): number {
+    return this._values.length;
+  }
+
+  /**
+   * Determine if there are no values
+   * @returns true if empty
+   */
+  public isEmpty(): boolean {
+    return this._values.length === 0;
+  }
+
+  /**
+   * Add a value
+   * @param value value
+   * @param priority priority, lowest first
+   */
+  public push(value: T, priority: number): void {
+    this._values.push(value);
+    this._priorities.push(priority);
+    let index = this._values.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this._priorities[parent] <= priority) {
+        break;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  /**
+   * Get the lowest priority without removing its value
+   * @returns priority or undefined when empty
+   */
+  public peekPriority(): number | undefined {
+    return this._priorities[0];
+  }
+
+  /**
+   * Remove the value with the lowest priority
+   * @returns value or undefined when empty
+   */
+  public pop(): T | undefined {
+    const value = this._values[0];
+    const lastValue = this._values.pop();
+    const lastPriority = this._priorities.pop();
+    if (this._values.length > 0) {
+      this._values[0] = lastValue as T;
+      this._priorities[0] = lastPriority as number;
+      let index = 0;
+      for (;;) {
+        const left = 2 * index + 1;
+        const right = left + 1;
+        let lowest = index;
+        if (
+          left < this._values.length &&
+          this._priorities[left] < this._priorities[lowest]
+        ) {
+          lowest = left;
+        }
+        if (
+          right < this._values.length &&
+          this._priorities[right] < this._priorities[lowest]
+        ) {
+          lowest = right;
+        }
+        if (lowest === index) {
+          break;
+        }
+        this.swap(index, lowest);
+        index = lowest;
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Swap two heap positions
+   * @param index1 first index
+   * @param index2 second index
+   */
+  private swap(index1: number, index2: number): void {
+    const value = this._values[index1];
+    this._values[index1] = this._values[index2];
+    this._values[index2] = value;
+    const priority = this._priorities[index1];
+    this._priorities[index1] = this._priorities[index2];
+    this._priorities[index2] = priority;
+  }
+}
@@ -0,0 +1,382 @@
+import type { MultiPoint, Point, PointBounds } from "../../internal.ts";
+import { PointIndex, PriorityQueue, SFException } from "../../internal.ts";
+
+/**
+ * Quadtree node, a leaf with a bucket of points or a branch with four
+ * quadrant children
+ */
+interface QuadNode {
+  /**
+   * Min x
+   */
+  minX: number;
+
+  /**
+   * Min y
+   */
+  minY: number;
+
+  /**
+   * Max x
+   */
+  maxX: number;
+
+  /**
+   * Max y
+   */
+  maxY: number;
+
+  /**
+   * Node depth, zero for the root
+   */
+  depth: number;
+
+  /**
+   * Points of a leaf node
+   */
+  points: Point[];
+
+  /**
+   * Quadrant children of a branch node: south west, south east, north west
+   * and north east
+   */
+  children?: QuadNode[];
+}
+
+/**
+ * Point region quadtree index dividing cells into quadrants when their
+ * bucket of points overflows. The root cell grows to include points
+ * inserted outside of it. Cells are divided on x and y only, searches using
+ * z values measure the points in three dimensions.
+ */
+export class Quadtree extends PointIndex {
+  /**
+   * Default maximum points per leaf cell
+   */
+  public static readonly DEFAULT_NODE_CAPACITY = 8;
+
+  /**
+   * Depth below which cells are no longer divided, bounding the depth of
+   * coincident points
+   */
+  private static readonly MAX_DEPTH = 48;
+
+  /**
+   * Maximum points per leaf cell
+   */
+  private readonly _nodeCapacity: number;
+
+  /**
+   * Root cell
+   */
+  private _root?: QuadNode;
+
+  /**
+   * Constructor
+   * @param epsilon duplicate point tolerance, duplicates allowed when
+   *        undefined
+   * @param use3D true to search with z values
+   * @param nodeCapacity maximum points per leaf cell
+   */
+  constructor(
+    epsilon?: number,
+    use3D = false,
+    nodeCapacity = Quadtree.DEFAULT_NODE_CAPACITY,
+  ) {
+    super(epsilon, use3D);
+    if (!Number.isInteger(nodeCapacity) || nodeCapacity < 1) {
+      throw new SFException(
+        `Quadtree node capacity must be a positive integer, found ${nodeCapacity}`,
+      );
+    }
+    this._nodeCapacity = nodeCapacity;
+  }
+
+  /**
+   * Bulk load a quadtree with a root cell covering the points
+   * @param points points or multi point
+   * @param epsilon duplicate point tolerance, duplicates allowed when
+   *        undefined
+   * @param use3D true to search with z values
+   * @param nodeCapacity maximum points per leaf cell
+   * @returns quadtree
+   */
+  public static load(
+    points: Point[] | MultiPoint,
+    epsilon?: number,
+    use3D = false,
+    nodeCapacity = Quadtree.DEFAULT_NODE_CAPACITY,
+  ): Quadtree {
+    const tree = new Quadtree(epsilon, use3D, nodeCapacity);
+    tree.bulkLoad(points);
+    return tree;
+  }
+
+  /**
+   * Get the maximum points per leaf cell
+   * @returns node capacity
+   */
+  public get nodeCapacity(): number {
+    return this._nodeCapacity;
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected insertPoint(point: Point): void {
+    if (!Number.isFinite(point.x) || !Number.isFinite(point.y)) {
+      throw new SFException(
+        `Quadtree point coordinates must be finite, found (${point.x}, ${point.y})`,
+      );
+    }
+    if (this._root === undefined) {
+      this._root = Quadtree.createNode(
+        point.x,
+        point.y,
+        point.x + 1,
+        point.y + 1,
+        0,
+      );
+    }
+    while (!Quadtree.contains(this._root, point)) {
+      this.growRoot(point);
+    }
+    let node = this._root;
+    while (node.children !== undefined) {
+      node = node.children[Quadtree.getQuadrant(node, point.x, point.y)];
+    }
+    node.points.push(point);
+    if (
+      node.points.length > this._nodeCapacity &&
+      node.depth < Quadtree.MAX_DEPTH
+    ) {
+      this.divide(node);
+    }
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected build(points: Point[]): void {
+    if (points.length > 0) {
+      let minX = Number.POSITIVE_INFINITY;
+      let minY = Number.POSITIVE_INFINITY;
+      let maxX = Number.NEGATIVE_INFINITY;
+      let maxY = Number.NEGATIVE_INFINITY;
+      for (const point of points) {
+        minX = Math.min(minX, point.x);
+        minY = Math.min(minY, point.y);
+        maxX = Math.max(maxX, point.x);
+        maxY = Math.max(maxY, point.y);
+      }
+      // Grow slightly so the max points fall inside the half open cell
+      const size = Math.max(maxX - minX, maxY - minY) * (1 + 1e-9) || 1;
+      this._root = Quadtree.createNode(minX, minY, minX + size, minY + size, 0);
+      for (const point of points) {
+        this.insertPoint(point);
+      }
+    }
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected search(
+    bounds: PointBounds,
+    callback: (point: Point) => boolean,
+  ): void {
+    const nodes = this._root !== undefined ? [this._root] : [];
+    while (nodes.length > 0) {
+      const node = nodes.pop() as QuadNode;
+      if (
+        node.minX <= bounds.maxX && bounds.minX <= node.maxX &&
+        node.minY <= bounds.maxY && bounds.minY <= node.maxY
+      ) {
+        if (node.children !== undefined) {
+          nodes.push(...node.children);
+        } else {
+          for (const point of node.points) {
+            if (
+              point.x >= bounds.minX && point.x <= bounds.maxX &&
+              point.y >= bounds.minY && point.y <= bounds.maxY &&
+              !callback(point)
+            ) {
+              return;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  protected searchNearest(
+    point: Point,
+    k: number,
+    maxDistance: number,
+  ): Point[] {
+    const nearest: Point[] = [];
+    const queue = new PriorityQueue<QuadNode | Point>();
+    if (this._root !== undefined) {
+      queue.push(this._root, Quadtree.distance(this._root, point));
+    }
+    while (
+      !queue.isEmpty() && nearest.length < k &&
+      (queue.peekPriority() as number) <= maxDistance
+    ) {
+      const next = queue.pop() as QuadNode | Point;
+      if (!("depth" in next)) {
+        nearest.push(next);
+      } else if (next.children !== undefined) {
+        for (const child of next.children) {
+          queue.push(child, Quadtree.distance(child, point));
+        }
+      } else {
+        for (const candidate of next.points) {
+          queue.push(candidate, this.distance(point, candidate));
+        }
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Double the root cell toward a point outside of it
+   * @param point point
+   */
+  private growRoot(point: Point): void {
+    const root = this._root as QuadNode;
+    const width = root.maxX - root.minX;
+    const height = root.maxY - root.minY;
+    const minX = point.x < root.minX ? root.minX - width : root.minX;
+    const minY = point.y < root.minY ? root.minY - height : root.minY;
+    const maxX = point.x < root.minX ? root.maxX : root.maxX + width;
+    const maxY = point.y < root.minY ? root.maxY : root.maxY + height;
+    const grown = Quadtree.createNode(minX, minY, maxX, maxY, 0);
+    if (root.children !== undefined || root.points.length > 0) {
+      const midX = point.x < root.minX ? root.minX : root.maxX;
+      const midY = point.y < root.minY ? root.minY : root.maxY;
+      grown.children = Quadtree.createChildren(grown, midX, midY);
+      grown.children[Quadtree.getQuadrant(grown, root.minX, root.minY)] = root;
+      Quadtree.increaseDepth(root);
+    }
+    this._root = grown;
+  }
+
+  /**
+   * Divide a leaf cell into quadrants, dividing quadrants that still
+   * overflow
+   * @param node leaf node
+   */
+  private divide(node: QuadNode): void {
+    node.children = Quadtree.createChildren(
+      node,
+      (node.minX + node.maxX) / 2,
+      (node.minY + node.maxY) / 2,
+    );
+    for (const point of node.points) {
+      node.children[Quadtree.getQuadrant(node, point.x, point.y)].points.push(
+        point,
+      );
+    }
+    node.points = [];
+    for (const child of node.children) {
+      if (
+        child.points.length > this._nodeCapacity &&
+        child.depth < Quadtree.MAX_DEPTH
+      ) {
+        this.divide(child);
+      }
+    }
+  }
+
+  /**
+   * Increase the depth of a subtree moved below a grown root
+   * @param node subtree node
+   */
+  private static increaseDepth(node: QuadNode): void {
+    node.depth++;
+    for (const child of node.children ?? []) {
+      Quadtree.increaseDepth(child);
+    }
+  }
+
+  /**
+   * Create a leaf node
+   * @param minX min x
+   * @param minY min y
+   * @param maxX max x
+   * @param maxY max y
+   * @param depth node depth
+   * @returns node
+   */
+  private static createNode(
+    minX: number,
+    minY: number,
+    maxX: number,
+    maxY: number,
+    depth: number,
+  ): QuadNode {
+    return { minX, minY, maxX, maxY, depth, points: [] };
+  }
+
+  /**
+   * Create the quadrant children of a cell, sharing the split values as
+   * exact bounds so quadrant selection matches the child cells
+   * @param node node
+   * @param midX split x
+   * @param midY split y
+   * @returns south west, south east, north west and north east children
+   */
+  private static createChildren(
+    node: QuadNode,
+    midX: number,
+    midY: number,
+  ): QuadNode[] {
+    const depth = node.depth + 1;
+    return [
+      Quadtree.createNode(node.minX, node.minY, midX, midY, depth),
+      Quadtree.createNode(midX, node.minY, node.maxX, midY, depth),
+      Quadtree.createNode(node.minX, midY, midX, node.maxY, depth),
+      Quadtree.createNode(midX, midY, node.maxX, node.maxY, depth),
+    ];
+  }
+
+  /**
+   * Get the quadrant index of a location within a branch cell
+   * @param node branch node
+   * @param x x value
+   * @param y y value
+   * @returns quadrant index
+   */
+  private static getQuadrant(node: QuadNode, x: number, y: number): number {
+    const northEast = (node.children as QuadNode[])[3];
+    return (x >= northEast.minX ? 1 : 0) + (y >= northEast.minY ? 2 : 0);
+  }
+
+  /**
+   * Determine if the half open cell contains the point
+   * @param node node
+   * @param point point
+   * @returns true if contains
+   */
+  private static contains(node: QuadNode, point: Point): boolean {
+    return point.x >= node.minX && point.x < node.maxX &&
+      point.y >= node.minY && point.y < node.maxY;
+  }
+
+  /**
+   * Get the planar distance from a point to a cell
+   * @param node node
+   * @param point point
+   * @returns distance, a lower bound of the distance to the cell points
+   */
+  private static distance(node: QuadNode, point: Point): number {
+    return Math.hypot(
+      Math.max(0, node.minX - point.x, point.x - node.maxX),
+      Math.max(0, node.minY - point.y, point.y - node.maxY),
+    );
+  }
+}
@@ -0,0 +1,867 @@
+import type { Geometry, RTreeEntry } from "../../internal.ts";
+import {
+  GeometryDistance,
+  GeometryEnvelope,
+  PriorityQueue,
+  SFException,
+} from "../../internal.ts";
+
+/**
+ * Envelope bounds
+ */
+interface Bounds {
+  /**
+   * Min x
+   */
+  minX: number;
+
+  /**
+   * Min y
+   */
+  minY: number;
+
+  /**
+   * Max x
+   */
+  maxX: number;
+
+  /**
+   * Max y
+   */
+  maxY: number;
+}
+
+/**
+ * Leaf node item with the bounds of its envelope
+ */
+interface LeafEntry<T> extends Bounds, RTreeEntry<T> {}
+
+/**
+ * Tree node, a leaf with entries or a branch with child nodes
+ */
+interface Node<T> extends Bounds {
+  /**
+   * True for leaf nodes
+   */
+  leaf: boolean;
+
+  /**
+   * Child nodes of a branch node
+   */
+  children: Node<T>[];
+
+  /**
+   * Entries of a leaf node
+   */
+  entries: LeafEntry<T>[];
+}
+
+/**
+ * Serialized R-tree entry
+ */
+export interface SerializedRTreeEntry<S> {
+  /**
+   * Envelope min x, min y, max x and max y
+   */
+  bounds: [number, number, number, number];
+
+  /**
+   * Serialized item
+   */
+  item: S;
+}
+
+/**
+ * Serialized R-tree node
+ */
+export interface SerializedRTreeNode<S> {
+  /**
+   * Child nodes of a branch node
+   */
+  children?: SerializedRTreeNode<S>[];
+
+  /**
+   * Entries of a leaf node
+   */
+  entries?: SerializedRTreeEntry<S>[];
+}
+
+/**
+ * Serialized R-tree
+ */
+export interface SerializedRTree<S> {
+  /**
+   * Maximum entries per node
+   */
+  nodeCapacity: number;
+
+  /**
+   * Number of items
+   */
+  size: number;
+
+  /**
+   * Root node
+   */
+  root: SerializedRTreeNode<S>;
+}
+
+/**
+ * R-tree spatial index of items by their planar x and y envelope. Bulk
+ * loading packs the tree with the Sort-Tile-Recursive algorithm, after which
+ * items can still be inserted and removed.
+ * @param <T> item type
+ */
+export class RTree<T> {
+  /**
+   * Default maximum entries per node
+   */
+  public static readonly DEFAULT_NODE_CAPACITY = 16;
+
+  /**
+   * Maximum entries per node
+   */
+  private readonly _nodeCapacity: number;
+
+  /**
+   * Minimum entries per non root node after removals
+   */
+  private readonly _minEntries: number;
+
+  /**
+   * Root node
+   */
+  private _root: Node<T>;
+
+  /**
+   * Number of items
+   */
+  private _size = 0;
+
+  /**
+   * Constructor
+   * @param nodeCapacity maximum entries per node, at least 4
+   */
+  constructor(nodeCapacity = RTree.DEFAULT_NODE_CAPACITY) {
+    if (!Number.isInteger(nodeCapacity) || nodeCapacity < 4) {
+      throw new SFException(
+        `R-tree node capacity must be an integer of at least 4, found ${nodeCapacity}`,
+      );
+    }
+    this._nodeCapacity = nodeCapacity;
+    this._minEntries = Math.max(2, Math.ceil(nodeCapacity * 0.4));
+    this._root = RTree.createNode(true);
+  }
+
+  /**
+   * Bulk load an R-tree with the Sort-Tile-Recursive algorithm
+   * @param entries items with envelopes
+   * @param nodeCapacity maximum entries per node
+   * @returns R-tree
+   */
+  public static load<T>(
+    entries: RTreeEntry<T>[],
+    nodeCapacity = RTree.DEFAULT_NODE_CAPACITY,
+  ): RTree<T> {
+    const tree = new RTree<T>(nodeCapacity);
+    const leafEntries = entries.map((entry) =>
+      RTree.createEntry(entry.envelope, entry.item)
+    );
+    if (leafEntries.length > 0) {
+      let nodes = RTree.pack(leafEntries, nodeCapacity).map((group) => {
+        const node = RTree.createNode<T>(true);
+        node.entries = group;
+        RTree.updateBounds(node);
+        return node;
+      });
+      while (nodes.length > 1) {
+        nodes = RTree.pack(nodes, nodeCapacity).map((group) => {
+          const node = RTree.createNode<T>(false);
+          node.children = group;
+          RTree.updateBounds(node);
+          return node;
+        });
+      }
+      tree._root = nodes[0];
+      tree._size = leafEntries.length;
+    }
+    return tree;
+  }
+
+  /**
+   * Bulk load an R-tree of geometries by their envelopes, skipping empty
+   * geometries
+   * @param geometries geometries
+   * @param nodeCapacity maximum entries per node
+   * @returns R-tree
+   */
+  public static loadGeometries<G extends Geometry>(
+    geometries: G[],
+    nodeCapacity = RTree.DEFAULT_NODE_CAPACITY,
+  ): RTree<G> {
+    return RTree.load(
+      geometries.filter((geometry) => !geometry.isEmpty()).map((geometry) => ({
+        envelope: geometry.getEnvelope(),
+        item: geometry,
+      })),
+      nodeCapacity,
+    );
+  }
+
+  /**
+   * Get the maximum entries per node
+   * @returns node capacity
+   */
+  public get nodeCapacity(): number {
+    return this._nodeCapacity;
+  }
+
+  /**
+   * Get the number of items
+   * @returns size
+   */
+  public get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Get the tree height, one for a single leaf
+   * @returns height
+   */
+  public get height(): number {
+    let height = 1;
+    for (let node = this._root; !node.leaf; node = node.children[0]) {
+      height++;
+    }
+    return height;
+  }
+
+  /**
+   * Determine if the tree has no items
+   * @returns true if empty
+   */
+  public isEmpty(): boolean {
+    return this._size === 0;
+  }
+
+  /**
+   * Get the envelope of all items
+   * @returns envelope or undefined when empty
+   */
+  public getEnvelope(): GeometryEnvelope | undefined {
+    return this.isEmpty() ? undefined : GeometryEnvelope.createFromMinMaxXY(
+      this._root.minX,
+      this._root.minY,
+      this._root.maxX,
+      this._root.maxY,
+    );
+  }
+
+  /**
+   * Insert an item
+   * @param envelope item envelope
+   * @param item item
+   */
+  public insert(envelope: GeometryEnvelope, item: T): void {
+    this.insertEntry(RTree.createEntry(envelope, item));
+    this._size++;
+  }
+
+  /**
+   * Remove an item
+   * @param envelope item envelope when inserted
+   * @param item item
+   * @returns true if removed
+   */
+  public remove(envelope: GeometryEnvelope, item: T): boolean {
+    const bounds = RTree.createEntry(envelope, item);
+    const orphans: LeafEntry<T>[] = [];
+    const removed = this.removeEntry(this._root, bounds, item, orphans);
+    if (removed) {
+      this._size--;
+      while (!this._root.leaf && this._root.children.length === 1) {
+        this._root = this._root.children[0];
+      }
+      if (!this._root.leaf && this._root.children.length === 0) {
+        this._root = RTree.createNode(true);
+      }
+      for (const orphan of orphans) {
+        this.insertEntry(orphan);
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Remove all items
+   */
+  public clear(): void {
+    this._root = RTree.createNode(true);
+    this._size = 0;
+  }
+
+  /**
+   * Get all items
+   * @returns items
+   */
+  public all(): T[] {
+    const items: T[] = [];
+    RTree.collect(this._root, (entry) => items.push(entry.item));
+    return items;
+  }
+
+  /**
+   * Query the items with envelopes intersecting, including touching, the
+   * envelope
+   * @param envelope query envelope
+   * @returns items
+   */
+  public query(envelope: GeometryEnvelope): T[] {
+    const bounds = RTree.getBounds(envelope);
+    const items: T[] = [];
+    if (!this.isEmpty()) {
+      const nodes = [this._root];
+      while (nodes.length > 0) {
+        const node = nodes.pop() as Node<T>;
+        if (RTree.intersects(node, bounds)) {
+          if (node.leaf) {
+            for (const entry of node.entries) {
+              if (RTree.intersects(entry, bounds)) {
+                items.push(entry.item);
+              }
+            }
+          } else {
+            nodes.push(...node.children);
+          }
+        }
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Find the k nearest items to the envelope, nearest first. Items are
+   * measured by their envelope distance, or by the item distance function
+   * which must not be less than the envelope distance.
+   * @param envelope query envelope
+   * @param k maximum number of items
+   * @param itemDistance item distance, the envelope distance when undefined
+   * @returns nearest items
+   */
+  public nearest(
+    envelope: GeometryEnvelope,
+    k = 1,
+    itemDistance?: (item: T, envelope: GeometryEnvelope) => number,
+  ): T[] {
+    const bounds = RTree.getBounds(envelope);
+    const items: T[] = [];
+    if (this.isEmpty() || k < 1) {
+      return items;
+    }
+    const queue = new PriorityQueue<Node<T> | LeafEntry<T>>();
+    queue.push(this._root, RTree.distance(this._root, bounds));
+    while (!queue.isEmpty() && items.length < k) {
+      const next = queue.pop() as Node<T> | LeafEntry<T>;
+      if (!("leaf" in next)) {
+        items.push(next.item);
+      } else if (next.leaf) {
+        for (const entry of next.entries) {
+          queue.push(
+            entry,
+            itemDistance !== undefined
+              ? itemDistance(entry.item, entry.envelope)
+              : RTree.distance(entry, bounds),
+          );
+        }
+      } else {
+        for (const child of next.children) {
+          queue.push(child, RTree.distance(child, bounds));
+        }
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Find the k nearest items to the geometry by exact planar geometry
+   * distance, nearest first
+   * @param geometry query geometry
+   * @param k maximum number of items
+   * @param getGeometry item geometry, the item itself when undefined
+   * @returns nearest items
+   */
+  public nearestToGeometry(
+    geometry: Geometry,
+    k = 1,
+    getGeometry: (item: T) => Geometry = (item) => item as Geometry,
+  ): T[] {
+    return this.nearest(
+      geometry.getEnvelope(),
+      k,
+      (item) => GeometryDistance.getDistance(geometry, getGeometry(item)),
+    );
+  }
+
+  /**
+   * Get the serializable tree structure, used by JSON.stringify
+   * @returns serialized tree
+   */
+  public toJSON(): SerializedRTree<T> {
+    return {
+      nodeCapacity: this._nodeCapacity,
+      size: this._size,
+      root: RTree.serializeNode(this._root),
+    };
+  }
+
+  /**
+   * Serialize the tree structure and items to JSON
+   * @returns serialized JSON
+   */
+  public serialize(): string {
+    return JSON.stringify(this);
+  }
+
+  /**
+   * Create a tree from its serialized structure without rebuilding it
+   * @param obj serialized tree
+   * @param itemFromJSON item deserialization, the serialized item when
+   *        undefined
+   * @returns R-tree
+   */
+  public static fromJSON<T, S = T>(
+    obj: SerializedRTree<S>,
+    itemFromJSON: (item: S) => T = (item) => item as unknown as T,
+  ): RTree<T> {
+    const tree = new RTree<T>(obj.nodeCapacity);
+    tree._root = RTree.deserializeNode(obj.root, itemFromJSON);
+    tree._size = obj.size;
+    return tree;
+  }
+
+  /**
+   * Deserialize the JSON into a tree
+   * @param json serialized JSON
+   * @param itemFromJSON item deserialization, the parsed item when undefined
+   * @returns R-tree
+   */
+  public static deserialize<T, S = T>(
+    json: string,
+    itemFromJSON?: (item: S) => T,
+  ): RTree<T> {
+    return RTree.fromJSON(JSON.parse(json), itemFromJSON);
+  }
+
+  /**
+   * Insert an entry into the leaf chosen by least enlargement, splitting
+   * overflowing nodes up to the root
+   * @param entry leaf entry
+   */
+  private insertEntry(entry: LeafEntry<T>): void {
+    const sibling = this.insertIntoNode(this._root, entry);
+    if (sibling !== undefined) {
+      const root = RTree.createNode<T>(false);
+      root.children = [this._root, sibling];
+      RTree.updateBounds(root);
+      this._root = root;
+    }
+  }
+
+  /**
+   * Insert an entry into the subtree of a node
+   * @param node subtree node
+   * @param entry leaf entry
+   * @returns new sibling node when the node was split
+   */
+  private insertIntoNode(
+    node: Node<T>,
+    entry: LeafEntry<T>,
+  ): Node<T> | undefined {
+    let sibling: Node<T> | undefined;
+    RTree.extend(node, entry);
+    if (node.leaf) {
+      node.entries.push(entry);
+      if (node.entries.length > this._nodeCapacity) {
+        const [first, second] = RTree.split(node.entries, this._minEntries);
+        node.entries = first;
+        sibling = RTree.createNode<T>(true);
+        sibling.entries = second;
+      }
+    } else {
+      const child = RTree.chooseSubtree(node.children, entry);
+      const childSibling = this.insertIntoNode(child, entry);
+      if (childSibling !== undefined) {
+        node.children.push(childSibling);
+        if (node.children.length > this._nodeCapacity) {
+          const [first, second] = RTree.split(
+            node.children,
+            this._minEntries,
+          );
+          node.children = first;
+          sibling = RTree.createNode<T>(false);
+          sibling.children = second;
+        }
+      }
+    }
+    if (sibling !== undefined) {
+      RTree.updateBounds(node);
+      RTree.updateBounds(sibling);
+    }
+    return sibling;
+  }
+
+  /**
+   * Remove an item from the subtree of a node, removing underfull nodes and
+   * collecting their entries for reinsertion
+   * @param node subtree node
+   * @param bounds item bounds
+   * @param item item
+   * @param orphans entries of removed underfull nodes
+   * @returns true if removed
+   */
+  private removeEntry(
+    node: Node<T>,
+    bounds: Bounds,
+    item: T,
+    orphans: LeafEntry<T>[],
+  ): boolean {
+    let removed = false;
+    if (node.leaf) {
+      const index = node.entries.findIndex((entry) =>
+        entry.item === item && RTree.intersects(entry, bounds)
+      );
+      if (index >= 0) {
+        node.entries.splice(index, 1);
+        removed = true;
+      }
+    } else {
+      for (let i = 0; i < node.children.length && !removed; i++) {
+        const child = node.children[i];
+        if (
+          RTree.contains(child, bounds) &&
+          this.removeEntry(child, bounds, item, orphans)
+        ) {
+          removed = true;
+          const count = child.leaf
+            ? child.entries.length
+            : child.children.length;
+          if (count < this._minEntries) {
+            node.children.splice(i, 1);
+            RTree.collect(child, (entry) => orphans.push(entry));
+          }
+        }
+      }
+    }
+    if (removed) {
+      RTree.updateBounds(node);
+    }
+    return removed;
+  }
+
+  /**
+   * Pack bounded values into groups of the node capacity, sorted into
+   * vertical slices by center x and within each slice by center y
+   * @param values bounded values
+   * @param nodeCapacity maximum values per group
+   * @returns groups
+   */
+  private static pack<B extends Bounds>(
+    values: B[],
+    nodeCapacity: number,
+  ): B[][] {
+    const groups: B[][] = [];
+    const nodeCount = Math.ceil(values.length / nodeCapacity);
+    const sliceCount = Math.ceil(Math.sqrt(nodeCount));
+    const sliceSize = sliceCount * nodeCapacity;
+    const sorted = [...values].sort((value1, value2) =>
+      value1.minX + value1.maxX - value2.minX - value2.maxX
+    );
+    for (let i = 0; i < sorted.length; i += sliceSize) {
+      const slice = sorted.slice(i, i + sliceSize).sort((value1, value2) =>
+        value1.minY + value1.maxY - value2.minY - value2.maxY
+      );
+      for (let j = 0; j < slice.length; j += nodeCapacity) {
+        groups.push(slice.slice(j, j + nodeCapacity));
+      }
+    }
+    return groups;
+  }
+
+  /**
+   * Split overflowing node values along the axis and position with the
+   * least overlap, then the least area, between the two groups
+   * @param values bounded values
+   * @param minEntries minimum values per group
+   * @returns two groups
+   */
+  private static split<B extends Bounds>(
+    values: B[],
+    minEntries: number,
+  ): [B[], B[]] {
+    let best: [B[], B[]] = [values, []];
+    let bestOverlap = Number.POSITIVE_INFINITY;
+    let bestArea = Number.POSITIVE_INFINITY;
+    const axes = [
+      (value: B) => value.minX + value.maxX,
+      (value: B) => value.minY + value.maxY,
+    ];
+    for (const center of axes) {
+      const sorted = [...values].sort((value1, value2) =>
+        center(value1) - center(value2)
+      );
+      for (let i = minEntries; i <= sorted.length - minEntries; i++) {
+        const first = RTree.union(sorted.slice(0, i));
+        const second = RTree.union(sorted.slice(i));
+        const overlap = RTree.area({
+          minX: Math.max(first.minX, second.minX),
+          minY: Math.max(first.minY, second.minY),
+          maxX: Math.min(first.maxX, second.maxX),
+          maxY: Math.min(first.maxY, second.maxY),
+        });
+        const area = RTree.area(first) + RTree.area(second);
+        if (
+          overlap < bestOverlap || (overlap === bestOverlap && area < bestArea)
+        ) {
+          bestOverlap = overlap;
+          bestArea = area;
+          best = [sorted.slice(0, i), sorted.slice(i)];
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Choose the child needing the least area enlargement to include the
+   * bounds, then the smallest child
+   * @param children child nodes
+   * @param bounds bounds
+   * @returns child node
+   */
+  private static chooseSubtree<T>(
+    children: Node<T>[],
+    bounds: Bounds,
+  ): Node<T> {
+    let best = children[0];
+    let bestEnlargement = Number.POSITIVE_INFINITY;
+    let bestArea = Number.POSITIVE_INFINITY;
+    for (const child of children) {
+      const area = RTree.area(child);
+      const enlargement = RTree.area(RTree.union([child, bounds])) - area;
+      if (
+        enlargement < bestEnlargement ||
+        (enlargement === bestEnlargement && area < bestArea)
+      ) {
+        best = child;
+        bestEnlargement = enlargement;
+        bestArea = area;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Collect the leaf entries of a subtree
+   * @param node subtree node
+   * @param callback entry callback
+   */
+  private static collect<T>(
+    node: Node<T>,
+    callback: (entry: LeafEntry<T>) => void,
+  ): void {
+    if (node.leaf) {
+      node.entries.forEach(callback);
+    } else {
+      for (const child of node.children) {
+        RTree.collect(child, callback);
+      }
+    }
+  }
+
+  /**
+   * Create an empty node
+   * @param leaf true for a leaf node
+   * @returns node
+   */
+  private static createNode<T>(leaf: boolean): Node<T> {
+    return {
+      minX: Number.POSITIVE_INFINITY,
+      minY: Number.POSITIVE_INFINITY,
+      maxX: Number.NEGATIVE_INFINITY,
+      maxY: Number.NEGATIVE_INFINITY,
+      leaf,
+      children: [],
+      entries: [],
+    };
+  }
+
+  /**
+   * Create a leaf entry
+   * @param envelope item envelope
+   * @param item item
+   * @returns leaf entry
+   */
+  private static createEntry<T>(
+    envelope: GeometryEnvelope,
+    item: T,
+  ): LeafEntry<T> {
+    return { ...RTree.getBounds(envelope), envelope, item };
+  }
+
+  /**
+   * Get the bounds of an envelope
+   * @param envelope envelope
+   * @returns bounds
+   */
+  private static getBounds(envelope: GeometryEnvelope): Bounds {
+    const bounds = {
+      minX: envelope.minX,
+      minY: envelope.minY,
+      maxX: envelope.maxX,
+      maxY: envelope.maxY,
+    };
+    if (!(bounds.minX <= bounds.maxX && bounds.minY <= bounds.maxY)) {
+      throw new SFException("R-tree envelopes must have min values <= max");
+    }
+    return bounds;
+  }
+
+  /**
+   * Update the node bounds from its children or entries
+   * @param node node
+   */
+  private static updateBounds<T>(node: Node<T>): void {
+    const bounds = RTree.union<Bounds>(
+      node.leaf ? node.entries : node.children,
+    );
+    node.minX = bounds.minX;
+    node.minY = bounds.minY;
+    node.maxX = bounds.maxX;
+    node.maxY = bounds.maxY;
+  }
+
+  /**
+   * Extend the node bounds to include the bounds
+   * @param node node
+   * @param bounds bounds
+   */
+  private static extend<T>(node: Node<T>, bounds: Bounds): void {
+    node.minX = Math.min(node.minX, bounds.minX);
+    node.minY = Math.min(node.minY, bounds.minY);
+    node.maxX = Math.max(node.maxX, bounds.maxX);
+    node.maxY = Math.max(node.maxY, bounds.maxY);
+  }
+
+  /**
+   * Get the union of bounds
+   * @param values bounded values
+   * @returns bounds, inverted infinite bounds when there are no values
+   */
+  private static union<B extends Bounds>(values: B[]): Bounds {
+    const bounds: Bounds = {
+      minX: Number.POSITIVE_INFINITY,
+      minY: Number.POSITIVE_INFINITY,
+      maxX: Number.NEGATIVE_INFINITY,
+      maxY: Number.NEGATIVE_INFINITY,
+    };
+    for (const value of values) {
+      bounds.minX = Math.min(bounds.minX, value.minX);
+      bounds.minY = Math.min(bounds.minY, value.minY);
+      bounds.maxX = Math.max(bounds.maxX, value.maxX);
+      bounds.maxY = Math.max(bounds.maxY, value.maxY);
+    }
+    return bounds;
+  }
+
+  /**
+   * Get the area of bounds
+   * @param bounds bounds
+   * @returns area, zero when inverted
+   */
+  private static area(bounds: Bounds): number {
+    return Math.max(0, bounds.maxX - bounds.minX) *
+      Math.max(0, bounds.maxY - bounds.minY);
+  }
+
+  /**
+   * Determine if bounds intersect, including touching
+   * @param bounds1 first bounds
+   * @param bounds2 second bounds
+   * @returns true if intersecting
+   */
+  private static intersects(bounds1: Bounds, bounds2: Bounds): boolean {
+    return bounds1.minX <= bounds2.maxX && bounds2.minX <= bounds1.maxX &&
+      bounds1.minY <= bounds2.maxY && bounds2.minY <= bounds1.maxY;
+  }
+
+  /**
+   * Determine if the first bounds contain the second bounds
+   * @param bounds1 first bounds
+   * @param bounds2 second bounds
+   * @returns true if containing
+   */
+  private static contains(bounds1: Bounds, bounds2: Bounds): boolean {
+    return bounds1.minX <= bounds2.minX && bounds2.maxX <= bounds1.maxX &&
+      bounds1.minY <= bounds2.minY && bounds2.maxY <= bounds1.maxY;
+  }
+
+  /**
+   * Get the minimum distance between bounds
+   * @param bounds1 first bounds
+   * @param bounds2 second bounds
+   * @returns distance
+   */
+  private static distance(bounds1: Bounds, bounds2: Bounds): number {
+    return Math.hypot(
+      Math.max(0, bounds1.minX - bounds2.maxX, bounds2.minX - bounds1.maxX),
+      Math.max(0, bounds1.minY - bounds2.maxY, bounds2.minY - bounds1.maxY),
+    );
+  }
+
+  /**
+   * Serialize a node
+   * @param node node
+   * @returns serialized node
+   */
+  private static serializeNode<T>(node: Node<T>): SerializedRTreeNode<T> {
+    const serialized: SerializedRTreeNode<T> = {};
+    if (node.leaf) {
+      serialized.entries = node.entries.map((entry) => ({
+        bounds: [entry.minX, entry.minY, entry.maxX, entry.maxY],
+        item: entry.item,
+      }));
+    } else {
+      serialized.children = node.children.map((child) =>
+        RTree.serializeNode(child)
+      );
+    }
+    return serialized;
+  }
+
+  /**
+   * Deserialize a node
+   * @param obj serialized node
+   * @param itemFromJSON item deserialization
+   * @returns node
+   */
+  private static deserializeNode<T, S>(
+    obj: SerializedRTreeNode<S>,
+    itemFromJSON: (item: S) => T,
+  ): Node<T> {
+    const node = RTree.createNode<T>(obj.children === undefined);
+    if (obj.children !== undefined) {
+      node.children = obj.children.map((child) =>
+        RTree.deserializeNode(child, itemFromJSON)
+      );
+    } else if (obj.entries !== undefined) {
+      node.entries = obj.entries.map((entry) =>
+        RTree.createEntry(
+          GeometryEnvelope.createFromMinMaxXY(...entry.bounds),
+          itemFromJSON(entry.item),
+        )
+      );
+    }
+    RTree.updateBounds(node);
+    return node;
+  }
+}
@@ -0,0 +1,17 @@
+import type { GeometryEnvelope } from "../../internal.ts";
+
+/**
+ * R-tree item with its envelope
+ * @param <T> item type
+ */
+export interface RTreeEntry<T> {
+  /**
+   * Item envelope
+   */
+  envelope: GeometryEnvelope;
+
+  /**
+   * Item
+   */
+  item: T;
+}
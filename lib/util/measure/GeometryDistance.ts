@@ -0,0 +1,121 @@
+import type { Geometry, Point } from "../../internal.ts";
+import {
+  GeometryComponents,
+  Location,
+  PointLocator,
+  SegmentUtils,
+} from "../../internal.ts";
+
+/**
+ * Planar minimum distance between geometries. Curves are linearized and
+ * geometries intersecting or within the polygons of the other geometry have
+ * a distance of zero.
+ */
+export class GeometryDistance {
+  /**
+   * Get the minimum distance between two geometries
+   * @param geometry1 first geometry
+   * @param geometry2 second geometry
+   * @returns distance, infinity when either geometry is empty
+   */
+  public static getDistance(geometry1: Geometry, geometry2: Geometry): number {
+    const components1 = new GeometryComponents(geometry1);
+    const components2 = new GeometryComponents(geometry2);
+    if (components1.isEmpty() || components2.isEmpty()) {
+      return Number.POSITIVE_INFINITY;
+    }
+    if (
+      GeometryDistance.isWithinPolygons(components1, components2) ||
+      GeometryDistance.isWithinPolygons(components2, components1)
+    ) {
+      return 0;
+    }
+
+    const segments1 = components1.getSegments();
+    const segments2 = components2.getSegments();
+    let distance = Number.POSITIVE_INFINITY;
+    for (const point1 of components1.points) {
+      for (const point2 of components2.points) {
+        distance = Math.min(distance, SegmentUtils.distance(point1, point2));
+      }
+      for (const [start, end] of segments2) {
+        distance = Math.min(
+          distance,
+          SegmentUtils.distanceToSegment(point1, start, end),
+        );
+      }
+    }
+    for (const point2 of components2.points) {
+      for (const [start, end] of segments1) {
+        distance = Math.min(
+          distance,
+          SegmentUtils.distanceToSegment(point2, start, end),
+        );
+      }
+    }
+    for (const [start1, end1] of segments1) {
+      for (const [start2, end2] of segments2) {
+        distance = Math.min(
+          distance,
+          GeometryDistance.segmentDistance(start1, end1, start2, end2),
+        );
+        if (distance === 0) {
+          return distance;
+        }
+      }
+    }
+    return distance;
+  }
+
+  /**
+   * Determine if a vertex of the first components is within or on the
+   * polygons of the second components
+   * @param components1 first geometry components
+   * @param components2 second geometry components
+   * @returns true if a vertex is within the polygons
+   */
+  private static isWithinPolygons(
+    components1: GeometryComponents,
+    components2: GeometryComponents,
+  ): boolean {
+    let within = false;
+    if (components2.polygons.length > 0) {
+      const locator = new PointLocator(components2, 0);
+      const vertices = [
+        ...components1.points,
+        ...components1.lines.map((line) => line[0]),
+        ...components1.polygons.map((polygon) => polygon[0][0]),
+      ];
+      within = vertices.some((vertex) =>
+        locator.locateArea(vertex) !== Location.Exterior
+      );
+    }
+    return within;
+  }
+
+  /**
+   * Get the minimum distance between two segments
+   * @param p1 first segment start point
+   * @param p2 first segment end point
+   * @param q1 second segment start point
+   * @param q2 second segment end point
+   * @returns distance
+   */
+  private static segmentDistance(
+    p1: Point,
+    p2: Point,
+    q1: Point,
+    q2: Point,
+  ): number {
+    let distance = 0;
+    if (SegmentUtils.intersection(p1, p2, q1, q2, 0).length === 0) {
+      distance = Math.min(
+        SegmentUtils.distanceToSegment(p1, q1, q2),
+        SegmentUtils.distanceToSegment(p2, q1, q2),
+        SegmentUtils.distanceToSegment(q1, p1, p2),
+        SegmentUtils.distanceToSegment(q2, p1, p2),
+      );
+    }
+    return distance;
+  }
+}
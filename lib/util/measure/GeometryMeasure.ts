@@ -0,0 +1,496 @@
+import type {
+  CircularString,
+  CompoundCurve,
+  Curve,
+  CurvePolygon,
+  Geometry,
+  GeometryCollection,
+  LineString,
+  Point,
+  Polygon,
+  PolyhedralSurface,
+} from "../../internal.ts";
+import { GeometryType, SFException } from "../../internal.ts";
+
+/**
+ * Circular arc through three points, split at the middle point
+ */
+interface Arc {
+  /**
+   * Circle radius
+   */
+  radius: number;
+
+  /**
+   * Signed angle swept from the start to the middle point, counter clockwise
+   * positive
+   */
+  sweep1: number;
+
+  /**
+   * Signed angle swept from the middle to the end point, counter clockwise
+   * positive
+   */
+  sweep2: number;
+}
+
+/**
+ * Planar measurement of geometry area, length and perimeter. Circular arcs
+ * are measured exactly, with circular segment areas and arc lengths, and
+ * polyhedral surface patches are measured by their surface area in three
+ * dimensions. Length and perimeter optionally include z coordinate changes.
+ */
+export class GeometryMeasure {
+  /**
+   * Get the area of the geometry, zero for points and curves
+   * @param geometry geometry
+   * @returns area
+   */
+  public static getArea(geometry: Geometry): number {
+    let area = 0;
+    switch (geometry.geometryType) {
+      case GeometryType.Point:
+      case GeometryType.MultiPoint:
+      case GeometryType.LineString:
+      case GeometryType.CircularString:
+      case GeometryType.CompoundCurve:
+      case GeometryType.MultiLineString:
+        break;
+      case GeometryType.Polygon:
+      case GeometryType.Triangle:
+      case GeometryType.CurvePolygon: {
+        area = GeometryMeasure.getSurfaceArea(geometry as CurvePolygon);
+        break;
+      }
+      case GeometryType.PolyhedralSurface:
+      case GeometryType.Tin: {
+        for (const polygon of (geometry as PolyhedralSurface).polygons) {
+          area += GeometryMeasure.getPatchArea(polygon);
+        }
+        break;
+      }
+      case GeometryType.MultiPolygon:
+      case GeometryType.GeometryCollection:
+      case GeometryType.MultiCurve:
+      case GeometryType.MultiSurface: {
+        for (const child of (geometry as GeometryCollection).geometries) {
+          area += GeometryMeasure.getArea(child);
+        }
+        break;
+      }
+      default:
+        throw new SFException(
+          `Unsupported Geometry Type: ${geometry.geometryType}`,
+        );
+    }
+    return area;
+  }
+
+  /**
+   * Get the length of the geometry curves, zero for points and surfaces
+   * @param geometry geometry
+   * @param use3D true to include z coordinate changes when present
+   * @returns length
+   */
+  public static getLength(geometry: Geometry, use3D = false): number {
+    let length = 0;
+    switch (geometry.geometryType) {
+      case GeometryType.Point:
+      case GeometryType.MultiPoint:
+      case GeometryType.Polygon:
+      case GeometryType.Triangle:
+      case GeometryType.CurvePolygon:
+      case GeometryType.PolyhedralSurface:
+      case GeometryType.Tin:
+        break;
+      case GeometryType.LineString:
+      case GeometryType.CircularString:
+      case GeometryType.CompoundCurve: {
+        length = GeometryMeasure.getCurveLength(geometry as Curve, use3D);
+        break;
+      }
+      case GeometryType.MultiLineString:
+      case GeometryType.MultiPolygon:
+      case GeometryType.GeometryCollection:
+      case GeometryType.MultiCurve:
+      case GeometryType.MultiSurface: {
+        for (const child of (geometry as GeometryCollection).geometries) {
+          length += GeometryMeasure.getLength(child, use3D);
+        }
+        break;
+      }
+      default:
+        throw new SFException(
+          `Unsupported Geometry Type: ${geometry.geometryType}`,
+        );
+    }
+    return length;
+  }
+
+  /**
+   * Get the perimeter of the geometry surfaces, the length of their rings,
+   * zero for points and curves
+   * @param geometry geometry
+   * @param use3D true to include z coordinate changes when present
+   * @returns perimeter
+   */
+  public static getPerimeter(geometry: Geometry, use3D = false): number {
+    let perimeter = 0;
+    switch (geometry.geometryType) {
+      case GeometryType.Point:
+      case GeometryType.MultiPoint:
+      case GeometryType.LineString:
+      case GeometryType.CircularString:
+      case GeometryType.CompoundCurve:
+      case GeometryType.MultiLineString:
+        break;
+      case GeometryType.Polygon:
+      case GeometryType.Triangle:
+      case GeometryType.CurvePolygon: {
+        for (const ring of (geometry as CurvePolygon).rings) {
+          perimeter += GeometryMeasure.getCurveLength(ring, use3D);
+        }
+        break;
+      }
+      case GeometryType.PolyhedralSurface:
+      case GeometryType.Tin: {
+        for (const polygon of (geometry as PolyhedralSurface).polygons) {
+          perimeter += GeometryMeasure.getPerimeter(polygon, use3D);
+        }
+        break;
+      }
+      case GeometryType.MultiPolygon:
+      case GeometryType.GeometryCollection:
+      case GeometryType.MultiCurve:
+      case GeometryType.MultiSurface: {
+        for (const child of (geometry as GeometryCollection).geometries) {
+          perimeter += GeometryMeasure.getPerimeter(child, use3D);
+        }
+        break;
+      }
+      default:
+        throw new SFException(
+          `Unsupported Geometry Type: ${geometry.geometryType}`,
+        );
+    }
+    return perimeter;
+  }
+
+  /**
+   * Get the length of a curve, with true arc lengths for circular strings
+   * @param curve line string, circular string or compound curve
+   * @param use3D true to include z coordinate changes when present
+   * @returns length
+   */
+  public static getCurveLength(curve: Curve, use3D = false): number {
+    let length = 0;
+    switch (curve.geometryType) {
+      case GeometryType.CircularString: {
+        const points = (curve as CircularString).points;
+        let i = 0;
+        for (; i + 2 < points.length; i += 2) {
+          const arc = GeometryMeasure.getArc(
+            points[i],
+            points[i + 1],
+            points[i + 2],
+          );
+          if (arc !== undefined) {
+            length += GeometryMeasure.getArcLength(
+              arc.radius * Math.abs(arc.sweep1),
+              points[i],
+              points[i + 1],
+              use3D,
+            );
+            length += GeometryMeasure.getArcLength(
+              arc.radius * Math.abs(arc.sweep2),
+              points[i + 1],
+              points[i + 2],
+              use3D,
+            );
+          } else {
+            length += GeometryMeasure.getSegmentLength(
+              points[i],
+              points[i + 1],
+              use3D,
+            );
+            length += GeometryMeasure.getSegmentLength(
+              points[i + 1],
+              points[i + 2],
+              use3D,
+            );
+          }
+        }
+        for (i++; i < points.length; i++) {
+          length += GeometryMeasure.getSegmentLength(
+            points[i - 1],
+            points[i],
+            use3D,
+          );
+        }
+        break;
+      }
+      case GeometryType.CompoundCurve: {
+        for (const lineString of (curve as CompoundCurve).lineStrings) {
+          length += GeometryMeasure.getCurveLength(lineString, use3D);
+        }
+        break;
+      }
+      default: {
+        const points = (curve as LineString).points;
+        for (let i = 1; i < points.length; i++) {
+          length += GeometryMeasure.getSegmentLength(
+            points[i - 1],
+            points[i],
+            use3D,
+          );
+        }
+      }
+    }
+    return length;
+  }
+
+  /**
+   * Get the planar area of a curve polygon, the exterior ring area minus the
+   * hole areas
+   * @param curvePolygon curve polygon
+   * @returns area
+   */
+  private static getSurfaceArea(curvePolygon: CurvePolygon): number {
+    let area = 0;
+    curvePolygon.rings.forEach((ring, index) => {
+      const ringArea = ring.isEmpty()
+        ? 0
+        : Math.abs(GeometryMeasure.getRingArea(ring, ring.startPoint()));
+      area += index === 0 ? ringArea : -ringArea;
+    });
+    return area;
+  }
+
+  /**
+   * Get the signed area enclosed by a curve and the chords from an origin
+   * point to its ends, positive when counter clockwise. The area of a ring
+   * when the origin is its start point.
+   * @param curve line string, circular string or compound curve
+   * @param origin origin point
+   * @returns signed area
+   */
+  private static getRingArea(curve: Curve, origin: Point): number {
+    let area = 0;
+    switch (curve.geometryType) {
+      case GeometryType.CircularString: {
+        const points = (curve as CircularString).points;
+        let i = 0;
+        for (; i + 2 < points.length; i += 2) {
+          const arc = GeometryMeasure.getArc(
+            points[i],
+            points[i + 1],
+            points[i + 2],
+          );
+          if (arc !== undefined) {
+            const sweep = arc.sweep1 + arc.sweep2;
+            area += GeometryMeasure.getChordArea(
+              points[i],
+              points[i + 2],
+              origin,
+            );
+            area += arc.radius * arc.radius * (sweep - Math.sin(sweep)) / 2;
+          } else {
+            area += GeometryMeasure.getChordArea(
+              points[i],
+              points[i + 1],
+              origin,
+            );
+            area += GeometryMeasure.getChordArea(
+              points[i + 1],
+              points[i + 2],
+              origin,
+            );
+          }
+        }
+        for (i++; i < points.length; i++) {
+          area += GeometryMeasure.getChordArea(
+            points[i - 1],
+            points[i],
+            origin,
+          );
+        }
+        break;
+      }
+      case GeometryType.CompoundCurve: {
+        for (const lineString of (curve as CompoundCurve).lineStrings) {
+          area += GeometryMeasure.getRingArea(lineString, origin);
+        }
+        break;
+      }
+      default: {
+        const points = (curve as LineString).points;
+        for (let i = 1; i < points.length; i++) {
+          area += GeometryMeasure.getChordArea(
+            points[i - 1],
+            points[i],
+            origin,
+          );
+        }
+      }
+    }
+    return area;
+  }
+
+  /**
+   * Get the signed area of the triangle between an origin and a chord
+   * @param start chord start
+   * @param end chord end
+   * @param origin origin point
+   * @returns signed area, positive when counter clockwise
+   */
+  private static getChordArea(
+    start: Point,
+    end: Point,
+    origin: Point,
+  ): number {
+    return ((start.x - origin.x) * (end.y - origin.y) -
+      (end.x - origin.x) * (start.y - origin.y)) / 2;
+  }
+
+  /**
+   * Get the surface area of a polyhedral surface patch in three dimensions,
+   * the exterior ring area minus the hole areas
+   * @param polygon polygon patch
+   * @returns area
+   */
+  private static getPatchArea(polygon: Polygon): number {
+    let area = 0;
+    polygon.rings.forEach((ring, index) => {
+      const points = ring.points;
+      const origin = points[0];
+      const normal = [0, 0, 0];
+      for (let i = 2; i < points.length; i++) {
+        const x1 = points[i - 1].x - origin.x;
+        const y1 = points[i - 1].y - origin.y;
+        const z1 = (points[i - 1].z ?? 0) - (origin.z ?? 0);
+        const x2 = points[i].x - origin.x;
+        const y2 = points[i].y - origin.y;
+        const z2 = (points[i].z ?? 0) - (origin.z ?? 0);
+        normal[0] += y1 * z2 - z1 * y2;
+        normal[1] += z1 * x2 - x1 * z2;
+        normal[2] += x1 * y2 - y1 * x2;
+      }
+      const ringArea = Math.hypot(normal[0], normal[1], normal[2]) / 2;
+      area += index === 0 ? ringArea : -ringArea;
+    });
+    return area;
+  }
+
+  /**
+   * Get the length of a segment
+   * @param start segment start
+   * @param end segment end
+   * @param use3D true to include the z coordinate change when present
+   * @returns length
+   */
+  private static getSegmentLength(
+    start: Point,
+    end: Point,
+    use3D: boolean,
+  ): number {
+    return Math.hypot(
+      end.x - start.x,
+      end.y - start.y,
+      GeometryMeasure.getZChange(start, end, use3D),
+    );
+  }
+
+  /**
+   * Get the length of part of an arc, as a helix when the z coordinate
+   * changes
+   * @param length planar arc length
+   * @param start arc start
+   * @param end arc end
+   * @param use3D true to include the z coordinate change when present
+   * @returns length
+   */
+  private static getArcLength(
+    length: number,
+    start: Point,
+    end: Point,
+    use3D: boolean,
+  ): number {
+    return Math.hypot(length, GeometryMeasure.getZChange(start, end, use3D));
+  }
+
+  /**
+   * Get the z coordinate change between two points
+   * @param start start point
+   * @param end end point
+   * @param use3D true to include the z coordinate change
+   * @returns z change, zero when not included or not present
+   */
+  private static getZChange(
+    start: Point,
+    end: Point,
+    use3D: boolean,
+  ): number {
+    return use3D && start.z !== undefined && end.z !== undefined
+      ? end.z - start.z
+      : 0;
+  }
+
+  /**
+   * Get the circular arc through three points
+   * @param start arc start point
+   * @param middle point on the arc
+   * @param end arc end point
+   * @returns arc or undefined when the points are collinear
+   */
+  private static getArc(
+    start: Point,
+    middle: Point,
+    end: Point,
+  ): Arc | undefined {
+    const x1 = middle.x - start.x;
+    const y1 = middle.y - start.y;
+    const x2 = end.x - start.x;
+    const y2 = end.y - start.y;
+
+    if (x2 === 0 && y2 === 0) {
+      // Full circle with the middle point opposite the start point
+      const radius = Math.hypot(x1, y1) / 2;
+      return radius > 0
+        ? { radius, sweep1: Math.PI, sweep2: Math.PI }
+        : undefined;
+    }
+
+    const cross = x1 * y2 - y1 * x2;
+    const scale = Math.hypot(x1, y1) * Math.hypot(x2, y2);
+    if (Math.abs(cross) <= 1e-12 * scale) {
+      return undefined;
+    }
+    const d = 2 * cross;
+    const length1 = x1 * x1 + y1 * y1;
+    const length2 = x2 * x2 + y2 * y2;
+    const centerX = start.x + (y2 * length1 - y1 * length2) / d;
+    const centerY = start.y + (x1 * length2 - x2 * length1) / d;
+    const counterClockwise = cross > 0;
+
+    const sweep = (from: Point, to: Point) => {
+      let angle = Math.atan2(to.y - centerY, to.x - centerX) -
+        Math.atan2(from.y - centerY, from.x - centerX);
+      if (counterClockwise) {
+        while (angle <= 0) {
+          angle += 2 * Math.PI;
+        }
+      } else {
+        while (angle >= 0) {
+          angle -= 2 * Math.PI;
+        }
+      }
+      return angle;
+    };
+
+    return {
+      radius: Math.hypot(start.x - centerX, start.y - centerY),
+      sweep1: sweep(start, middle),
+      sweep2: sweep(middle, end),
+    };
+  }
+}
@@ -0,0 +1,300 @@
+import {
+  Geodesic,
+  GeometryConstants,
+  GeometryUtils,
+  LineString,
+  Point,
+  SFException,
+} from "../../internal.ts";
+
+/**
+ * Great circle navigation on a sphere with points in degrees, x longitudes
+ * and y latitudes. Distances are in meters on a sphere of the mean earth
+ * radius unless another radius is provided. Bearings are in degrees clockwise
+ * from north, between 0 inclusively and 360 exclusively. Resulting longitudes
+ * are normalized to the range: -180.0 &lt; x &lt;= 180.0
+ */
+export class GreatCircle {
+  /**
+   * Get the great circle distance between two points
+   * @param point1 point 1
+   * @param point2 point 2
+   * @param radius sphere radius in meters
+   * @returns distance in meters
+   */
+  public static distance(
+    point1: Point,
+    point2: Point,
+    radius = GeometryConstants.EARTH_MEAN_RADIUS,
+  ): number {
+    return GreatCircle.angularDistance(point1, point2) * radius;
+  }
+
+  /**
+   * Get the initial bearing of the great circle path between two points
+   * @param point1 start point
+   * @param point2 end point
+   * @returns bearing in degrees
+   */
+  public static initialBearing(point1: Point, point2: Point): number {
+    return GeometryUtils.bearing(point1, point2);
+  }
+
+  /**
+   * Get the final bearing arriving at the end point of the great circle path
+   * between two points
+   * @param point1 start point
+   * @param point2 end point
+   * @returns bearing in degrees
+   */
+  public static finalBearing(point1: Point, point2: Point): number {
+    return (GeometryUtils.bearing(point2, point1) + 180) % 360;
+  }
+
+  /**
+   * Get the destination point travelling along a great circle from a start
+   * point with an initial bearing, keeping the start z and m values
+   * @param start start point
+   * @param bearing initial bearing in degrees
+   * @param distance distance in meters
+   * @param radius sphere radius in meters
+   * @returns destination point
+   */
+  public static destination(
+    start: Point,
+    bearing: number,
+    distance: number,
+    radius = GeometryConstants.EARTH_MEAN_RADIUS,
+  ): Point {
+    const angle = distance / radius;
+    const theta = GeometryUtils.degreesToRadians(bearing);
+    const lat1 = GeometryUtils.degreesToRadians(start.y);
+    const lon1 = GeometryUtils.degreesToRadians(start.x);
+
+    const sinLat2 = Math.sin(lat1) * Math.cos(angle) +
+      Math.cos(lat1) * Math.sin(angle) * Math.cos(theta);
+    const lat2 = Math.asin(Math.max(-1, Math.min(1, sinLat2)));
+    const lon2 = lon1 + Math.atan2(
+      Math.sin(theta) * Math.sin(angle) * Math.cos(lat1),
+      Math.cos(angle) - Math.sin(lat1) * sinLat2,
+    );
+
+    return GreatCircle.createPoint(
+      GeometryUtils.radiansToDegrees(lon2),
+      GeometryUtils.radiansToDegrees(lat2),
+      start,
+      start,
+      0,
+    );
+  }
+
+  /**
+   * Get the point a fraction of the way along the great circle path between
+   * two points, with linearly interpolated z and m values
+   * @param point1 start point
+   * @param point2 end point
+   * @param fraction fraction of the distance, 0 at the start and 1 at the end
+   * @returns interpolated point
+   */
+  public static interpolate(
+    point1: Point,
+    point2: Point,
+    fraction: number,
+  ): Point {
+    const angle = GreatCircle.angularDistance(point1, point2);
+    if (angle === 0) {
+      return GreatCircle.createPoint(
+        point1.x,
+        point1.y,
+        point1,
+        point2,
+        fraction,
+      );
+    }
+    const sinAngle = Math.sin(angle);
+    if (sinAngle < 1e-12) {
+      throw new SFException(
+        "Great circle path between antipodal points is undefined",
+      );
+    }
+
+    const lat1 = GeometryUtils.degreesToRadians(point1.y);
+    const lon1 = GeometryUtils.degreesToRadians(point1.x);
+    const lat2 = GeometryUtils.degreesToRadians(point2.y);
+    const lon2 = GeometryUtils.degreesToRadians(point2.x);
+
+    const a = Math.sin((1 - fraction) * angle) / sinAngle;
+    const b = Math.sin(fraction * angle) / sinAngle;
+    const x = a * Math.cos(lat1) * Math.cos(lon1) +
+      b * Math.cos(lat2) * Math.cos(lon2);
+    const y = a * Math.cos(lat1) * Math.sin(lon1) +
+      b * Math.cos(lat2) * Math.sin(lon2);
+    const z = a * Math.sin(lat1) + b * Math.sin(lat2);
+
+    return GreatCircle.createPoint(
+      GeometryUtils.radiansToDegrees(Math.atan2(y, x)),
+      GeometryUtils.radiansToDegrees(Math.atan2(z, Math.hypot(x, y))),
+      point1,
+      point2,
+      fraction,
+    );
+  }
+
+  /**
+   * Get the midpoint of the great circle path between two points
+   * @param point1 point 1
+   * @param point2 point 2
+   * @returns midpoint
+   */
+  public static midpoint(point1: Point, point2: Point): Point {
+    return GreatCircle.interpolate(point1, point2, 0.5);
+  }
+
+  /**
+   * Get the signed distance from a point to the great circle through a path
+   * start and end point, positive to the right of the path direction
+   * @param point point
+   * @param start path start point
+   * @param end path end point
+   * @param radius sphere radius in meters
+   * @returns cross track distance in meters
+   */
+  public static crossTrackDistance(
+    point: Point,
+    start: Point,
+    end: Point,
+    radius = GeometryConstants.EARTH_MEAN_RADIUS,
+  ): number {
+    return GreatCircle.crossTrackAngle(point, start, end) * radius;
+  }
+
+  /**
+   * Get the distance from a path start point along the great circle through
+   * the path end point to the closest point to a point, negative when the
+   * closest point is behind the start
+   * @param point point
+   * @param start path start point
+   * @param end path end point
+   * @param radius sphere radius in meters
+   * @returns along track distance in meters
+   */
+  public static alongTrackDistance(
+    point: Point,
+    start: Point,
+    end: Point,
+    radius = GeometryConstants.EARTH_MEAN_RADIUS,
+  ): number {
+    const angle13 = GreatCircle.angularDistance(start, point);
+    const crossTrack = GreatCircle.crossTrackAngle(point, start, end);
+    const cosAlong = Math.cos(angle13) / Math.cos(crossTrack);
+    const along = Math.acos(Math.max(-1, Math.min(1, cosAlong)));
+    const bearingDiff = GeometryUtils.degreesToRadians(
+      GeometryUtils.bearing(start, end) - GeometryUtils.bearing(start, point),
+    );
+    return Math.sign(Math.cos(bearingDiff)) * along * radius;
+  }
+
+  /**
+   * Densify a line string along great circles, adding interpolated points so
+   * that no segment spans more than the maximum angle
+   * @param lineString line string
+   * @param maxDegrees maximum segment angular distance in degrees
+   * @returns new densified line string
+   */
+  public static densify(
+    lineString: LineString,
+    maxDegrees: number,
+  ): LineString {
+    if (!(maxDegrees > 0)) {
+      throw new SFException(
+        `Maximum segment degrees must be positive, found ${maxDegrees}`,
+      );
+    }
+    const densified = LineString.create(lineString.hasZ, lineString.hasM);
+    const points = lineString.points;
+    for (let i = 0; i < points.length; i++) {
+      if (i > 0) {
+        const degrees = GeometryUtils.radiansToDegrees(
+          GreatCircle.angularDistance(points[i - 1], points[i]),
+        );
+        const segments = Math.ceil(degrees / maxDegrees);
+        for (let j = 1; j < segments; j++) {
+          densified.addPoint(
+            GreatCircle.interpolate(points[i - 1], points[i], j / segments),
+          );
+        }
+      }
+      densified.addPoint(points[i].copy());
+    }
+    return densified;
+  }
+
+  /**
+   * Get the angular distance between two points with the haversine formula
+   * @param point1 point 1
+   * @param point2 point 2
+   * @returns angular distance in radians
+   */
+  private static angularDistance(point1: Point, point2: Point): number {
+    const lat1 = GeometryUtils.degreesToRadians(point1.y);
+    const lat2 = GeometryUtils.degreesToRadians(point2.y);
+    const sinLat = Math.sin((lat2 - lat1) / 2);
+    const sinLon = Math.sin(
+      GeometryUtils.degreesToRadians(point2.x - point1.x) / 2,
+    );
+    const a = sinLat * sinLat +
+      Math.cos(lat1) * Math.cos(lat2) * sinLon * sinLon;
+    return 2 * Math.atan2(Math.sqrt(a), Math.sqrt(Math.max(0, 1 - a)));
+  }
+
+  /**
+   * Get the signed angular distance from a point to the great circle through
+   * a path start and end point
+   * @param point point
+   * @param start path start point
+   * @param end path end point
+   * @returns cross track angle in radians
+   */
+  private static crossTrackAngle(
+    point: Point,
+    start: Point,
+    end: Point,
+  ): number {
+    const angle13 = GreatCircle.angularDistance(start, point);
+    const bearingDiff = GeometryUtils.degreesToRadians(
+      GeometryUtils.bearing(start, point) - GeometryUtils.bearing(start, end),
+    );
+    return Math.asin(
+      Math.max(-1, Math.min(1, Math.sin(angle13) * Math.sin(bearingDiff))),
+    );
+  }
+
+  /**
+   * Create a point with a normalized longitude and z and m values
+   * interpolated between two points
+   * @param x longitude in degrees
+   * @param y latitude in degrees
+   * @param point1 point 1
+   * @param point2 point 2
+   * @param fraction fraction between point 1 and point 2
+   * @returns point
+   */
+  private static createPoint(
+    x: number,
+    y: number,
+    point1: Point,
+    point2: Point,
+    fraction: number,
+  ): Point {
+    const point = Point.create(point1.hasZ, point1.hasM);
+    point.x = Geodesic.angleNormalize(x);
+    point.y = y;
+    if (point1.z !== undefined && point2.z !== undefined) {
+      point.z = point1.z + (point2.z - point1.z) * fraction;
+    }
+    if (point1.m !== undefined && point2.m !== undefined) {
+      point.m = point1.m + (point2.m - point1.m) * fraction;
+    }
+    return point;
+  }
+}
@@ -0,0 +1,175 @@
+import {
+  Geodesic,
+  GeometryConstants,
+  GeometryUtils,
+  Point,
+} from "../../internal.ts";
+
+/**
+ * Rhumb line (loxodrome) navigation on a sphere with points in degrees, x
+ * longitudes and y latitudes. A rhumb line crosses every meridian at the same
+ * bearing. Distances are in meters on a sphere of the mean earth radius unless
+ * another radius is provided. Bearings are in degrees clockwise from north,
+ * between 0 inclusively and 360 exclusively. Resulting longitudes are
+ * normalized to the range: -180.0 &lt; x &lt;= 180.0
+ */
+export class RhumbLine {
+  /**
+   * Get the rhumb line distance between two points
+   * @param point1 point 1
+   * @param point2 point 2
+   * @param radius sphere radius in meters
+   * @returns distance in meters
+   */
+  public static distance(
+    point1: Point,
+    point2: Point,
+    radius = GeometryConstants.EARTH_MEAN_RADIUS,
+  ): number {
+    const lat1 = GeometryUtils.degreesToRadians(point1.y);
+    const lat2 = GeometryUtils.degreesToRadians(point2.y);
+    const latDiff = lat2 - lat1;
+    const lonDiff = RhumbLine.longitudeDifference(point1, point2);
+    const q = RhumbLine.stretch(lat1, lat2);
+    return Math.hypot(latDiff, q * lonDiff) * radius;
+  }
+
+  /**
+   * Get the constant bearing of the rhumb line between two points
+   * @param point1 start point
+   * @param point2 end point
+   * @returns bearing in degrees
+   */
+  public static bearing(point1: Point, point2: Point): number {
+    const lat1 = GeometryUtils.degreesToRadians(point1.y);
+    const lat2 = GeometryUtils.degreesToRadians(point2.y);
+    const lonDiff = RhumbLine.longitudeDifference(point1, point2);
+    const theta = Math.atan2(
+      lonDiff,
+      RhumbLine.projectedLatitude(lat2) - RhumbLine.projectedLatitude(lat1),
+    );
+    return (GeometryUtils.radiansToDegrees(theta) + 360) % 360;
+  }
+
+  /**
+   * Get the destination point travelling along a rhumb line from a start
+   * point with a constant bearing, keeping the start z and m values
+   * @param start start point
+   * @param bearing bearing in degrees
+   * @param distance distance in meters
+   * @param radius sphere radius in meters
+   * @returns destination point
+   */
+  public static destination(
+    start: Point,
+    bearing: number,
+    distance: number,
+    radius = GeometryConstants.EARTH_MEAN_RADIUS,
+  ): Point {
+    const point = RhumbLine.travel(start, bearing, distance / radius);
+    if (start.z !== undefined) {
+      point.z = start.z;
+    }
+    if (start.m !== undefined) {
+      point.m = start.m;
+    }
+    return point;
+  }
+
+  /**
+   * Get the point a fraction of the way along the rhumb line between two
+   * points, with linearly interpolated z and m values
+   * @param point1 start point
+   * @param point2 end point
+   * @param fraction fraction of the distance, 0 at the start and 1 at the end
+   * @returns interpolated point
+   */
+  public static interpolate(
+    point1: Point,
+    point2: Point,
+    fraction: number,
+  ): Point {
+    const point = RhumbLine.travel(
+      point1,
+      RhumbLine.bearing(point1, point2),
+      fraction * RhumbLine.distance(point1, point2, 1),
+    );
+    if (point1.z !== undefined && point2.z !== undefined) {
+      point.z = point1.z + (point2.z - point1.z) * fraction;
+    }
+    if (point1.m !== undefined && point2.m !== undefined) {
+      point.m = point1.m + (point2.m - point1.m) * fraction;
+    }
+    return point;
+  }
+
+  /**
+   * Get the midpoint of the rhumb line between two points
+   * @param point1 point 1
+   * @param point2 point 2
+   * @returns midpoint
+   */
+  public static midpoint(point1: Point, point2: Point): Point {
+    return RhumbLine.interpolate(point1, point2, 0.5);
+  }
+
+  /**
+   * Travel an angular distance along a rhumb line
+   * @param start start point
+   * @param bearing bearing in degrees
+   * @param angle angular distance in radians
+   * @returns point with the z and m dimensions of the start point
+   */
+  private static travel(start: Point, bearing: number, angle: number): Point {
+    const theta = GeometryUtils.degreesToRadians(bearing);
+    const lat1 = GeometryUtils.degreesToRadians(start.y);
+    const lon1 = GeometryUtils.degreesToRadians(start.x);
+
+    let lat2 = lat1 + angle * Math.cos(theta);
+    if (Math.abs(lat2) > Math.PI / 2) {
+      lat2 = lat2 > 0 ? Math.PI - lat2 : -Math.PI - lat2;
+    }
+    const lon2 = lon1 + angle * Math.sin(theta) / RhumbLine.stretch(lat1, lat2);
+
+    const point = Point.create(start.hasZ, start.hasM);
+    point.x = Geodesic.angleNormalize(GeometryUtils.radiansToDegrees(lon2));
+    point.y = GeometryUtils.radiansToDegrees(lat2);
+    return point;
+  }
+
+  /**
+   * Get the shortest longitude difference between two points
+   * @param point1 point 1
+   * @param point2 point 2
+   * @returns longitude difference in radians
+   */
+  private static longitudeDifference(point1: Point, point2: Point): number {
+    return GeometryUtils.degreesToRadians(
+      Geodesic.angleNormalize(point2.x - point1.x),
+    );
+  }
+
+  /**
+   * Get the Mercator projected latitude
+   * @param lat latitude in radians
+   * @returns projected latitude
+   */
+  private static projectedLatitude(lat: number): number {
+    return Math.log(Math.tan(Math.PI / 4 + lat / 2));
+  }
+
+  /**
+   * Get the ratio of the latitude difference to the projected latitude
+   * difference, the cosine of the latitude along east west lines
+   * @param lat1 latitude 1 in radians
+   * @param lat2 latitude 2 in radians
+   * @returns stretch ratio
+   */
+  private static stretch(lat1: number, lat2: number): number {
+    const projectedDiff = RhumbLine.projectedLatitude(lat2) -
+      RhumbLine.projectedLatitude(lat1);
+    return Math.abs(projectedDiff) > 1e-12
+      ? (lat2 - lat1) / projectedDiff
+      : Math.cos(lat1);
+  }
+}
@@ -0,0 +1,459 @@
+import type { Event } from "../../internal.ts";
+import {
+  EventQueue,
+  EventType,
+  LineString,
+  Location,
+  Point,
+  PointLocator,
+  Polygon,
+  SegmentUtils,
+} from "../../internal.ts";
+
+/**
+ * Planar graph of noded polygon ring segments used to build overlay results.
+ * Vertices within the distance tolerance are merged, segments are noded at
+ * all of their intersections by sweeping the sorted segment events and
+ * duplicate edges are removed. Graph vertices are 2D copies of the input
+ * points.
+ */
+export class OverlayGraph {
+  /**
+   * Distance tolerance
+   */
+  private readonly _epsilon: number;
+
+  /**
+   * Vertices
+   */
+  private readonly _vertices: Point[] = [];
+
+  /**
+   * Vertex indices by grid cell, for merging vertices within the tolerance
+   */
+  private readonly _cells = new Map<string, number[]>();
+
+  /**
+   * Rings of vertex indices
+   */
+  private readonly _rings: number[][] = [];
+
+  /**
+   * Noded edges of vertex indices
+   */
+  private _edges: [number, number][] = [];
+
+  /**
+   * Constructor
+   * @param epsilon distance tolerance
+   */
+  public constructor(epsilon: number) {
+    this._epsilon = epsilon;
+  }
+
+  /**
+   * Get the vertices
+   * @returns vertices
+   */
+  public get vertices(): Point[] {
+    return this._vertices;
+  }
+
+  /**
+   * Get the noded edges as start and end vertex indices
+   * @returns edges
+   */
+  public get edges(): [number, number][] {
+    return this._edges;
+  }
+
+  /**
+   * Add a closed ring
+   * @param points ring points
+   */
+  public addRing(points: Point[]): void {
+    const ring: number[] = [];
+    for (const point of points) {
+      const index = this.addVertex(point);
+      if (ring.length === 0 || ring[ring.length - 1] !== index) {
+        ring.push(index);
+      }
+    }
+    if (ring.length > 1) {
+      this._rings.push(ring);
+    }
+  }
+
+  /**
+   * Node the ring segments at all intersections and build the unique edges
+   */
+  public node(): void {
+    const nodes: number[][][] = this._rings.map((ring) => ring.map(() => []));
+
+    const eventQueue = EventQueue.createFromLineStrings(
+      this._rings.map((ring) =>
+        LineString.createFromPoints(ring.map((index) => this._vertices[index]))
+      ),
+    );
+    let active: Event[] = [];
+    for (const event of eventQueue) {
+      if (event.type === EventType.Left) {
+        const [start, end] = this.getSegment(event);
+        if (start !== end) {
+          active = active.filter((other) => {
+            const [otherStart, otherEnd] = this.getSegment(other);
+            return Math.max(
+              this._vertices[otherStart].x,
+              this._vertices[otherEnd].x,
+            ) >= event.point.x - this._epsilon;
+          });
+          for (const other of active) {
+            const [otherStart, otherEnd] = this.getSegment(other);
+            const intersections = SegmentUtils.intersection(
+              this._vertices[start],
+              this._vertices[end],
+              this._vertices[otherStart],
+              this._vertices[otherEnd],
+              this._epsilon,
+            );
+            for (const intersection of intersections) {
+              const index = this.addVertex(intersection);
+              nodes[event.ring][event.edge].push(index);
+              nodes[other.ring][other.edge].push(index);
+            }
+          }
+          active.push(event);
+        }
+      }
+    }
+
+    const keys = new Set<string>();
+    this._edges = [];
+    for (let ringIndex = 0; ringIndex < this._rings.length; ringIndex++) {
+      const ring = this._rings[ringIndex];
+      for (let edge = 0; edge < ring.length; edge++) {
+        const start = ring[edge];
+        const end = ring[(edge + 1) % ring.length];
+        if (start === end) {
+          continue;
+        }
+        const startPoint = this._vertices[start];
+        const endPoint = this._vertices[end];
+        const chain = [
+          start,
+          ...[...new Set(nodes[ringIndex][edge])].filter((index) =>
+            index !== start && index !== end
+          ).sort((index1, index2) =>
+            SegmentUtils.projectionFactor(
+              this._vertices[index1],
+              startPoint,
+              endPoint,
+            ) -
+            SegmentUtils.projectionFactor(
+              this._vertices[index2],
+              startPoint,
+              endPoint,
+            )
+          ),
+          end,
+        ];
+        for (let i = 1; i < chain.length; i++) {
+          const index1 = Math.min(chain[i - 1], chain[i]);
+          const index2 = Math.max(chain[i - 1], chain[i]);
+          const key = `${index1},${index2}`;
+          if (!keys.has(key)) {
+            keys.add(key);
+            this._edges.push([chain[i - 1], chain[i]]);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Determine if the areas immediately left and right of an edge are in the
+   * interior of a geometry. Sample points are offset from the edge midpoint,
+   * moving further away while a sample falls on a geometry boundary.
+   * @param edge edge
+   * @param locate function locating a point in the geometry
+   * @returns left and right interior flags
+   */
+  public isInteriorOnSides(
+    edge: [number, number],
+    locate: (point: Point) => Location,
+  ): [boolean, boolean] {
+    const start = this._vertices[edge[0]];
+    const end = this._vertices[edge[1]];
+    const midpoint = SegmentUtils.interpolate(start, end, 0.5);
+    const length = SegmentUtils.distance(start, end);
+    const offset = Math.max(4 * this._epsilon, length * 1e-6);
+    let left = Location.Exterior;
+    let right = Location.Exterior;
+    for (const scale of [1, 16, 256]) {
+      const distance = Math.min(length / 4, offset * scale);
+      const dx = (start.y - end.y) / length * distance;
+      const dy = (end.x - start.x) / length * distance;
+      left = locate(Point.createFromXY(midpoint.x + dx, midpoint.y + dy));
+      right = locate(Point.createFromXY(midpoint.x - dx, midpoint.y - dy));
+      if (left !== Location.Boundary && right !== Location.Boundary) {
+        break;
+      }
+    }
+    return [left === Location.Interior, right === Location.Interior];
+  }
+
+  /**
+   * Build polygons from directed edges with the polygon interiors on their
+   * left. Exterior rings are counter clockwise and interior rings clockwise,
+   * with rings touching at a vertex traced as separate rings.
+   * @param edges directed edges
+   * @returns polygons
+   */
+  public buildPolygons(edges: [number, number][]): Polygon[] {
+    const outgoing = new Map<number, number[]>();
+    for (let i = 0; i < edges.length; i++) {
+      const list = outgoing.get(edges[i][0]);
+      if (list === undefined) {
+        outgoing.set(edges[i][0], [i]);
+      } else {
+        list.push(i);
+      }
+    }
+
+    const shells: Point[][] = [];
+    const holes: Point[][] = [];
+    const visited = new Array<boolean>(edges.length).fill(false);
+    for (let i = 0; i < edges.length; i++) {
+      if (visited[i]) {
+        continue;
+      }
+      const ring: number[] = [];
+      let current: number | undefined = i;
+      while (current !== undefined && !visited[current]) {
+        visited[current] = true;
+        ring.push(edges[current][0]);
+        current = this.nextEdge(
+          edges,
+          current,
+          outgoing.get(edges[current][1]),
+        );
+      }
+      if (current === i && ring.length > 2) {
+        for (const loop of OverlayGraph.splitLoops(ring)) {
+          const points = loop.map((index) => this._vertices[index].copy());
+          const area = OverlayGraph.signedArea(points);
+          if (area > 0) {
+            shells.push(points);
+          } else if (area < 0) {
+            holes.push(points);
+          }
+        }
+      }
+    }
+
+    shells.sort((shell1, shell2) =>
+      OverlayGraph.signedArea(shell1) - OverlayGraph.signedArea(shell2)
+    );
+    const shellHoles: Point[][][] = shells.map(() => []);
+    for (const hole of holes) {
+      const point = SegmentUtils.interpolate(hole[0], hole[1], 0.5);
+      const shellIndex = shells.findIndex((shell) =>
+        PointLocator.isInRing(point, shell)
+      );
+      if (shellIndex >= 0) {
+        shellHoles[shellIndex].push(hole);
+      }
+    }
+
+    return shells.map((shell, index) =>
+      Polygon.createFromLineStrings(
+        [shell, ...shellHoles[index]].map((ring) =>
+          LineString.createFromPoints(ring)
+        ),
+      )
+    );
+  }
+
+  /**
+   * Build line strings from undirected edges, merging edges joined at
+   * vertices shared by exactly two edges
+   * @param edges edges
+   * @returns line strings
+   */
+  public buildLines(edges: [number, number][]): LineString[] {
+    const incident = new Map<number, number[]>();
+    for (let i = 0; i < edges.length; i++) {
+      for (const vertex of edges[i]) {
+        const list = incident.get(vertex);
+        if (list === undefined) {
+          incident.set(vertex, [i]);
+        } else {
+          list.push(i);
+        }
+      }
+    }
+
+    const lines: LineString[] = [];
+    const visited = new Array<boolean>(edges.length).fill(false);
+    const trace = (edge: number, start: number) => {
+      const line = [start];
+      let vertex = start;
+      let current: number | undefined = edge;
+      while (current !== undefined && !visited[current]) {
+        visited[current] = true;
+        const [edgeStart, edgeEnd] = edges[current];
+        vertex = edgeStart === vertex ? edgeEnd : edgeStart;
+        line.push(vertex);
+        const next: number[] = incident.get(vertex) ?? [];
+        current = next.length === 2
+          ? next.find((other) => other !== current)
+          : undefined;
+      }
+      lines.push(
+        LineString.createFromPoints(
+          line.map((index) => this._vertices[index].copy()),
+        ),
+      );
+    };
+    for (const [vertex, list] of incident) {
+      if (list.length !== 2) {
+        for (const edge of list) {
+          if (!visited[edge]) {
+            trace(edge, vertex);
+          }
+        }
+      }
+    }
+    for (let i = 0; i < edges.length; i++) {
+      if (!visited[i]) {
+        trace(i, edges[i][0]);
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Get the signed area of a closed ring
+   * @param ring closed ring
+   * @returns positive area when counter clockwise, negative when clockwise
+   */
+  public static signedArea(ring: Point[]): number {
+    let area = 0;
+    for (let i = 1; i < ring.length; i++) {
+      area += ring[i - 1].x * ring[i].y - ring[i].x * ring[i - 1].y;
+    }
+    return area / 2;
+  }
+
+  /**
+   * Split a traced ring into loops at its repeated vertices
+   * @param ring ring vertex indices, without the closing vertex
+   * @returns closed loops of vertex indices
+   */
+  private static splitLoops(ring: number[]): number[][] {
+    const loops: number[][] = [];
+    const path: number[] = [];
+    const positions = new Map<number, number>();
+    for (const vertex of [...ring, ring[0]]) {
+      const position = positions.get(vertex);
+      if (position !== undefined) {
+        const loop = path.splice(position + 1);
+        for (const index of loop) {
+          positions.delete(index);
+        }
+        if (loop.length > 1) {
+          loops.push([vertex, ...loop, vertex]);
+        }
+      } else {
+        positions.set(vertex, path.length);
+        path.push(vertex);
+      }
+    }
+    return loops;
+  }
+
+  /**
+   * Get the next edge of a ring, the first outgoing edge clockwise from the
+   * reverse of the current edge
+   * @param edges directed edges
+   * @param current current edge index
+   * @param candidates outgoing edge indices from the current edge end
+   * @returns next edge index
+   */
+  private nextEdge(
+    edges: [number, number][],
+    current: number,
+    candidates: number[] | undefined,
+  ): number | undefined {
+    const [from, to] = edges[current];
+    const reverse = this.angle(to, from);
+    let next: number | undefined;
+    let minDelta = Number.POSITIVE_INFINITY;
+    for (const candidate of candidates ?? []) {
+      let delta = reverse - this.angle(to, edges[candidate][1]);
+      while (delta <= 0) {
+        delta += 2 * Math.PI;
+      }
+      if (delta < minDelta) {
+        minDelta = delta;
+        next = candidate;
+      }
+    }
+    return next;
+  }
+
+  /**
+   * Get the angle of the direction between two vertices
+   * @param from from vertex index
+   * @param to to vertex index
+   * @returns angle in radians
+   */
+  private angle(from: number, to: number): number {
+    const fromPoint = this._vertices[from];
+    const toPoint = this._vertices[to];
+    return Math.atan2(toPoint.y - fromPoint.y, toPoint.x - fromPoint.x);
+  }
+
+  /**
+   * Get the vertex indices of an event segment
+   * @param event segment event
+   * @returns start and end vertex indices
+   */
+  private getSegment(event: Event): [number, number] {
+    const ring = this._rings[event.ring];
+    return [ring[event.edge], ring[(event.edge + 1) % ring.length]];
+  }
+
+  /**
+   * Add a vertex, merging it with an existing vertex within the tolerance
+   * @param point point
+   * @returns vertex index
+   */
+  private addVertex(point: Point): number {
+    const cellSize = this._epsilon > 0 ? this._epsilon : 1;
+    const cellX = Math.floor(point.x / cellSize);
+    const cellY = Math.floor(point.y / cellSize);
+    for (let x = cellX - 1; x <= cellX + 1; x++) {
+      for (let y = cellY - 1; y <= cellY + 1; y++) {
+        for (const index of this._cells.get(`${x},${y}`) ?? []) {
+          if (
+            SegmentUtils.distance(point, this._vertices[index]) <=
+              this._epsilon
+          ) {
+            return index;
+          }
+        }
+      }
+    }
+    const index = this._vertices.length;
+    this._vertices.push(Point.createFromXY(point.x, point.y));
+    const key = `${cellX},${cellY}`;
+    const cell = this._cells.get(key);
+    if (cell === undefined) {
+      this._cells.set(key, [index]);
+    } else {
+      cell.push(index);
+    }
+    return index;
+  }
+}
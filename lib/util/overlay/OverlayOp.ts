@@ -0,0 +1,270 @@
+import type { Geometry, LineString, Point } from "../../internal.ts";
+import {
+  GeometryCollection,
+  GeometryComponents,
+  GeometryConstants,
+  GeometryTypeUtils,
+  MultiLineString,
+  MultiPoint,
+  MultiPolygon,
+  OverlayGraph,
+  OverlayType,
+  PointLocator,
+  Polygon,
+  SFException,
+} from "../../internal.ts";
+
+/**
+ * Boolean overlay operations of polygonal geometries. The rings of both
+ * geometries are noded into a planar graph, each edge is labeled by the
+ * geometry interiors on either side and the result polygons are traced from
+ * the edges bounding the result area. Results are 2D, with counter clockwise
+ * exterior rings and clockwise interior rings. Intersections may also
+ * contain the lines and points where the geometries only touch. Results
+ * collapse to the simplest geometry type holding all result components.
+ */
+export class OverlayOp {
+  /**
+   * Get the intersection of two polygonal geometries
+   * @param geometryA geometry A
+   * @param geometryB geometry B
+   * @param epsilon distance tolerance
+   * @returns intersection
+   */
+  public static intersection(
+    geometryA: Geometry,
+    geometryB: Geometry,
+    epsilon?: number,
+  ): Geometry {
+    return OverlayOp.overlay(
+      geometryA,
+      geometryB,
+      OverlayType.Intersection,
+      epsilon,
+    );
+  }
+
+  /**
+   * Get the union of two polygonal geometries
+   * @param geometryA geometry A
+   * @param geometryB geometry B
+   * @param epsilon distance tolerance
+   * @returns union
+   */
+  public static union(
+    geometryA: Geometry,
+    geometryB: Geometry,
+    epsilon?: number,
+  ): Geometry {
+    return OverlayOp.overlay(geometryA, geometryB, OverlayType.Union, epsilon);
+  }
+
+  /**
+   * Get the difference of two polygonal geometries
+   * @param geometryA geometry A
+   * @param geometryB geometry B subtracted from geometry A
+   * @param epsilon distance tolerance
+   * @returns difference
+   */
+  public static difference(
+    geometryA: Geometry,
+    geometryB: Geometry,
+    epsilon?: number,
+  ): Geometry {
+    return OverlayOp.overlay(
+      geometryA,
+      geometryB,
+      OverlayType.Difference,
+      epsilon,
+    );
+  }
+
+  /**
+   * Get the symmetric difference of two polygonal geometries
+   * @param geometryA geometry A
+   * @param geometryB geometry B
+   * @param epsilon distance tolerance
+   * @returns symmetric difference
+   */
+  public static symDifference(
+    geometryA: Geometry,
+    geometryB: Geometry,
+    epsilon?: number,
+  ): Geometry {
+    return OverlayOp.overlay(
+      geometryA,
+      geometryB,
+      OverlayType.SymDifference,
+      epsilon,
+    );
+  }
+
+  /**
+   * Overlay two polygonal geometries
+   * @param geometryA geometry A
+   * @param geometryB geometry B
+   * @param overlayType overlay type
+   * @param epsilon distance tolerance
+   * @returns overlay result
+   */
+  public static overlay(
+    geometryA: Geometry,
+    geometryB: Geometry,
+    overlayType: OverlayType,
+    epsilon: number = GeometryConstants.DEFAULT_EQUAL_EPSILON,
+  ): Geometry {
+    const componentsA = OverlayOp.getComponents(geometryA);
+    const componentsB = OverlayOp.getComponents(geometryB);
+
+    const graph = new OverlayGraph(epsilon);
+    for (const polygon of [...componentsA.polygons, ...componentsB.polygons]) {
+      for (const ring of polygon) {
+        graph.addRing(ring);
+      }
+    }
+    graph.node();
+
+    const locatorA = new PointLocator(componentsA, epsilon);
+    const locatorB = new PointLocator(componentsB, epsilon);
+    const resultEdges: [number, number][] = [];
+    const lineEdges: [number, number][] = [];
+    const verticesA = new Set<number>();
+    const verticesB = new Set<number>();
+    const resultVertices = new Set<number>();
+    for (const edge of graph.edges) {
+      const [leftA, rightA] = graph.isInteriorOnSides(
+        edge,
+        (point) => locatorA.locateArea(point),
+      );
+      const [leftB, rightB] = graph.isInteriorOnSides(
+        edge,
+        (point) => locatorB.locateArea(point),
+      );
+      const left = OverlayOp.isInResult(overlayType, leftA, leftB);
+      const right = OverlayOp.isInResult(overlayType, rightA, rightB);
+      if (left !== right) {
+        resultEdges.push(left ? edge : [edge[1], edge[0]]);
+        edge.forEach((vertex) => resultVertices.add(vertex));
+      } else if (
+        overlayType === OverlayType.Intersection && !left &&
+        (leftA || rightA) && (leftB || rightB)
+      ) {
+        lineEdges.push(edge);
+        edge.forEach((vertex) => resultVertices.add(vertex));
+      }
+      if (leftA || rightA) {
+        edge.forEach((vertex) => verticesA.add(vertex));
+      }
+      if (leftB || rightB) {
+        edge.forEach((vertex) => verticesB.add(vertex));
+      }
+    }
+
+    const points: Point[] = [];
+    if (overlayType === OverlayType.Intersection) {
+      for (const vertex of verticesA) {
+        if (verticesB.has(vertex) && !resultVertices.has(vertex)) {
+          points.push(graph.vertices[vertex].copy());
+        }
+      }
+    }
+
+    const result = OverlayOp.createResult(
+      graph.buildPolygons(resultEdges),
+      graph.buildLines(lineEdges),
+      points,
+    );
+    result.srid = geometryA.srid;
+    return result;
+  }
+
+  /**
+   * Get the components of a polygonal geometry
+   * @param geometry polygonal geometry
+   * @returns geometry components
+   */
+  private static getComponents(geometry: Geometry): GeometryComponents {
+    const components = new GeometryComponents(geometry);
+    if (components.points.length > 0 || components.lines.length > 0) {
+      throw new SFException(
+        "Overlay requires polygonal geometries, found " +
+          GeometryTypeUtils.nameFromType(geometry.geometryType),
+      );
+    }
+    return components;
+  }
+
+  /**
+   * Determine if an area is in the overlay result
+   * @param overlayType overlay type
+   * @param inA true if in the interior of geometry A
+   * @param inB true if in the interior of geometry B
+   * @returns true if in the result
+   */
+  private static isInResult(
+    overlayType: OverlayType,
+    inA: boolean,
+    inB: boolean,
+  ): boolean {
+    let inResult: boolean;
+    switch (overlayType) {
+      case OverlayType.Intersection: {
+        inResult = inA && inB;
+        break;
+      }
+      case OverlayType.Union: {
+        inResult = inA || inB;
+        break;
+      }
+      case OverlayType.Difference: {
+        inResult = inA && !inB;
+        break;
+      }
+      case OverlayType.SymDifference: {
+        inResult = inA !== inB;
+        break;
+      }
+      default:
+        throw new SFException(`Unsupported Overlay Type: ${overlayType}`);
+    }
+    return inResult;
+  }
+
+  /**
+   * Create the result geometry of the simplest type holding the components
+   * @param polygons result polygons
+   * @param lines result lines
+   * @param points result points
+   * @returns result geometry, an empty polygon when there are no components
+   */
+  public static createResult(
+    polygons: Polygon[],
+    lines: LineString[],
+    points: Point[],
+  ): Geometry {
+    let result: Geometry;
+    const count = polygons.length + lines.length + points.length;
+    if (count === 0) {
+      result = Polygon.create();
+    } else if (polygons.length === count) {
+      result = polygons.length === 1
+        ? polygons[0]
+        : MultiPolygon.createFromPolygons(polygons);
+    } else if (lines.length === count) {
+      result = lines.length === 1
+        ? lines[0]
+        : MultiLineString.createFromLineStrings(lines);
+    } else if (points.length === count) {
+      result = points.length === 1
+        ? points[0]
+        : MultiPoint.createFromPoints(points);
+    } else {
+      result = GeometryCollection.createFromGeometries([
+        ...polygons,
+        ...lines,
+        ...points,
+      ]);
+    }
+    return result;
+  }
+}
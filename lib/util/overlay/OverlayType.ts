@@ -0,0 +1,24 @@
+/**
+ * Boolean overlay operation type
+ */
+export enum OverlayType {
+  /**
+   * Points in both geometries
+   */
+  Intersection = 0,
+
+  /**
+   * Points in either geometry
+   */
+  Union = 1,
+
+  /**
+   * Points in the first geometry and not the second
+   */
+  Difference = 2,
+
+  /**
+   * Points in exactly one of the geometries
+   */
+  SymDifference = 3,
+}
@@ -0,0 +1,24 @@
+/**
+ * Topological dimension of a DE-9IM intersection matrix entry
+ */
+export enum Dimension {
+  /**
+   * Empty intersection
+   */
+  False = -1,
+
+  /**
+   * Point intersection
+   */
+  Point = 0,
+
+  /**
+   * Curve intersection
+   */
+  Curve = 1,
+
+  /**
+   * Surface intersection
+   */
+  Surface = 2,
+}
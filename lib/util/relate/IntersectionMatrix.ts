@@ -0,0 +1,261 @@
+import type { Location } from "../../internal.ts";
+import { Dimension, SFException } from "../../internal.ts";
+
+/**
+ * Dimensionally Extended Nine-Intersection Model (DE-9IM) matrix. Rows are
+ * the interior, boundary and exterior of geometry A and columns the interior,
+ * boundary and exterior of geometry B.
+ */
+export class IntersectionMatrix {
+  /**
+   * Matrix dimensions, row major
+   */
+  private readonly _matrix: Dimension[] = new Array(9).fill(Dimension.False);
+
+  /**
+   * Constructor
+   * @param elements optional nine character matrix string of 'F', '0', '1'
+   *        and '2' values
+   */
+  public constructor(elements?: string) {
+    if (elements !== undefined) {
+      if (elements.length !== 9) {
+        throw new SFException(
+          `Intersection matrix must have 9 elements: ${elements}`,
+        );
+      }
+      for (let i = 0; i < 9; i++) {
+        const element = elements.charAt(i).toUpperCase();
+        if (element === "F") {
+          this._matrix[i] = Dimension.False;
+        } else if (element >= "0" && element <= "2") {
+          this._matrix[i] = Number(element);
+        } else {
+          throw new SFException(
+            `Invalid intersection matrix element '${element}': ${elements}`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the dimension of an intersection
+   * @param locationA location in geometry A
+   * @param locationB location in geometry B
+   * @returns dimension
+   */
+  public get(locationA: Location, locationB: Location): Dimension {
+    return this._matrix[locationA * 3 + locationB];
+  }
+
+  /**
+   * Set the dimension of an intersection
+   * @param locationA location in geometry A
+   * @param locationB location in geometry B
+   * @param dimension dimension
+   */
+  public set(
+    locationA: Location,
+    locationB: Location,
+    dimension: Dimension,
+  ): void {
+    this._matrix[locationA * 3 + locationB] = dimension;
+  }
+
+  /**
+   * Set the dimension of an intersection when larger than the current
+   * dimension
+   * @param locationA location in geometry A
+   * @param locationB location in geometry B
+   * @param dimension minimum dimension
+   */
+  public setAtLeast(
+    locationA: Location,
+    locationB: Location,
+    dimension: Dimension,
+  ): void {
+    if (this.get(locationA, locationB) < dimension) {
+      this.set(locationA, locationB, dimension);
+    }
+  }
+
+  /**
+   * Determine if the matrix matches a nine character pattern. Pattern
+   * characters are 'T' (non empty), 'F' (empty), '*' (any), '0', '1' and '2'.
+   * @param pattern pattern
+   * @returns true if matches
+   */
+  public matches(pattern: string): boolean {
+    if (pattern.length !== 9) {
+      throw new SFException(
+        `Intersection matrix pattern must have 9 elements: ${pattern}`,
+      );
+    }
+    for (let i = 0; i < 9; i++) {
+      if (
+        !IntersectionMatrix.matchesElement(
+          this._matrix[i],
+          pattern.charAt(i).toUpperCase(),
+        )
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Determine if the geometries are disjoint
+   * @returns true if disjoint
+   */
+  public isDisjoint(): boolean {
+    return this.matches("FF*FF****");
+  }
+
+  /**
+   * Determine if the geometries intersect
+   * @returns true if intersects
+   */
+  public isIntersects(): boolean {
+    return !this.isDisjoint();
+  }
+
+  /**
+   * Determine if geometry A contains geometry B
+   * @returns true if contains
+   */
+  public isContains(): boolean {
+    return this.matches("T*****FF*");
+  }
+
+  /**
+   * Determine if geometry A is within geometry B
+   * @returns true if within
+   */
+  public isWithin(): boolean {
+    return this.matches("T*F**F***");
+  }
+
+  /**
+   * Determine if geometry A covers geometry B
+   * @returns true if covers
+   */
+  public isCovers(): boolean {
+    return this.matches("T*****FF*") || this.matches("*T****FF*") ||
+      this.matches("***T**FF*") || this.matches("****T*FF*");
+  }
+
+  /**
+   * Determine if geometry A is covered by geometry B
+   * @returns true if covered by
+   */
+  public isCoveredBy(): boolean {
+    return this.matches("T*F**F***") || this.matches("*TF**F***") ||
+      this.matches("**FT*F***") || this.matches("**F*TF***");
+  }
+
+  /**
+   * Determine if the geometries touch
+   * @param dimensionA dimension of geometry A
+   * @param dimensionB dimension of geometry B
+   * @returns true if touches
+   */
+  public isTouches(dimensionA: number, dimensionB: number): boolean {
+    return !(dimensionA === 0 && dimensionB === 0) &&
+      (this.matches("FT*******") || this.matches("F**T*****") ||
+        this.matches("F***T****"));
+  }
+
+  /**
+   * Determine if the geometries cross
+   * @param dimensionA dimension of geometry A
+   * @param dimensionB dimension of geometry B
+   * @returns true if crosses
+   */
+  public isCrosses(dimensionA: number, dimensionB: number): boolean {
+    let crosses = false;
+    if (dimensionA === 1 && dimensionB === 1) {
+      crosses = this.matches("0********");
+    } else if (dimensionA < dimensionB) {
+      crosses = this.matches("T*T******");
+    } else if (dimensionA > dimensionB) {
+      crosses = this.matches("T*****T**");
+    }
+    return crosses;
+  }
+
+  /**
+   * Determine if the geometries overlap
+   * @param dimensionA dimension of geometry A
+   * @param dimensionB dimension of geometry B
+   * @returns true if overlaps
+   */
+  public isOverlaps(dimensionA: number, dimensionB: number): boolean {
+    let overlaps = false;
+    if (dimensionA === dimensionB) {
+      overlaps = dimensionA === 1
+        ? this.matches("1*T***T**")
+        : this.matches("T*T***T**");
+    }
+    return overlaps;
+  }
+
+  /**
+   * Determine if the geometries are topologically equal
+   * @param dimensionA dimension of geometry A
+   * @param dimensionB dimension of geometry B
+   * @returns true if equal
+   */
+  public isEquals(dimensionA: number, dimensionB: number): boolean {
+    return dimensionA === dimensionB && this.matches("T*F**FFF*");
+  }
+
+  /**
+   * Get the nine character matrix string
+   * @returns matrix string, such as "212101212"
+   */
+  public toString(): string {
+    return this._matrix.map((dimension) =>
+      dimension === Dimension.False ? "F" : String(dimension)
+    ).join("");
+  }
+
+  /**
+   * Determine if a dimension matches a pattern character
+   * @param dimension dimension
+   * @param element pattern character
+   * @returns true if matches
+   */
+  private static matchesElement(
+    dimension: Dimension,
+    element: string,
+  ): boolean {
+    let matches: boolean;
+    switch (element) {
+      case "*": {
+        matches = true;
+        break;
+      }
+      case "T": {
+        matches = dimension !== Dimension.False;
+        break;
+      }
+      case "F": {
+        matches = dimension === Dimension.False;
+        break;
+      }
+      case "0":
+      case "1":
+      case "2": {
+        matches = dimension === Number(element);
+        break;
+      }
+      default:
+        throw new SFException(
+          `Invalid intersection matrix pattern element '${element}'`,
+        );
+    }
+    return matches;
+  }
+}
@@ -0,0 +1,240 @@
+import type { Geometry } from "../../internal.ts";
+import {
+  Dimension,
+  GeometryComponents,
+  GeometryConstants,
+  IntersectionMatrix,
+  Location,
+  Point,
+  PointLocator,
+  SegmentUtils,
+} from "../../internal.ts";
+
+/**
+ * Segment of a geometry line or polygon ring
+ */
+interface RelateEdge {
+  /**
+   * Start point
+   */
+  start: Point;
+
+  /**
+   * End point
+   */
+  end: Point;
+
+  /**
+   * True if a polygon ring segment
+   */
+  ring: boolean;
+
+  /**
+   * Intersection nodes with the other geometry
+   */
+  nodes: Point[];
+}
+
+/**
+ * Computes the Dimensionally Extended Nine-Intersection Model (DE-9IM)
+ * matrix of two geometries. The segments of each geometry are noded at their
+ * intersections with the other geometry and at its isolated points, then
+ * every vertex, node and noded segment midpoint is located in both
+ * geometries. Surface intersections are determined by sampling both sides of
+ * each noded polygon ring segment. Curves are linearized and coordinates
+ * within the distance tolerance are considered equal.
+ */
+export class RelateOp {
+  /**
+   * Compute the intersection matrix of two geometries
+   * @param geometryA geometry A
+   * @param geometryB geometry B
+   * @param epsilon distance tolerance
+   * @returns intersection matrix
+   */
+  public static relate(
+    geometryA: Geometry,
+    geometryB: Geometry,
+    epsilon: number = GeometryConstants.DEFAULT_EQUAL_EPSILON,
+  ): IntersectionMatrix {
+    const componentsA = new GeometryComponents(geometryA);
+    const componentsB = new GeometryComponents(geometryB);
+    const locatorA = new PointLocator(componentsA, epsilon);
+    const locatorB = new PointLocator(componentsB, epsilon);
+
+    const matrix = new IntersectionMatrix();
+    matrix.set(Location.Exterior, Location.Exterior, Dimension.Surface);
+
+    const edgesA = RelateOp.createEdges(componentsA);
+    const edgesB = RelateOp.createEdges(componentsB);
+    const vertices: Point[] = [...componentsA.points, ...componentsB.points];
+    for (const edge of [...edgesA, ...edgesB]) {
+      vertices.push(edge.start, edge.end);
+    }
+
+    for (const edgeA of edgesA) {
+      for (const edgeB of edgesB) {
+        const intersections = SegmentUtils.intersection(
+          edgeA.start,
+          edgeA.end,
+          edgeB.start,
+          edgeB.end,
+          epsilon,
+        );
+        for (const intersection of intersections) {
+          edgeA.nodes.push(intersection);
+          edgeB.nodes.push(intersection);
+          vertices.push(intersection);
+        }
+      }
+    }
+
+    RelateOp.nodePoints(edgesA, componentsB.points, epsilon);
+    RelateOp.nodePoints(edgesB, componentsA.points, epsilon);
+
+    for (const vertex of vertices) {
+      matrix.setAtLeast(
+        locatorA.locate(vertex),
+        locatorB.locate(vertex),
+        Dimension.Point,
+      );
+    }
+
+    for (const edge of [...edgesA, ...edgesB]) {
+      const points = RelateOp.nodeEdge(edge, epsilon);
+      for (let i = 1; i < points.length; i++) {
+        RelateOp.relateSegment(
+          points[i - 1],
+          points[i],
+          edge.ring,
+          locatorA,
+          locatorB,
+          matrix,
+          epsilon,
+        );
+      }
+    }
+
+    return matrix;
+  }
+
+  /**
+   * Create the edges of the geometry components
+   * @param components geometry components
+   * @returns edges
+   */
+  private static createEdges(components: GeometryComponents): RelateEdge[] {
+    const edges: RelateEdge[] = [];
+    const addEdges = (points: Point[], ring: boolean) => {
+      for (let i = 1; i < points.length; i++) {
+        edges.push({ start: points[i - 1], end: points[i], ring, nodes: [] });
+      }
+    };
+    for (const line of components.lines) {
+      addEdges(line, false);
+    }
+    for (const polygon of components.polygons) {
+      for (const ring of polygon) {
+        addEdges(ring, true);
+      }
+    }
+    return edges;
+  }
+
+  /**
+   * Node edges at the isolated points of the other geometry
+   * @param edges edges
+   * @param points other geometry points
+   * @param epsilon distance tolerance
+   */
+  private static nodePoints(
+    edges: RelateEdge[],
+    points: Point[],
+    epsilon: number,
+  ): void {
+    for (const edge of edges) {
+      for (const point of points) {
+        if (SegmentUtils.pointOnSegment(point, edge.start, edge.end, epsilon)) {
+          edge.nodes.push(point);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the edge points in order along the edge, including the distinct
+   * intersection nodes
+   * @param edge edge
+   * @param epsilon distance tolerance
+   * @returns edge points
+   */
+  private static nodeEdge(edge: RelateEdge, epsilon: number): Point[] {
+    const nodes = edge.nodes.filter((node) =>
+      SegmentUtils.distance(node, edge.start) > epsilon &&
+      SegmentUtils.distance(node, edge.end) > epsilon
+    ).map((node): [Point, number] => [
+      node,
+      SegmentUtils.projectionFactor(node, edge.start, edge.end),
+    ]).sort((node1, node2) => node1[1] - node2[1]);
+
+    const points: Point[] = [edge.start];
+    for (const [node] of nodes) {
+      if (SegmentUtils.distance(node, points[points.length - 1]) > epsilon) {
+        points.push(node);
+      }
+    }
+    points.push(edge.end);
+    return points;
+  }
+
+  /**
+   * Relate a noded segment, locating the segment interior and for polygon
+   * rings the surfaces on both sides of the segment
+   * @param start segment start point
+   * @param end segment end point
+   * @param ring true if a polygon ring segment
+   * @param locatorA geometry A locator
+   * @param locatorB geometry B locator
+   * @param matrix intersection matrix
+   * @param epsilon distance tolerance
+   */
+  private static relateSegment(
+    start: Point,
+    end: Point,
+    ring: boolean,
+    locatorA: PointLocator,
+    locatorB: PointLocator,
+    matrix: IntersectionMatrix,
+    epsilon: number,
+  ): void {
+    const midpoint = SegmentUtils.interpolate(start, end, 0.5);
+    matrix.setAtLeast(
+      locatorA.locate(midpoint),
+      locatorB.locate(midpoint),
+      Dimension.Curve,
+    );
+
+    if (ring) {
+      const length = SegmentUtils.distance(start, end);
+      const offset = Math.min(
+        length / 4,
+        Math.max(4 * epsilon, length * 1e-6),
+      );
+      const dx = (end.y - start.y) / length * offset;
+      const dy = (start.x - end.x) / length * offset;
+      for (const side of [-1, 1]) {
+        const sample = Point.createFromXY(
+          midpoint.x + side * dx,
+          midpoint.y + side * dy,
+        );
+        const locationA = locatorA.locateArea(sample);
+        const locationB = locatorB.locateArea(sample);
+        if (
+          locationA !== Location.Boundary && locationB !== Location.Boundary
+        ) {
+          matrix.setAtLeast(locationA, locationB, Dimension.Surface);
+        }
+      }
+    }
+  }
+}
@@ -50,6 +50,10 @@ export interface SerializedPoint {
    * Has M
    */
   _hasM: boolean;
+  /**
+   * Spatial reference system identifier
+   */
+  _srid?: number;
 }
 
 /**
@@ -72,6 +76,10 @@ export interface SerializedLineString {
    * Has M
    */
   _hasM: boolean;
+  /**
+   * Spatial reference system identifier
+   */
+  _srid?: number;
 }
 
 /**
@@ -94,6 +102,10 @@ export interface SerializedPolygon {
    * Has M
    */
   _hasM: boolean;
+  /**
+   * Spatial reference system identifier
+   */
+  _srid?: number;
 }
 
 /**
@@ -116,6 +128,10 @@ export interface SerializedMultiPoint {
    * Has M
    */
   _hasM: boolean;
+  /**
+   * Spatial reference system identifier
+   */
+  _srid?: number;
 }
 
 /**
@@ -138,6 +154,10 @@ export interface SerializedMultiLineString {
    * Has M
    */
   _hasM: boolean;
+  /**
+   * Spatial reference system identifier
+   */
+  _srid?: number;
 }
 
 /**
@@ -160,6 +180,10 @@ export interface SerializedMultiPolygon {
    * Has M
    */
   _hasM: boolean;
+  /**
+   * Spatial reference system identifier
+   */
+  _srid?: number;
 }
 
 /**
@@ -182,6 +206,10 @@ export interface SerializedGeometryCollection {
    * Has M
    */
   _hasM: boolean;
+  /**
+   * Spatial reference system identifier
+   */
+  _srid?: number;
 }
 
 /**
@@ -204,6 +232,10 @@ export interface SerializedCircularString {
    * Has M
    */
   _hasM: boolean;
+  /**
+   * Spatial reference system identifier
+   */
+  _srid?: number;
 }
 
 /**
@@ -226,6 +258,10 @@ export interface SerializedCompoundCurve {
    * Has M
    */
   _hasM: boolean;
+  /**
+   * Spatial reference system identifier
+   */
+  _srid?: number;
 }
 
 /**
@@ -248,6 +284,10 @@ export interface SerializedCurvePolygon {
    * Has M
    */
   _hasM: boolean;
+  /**
+   * Spatial reference system identifier
+   */
+  _srid?: number;
 }
 
 /**
@@ -270,6 +310,10 @@ export interface SerializedPolyhedralSurface {
    * Has M
    */
   _hasM: boolean;
+  /**
+   * Spatial reference system identifier
+   */
+  _srid?: number;
 }
 
 /**
@@ -292,6 +336,10 @@ export interface SerializedTIN {
    * Has M
    */
   _hasM: boolean;
+  /**
+   * Spatial reference system identifier
+   */
+  _srid?: number;
 }
 
 /**
@@ -314,6 +362,10 @@ export interface SerializedTriangle {
    * Has M
    */
   _hasM: boolean;
+  /**
+   * Spatial reference system identifier
+   */
+  _srid?: number;
 }
 
 /**
@@ -501,6 +553,7 @@ export class GeometrySerializer {
       default:
         throw new SFException(`Geometry Type not supported: ${geometryType}`);
     }
+    geometry.srid = obj._srid;
     return geometry;
   }
 
@@ -26,12 +26,17 @@ export class EventQueue implements Iterable<Event> {
   /**
    * Create an event queue from line strings
    * @param rings line strings
+   * @param closed true to include the edge from the last point back to the
+   *        first point of each line string
    * @returns event queue
    */
-  public static createFromLineStrings(rings: LineString[]): EventQueue {
+  public static createFromLineStrings(
+    rings: LineString[],
+    closed = true,
+  ): EventQueue {
     const eventQueue = new EventQueue();
     for (let i = 0; i < rings.length; i++) {
-      eventQueue.addRing(rings[i], i);
+      eventQueue.addRing(rings[i], i, closed);
     }
     eventQueue.sort();
     return eventQueue;
@@ -41,11 +46,14 @@ export class EventQueue implements Iterable<Event> {
    * Add a ring to the event queue
    * @param ring polygon ring
    * @param ringIndex ring index
+   * @param closed true to include the edge from the last point back to the
+   *        first point
    */
-  private addRing(ring: LineString, ringIndex: number): void {
+  private addRing(ring: LineString, ringIndex: number, closed = true): void {
     const points: Point[] = ring.points;
+    const edges = closed ? points.length : points.length - 1;
 
-    for (let i = 0; i < points.length; i++) {
+    for (let i = 0; i < edges; i++) {
       const point1 = points[i];
       const point2 = points[(i + 1) % points.length];
 
@@ -18,6 +18,35 @@ export class ExtendedRedBlackTree<T> extends RedBlackTree<T> {
     return null;
   }
 
+  /**
+   * Find the node matching a search, or the last node visited when none
+   * matches, which holds the nearest value before or after the searched one
+   * @param search order of the searched value relative to a node value
+   * @returns matching or nearest node
+   */
+  findNearestNode(
+    search: (value: T) => number,
+  ): ReturnType<typeof this.findNode> | null {
+    let nearest = null;
+    let node = this.root;
+    while (node) {
+      nearest = node;
+      const order = search(node.value);
+      if (order === 0) return node;
+      node = order < 0 ? node.left : node.right;
+    }
+    return nearest;
+  }
+
+  /**
+   * Get the node with the minimum value
+   * @returns minimum node
+   */
+  getMinimum(): ReturnType<typeof this.findNode> | null {
+    if (!this.root) return null;
+    return this.root.findMinNode() as ReturnType<typeof this.findNode>;
+  }
+
   /**
    * Get the parent node
    * @param node node
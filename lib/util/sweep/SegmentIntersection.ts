@@ -0,0 +1,118 @@
+import type { Point, SegmentIntersectionType } from "../../internal.ts";
+
+/**
+ * Intersection between two line string segments, identified by their line
+ * string and edge numbers
+ */
+export class SegmentIntersection {
+  /**
+   * Intersection type
+   */
+  private readonly _type: SegmentIntersectionType;
+
+  /**
+   * Intersection points
+   */
+  private readonly _points: Point[];
+
+  /**
+   * First line string number
+   */
+  private readonly _ring1: number;
+
+  /**
+   * First edge number
+   */
+  private readonly _edge1: number;
+
+  /**
+   * Second line string number
+   */
+  private readonly _ring2: number;
+
+  /**
+   * Second edge number
+   */
+  private readonly _edge2: number;
+
+  /**
+   * Constructor
+   * @param type intersection type
+   * @param points intersection point, or both overlap end points
+   * @param ring1 first line string number
+   * @param edge1 first edge number
+   * @param ring2 second line string number
+   * @param edge2 second edge number
+   */
+  public constructor(
+    type: SegmentIntersectionType,
+    points: Point[],
+    ring1: number,
+    edge1: number,
+    ring2: number,
+    edge2: number,
+  ) {
+    this._type = type;
+    this._points = points;
+    this._ring1 = ring1;
+    this._edge1 = edge1;
+    this._ring2 = ring2;
+    this._edge2 = edge2;
+  }
+
+  /**
+   * Get the intersection type
+   * @returns intersection type
+   */
+  public get type(): SegmentIntersectionType {
+    return this._type;
+  }
+
+  /**
+   * Get the intersection points
+   * @returns intersection point, or both overlap end points
+   */
+  public get points(): Point[] {
+    return this._points;
+  }
+
+  /**
+   * Get the first intersection point
+   * @returns point
+   */
+  public get point(): Point {
+    return this._points[0];
+  }
+
+  /**
+   * Get the first line string or ring number
+   * @returns line string number
+   */
+  public get ring1(): number {
+    return this._ring1;
+  }
+
+  /**
+   * Get the first edge number, starting at the edge point number
+   * @returns edge number
+   */
+  public get edge1(): number {
+    return this._edge1;
+  }
+
+  /**
+   * Get the second line string or ring number
+   * @returns line string number
+   */
+  public get ring2(): number {
+    return this._ring2;
+  }
+
+  /**
+   * Get the second edge number, starting at the edge point number
+   * @returns edge number
+   */
+  public get edge2(): number {
+    return this._edge2;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Segment intersection type
+ */
+export enum SegmentIntersectionType {
+  /**
+   * Segments crossing at a point interior to both
+   */
+  Crossing = 0,
+
+  /**
+   * Segments touching at an end point of at least one segment
+   */
+  Touch = 1,
+
+  /**
+   * Collinear segments overlapping along a shared part
+   */
+  Overlap = 2,
+}
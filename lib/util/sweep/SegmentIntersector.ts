@@ -0,0 +1,454 @@
+import type { LineString, Point, Polygon } from "../../internal.ts";
+import {
+  EventQueue,
+  EventType,
+  GeometryEnvelope,
+  RTree,
+  Segment,
+  SegmentIntersection,
+  SegmentIntersectionType,
+  SegmentUtils,
+  SweepLine,
+} from "../../internal.ts";
+import { ExtendedRedBlackTree } from "./ExtendedRedBlackTree.ts";
+
+/**
+ * Intersection event of segments crossing at a point ahead of the sweep line
+ */
+interface CrossingEvent {
+  /**
+   * Crossing point
+   */
+  point: Point;
+
+  /**
+   * Segments through the point
+   */
+  segments: Segment[];
+}
+
+/**
+ * Bentley-Ottmann sweep line reporting every intersection among the segments
+ * of line strings and rings. End point and intersection events are swept in
+ * xy order over a y ordered sweep line. At each event the segments through
+ * the event point are intersected with each other, reporting crossings,
+ * touches and collinear overlaps, and are reordered past the point. Only
+ * segments becoming neighbors on the sweep line are intersected to schedule
+ * intersection events, so the sweep takes O((n + k) log n) time for n
+ * segments and k intersections. With a distance tolerance, segments within it
+ * of an event point are also intersected, found with an R-tree of the
+ * segments. Consecutive segments of a line string only
+ * report an overlap, not their shared point, where closed line strings also
+ * join their last and first segments. Zero length segments are skipped.
+ */
+export class SegmentIntersector {
+  /**
+   * Get the intersections among the segments of line strings
+   * @param lineStrings line strings or rings
+   * @param epsilon distance tolerance
+   * @returns intersections in sweep order
+   */
+  public static intersections(
+    lineStrings: LineString[],
+    epsilon = 0,
+  ): SegmentIntersection[] {
+    const positions = lineStrings.map((lineString) =>
+      SegmentIntersector.getPositions(lineString.points)
+    );
+    const events = [...EventQueue.createFromLineStrings(lineStrings, false)];
+    const segments = lineStrings.map((lineString, ring) =>
+      SegmentIntersector.createSegments(lineString.points, ring)
+    );
+    const nearby = epsilon > 0
+      ? SegmentIntersector.createIndex(segments)
+      : undefined;
+    const crossings = new ExtendedRedBlackTree<CrossingEvent>((
+      crossing1,
+      crossing2,
+    ) => SweepLine.xyOrder(crossing1.point, crossing2.point));
+    const sweepLine = new SweepLine(lineStrings);
+    const intersected = new Set<string>();
+    const intersections: SegmentIntersection[] = [];
+
+    let index = 0;
+    while (index < events.length || crossings.size > 0) {
+      const crossing = crossings.getMinimum()?.value;
+      const point = index < events.length &&
+          (crossing === undefined ||
+            SweepLine.xyOrder(events[index].point, crossing.point) <= 0)
+        ? events[index].point
+        : (crossing as CrossingEvent).point;
+
+      const through = new Set<Segment>();
+      if (
+        crossing !== undefined &&
+        SweepLine.xyOrder(crossing.point, point) === 0
+      ) {
+        crossings.remove(crossing);
+        crossing.segments.forEach((segment) => through.add(segment));
+      }
+      const starting: Segment[] = [];
+      for (
+        ;
+        index < events.length &&
+        SweepLine.xyOrder(events[index].point, point) === 0;
+        index++
+      ) {
+        const event = events[index];
+        const segment = segments[event.ring][event.edge];
+        if (segment === undefined) {
+          continue;
+        } else if (event.type === EventType.Left) {
+          starting.push(segment);
+        } else {
+          through.add(segment);
+        }
+      }
+
+      // Intersect the segments at the point, and those within the tolerance
+      // of it, and reorder the segments through the point
+      sweepLine.sweepTo(point, through);
+      sweepLine.findAt().segments.forEach((segment) => through.add(segment));
+      const near = new Set([...through, ...starting]);
+      if (nearby !== undefined) {
+        for (
+          const segment of nearby.query(
+            GeometryEnvelope.createFromMinMaxXY(
+              point.x - epsilon,
+              point.y - epsilon,
+              point.x + epsilon,
+              point.y + epsilon,
+            ),
+          )
+        ) {
+          near.add(segment);
+        }
+      }
+      const atPoint = [...near];
+      for (let i = 0; i < atPoint.length; i++) {
+        for (let j = i + 1; j < atPoint.length; j++) {
+          const intersection = SegmentIntersector.intersectOnce(
+            atPoint[i],
+            atPoint[j],
+            lineStrings,
+            positions,
+            intersected,
+            epsilon,
+          );
+          if (intersection !== undefined) {
+            intersections.push(intersection);
+          }
+        }
+      }
+
+      const passing = [...through, ...starting];
+      sweepLine.sweepTo(point, passing);
+      for (const segment of through) {
+        sweepLine.removeAt(segment);
+      }
+      for (const segment of passing) {
+        if (SweepLine.xyOrder(segment.rightPoint, point) > 0) {
+          sweepLine.insertAt(segment);
+        }
+      }
+
+      const { segments: continuing, below, above } = sweepLine.findAt();
+      if (continuing.length === 0) {
+        SegmentIntersector.schedule(below, above, point, crossings);
+      } else {
+        SegmentIntersector.schedule(below, continuing[0], point, crossings);
+        SegmentIntersector.schedule(
+          continuing[continuing.length - 1],
+          above,
+          point,
+          crossings,
+        );
+      }
+    }
+    return intersections;
+  }
+
+  /**
+   * Get the intersections among the segments of a line string
+   * @param lineString line string or ring
+   * @param epsilon distance tolerance
+   * @returns intersections in sweep order
+   */
+  public static intersectionsLineString(
+    lineString: LineString,
+    epsilon = 0,
+  ): SegmentIntersection[] {
+    return SegmentIntersector.intersections([lineString], epsilon);
+  }
+
+  /**
+   * Get the intersections among the segments of the polygon rings
+   * @param polygon polygon
+   * @param epsilon distance tolerance
+   * @returns intersections in sweep order, numbered by ring
+   */
+  public static intersectionsPolygon(
+    polygon: Polygon,
+    epsilon = 0,
+  ): SegmentIntersection[] {
+    return SegmentIntersector.intersections(polygon.rings, epsilon);
+  }
+
+  /**
+   * Create the segments of the line string edges
+   * @param points line string points
+   * @param ring line string number
+   * @returns segments by edge, undefined for zero length edges
+   */
+  private static createSegments(
+    points: Point[],
+    ring: number,
+  ): (Segment | undefined)[] {
+    const segments: (Segment | undefined)[] = [];
+    for (let edge = 0; edge < points.length - 1; edge++) {
+      const start = points[edge];
+      const end = points[edge + 1];
+      const order = SweepLine.xyOrder(start, end);
+      if (order < 0) {
+        segments.push(new Segment(edge, ring, start, end));
+      } else if (order > 0) {
+        segments.push(new Segment(edge, ring, end, start));
+      } else {
+        segments.push(undefined);
+      }
+    }
+    return segments;
+  }
+
+  /**
+   * Create a spatial index of the segments, for finding the segments within
+   * the tolerance of a point
+   * @param segments segments by line string and edge
+   * @returns segment index
+   */
+  private static createIndex(
+    segments: (Segment | undefined)[][],
+  ): RTree<Segment> {
+    const entries = [];
+    for (const segment of segments.flat()) {
+      if (segment !== undefined) {
+        const left = segment.leftPoint;
+        const right = segment.rightPoint;
+        entries.push({
+          envelope: GeometryEnvelope.createFromMinMaxXY(
+            left.x,
+            Math.min(left.y, right.y),
+            right.x,
+            Math.max(left.y, right.y),
+          ),
+          item: segment,
+        });
+      }
+    }
+    return RTree.load(entries);
+  }
+
+  /**
+   * Schedule the next exact intersection event of neighboring segments after
+   * the sweep point
+   * @param segment1 lower segment
+   * @param segment2 upper segment
+   * @param point sweep point
+   * @param crossings intersection events
+   */
+  private static schedule(
+    segment1: Segment | undefined,
+    segment2: Segment | undefined,
+    point: Point,
+    crossings: ExtendedRedBlackTree<CrossingEvent>,
+  ): void {
+    if (segment1 === undefined || segment2 === undefined) {
+      return;
+    }
+    let next: Point | undefined;
+    for (
+      const intersection of SegmentUtils.intersection(
+        segment1.leftPoint,
+        segment1.rightPoint,
+        segment2.leftPoint,
+        segment2.rightPoint,
+        0,
+      )
+    ) {
+      if (
+        SweepLine.xyOrder(intersection, point) > 0 &&
+        (next === undefined || SweepLine.xyOrder(intersection, next) < 0)
+      ) {
+        next = intersection;
+      }
+    }
+    if (next !== undefined) {
+      const crossing = { point: next, segments: [segment1, segment2] };
+      const existing = crossings.find(crossing);
+      if (existing !== null) {
+        existing.segments.push(segment1, segment2);
+      } else {
+        crossings.insert(crossing);
+      }
+    }
+  }
+
+  /**
+   * Intersect two segments unless already intersected
+   * @param segment1 segment 1
+   * @param segment2 segment 2
+   * @param lineStrings line strings
+   * @param positions segment positions by line string and edge
+   * @param intersected keys of the intersected segment pairs
+   * @param epsilon distance tolerance
+   * @returns intersection or undefined when none is reported
+   */
+  private static intersectOnce(
+    segment1: Segment,
+    segment2: Segment,
+    lineStrings: LineString[],
+    positions: number[][],
+    intersected: Set<string>,
+    epsilon: number,
+  ): SegmentIntersection | undefined {
+    const key = segment1.ring < segment2.ring ||
+        (segment1.ring === segment2.ring && segment1.edge < segment2.edge)
+      ? `${segment1.ring},${segment1.edge},${segment2.ring},${segment2.edge}`
+      : `${segment2.ring},${segment2.edge},${segment1.ring},${segment1.edge}`;
+    if (intersected.has(key)) {
+      return undefined;
+    }
+    intersected.add(key);
+    return SegmentIntersector.intersect(
+      segment1,
+      segment2,
+      lineStrings,
+      positions,
+      epsilon,
+    );
+  }
+
+  /**
+   * Intersect two segments
+   * @param segment1 segment 1
+   * @param segment2 segment 2
+   * @param lineStrings line strings
+   * @param positions segment positions by line string and edge
+   * @param epsilon distance tolerance
+   * @returns intersection or undefined when none is reported
+   */
+  private static intersect(
+    segment1: Segment,
+    segment2: Segment,
+    lineStrings: LineString[],
+    positions: number[][],
+    epsilon: number,
+  ): SegmentIntersection | undefined {
+    if (
+      segment2.ring < segment1.ring ||
+      (segment2.ring === segment1.ring && segment2.edge < segment1.edge)
+    ) {
+      [segment1, segment2] = [segment2, segment1];
+    }
+    const points = SegmentUtils.intersection(
+      segment1.leftPoint,
+      segment1.rightPoint,
+      segment2.leftPoint,
+      segment2.rightPoint,
+      epsilon,
+    );
+    if (points.length === 0) {
+      return undefined;
+    }
+
+    let type: SegmentIntersectionType;
+    if (points.length > 1) {
+      type = SegmentIntersectionType.Overlap;
+    } else if (
+      [
+        segment1.leftPoint,
+        segment1.rightPoint,
+        segment2.leftPoint,
+        segment2.rightPoint,
+      ].some((point) => SegmentUtils.distance(point, points[0]) <= epsilon)
+    ) {
+      type = SegmentIntersectionType.Touch;
+    } else {
+      type = SegmentIntersectionType.Crossing;
+    }
+
+    if (
+      segment1.ring === segment2.ring &&
+      type !== SegmentIntersectionType.Overlap
+    ) {
+      const shared = SegmentIntersector.getSharedPoint(
+        lineStrings[segment1.ring].points,
+        positions[segment1.ring],
+        segment1.edge,
+        segment2.edge,
+      );
+      if (
+        shared !== undefined &&
+        SegmentUtils.distance(shared, points[0]) <= epsilon
+      ) {
+        return undefined;
+      }
+    }
+
+    return new SegmentIntersection(
+      type,
+      points,
+      segment1.ring,
+      segment1.edge,
+      segment2.ring,
+      segment2.edge,
+    );
+  }
+
+  /**
+   * Get the point shared by consecutive segments of a line string
+   * @param points line string points
+   * @param positions segment positions by edge
+   * @param edge1 first edge number
+   * @param edge2 second edge number, after the first
+   * @returns shared point or undefined when not consecutive
+   */
+  private static getSharedPoint(
+    points: Point[],
+    positions: number[],
+    edge1: number,
+    edge2: number,
+  ): Point | undefined {
+    let shared: Point | undefined;
+    const count = positions[positions.length - 1] + 1;
+    if (positions[edge2] - positions[edge1] === 1) {
+      shared = points[edge2];
+    } else if (
+      positions[edge1] === 0 && positions[edge2] === count - 1 &&
+      points[0].x === points[points.length - 1].x &&
+      points[0].y === points[points.length - 1].y
+    ) {
+      shared = points[0];
+    }
+    return shared;
+  }
+
+  /**
+   * Get the position of each edge among the non zero length segments
+   * @param points line string points
+   * @returns positions by edge, the previous position for zero length edges
+   */
+  private static getPositions(points: Point[]): number[] {
+    const positions: number[] = [];
+    let position = -1;
+    for (let i = 1; i < points.length; i++) {
+      if (
+        points[i - 1].x !== points[i].x || points[i - 1].y !== points[i].y
+      ) {
+        position++;
+      }
+      positions.push(position);
+    }
+    return positions;
+  }
+}
@@ -1,5 +1,5 @@
 import { ExtendedRedBlackTree } from "./ExtendedRedBlackTree.ts";
-import { Segment, SFException } from "../../internal.ts";
+import { Segment, SegmentUtils, SFException } from "../../internal.ts";
 import type { Comparator, Event, LineString, Point } from "../../internal.ts";
 
 /**
@@ -12,6 +12,22 @@ class SegmentComparator implements Comparator<Segment> {
    */
   private _x: number | undefined;
 
+  /**
+   * Current sweep point, ordering segments through it by slope when set
+   */
+  private _point: Point | undefined;
+
+  /**
+   * Segments known to pass through the sweep point
+   */
+  private _through: Set<Segment> = new Set();
+
+  /**
+   * True to order segments through the sweep point as after it, false as
+   * before it
+   */
+  private _after = true;
+
   /**
    * Set the current sweep x value
    * @param x x value
@@ -24,6 +40,68 @@ class SegmentComparator implements Comparator<Segment> {
     return this._x;
   }
 
+  /**
+   * Get the current sweep point
+   * @returns sweep point
+   */
+  public get point(): Point | undefined {
+    return this._point;
+  }
+
+  /**
+   * Set the current sweep point and the segments known to pass through it
+   * @param point sweep point
+   * @param through segments through the point
+   */
+  public sweepTo(point: Point, through: Iterable<Segment>): void {
+    this._x = point.x;
+    this._point = point;
+    this._through = new Set(through);
+  }
+
+  /**
+   * Set whether segments through the sweep point are ordered as after it
+   * @param after true for after the point, false for before it
+   */
+  public set after(after: boolean) {
+    this._after = after;
+  }
+
+  /**
+   * Determine if a segment is known to pass through the sweep point
+   * @param segment segment
+   * @returns true if through the point
+   */
+  public isThrough(segment: Segment): boolean {
+    return this._through.has(segment);
+  }
+
+  /**
+   * Get the segment y value at the sweep point x, the sweep point y for
+   * vertical segments and segments through the sweep point
+   * @param segment segment
+   * @returns y value
+   */
+  public yValue(segment: Segment): number {
+    const point = this._point as Point;
+    const left = segment.leftPoint;
+    const right = segment.rightPoint;
+    let y: number;
+    if (left.x === right.x) {
+      y = Math.min(Math.max(point.y, left.y), right.y);
+    } else if (this._through.has(segment)) {
+      y = point.y;
+    } else if (point.x === left.x) {
+      y = left.y;
+    } else if (point.x === right.x) {
+      y = right.y;
+    } else {
+      y = left.y +
+        (point.x - left.x) * (right.y - left.y) / (right.x - left.x);
+    }
+    return y;
+  }
+
   /**
    * {@inheritDoc}
    */
@@ -31,6 +109,9 @@ class SegmentComparator implements Comparator<Segment> {
     if (this._x === undefined) {
       throw new SFException("X value not set");
     }
+    if (this._point !== undefined) {
+      return this.compareAtPoint(segment1, segment2);
+    }
 
     const y1 = SweepLine.yValueAtX(segment1, this._x);
     const y2 = SweepLine.yValueAtX(segment2, this._x);
@@ -54,12 +135,68 @@ class SegmentComparator implements Comparator<Segment> {
 
     return compare;
   }
+
+  /**
+   * Compare segments by their y values at the sweep point x, segments
+   * meeting at the same y value by their slopes after or before the meeting
+   * point
+   * @param segment1 segment 1
+   * @param segment2 segment 2
+   * @returns compare value
+   */
+  private compareAtPoint(segment1: Segment, segment2: Segment): number {
+    const y1 = this.yValue(segment1);
+    const y2 = this.yValue(segment2);
+
+    let compare: number;
+    if (y1 < y2) {
+      compare = -1;
+    } else if (y2 < y1) {
+      compare = 1;
+    } else {
+      const slope1 = SegmentComparator.slope(segment1);
+      const slope2 = SegmentComparator.slope(segment2);
+      const point = this._point as Point;
+      // Meeting points below the sweep point have been swept past
+      const after = y1 < point.y || (y1 === point.y && this._after);
+      if (slope1 !== slope2) {
+        compare = (slope1 < slope2) === after ? -1 : 1;
+      } else if (segment1.ring !== segment2.ring) {
+        compare = segment1.ring < segment2.ring ? -1 : 1;
+      } else if (segment1.edge !== segment2.edge) {
+        compare = segment1.edge < segment2.edge ? -1 : 1;
+      } else {
+        compare = 0;
+      }
+    }
+
+    return compare;
+  }
+
+  /**
+   * Get the slope of a segment
+   * @param segment segment
+   * @returns slope, infinite for vertical segments
+   */
+  private static slope(segment: Segment): number {
+    const left = segment.leftPoint;
+    const right = segment.rightPoint;
+    return left.x === right.x
+      ? Number.POSITIVE_INFINITY
+      : (right.y - left.y) / (right.x - left.x);
+  }
 }
 
 /**
  * Sweep Line algorithm
  */
 export class SweepLine {
+  /**
+   * Tolerance relative to the coordinate magnitude for finding segments
+   * through a sweep point, such as a rounded intersection point
+   */
+  private static readonly ROUNDING_TOLERANCE = 1e-12;
+
   /**
    * Polygon rings
    */
@@ -135,6 +272,107 @@ export class SweepLine {
     return segment;
   }
 
+  /**
+   * Move the sweep line to a point, ordering the segments through it by
+   * slope for {@link SweepLine#insertAt}, {@link SweepLine#removeAt} and
+   * {@link SweepLine#findAt}
+   * @param point sweep point
+   * @param through segments known to pass through the point
+   */
+  public sweepTo(point: Point, through: Iterable<Segment> = []): void {
+    this._comparator.sweepTo(point, through);
+  }
+
+  /**
+   * Insert a segment at the sweep point, ordered as after the point
+   * @param segment segment
+   */
+  public insertAt(segment: Segment): void {
+    this._comparator.after = true;
+    this._tree.insert(segment);
+  }
+
+  /**
+   * Remove a segment at the sweep point, ordered as before the point
+   * @param segment segment
+   * @returns true if removed
+   */
+  public removeAt(segment: Segment): boolean {
+    this._comparator.after = false;
+    return this._tree.remove(segment);
+  }
+
+  /**
+   * Find the segments through the sweep point in below to above order, with
+   * the nearest segments below and above them
+   * @param epsilon distance tolerance, at least a rounding tolerance
+   * @returns segments through the point and the segments below and above
+   */
+  public findAt(epsilon = 0): {
+    segments: Segment[];
+    below: Segment | undefined;
+    above: Segment | undefined;
+  } {
+    const point = this._comparator.point;
+    if (point === undefined) {
+      throw new SFException("Sweep point not set");
+    }
+    const tolerance = Math.max(
+      epsilon,
+      SweepLine.ROUNDING_TOLERANCE *
+        Math.max(1, Math.abs(point.x), Math.abs(point.y)),
+    );
+    const search = (segment: Segment): number => {
+      const y = this._comparator.yValue(segment);
+      let order: number;
+      if (
+        y === point.y || this._comparator.isThrough(segment) ||
+        SegmentUtils.pointOnSegment(
+          point,
+          segment.leftPoint,
+          segment.rightPoint,
+          tolerance,
+        )
+      ) {
+        order = 0;
+      } else {
+        order = point.y < y ? -1 : 1;
+      }
+      return order;
+    };
+
+    const segments: Segment[] = [];
+    let below: Segment | undefined;
+    let above: Segment | undefined;
+    const node = this._tree.findNearestNode(search);
+    if (node) {
+      const order = search(node.value);
+      if (order === 0) {
+        let first = node;
+        let previous = this._tree.getPredecessor(first);
+        while (previous && search(previous.value) === 0) {
+          first = previous;
+          previous = this._tree.getPredecessor(first);
+        }
+        let next: typeof node | null = first;
+        while (next && search(next.value) === 0) {
+          segments.push(next.value);
+          next = this._tree.getSuccessor(next);
+        }
+        below = previous?.value;
+        above = next?.value;
+      } else if (order < 0) {
+        above = node.value;
+        below = this._tree.getPredecessor(node)?.value;
+      } else {
+        below = node.value;
+        above = this._tree.getSuccessor(node)?.value;
+      }
+    }
+
+    return { segments, below, above };
+  }
+
   /**
    * Create a segment from the event
    * @param event event
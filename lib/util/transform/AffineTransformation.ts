@@ -0,0 +1,374 @@
+import type { Geometry, GeometryEnvelope, Point } from "../../internal.ts";
+import { GeometryTraversal, SFException } from "../../internal.ts";
+
+/**
+ * Affine transformation of geometry coordinates. A 3x3 matrix transforms x
+ * and y in the plane, a 4x4 matrix also transforms z:
+ *
+ * <pre>
+ * | x' |   | m00 m01 m02 m03 |   | x |
+ * | y' | = | m10 m11 m12 m13 | * | y |
+ * | z' |   | m20 m21 m22 m23 |   | z |
+ * | 1  |   |  0   0   0   1  |   | 1 |
+ * </pre>
+ *
+ * Geometries without z values are transformed with a z of zero. M values are
+ * not transformed.
+ */
+export class AffineTransformation {
+  /**
+   * 4x4 matrix in row major order
+   */
+  private readonly _matrix: number[][];
+
+  /**
+   * Constructor
+   * @param matrix 3x3 matrix for x and y or 4x4 matrix for x, y and z, with
+   *        the last row of zeros followed by a one, identity when undefined
+   */
+  constructor(matrix?: number[][]) {
+    if (matrix === undefined) {
+      this._matrix = AffineTransformation.identityMatrix();
+    } else if (AffineTransformation.isAffine(matrix, 3)) {
+      this._matrix = [
+        [matrix[0][0], matrix[0][1], 0, matrix[0][2]],
+        [matrix[1][0], matrix[1][1], 0, matrix[1][2]],
+        [0, 0, 1, 0],
+        [0, 0, 0, 1],
+      ];
+    } else if (AffineTransformation.isAffine(matrix, 4)) {
+      this._matrix = matrix.map((row) => row.slice());
+    } else {
+      throw new SFException(
+        "Affine transformation matrix must be a 3x3 or 4x4 affine matrix",
+      );
+    }
+  }
+
+  /**
+   * Create a translation
+   * @param dx x offset
+   * @param dy y offset
+   * @param dz z offset
+   * @returns affine transformation
+   */
+  public static translation(
+    dx: number,
+    dy: number,
+    dz = 0,
+  ): AffineTransformation {
+    return new AffineTransformation([
+      [1, 0, 0, dx],
+      [0, 1, 0, dy],
+      [0, 0, 1, dz],
+      [0, 0, 0, 1],
+    ]);
+  }
+
+  /**
+   * Create a scaling around an origin point
+   * @param sx x scale factor
+   * @param sy y scale factor
+   * @param sz z scale factor
+   * @param origin fixed point, (0, 0, 0) when undefined
+   * @returns affine transformation
+   */
+  public static scaling(
+    sx: number,
+    sy: number,
+    sz = 1,
+    origin?: Point,
+  ): AffineTransformation {
+    return AffineTransformation.around(
+      new AffineTransformation([
+        [sx, 0, 0, 0],
+        [0, sy, 0, 0],
+        [0, 0, sz, 0],
+        [0, 0, 0, 1],
+      ]),
+      origin,
+    );
+  }
+
+  /**
+   * Create a counter clockwise rotation in the plane around an origin point,
+   * such as the centroid of a geometry
+   * @param angle angle in radians
+   * @param origin fixed point, (0, 0) when undefined
+   * @returns affine transformation
+   */
+  public static rotation(angle: number, origin?: Point): AffineTransformation {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return AffineTransformation.around(
+      new AffineTransformation([
+        [cos, -sin, 0],
+        [sin, cos, 0],
+        [0, 0, 1],
+      ]),
+      origin,
+    );
+  }
+
+  /**
+   * Create a shear in the plane around an origin point
+   * @param shx x shear factor, added to x per unit of y
+   * @param shy y shear factor, added to y per unit of x
+   * @param origin fixed point, (0, 0) when undefined
+   * @returns affine transformation
+   */
+  public static shear(
+    shx: number,
+    shy: number,
+    origin?: Point,
+  ): AffineTransformation {
+    return AffineTransformation.around(
+      new AffineTransformation([
+        [1, shx, 0],
+        [shy, 1, 0],
+        [0, 0, 1],
+      ]),
+      origin,
+    );
+  }
+
+  /**
+   * Create a reflection in the plane across the line through two points
+   * @param point1 first line point
+   * @param point2 second line point
+   * @returns affine transformation
+   */
+  public static reflection(point1: Point, point2: Point): AffineTransformation {
+    const dx = point2.x - point1.x;
+    const dy = point2.y - point1.y;
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared === 0) {
+      throw new SFException("Reflection line points must be different");
+    }
+    const cos = (dx * dx - dy * dy) / lengthSquared;
+    const sin = 2 * dx * dy / lengthSquared;
+    return AffineTransformation.around(
+      new AffineTransformation([
+        [cos, sin, 0],
+        [sin, -cos, 0],
+        [0, 0, 1],
+      ]),
+      point1,
+    );
+  }
+
+  /**
+   * Create a transformation mapping the source envelope onto the target
+   * envelope, scaling each axis independently. Z values are also mapped when
+   * both envelopes have a z range.
+   * @param source source envelope
+   * @param target target envelope
+   * @returns affine transformation
+   */
+  public static envelopeMapping(
+    source: GeometryEnvelope,
+    target: GeometryEnvelope,
+  ): AffineTransformation {
+    if (source.xRange === 0 || source.yRange === 0) {
+      throw new SFException(
+        "Source envelope must have a non zero x and y range",
+      );
+    }
+    const sx = target.xRange / source.xRange;
+    const sy = target.yRange / source.yRange;
+    let sz = 1;
+    let dz = 0;
+    if (source.hasZ && target.hasZ && source.zRange !== 0) {
+      sz = target.zRange / source.zRange;
+      dz = (target.minZ as number) - (source.minZ as number) * sz;
+    }
+    return new AffineTransformation([
+      [sx, 0, 0, target.minX - source.minX * sx],
+      [0, sy, 0, target.minY - source.minY * sy],
+      [0, 0, sz, dz],
+      [0, 0, 0, 1],
+    ]);
+  }
+
+  /**
+   * Get the 4x4 matrix
+   * @returns matrix in row major order
+   */
+  public get matrix(): number[][] {
+    return this._matrix.map((row) => row.slice());
+  }
+
+  /**
+   * Determine if the transformation reads or writes z values
+   * @returns true if not a planar transformation
+   */
+  public get hasZ(): boolean {
+    const m = this._matrix;
+    return m[0][2] !== 0 || m[1][2] !== 0 || m[2][0] !== 0 ||
+      m[2][1] !== 0 || m[2][2] !== 1 || m[2][3] !== 0;
+  }
+
+  /**
+   * Determine if the transformation is the identity
+   * @returns true if identity
+   */
+  public isIdentity(): boolean {
+    const identity = AffineTransformation.identityMatrix();
+    return this._matrix.every((row, i) =>
+      row.every((value, j) => value === identity[i][j])
+    );
+  }
+
+  /**
+   * Compose with a transformation applied after this transformation
+   * @param transformation transformation applied second
+   * @returns composed transformation
+   */
+  public compose(
+    transformation: AffineTransformation,
+  ): AffineTransformation {
+    const a = transformation._matrix;
+    const b = this._matrix;
+    const matrix: number[][] = [];
+    for (let i = 0; i < 4; i++) {
+      matrix.push([]);
+      for (let j = 0; j < 4; j++) {
+        let value = 0;
+        for (let k = 0; k < 4; k++) {
+          value += a[i][k] * b[k][j];
+        }
+        matrix[i].push(value);
+      }
+    }
+    return new AffineTransformation(matrix);
+  }
+
+  /**
+   * Get the inverse transformation
+   * @returns inverse transformation
+   */
+  public inverse(): AffineTransformation {
+    const m = this._matrix;
+    const c00 = m[1][1] * m[2][2] - m[1][2] * m[2][1];
+    const c01 = m[1][2] * m[2][0] - m[1][0] * m[2][2];
+    const c02 = m[1][0] * m[2][1] - m[1][1] * m[2][0];
+    const determinant = m[0][0] * c00 + m[0][1] * c01 + m[0][2] * c02;
+    if (determinant === 0 || !Number.isFinite(determinant)) {
+      throw new SFException("Affine transformation is not invertible");
+    }
+    const linear = [
+      [
+        c00,
+        m[0][2] * m[2][1] - m[0][1] * m[2][2],
+        m[0][1] * m[1][2] - m[0][2] * m[1][1],
+      ],
+      [
+        c01,
+        m[0][0] * m[2][2] - m[0][2] * m[2][0],
+        m[0][2] * m[1][0] - m[0][0] * m[1][2],
+      ],
+      [
+        c02,
+        m[0][1] * m[2][0] - m[0][0] * m[2][1],
+        m[0][0] * m[1][1] - m[0][1] * m[1][0],
+      ],
+    ].map((row) => row.map((value) => value / determinant));
+    return new AffineTransformation([
+      ...linear.map((row) => [
+        ...row,
+        -(row[0] * m[0][3] + row[1] * m[1][3] + row[2] * m[2][3]),
+      ]),
+      [0, 0, 0, 1],
+    ]);
+  }
+
+  /**
+   * Transform a copy of the point
+   * @param point point
+   * @returns transformed point
+   */
+  public transformPoint(point: Point): Point {
+    const transformed = point.copy();
+    this.transformPointCoordinates(transformed);
+    return transformed;
+  }
+
+  /**
+   * Apply the transformation to a copy of the geometry, including circular
+   * string control points and polyhedral surface patches
+   * @param geometry geometry
+   * @returns transformed geometry
+   */
+  public apply(geometry: Geometry): Geometry {
+    const transformed = geometry.copy();
+    for (const coordinate of GeometryTraversal.coordinates(transformed)) {
+      this.transformPointCoordinates(coordinate.point);
+    }
+    return transformed;
+  }
+
+  /**
+   * Transform the point coordinates in place, leaving empty points unchanged
+   * @param point point
+   */
+  private transformPointCoordinates(point: Point): void {
+    if (!point.isEmpty()) {
+      const m = this._matrix;
+      const x = point.x;
+      const y = point.y;
+      const z = point.hasZ && point.z !== undefined ? point.z : 0;
+      point.x = m[0][0] * x + m[0][1] * y + m[0][2] * z + m[0][3];
+      point.y = m[1][0] * x + m[1][1] * y + m[1][2] * z + m[1][3];
+      if (point.hasZ) {
+        point.z = m[2][0] * x + m[2][1] * y + m[2][2] * z + m[2][3];
+      }
+    }
+  }
+
+  /**
+   * Get a transformation applied around an origin point
+   * @param transformation transformation around (0, 0, 0)
+   * @param origin origin point
+   * @returns transformation
+   */
+  private static around(
+    transformation: AffineTransformation,
+    origin?: Point,
+  ): AffineTransformation {
+    let result = transformation;
+    if (origin !== undefined) {
+      const z = origin.hasZ && origin.z !== undefined ? origin.z : 0;
+      result = AffineTransformation.translation(-origin.x, -origin.y, -z)
+        .compose(transformation)
+        .compose(AffineTransformation.translation(origin.x, origin.y, z));
+    }
+    return result;
+  }
+
+  /**
+   * Get a 4x4 identity matrix
+   * @returns matrix
+   */
+  private static identityMatrix(): number[][] {
+    return [
+      [1, 0, 0, 0],
+      [0, 1, 0, 0],
+      [0, 0, 1, 0],
+      [0, 0, 0, 1],
+    ];
+  }
+
+  /**
+   * Determine if the matrix is a square affine matrix of the size
+   * @param matrix matrix
+   * @param size number of rows and columns
+   * @returns true if affine
+   */
+  private static isAffine(matrix: number[][], size: number): boolean {
+    return matrix.length === size &&
+      matrix.every((row, i) =>
+        row.length === size &&
+        (i < size - 1 || row.every((value, j) => value === (j < i ? 0 : 1)))
+      );
+  }
+}
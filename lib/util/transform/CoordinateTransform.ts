@@ -0,0 +1,69 @@
+import type { Geometry } from "../../internal.ts";
+import { GeometryTraversal } from "../../internal.ts";
+
+/**
+ * Transforms geometry coordinates from a source to a target coordinate
+ * reference system, each identified by its srid. Geometries of every type
+ * are transformed into copies keeping their z and m values and flags.
+ */
+export abstract class CoordinateTransform {
+  /**
+   * Source spatial reference system id
+   */
+  private readonly _sourceSrid: number;
+
+  /**
+   * Target spatial reference system id
+   */
+  private readonly _targetSrid: number;
+
+  /**
+   * Constructor
+   * @param sourceSrid source spatial reference system id
+   * @param targetSrid target spatial reference system id
+   */
+  constructor(sourceSrid: number, targetSrid: number) {
+    this._sourceSrid = sourceSrid;
+    this._targetSrid = targetSrid;
+  }
+
+  /**
+   * Get the source spatial reference system id
+   * @returns srid
+   */
+  public get sourceSrid(): number {
+    return this._sourceSrid;
+  }
+
+  /**
+   * Get the target spatial reference system id
+   * @returns srid
+   */
+  public get targetSrid(): number {
+    return this._targetSrid;
+  }
+
+  /**
+   * Transform a coordinate
+   * @param x source x
+   * @param y source y
+   * @returns target x and y
+   */
+  public abstract transformCoordinate(x: number, y: number): [number, number];
+
+  /**
+   * Transform the geometry into a copy with the target srid
+   * @param geometry geometry in the source coordinate reference system
+   * @returns transformed geometry
+   */
+  public transform(geometry: Geometry): Geometry {
+    const transformed = geometry.copy();
+    for (const { point } of GeometryTraversal.coordinates(transformed)) {
+      const [x, y] = this.transformCoordinate(point.x, point.y);
+      point.x = x;
+      point.y = y;
+    }
+    transformed.srid = this._targetSrid;
+    return transformed;
+  }
+}
@@ -0,0 +1,177 @@
+import type {
+  CoordinateTransform,
+  Geometry,
+  Projection,
+} from "../../internal.ts";
+import {
+  GeographicProjection,
+  PolarStereographicProjection,
+  ProjectionTransform,
+  SFException,
+  TransverseMercatorProjection,
+  WebMercatorProjection,
+} from "../../internal.ts";
+
+/**
+ * Coordinate transforms between spatial reference systems looked up by srid.
+ * Built in projections are WGS84 geographic (EPSG:4326), Web Mercator
+ * (EPSG:3857), UTM zones (EPSG:32601 - 32660 and 32701 - 32760), Universal
+ * Polar Stereographic (EPSG:32661 and 32761), NSIDC Sea Ice Polar
+ * Stereographic North (EPSG:3413) and Antarctic Polar Stereographic
+ * (EPSG:3031). Registered projections and transforms take precedence.
+ */
+export class CoordinateTransforms {
+  /**
+   * Registered projections by srid
+   */
+  private static readonly projections = new Map<number, Projection>();
+
+  /**
+   * Registered transforms by source srid and target srid
+   */
+  private static readonly transforms = new Map<
+    number,
+    Map<number, CoordinateTransform>
+  >();
+
+  /**
+   * Register a projection by its srid
+   * @param projection projection
+   */
+  public static registerProjection(projection: Projection): void {
+    CoordinateTransforms.projections.set(projection.srid, projection);
+  }
+
+  /**
+   * Remove a registered projection
+   * @param srid spatial reference system id
+   * @returns true if removed
+   */
+  public static removeProjection(srid: number): boolean {
+    return CoordinateTransforms.projections.delete(srid);
+  }
+
+  /**
+   * Register a transform by its source and target srids
+   * @param transform coordinate transform
+   */
+  public static registerTransform(transform: CoordinateTransform): void {
+    let targets = CoordinateTransforms.transforms.get(transform.sourceSrid);
+    if (targets === undefined) {
+      targets = new Map<number, CoordinateTransform>();
+      CoordinateTransforms.transforms.set(transform.sourceSrid, targets);
+    }
+    targets.set(transform.targetSrid, transform);
+  }
+
+  /**
+   * Remove a registered transform
+   * @param sourceSrid source spatial reference system id
+   * @param targetSrid target spatial reference system id
+   * @returns true if removed
+   */
+  public static removeTransform(
+    sourceSrid: number,
+    targetSrid: number,
+  ): boolean {
+    const targets = CoordinateTransforms.transforms.get(sourceSrid);
+    const removed = targets !== undefined && targets.delete(targetSrid);
+    if (removed && targets.size === 0) {
+      CoordinateTransforms.transforms.delete(sourceSrid);
+    }
+    return removed;
+  }
+
+  /**
+   * Get the registered or built in projection of the srid
+   * @param srid spatial reference system id
+   * @returns projection or undefined
+   */
+  public static getProjection(srid: number): Projection | undefined {
+    return CoordinateTransforms.projections.get(srid) ??
+      CoordinateTransforms.getBuiltInProjection(srid);
+  }
+
+  /**
+   * Get the transform between srids, a registered transform or a transform
+   * between the projections of the srids
+   * @param sourceSrid source spatial reference system id
+   * @param targetSrid target spatial reference system id
+   * @returns coordinate transform
+   */
+  public static getTransform(
+    sourceSrid: number,
+    targetSrid: number,
+  ): CoordinateTransform {
+    const transform = CoordinateTransforms.transforms.get(sourceSrid)?.get(
+      targetSrid,
+    );
+    if (transform !== undefined) {
+      return transform;
+    }
+    const source = CoordinateTransforms.getProjection(sourceSrid);
+    const target = CoordinateTransforms.getProjection(targetSrid);
+    if (source === undefined || target === undefined) {
+      throw new SFException(
+        `No coordinate transform from SRID ${sourceSrid} to SRID ${targetSrid}`,
+      );
+    }
+    return new ProjectionTransform(source, target);
+  }
+
+  /**
+   * Transform the geometry into a copy in the target spatial reference system
+   * @param geometry geometry
+   * @param sourceSrid source spatial reference system id
+   * @param targetSrid target spatial reference system id
+   * @returns transformed geometry
+   */
+  public static transform(
+    geometry: Geometry,
+    sourceSrid: number,
+    targetSrid: number,
+  ): Geometry {
+    if (sourceSrid === targetSrid) {
+      const copy = geometry.copy();
+      copy.srid = targetSrid;
+      return copy;
+    }
+    return CoordinateTransforms.getTransform(sourceSrid, targetSrid).transform(
+      geometry,
+    );
+  }
+
+  /**
+   * Get the built in projection of the srid
+   * @param srid spatial reference system id
+   * @returns projection or undefined
+   */
+  private static getBuiltInProjection(srid: number): Projection | undefined {
+    let projection: Projection | undefined;
+    switch (srid) {
+      case GeographicProjection.WGS84.srid:
+        projection = GeographicProjection.WGS84;
+        break;
+      case WebMercatorProjection.WEB_MERCATOR.srid:
+        projection = WebMercatorProjection.WEB_MERCATOR;
+        break;
+      case PolarStereographicProjection.NSIDC_NORTH.srid:
+        projection = PolarStereographicProjection.NSIDC_NORTH;
+        break;
+      case PolarStereographicProjection.ANTARCTIC.srid:
+        projection = PolarStereographicProjection.ANTARCTIC;
+        break;
+      case 32661:
+      case 32761:
+        projection = PolarStereographicProjection.ups(srid === 32661);
+        break;
+      default:
+        if (srid > 32600 && srid <= 32660) {
+          projection = TransverseMercatorProjection.utm(srid - 32600, true);
+        } else if (srid > 32700 && srid <= 32760) {
+          projection = TransverseMercatorProjection.utm(srid - 32700, false);
+        }
+    }
+    return projection;
+  }
+}
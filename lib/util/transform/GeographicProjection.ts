@@ -0,0 +1,28 @@
+import { Projection } from "../../internal.ts";
+
+/**
+ * Geographic coordinate reference system with x longitudes and y latitudes
+ * in degrees, the identity projection
+ */
+export class GeographicProjection extends Projection {
+  /**
+   * WGS84 geographic coordinate reference system, EPSG:4326
+   */
+  public static readonly WGS84: GeographicProjection = new GeographicProjection(
+    4326,
+  );
+
+  /**
+   * {@inheritDoc}
+   */
+  public forward(longitude: number, latitude: number): [number, number] {
+    return [longitude, latitude];
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  public inverse(x: number, y: number): [number, number] {
+    return [x, y];
+  }
+}
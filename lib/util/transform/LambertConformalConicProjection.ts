@@ -0,0 +1,205 @@
+import {
+  Ellipsoid,
+  Geodesic,
+  GeometryUtils,
+  Projection,
+} from "../../internal.ts";
+
+/**
+ * Ellipsoidal Lambert Conformal Conic projection with two standard parallels
+ * (EPSG variant 2SP), or with one when both standard parallels are equal
+ */
+export class LambertConformalConicProjection extends Projection {
+  /**
+   * First standard parallel in degrees
+   */
+  private readonly _standardParallel1: number;
+
+  /**
+   * Second standard parallel in degrees
+   */
+  private readonly _standardParallel2: number;
+
+  /**
+   * Latitude of origin in degrees
+   */
+  private readonly _latitudeOfOrigin: number;
+
+  /**
+   * Central meridian in degrees
+   */
+  private readonly _centralMeridian: number;
+
+  /**
+   * False easting
+   */
+  private readonly _falseEasting: number;
+
+  /**
+   * False northing
+   */
+  private readonly _falseNorthing: number;
+
+  /**
+   * Cone constant
+   */
+  private readonly _n: number;
+
+  /**
+   * Equatorial radius multiplied by the mapping constant F
+   */
+  private readonly _aF: number;
+
+  /**
+   * Radius of the latitude of origin
+   */
+  private readonly _rho0: number;
+
+  /**
+   * Constructor
+   * @param srid spatial reference system id
+   * @param standardParallel1 first standard parallel in degrees
+   * @param standardParallel2 second standard parallel in degrees
+   * @param latitudeOfOrigin latitude of origin in degrees
+   * @param centralMeridian central meridian in degrees
+   * @param falseEasting false easting
+   * @param falseNorthing false northing
+   * @param ellipsoid ellipsoid
+   */
+  constructor(
+    srid: number,
+    standardParallel1: number,
+    standardParallel2: number,
+    latitudeOfOrigin: number,
+    centralMeridian: number,
+    falseEasting = 0,
+    falseNorthing = 0,
+    ellipsoid: Ellipsoid = Ellipsoid.WGS84,
+  ) {
+    super(srid, ellipsoid);
+    this._standardParallel1 = standardParallel1;
+    this._standardParallel2 = standardParallel2;
+    this._latitudeOfOrigin = latitudeOfOrigin;
+    this._centralMeridian = centralMeridian;
+    this._falseEasting = falseEasting;
+    this._falseNorthing = falseNorthing;
+
+    const lat1 = GeometryUtils.degreesToRadians(standardParallel1);
+    const lat2 = GeometryUtils.degreesToRadians(standardParallel2);
+    const m1 = this.m(lat1);
+    const t1 = this.conformalT(lat1);
+    this._n = Math.abs(lat1 - lat2) < 1e-10 ? Math.sin(lat1) : (Math.log(m1) -
+      Math.log(this.m(lat2))) /
+      (Math.log(t1) - Math.log(this.conformalT(lat2)));
+    this._aF = ellipsoid.semiMajorAxis * m1 /
+      (this._n * Math.pow(t1, this._n));
+    this._rho0 = this.rho(GeometryUtils.degreesToRadians(latitudeOfOrigin));
+  }
+
+  /**
+   * Get the first standard parallel
+   * @returns latitude in degrees
+   */
+  public get standardParallel1(): number {
+    return this._standardParallel1;
+  }
+
+  /**
+   * Get the second standard parallel
+   * @returns latitude in degrees
+   */
+  public get standardParallel2(): number {
+    return this._standardParallel2;
+  }
+
+  /**
+   * Get the latitude of origin
+   * @returns latitude in degrees
+   */
+  public get latitudeOfOrigin(): number {
+    return this._latitudeOfOrigin;
+  }
+
+  /**
+   * Get the central meridian
+   * @returns central meridian in degrees
+   */
+  public get centralMeridian(): number {
+    return this._centralMeridian;
+  }
+
+  /**
+   * Get the false easting
+   * @returns false easting
+   */
+  public get falseEasting(): number {
+    return this._falseEasting;
+  }
+
+  /**
+   * Get the false northing
+   * @returns false northing
+   */
+  public get falseNorthing(): number {
+    return this._falseNorthing;
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  public forward(longitude: number, latitude: number): [number, number] {
+    const rho = this.rho(GeometryUtils.degreesToRadians(latitude));
+    const theta = this._n *
+      Projection.longitudeDifference(longitude, this._centralMeridian);
+    return [
+      this._falseEasting + rho * Math.sin(theta),
+      this._falseNorthing + this._rho0 - rho * Math.cos(theta),
+    ];
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  public inverse(x: number, y: number): [number, number] {
+    const sign = Math.sign(this._n);
+    const dx = x - this._falseEasting;
+    const dy = this._rho0 - (y - this._falseNorthing);
+    const rho = sign * Math.hypot(dx, dy);
+    const theta = Math.atan2(sign * dx, sign * dy);
+    const latitude = rho === 0
+      ? sign * Math.PI / 2
+      : this.conformalLatitude(Math.pow(rho / this._aF, 1 / this._n));
+    return [
+      Geodesic.angleNormalize(
+        this._centralMeridian +
+          GeometryUtils.radiansToDegrees(theta / this._n),
+      ),
+      GeometryUtils.radiansToDegrees(latitude),
+    ];
+  }
+
+  /**
+   * Get the radius of a parallel
+   * @param latitude latitude in radians
+   * @returns radius
+   */
+  private rho(latitude: number): number {
+    return Math.abs(Math.abs(latitude) - Math.PI / 2) < 1e-10 &&
+        Math.sign(latitude) === Math.sign(this._n)
+      ? 0
+      : this._aF * Math.pow(this.conformalT(latitude), this._n);
+  }
+
+  /**
+   * Get the ratio of the parallel radius to the equatorial radius
+   * @param latitude latitude in radians
+   * @returns m
+   */
+  private m(latitude: number): number {
+    const sinLatitude = Math.sin(latitude);
+    return Math.cos(latitude) /
+      Math.sqrt(
+        1 - this.ellipsoid.eccentricitySquared * sinLatitude * sinLatitude,
+      );
+  }
+}
@@ -0,0 +1,210 @@
+import {
+  Ellipsoid,
+  Geodesic,
+  GeometryUtils,
+  Projection,
+} from "../../internal.ts";
+
+/**
+ * Ellipsoidal polar stereographic projection centered on the north pole for
+ * positive latitudes of true scale and on the south pole for negative ones.
+ * A latitude of true scale of 90 or -90 degrees defines the scale factor at
+ * the pole (EPSG variant A), any other latitude of true scale has a scale
+ * factor of one along that parallel (EPSG variant B).
+ */
+export class PolarStereographicProjection extends Projection {
+  /**
+   * WGS84 NSIDC Sea Ice Polar Stereographic North, EPSG:3413
+   */
+  public static readonly NSIDC_NORTH: PolarStereographicProjection =
+    new PolarStereographicProjection(3413, 70, -45);
+
+  /**
+   * WGS84 Antarctic Polar Stereographic, EPSG:3031
+   */
+  public static readonly ANTARCTIC: PolarStereographicProjection =
+    new PolarStereographicProjection(3031, -71, 0);
+
+  /**
+   * Universal Polar Stereographic scale factor at the pole
+   */
+  private static readonly UPS_SCALE_FACTOR = 0.994;
+
+  /**
+   * Universal Polar Stereographic false easting and northing
+   */
+  private static readonly UPS_FALSE_ORIGIN = 2000000;
+
+  /**
+   * Latitude of true scale in degrees
+   */
+  private readonly _latitudeOfTrueScale: number;
+
+  /**
+   * Central meridian in degrees
+   */
+  private readonly _centralMeridian: number;
+
+  /**
+   * Scale factor
+   */
+  private readonly _scaleFactor: number;
+
+  /**
+   * False easting
+   */
+  private readonly _falseEasting: number;
+
+  /**
+   * False northing
+   */
+  private readonly _falseNorthing: number;
+
+  /**
+   * True for the north pole aspect
+   */
+  private readonly _north: boolean;
+
+  /**
+   * Radius from the pole divided by the conformal latitude function t
+   */
+  private readonly _rhoFactor: number;
+
+  /**
+   * Constructor
+   * @param srid spatial reference system id
+   * @param latitudeOfTrueScale latitude of true scale in degrees
+   * @param centralMeridian central meridian, the longitude pointing down from
+   *        the north pole and up from the south pole, in degrees
+   * @param scaleFactor scale factor at the latitude of true scale
+   * @param falseEasting false easting
+   * @param falseNorthing false northing
+   * @param ellipsoid ellipsoid
+   */
+  constructor(
+    srid: number,
+    latitudeOfTrueScale: number,
+    centralMeridian: number,
+    scaleFactor = 1,
+    falseEasting = 0,
+    falseNorthing = 0,
+    ellipsoid: Ellipsoid = Ellipsoid.WGS84,
+  ) {
+    super(srid, ellipsoid);
+    this._latitudeOfTrueScale = latitudeOfTrueScale;
+    this._centralMeridian = centralMeridian;
+    this._scaleFactor = scaleFactor;
+    this._falseEasting = falseEasting;
+    this._falseNorthing = falseNorthing;
+    this._north = latitudeOfTrueScale >= 0;
+
+    const a = ellipsoid.semiMajorAxis;
+    const e = this.eccentricity;
+    const latitude = GeometryUtils.degreesToRadians(
+      Math.abs(latitudeOfTrueScale),
+    );
+    if (Math.abs(latitude - Math.PI / 2) < 1e-10) {
+      this._rhoFactor = 2 * a * scaleFactor /
+        Math.sqrt(Math.pow(1 + e, 1 + e) * Math.pow(1 - e, 1 - e));
+    } else {
+      const sinLatitude = Math.sin(latitude);
+      const m = Math.cos(latitude) /
+        Math.sqrt(1 - e * e * sinLatitude * sinLatitude);
+      this._rhoFactor = a * scaleFactor * m / this.conformalT(latitude);
+    }
+  }
+
+  /**
+   * Create a WGS84 Universal Polar Stereographic projection, EPSG:32661 for
+   * the north pole and EPSG:32761 for the south pole
+   * @param north true for the north pole
+   * @returns projection
+   */
+  public static ups(north: boolean): PolarStereographicProjection {
+    return new PolarStereographicProjection(
+      north ? 32661 : 32761,
+      north ? 90 : -90,
+      0,
+      PolarStereographicProjection.UPS_SCALE_FACTOR,
+      PolarStereographicProjection.UPS_FALSE_ORIGIN,
+      PolarStereographicProjection.UPS_FALSE_ORIGIN,
+    );
+  }
+
+  /**
+   * Get the latitude of true scale
+   * @returns latitude in degrees
+   */
+  public get latitudeOfTrueScale(): number {
+    return this._latitudeOfTrueScale;
+  }
+
+  /**
+   * Get the central meridian
+   * @returns central meridian in degrees
+   */
+  public get centralMeridian(): number {
+    return this._centralMeridian;
+  }
+
+  /**
+   * Get the scale factor
+   * @returns scale factor
+   */
+  public get scaleFactor(): number {
+    return this._scaleFactor;
+  }
+
+  /**
+   * Get the false easting
+   * @returns false easting
+   */
+  public get falseEasting(): number {
+    return this._falseEasting;
+  }
+
+  /**
+   * Get the false northing
+   * @returns false northing
+   */
+  public get falseNorthing(): number {
+    return this._falseNorthing;
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  public forward(longitude: number, latitude: number): [number, number] {
+    const sign = this._north ? 1 : -1;
+    const lat = GeometryUtils.degreesToRadians(sign * latitude);
+    const lon = Projection.longitudeDifference(
+      longitude,
+      this._centralMeridian,
+    );
+    const rho = this._rhoFactor * this.conformalT(lat);
+    return [
+      this._falseEasting + rho * Math.sin(lon),
+      this._falseNorthing - sign * rho * Math.cos(lon),
+    ];
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  public inverse(x: number, y: number): [number, number] {
+    const sign = this._north ? 1 : -1;
+    const dx = x - this._falseEasting;
+    const dy = y - this._falseNorthing;
+    const latitude = this.conformalLatitude(
+      Math.hypot(dx, dy) / this._rhoFactor,
+    );
+    const longitude = dx === 0 && dy === 0
+      ? this._centralMeridian
+      : this._centralMeridian +
+        GeometryUtils.radiansToDegrees(Math.atan2(dx, -sign * dy));
+    return [
+      Geodesic.angleNormalize(longitude),
+      sign * GeometryUtils.radiansToDegrees(latitude),
+    ];
+  }
+}
@@ -0,0 +1,121 @@
+import { Ellipsoid, Geodesic, GeometryUtils } from "../../internal.ts";
+
+/**
+ * Map projection between geographic longitude and latitude in degrees and
+ * projected coordinates, identified by the srid of the projected coordinate
+ * reference system
+ */
+export abstract class Projection {
+  /**
+   * Spatial reference system id
+   */
+  private readonly _srid: number;
+
+  /**
+   * Ellipsoid
+   */
+  private readonly _ellipsoid: Ellipsoid;
+
+  /**
+   * Constructor
+   * @param srid spatial reference system id
+   * @param ellipsoid ellipsoid
+   */
+  constructor(srid: number, ellipsoid: Ellipsoid = Ellipsoid.WGS84) {
+    this._srid = srid;
+    this._ellipsoid = ellipsoid;
+  }
+
+  /**
+   * Get the spatial reference system id
+   * @returns srid
+   */
+  public get srid(): number {
+    return this._srid;
+  }
+
+  /**
+   * Get the ellipsoid
+   * @returns ellipsoid
+   */
+  public get ellipsoid(): Ellipsoid {
+    return this._ellipsoid;
+  }
+
+  /**
+   * Project a geographic coordinate
+   * @param longitude longitude in degrees
+   * @param latitude latitude in degrees
+   * @returns projected x and y
+   */
+  public abstract forward(
+    longitude: number,
+    latitude: number,
+  ): [number, number];
+
+  /**
+   * Unproject a projected coordinate
+   * @param x projected x
+   * @param y projected y
+   * @returns longitude and latitude in degrees
+   */
+  public abstract inverse(x: number, y: number): [number, number];
+
+  /**
+   * Get the eccentricity of the ellipsoid
+   * @returns eccentricity
+   */
+  protected get eccentricity(): number {
+    return Math.sqrt(this._ellipsoid.eccentricitySquared);
+  }
+
+  /**
+   * Get the conformal latitude function t of conformal conic and azimuthal
+   * projections, the tangent of half the conformal colatitude
+   * @param latitude latitude in radians
+   * @returns t
+   */
+  protected conformalT(latitude: number): number {
+    const e = this.eccentricity;
+    const eSin = e * Math.sin(latitude);
+    return Math.tan(Math.PI / 4 - latitude / 2) /
+      Math.pow((1 - eSin) / (1 + eSin), e / 2);
+  }
+
+  /**
+   * Get the latitude of a conformal latitude function t value
+   * @param t t
+   * @returns latitude in radians
+   */
+  protected conformalLatitude(t: number): number {
+    const e = this.eccentricity;
+    let latitude = Math.PI / 2 - 2 * Math.atan(t);
+    for (let i = 0; i < 15; i++) {
+      const eSin = e * Math.sin(latitude);
+      const next = Math.PI / 2 -
+        2 * Math.atan(t * Math.pow((1 - eSin) / (1 + eSin), e / 2));
+      const delta = Math.abs(next - latitude);
+      latitude = next;
+      if (delta < 1e-14) {
+        break;
+      }
+    }
+    return latitude;
+  }
+
+  /**
+   * Normalize a longitude in degrees relative to a central meridian into
+   * radians in the range: -PI &lt; lon &lt;= PI
+   * @param longitude longitude in degrees
+   * @param centralMeridian central meridian in degrees
+   * @returns longitude difference in radians
+   */
+  protected static longitudeDifference(
+    longitude: number,
+    centralMeridian: number,
+  ): number {
+    return GeometryUtils.degreesToRadians(
+      Geodesic.angleNormalize(longitude - centralMeridian),
+    );
+  }
+}
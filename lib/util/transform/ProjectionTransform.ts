@@ -0,0 +1,54 @@
+import type { Projection } from "../../internal.ts";
+import { CoordinateTransform } from "../../internal.ts";
+
+/**
+ * Transforms coordinates between two projections through their geographic
+ * coordinates. No datum shift is applied between projections on different
+ * ellipsoids.
+ */
+export class ProjectionTransform extends CoordinateTransform {
+  /**
+   * Source projection
+   */
+  private readonly _source: Projection;
+
+  /**
+   * Target projection
+   */
+  private readonly _target: Projection;
+
+  /**
+   * Constructor
+   * @param source source projection
+   * @param target target projection
+   */
+  constructor(source: Projection, target: Projection) {
+    super(source.srid, target.srid);
+    this._source = source;
+    this._target = target;
+  }
+
+  /**
+   * Get the source projection
+   * @returns projection
+   */
+  public get source(): Projection {
+    return this._source;
+  }
+
+  /**
+   * Get the target projection
+   * @returns projection
+   */
+  public get target(): Projection {
+    return this._target;
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  public transformCoordinate(x: number, y: number): [number, number] {
+    const [longitude, latitude] = this._source.inverse(x, y);
+    return this._target.forward(longitude, latitude);
+  }
+}
@@ -0,0 +1,251 @@
+import {
+  Ellipsoid,
+  Geodesic,
+  GeometryUtils,
+  Projection,
+  SFException,
+} from "../../internal.ts";
+
+/**
+ * Transverse Mercator projection with the sixth order Krüger series, accurate
+ * to within a millimeter across the width of UTM zones and to within a
+ * meter out to 3,900 km from the central meridian
+ */
+export class TransverseMercatorProjection extends Projection {
+  /**
+   * UTM scale factor on the central meridian
+   */
+  private static readonly UTM_SCALE_FACTOR = 0.9996;
+
+  /**
+   * UTM false easting
+   */
+  private static readonly UTM_FALSE_EASTING = 500000;
+
+  /**
+   * UTM false northing in the southern hemisphere
+   */
+  private static readonly UTM_SOUTH_FALSE_NORTHING = 10000000;
+
+  /**
+   * Central meridian in degrees
+   */
+  private readonly _centralMeridian: number;
+
+  /**
+   * Scale factor on the central meridian
+   */
+  private readonly _scaleFactor: number;
+
+  /**
+   * False easting
+   */
+  private readonly _falseEasting: number;
+
+  /**
+   * False northing
+   */
+  private readonly _falseNorthing: number;
+
+  /**
+   * Rectifying radius multiplied by the scale factor
+   */
+  private readonly _radius: number;
+
+  /**
+   * Forward series coefficients, from index 1
+   */
+  private readonly _alpha: number[];
+
+  /**
+   * Inverse series coefficients, from index 1
+   */
+  private readonly _beta: number[];
+
+  /**
+   * Constructor
+   * @param srid spatial reference system id
+   * @param centralMeridian central meridian in degrees
+   * @param scaleFactor scale factor on the central meridian
+   * @param falseEasting false easting
+   * @param falseNorthing false northing
+   * @param ellipsoid ellipsoid
+   */
+  constructor(
+    srid: number,
+    centralMeridian: number,
+    scaleFactor = 1,
+    falseEasting = 0,
+    falseNorthing = 0,
+    ellipsoid: Ellipsoid = Ellipsoid.WGS84,
+  ) {
+    super(srid, ellipsoid);
+    this._centralMeridian = centralMeridian;
+    this._scaleFactor = scaleFactor;
+    this._falseEasting = falseEasting;
+    this._falseNorthing = falseNorthing;
+
+    const f = ellipsoid.flattening;
+    const n = f / (2 - f);
+    const n2 = n * n;
+    const n3 = n2 * n;
+    const n4 = n3 * n;
+    const n5 = n4 * n;
+    const n6 = n5 * n;
+    this._radius = scaleFactor * ellipsoid.semiMajorAxis / (1 + n) *
+      (1 + n2 / 4 + n4 / 64 + n6 / 256);
+    this._alpha = [
+      0,
+      n / 2 - 2 * n2 / 3 + 5 * n3 / 16 + 41 * n4 / 180 - 127 * n5 / 288 +
+      7891 * n6 / 37800,
+      13 * n2 / 48 - 3 * n3 / 5 + 557 * n4 / 1440 + 281 * n5 / 630 -
+      1983433 * n6 / 1935360,
+      61 * n3 / 240 - 103 * n4 / 140 + 15061 * n5 / 26880 +
+      167603 * n6 / 181440,
+      49561 * n4 / 161280 - 179 * n5 / 168 + 6601661 * n6 / 7257600,
+      34729 * n5 / 80640 - 3418889 * n6 / 1995840,
+      212378941 * n6 / 319334400,
+    ];
+    this._beta = [
+      0,
+      n / 2 - 2 * n2 / 3 + 37 * n3 / 96 - n4 / 360 - 81 * n5 / 512 +
+      96199 * n6 / 604800,
+      n2 / 48 + n3 / 15 - 437 * n4 / 1440 + 46 * n5 / 105 -
+      1118711 * n6 / 3870720,
+      17 * n3 / 480 - 37 * n4 / 840 - 209 * n5 / 4480 + 5569 * n6 / 90720,
+      4397 * n4 / 161280 - 11 * n5 / 504 - 830251 * n6 / 7257600,
+      4583 * n5 / 161280 - 108847 * n6 / 3991680,
+      20648693 * n6 / 638668800,
+    ];
+  }
+
+  /**
+   * Create a WGS84 Universal Transverse Mercator zone projection, EPSG:326##
+   * in the northern hemisphere and EPSG:327## in the southern hemisphere
+   * @param zone zone number from 1 to 60
+   * @param north true for the northern hemisphere
+   * @returns projection
+   */
+  public static utm(
+    zone: number,
+    north: boolean,
+  ): TransverseMercatorProjection {
+    if (!(Number.isInteger(zone) && zone >= 1 && zone <= 60)) {
+      throw new SFException(`UTM zone must be from 1 to 60, found ${zone}`);
+    }
+    return new TransverseMercatorProjection(
+      (north ? 32600 : 32700) + zone,
+      6 * zone - 183,
+      TransverseMercatorProjection.UTM_SCALE_FACTOR,
+      TransverseMercatorProjection.UTM_FALSE_EASTING,
+      north ? 0 : TransverseMercatorProjection.UTM_SOUTH_FALSE_NORTHING,
+    );
+  }
+
+  /**
+   * Get the central meridian
+   * @returns central meridian in degrees
+   */
+  public get centralMeridian(): number {
+    return this._centralMeridian;
+  }
+
+  /**
+   * Get the scale factor on the central meridian
+   * @returns scale factor
+   */
+  public get scaleFactor(): number {
+    return this._scaleFactor;
+  }
+
+  /**
+   * Get the false easting
+   * @returns false easting
+   */
+  public get falseEasting(): number {
+    return this._falseEasting;
+  }
+
+  /**
+   * Get the false northing
+   * @returns false northing
+   */
+  public get falseNorthing(): number {
+    return this._falseNorthing;
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  public forward(longitude: number, latitude: number): [number, number] {
+    const e = this.eccentricity;
+    const lat = GeometryUtils.degreesToRadians(latitude);
+    const lon = Projection.longitudeDifference(
+      longitude,
+      this._centralMeridian,
+    );
+
+    const sinLat = Math.sin(lat);
+    const t = Math.sinh(Math.atanh(sinLat) - e * Math.atanh(e * sinLat));
+    const xiPrime = Math.atan2(t, Math.cos(lon));
+    const etaPrime = Math.atanh(Math.sin(lon) / Math.sqrt(1 + t * t));
+
+    let xi = xiPrime;
+    let eta = etaPrime;
+    for (let j = 1; j < this._alpha.length; j++) {
+      xi += this._alpha[j] * Math.sin(2 * j * xiPrime) *
+        Math.cosh(2 * j * etaPrime);
+      eta += this._alpha[j] * Math.cos(2 * j * xiPrime) *
+        Math.sinh(2 * j * etaPrime);
+    }
+
+    return [
+      this._falseEasting + this._radius * eta,
+      this._falseNorthing + this._radius * xi,
+    ];
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  public inverse(x: number, y: number): [number, number] {
+    const e = this.eccentricity;
+    const eSquared = e * e;
+    const xi = (y - this._falseNorthing) / this._radius;
+    const eta = (x - this._falseEasting) / this._radius;
+
+    let xiPrime = xi;
+    let etaPrime = eta;
+    for (let j = 1; j < this._beta.length; j++) {
+      xiPrime -= this._beta[j] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+      etaPrime -= this._beta[j] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+    }
+
+    const sinhEta = Math.sinh(etaPrime);
+    const cosXi = Math.cos(xiPrime);
+    const tauPrime = Math.sin(xiPrime) /
+      Math.sqrt(sinhEta * sinhEta + cosXi * cosXi);
+
+    // Newton's method for the tangent of the latitude
+    let tau = tauPrime;
+    for (let i = 0; i < 10; i++) {
+      const sqrtTau = Math.sqrt(1 + tau * tau);
+      const sigma = Math.sinh(e * Math.atanh(e * tau / sqrtTau));
+      const tauI = tau * Math.sqrt(1 + sigma * sigma) - sigma * sqrtTau;
+      const delta = (tauPrime - tauI) / Math.sqrt(1 + tauI * tauI) *
+        (1 + (1 - eSquared) * tau * tau) / ((1 - eSquared) * sqrtTau);
+      tau += delta;
+      if (Math.abs(delta) < 1e-12) {
+        break;
+      }
+    }
+
+    return [
+      Geodesic.angleNormalize(
+        this._centralMeridian +
+          GeometryUtils.radiansToDegrees(Math.atan2(sinhEta, cosXi)),
+      ),
+      GeometryUtils.radiansToDegrees(Math.atan(tau)),
+    ];
+  }
+}
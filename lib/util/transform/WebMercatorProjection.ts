@@ -0,0 +1,30 @@
+import { GeometryUtils, Projection } from "../../internal.ts";
+
+/**
+ * Web Mercator projection on a sphere of the WGS84 equatorial radius,
+ * EPSG:3857. Longitudes are normalized and latitudes limited as by
+ * {@link GeometryUtils#degreesToMetersCoord}.
+ */
+export class WebMercatorProjection extends Projection {
+  /**
+   * Web Mercator projection, EPSG:3857
+   */
+  public static readonly WEB_MERCATOR: WebMercatorProjection =
+    new WebMercatorProjection(3857);
+
+  /**
+   * {@inheritDoc}
+   */
+  public forward(longitude: number, latitude: number): [number, number] {
+    const point = GeometryUtils.degreesToMetersCoord(longitude, latitude);
+    return [point.x, point.y];
+  }
+
+  /**
+   * {@inheritDoc}
+   */
+  public inverse(x: number, y: number): [number, number] {
+    const point = GeometryUtils.metersToDegreesCoord(x, y);
+    return [point.x, point.y];
+  }
+}
@@ -0,0 +1,29 @@
+import type { Point } from "../../internal.ts";
+
+/**
+ * Geometry point with its path within the geometry
+ */
+export interface GeometryCoordinate {
+  /**
+   * Point within the geometry
+   */
+  point: Point;
+
+  /**
+   * Index of the point, curve, surface or polyhedral surface patch within
+   * the geometry, counted depth first across nested collections
+   */
+  partIndex: number;
+
+  /**
+   * Index of the ring within the surface, 0 for the exterior ring and for
+   * points and curves
+   */
+  ringIndex: number;
+
+  /**
+   * Index of the point within the curve or ring, counted across the line
+   * strings of compound curves, 0 for points
+   */
+  vertexIndex: number;
+}
@@ -0,0 +1,206 @@
+import type {
+  CircularString,
+  Curve,
+  Geometry,
+  GeometryCoordinate,
+  GeometryVisitor,
+  MultiLineString,
+  MultiPoint,
+  MultiPolygon,
+  Point,
+  Polygon,
+  Surface,
+  TIN,
+  Triangle,
+} from "../../internal.ts";
+import {
+  CompoundCurve,
+  CurvePolygon,
+  GeometryCollection,
+  GeometryType,
+  LineString,
+  PolyhedralSurface,
+  SFException,
+} from "../../internal.ts";
+
+/**
+ * Geometry traversal of the points of every geometry type, in the order they
+ * are written to well-known text
+ */
+export class GeometryTraversal {
+  /**
+   * Iterate the non empty points of the geometry with their paths. The
+   * points are the geometry points, not copies.
+   * @param geometry geometry
+   * @returns geometry coordinates generator
+   */
+  public static *coordinates(
+    geometry: Geometry,
+  ): Generator<GeometryCoordinate> {
+    yield* GeometryTraversal.geometryCoordinates(geometry, { partIndex: 0 });
+  }
+
+  /**
+   * Map the points of a copy of the geometry. The x and y of each non empty
+   * point are replaced by those of the mapped point, as are the z and m
+   * values both points have, keeping the structure and flags of the geometry.
+   * @param geometry geometry
+   * @param mapper point mapping of a geometry coordinate
+   * @returns mapped geometry copy
+   */
+  public static mapCoordinates(
+    geometry: Geometry,
+    mapper: (coordinate: GeometryCoordinate) => Point,
+  ): Geometry {
+    const mapped = geometry.copy();
+    for (const coordinate of GeometryTraversal.coordinates(mapped)) {
+      const point = coordinate.point;
+      const result = mapper(coordinate);
+      point.x = result.x;
+      point.y = result.y;
+      if (point.hasZ && result.hasZ) {
+        point.z = result.z;
+      }
+      if (point.hasM && result.hasM) {
+        point.m = result.m;
+      }
+    }
+    return mapped;
+  }
+
+  /**
+   * Visit the geometry with the visitor method of its geometry type
+   * @param geometry geometry
+   * @param visitor geometry visitor
+   * @returns visit result
+   */
+  public static visit<T>(geometry: Geometry, visitor: GeometryVisitor<T>): T {
+    switch (geometry.geometryType) {
+      case GeometryType.Point:
+        return visitor.visitPoint(geometry as Point);
+      case GeometryType.LineString:
+        return visitor.visitLineString(geometry as LineString);
+      case GeometryType.CircularString:
+        return visitor.visitCircularString(geometry as CircularString);
+      case GeometryType.CompoundCurve:
+        return visitor.visitCompoundCurve(geometry as CompoundCurve);
+      case GeometryType.Polygon:
+        return visitor.visitPolygon(geometry as Polygon);
+      case GeometryType.Triangle:
+        return visitor.visitTriangle(geometry as Triangle);
+      case GeometryType.CurvePolygon:
+        return visitor.visitCurvePolygon(geometry as CurvePolygon<Curve>);
+      case GeometryType.PolyhedralSurface:
+        return visitor.visitPolyhedralSurface(geometry as PolyhedralSurface);
+      case GeometryType.Tin:
+        return visitor.visitTIN(geometry as TIN);
+      case GeometryType.MultiPoint:
+        return visitor.visitMultiPoint(geometry as MultiPoint);
+      case GeometryType.MultiLineString:
+        return visitor.visitMultiLineString(geometry as MultiLineString);
+      case GeometryType.MultiPolygon:
+        return visitor.visitMultiPolygon(geometry as MultiPolygon);
+      case GeometryType.MultiCurve:
+        return visitor.visitMultiCurve(
+          geometry as GeometryCollection<Curve>,
+        );
+      case GeometryType.MultiSurface:
+        return visitor.visitMultiSurface(
+          geometry as GeometryCollection<Surface>,
+        );
+      case GeometryType.GeometryCollection:
+        return visitor.visitGeometryCollection(
+          geometry as GeometryCollection,
+        );
+      default:
+        throw new SFException(
+          `Unsupported Geometry Type: ${geometry.geometryType}`,
+        );
+    }
+  }
+
+  /**
+   * Iterate the geometry coordinates, counting parts across nested
+   * geometries
+   * @param geometry geometry
+   * @param counter next part index
+   * @returns geometry coordinates generator
+   */
+  private static *geometryCoordinates(
+    geometry: Geometry,
+    counter: { partIndex: number },
+  ): Generator<GeometryCoordinate> {
+    if (geometry instanceof GeometryCollection) {
+      for (const child of geometry.geometries) {
+        yield* GeometryTraversal.geometryCoordinates(child, counter);
+      }
+    } else if (geometry instanceof PolyhedralSurface) {
+      for (const polygon of geometry.polygons) {
+        yield* GeometryTraversal.geometryCoordinates(polygon, counter);
+      }
+    } else {
+      const partIndex = counter.partIndex++;
+      if (geometry instanceof CurvePolygon) {
+        const rings = (geometry as CurvePolygon<Curve>).rings;
+        for (let ringIndex = 0; ringIndex < rings.length; ringIndex++) {
+          yield* GeometryTraversal.pointCoordinates(
+            GeometryTraversal.getCurvePoints(rings[ringIndex]),
+            partIndex,
+            ringIndex,
+          );
+        }
+      } else if (geometry.geometryType === GeometryType.Point) {
+        yield* GeometryTraversal.pointCoordinates(
+          [geometry as Point],
+          partIndex,
+          0,
+        );
+      } else {
+        yield* GeometryTraversal.pointCoordinates(
+          GeometryTraversal.getCurvePoints(geometry as Curve),
+          partIndex,
+          0,
+        );
+      }
+    }
+  }
+
+  /**
+   * Iterate the non empty points as geometry coordinates
+   * @param points points
+   * @param partIndex part index
+   * @param ringIndex ring index
+   * @returns geometry coordinates generator
+   */
+  private static *pointCoordinates(
+    points: Point[],
+    partIndex: number,
+    ringIndex: number,
+  ): Generator<GeometryCoordinate> {
+    for (let vertexIndex = 0; vertexIndex < points.length; vertexIndex++) {
+      const point = points[vertexIndex];
+      if (!point.isEmpty()) {
+        yield { point, partIndex, ringIndex, vertexIndex };
+      }
+    }
+  }
+
+  /**
+   * Get the points of a curve
+   * @param curve line string, circular string or compound curve
+   * @returns points
+   */
+  private static getCurvePoints(curve: Curve): Point[] {
+    let points: Point[];
+    if (curve instanceof CompoundCurve) {
+      points = curve.lineStrings.flatMap((lineString) => lineString.points);
+    } else if (curve instanceof LineString) {
+      points = curve.points;
+    } else {
+      throw new SFException(
+        `Unsupported Geometry Type: ${curve.geometryType}`,
+      );
+    }
+    return points;
+  }
+}
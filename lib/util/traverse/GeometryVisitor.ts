@@ -0,0 +1,129 @@
+import type {
+  CircularString,
+  CompoundCurve,
+  Curve,
+  CurvePolygon,
+  GeometryCollection,
+  LineString,
+  MultiLineString,
+  MultiPoint,
+  MultiPolygon,
+  Point,
+  Polygon,
+  PolyhedralSurface,
+  Surface,
+  TIN,
+  Triangle,
+} from "../../internal.ts";
+
+/**
+ * Geometry visitor with a method per geometry type, dispatched by
+ * {@link GeometryTraversal#visit}
+ * @param <T> visit result type
+ */
+export interface GeometryVisitor<T> {
+  /**
+   * Visit a point
+   * @param point point
+   * @returns result
+   */
+  visitPoint(point: Point): T;
+
+  /**
+   * Visit a line string, including lines and linear rings
+   * @param lineString line string
+   * @returns result
+   */
+  visitLineString(lineString: LineString): T;
+
+  /**
+   * Visit a circular string
+   * @param circularString circular string
+   * @returns result
+   */
+  visitCircularString(circularString: CircularString): T;
+
+  /**
+   * Visit a compound curve
+   * @param compoundCurve compound curve
+   * @returns result
+   */
+  visitCompoundCurve(compoundCurve: CompoundCurve): T;
+
+  /**
+   * Visit a polygon
+   * @param polygon polygon
+   * @returns result
+   */
+  visitPolygon(polygon: Polygon): T;
+
+  /**
+   * Visit a triangle
+   * @param triangle triangle
+   * @returns result
+   */
+  visitTriangle(triangle: Triangle): T;
+
+  /**
+   * Visit a curve polygon
+   * @param curvePolygon curve polygon
+   * @returns result
+   */
+  visitCurvePolygon(curvePolygon: CurvePolygon<Curve>): T;
+
+  /**
+   * Visit a polyhedral surface
+   * @param polyhedralSurface polyhedral surface
+   * @returns result
+   */
+  visitPolyhedralSurface(polyhedralSurface: PolyhedralSurface): T;
+
+  /**
+   * Visit a triangulated irregular network
+   * @param tin TIN
+   * @returns result
+   */
+  visitTIN(tin: TIN): T;
+
+  /**
+   * Visit a multi point
+   * @param multiPoint multi point
+   * @returns result
+   */
+  visitMultiPoint(multiPoint: MultiPoint): T;
+
+  /**
+   * Visit a multi line string
+   * @param multiLineString multi line string
+   * @returns result
+   */
+  visitMultiLineString(multiLineString: MultiLineString): T;
+
+  /**
+   * Visit a multi polygon
+   * @param multiPolygon multi polygon
+   * @returns result
+   */
+  visitMultiPolygon(multiPolygon: MultiPolygon): T;
+
+  /**
+   * Visit a multi curve
+   * @param multiCurve multi curve
+   * @returns result
+   */
+  visitMultiCurve(multiCurve: GeometryCollection<Curve>): T;
+
+  /**
+   * Visit a multi surface
+   * @param multiSurface multi surface
+   * @returns result
+   */
+  visitMultiSurface(multiSurface: GeometryCollection<Surface>): T;
+
+  /**
+   * Visit a geometry collection
+   * @param geometryCollection geometry collection
+   * @returns result
+   */
+  visitGeometryCollection(geometryCollection: GeometryCollection): T;
+}
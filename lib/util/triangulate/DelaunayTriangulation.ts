@@ -0,0 +1,265 @@
+import type { Geometry, Point } from "../../internal.ts";
+import {
+  DelaunayTriangulator,
+  GeometryComponents,
+  GeometryConstants,
+  LineString,
+  SegmentUtils,
+  TIN,
+  Triangle,
+} from "../../internal.ts";
+
+/**
+ * Constraint segment start and end points, flagged when part of a polygon
+ * ring
+ */
+type ConstraintSegment = [Point, Point, boolean];
+
+/**
+ * Delaunay triangulation of geometry vertices into a TIN of triangles. The
+ * constrained triangulation also honors the line and polygon ring segments
+ * of constraint geometries, which are noded at their intersections, and
+ * may keep only the triangles within the constraint polygons. Triangle
+ * vertices are copies of the geometry vertices, keeping z and m values, and
+ * new intersection vertices are interpolated. Constraint vertices take
+ * precedence over geometry vertices at the same location.
+ */
+export class DelaunayTriangulation {
+  /**
+   * Triangulate the vertices of a geometry
+   * @param geometry geometry
+   * @returns TIN, empty when the vertices are collinear
+   */
+  public static triangulate(geometry: Geometry): TIN {
+    const triangulator = new DelaunayTriangulator(
+      GeometryComponents.getVertices(geometry),
+    );
+    return DelaunayTriangulation.createTin(
+      triangulator,
+      triangulator.triangles.map(() => true),
+      geometry.hasZ,
+      geometry.hasM,
+      geometry.srid,
+    );
+  }
+
+  /**
+   * Triangulate the vertices of a geometry and constraint geometry,
+   * honoring the constraint line and polygon ring segments
+   * @param geometry geometry
+   * @param constraints constraint lines and polygons
+   * @param clipToPolygons true to keep only the triangles within the
+   *        constraint polygons and outside their holes
+   * @returns TIN, empty when the vertices are collinear
+   */
+  public static triangulateConstrained(
+    geometry: Geometry,
+    constraints: Geometry,
+    clipToPolygons = false,
+  ): TIN {
+    const components = new GeometryComponents(constraints);
+    const segments: ConstraintSegment[] = [];
+    for (const line of components.lines) {
+      DelaunayTriangulation.addSegments(line, false, segments);
+    }
+    for (const polygon of components.polygons) {
+      for (const ring of polygon) {
+        DelaunayTriangulation.addSegments(ring, true, segments);
+      }
+    }
+    const noded = DelaunayTriangulation.node(segments);
+
+    const points: Point[] = [];
+    for (const [start, end] of noded) {
+      points.push(start, end);
+    }
+    points.push(...GeometryComponents.getVertices(geometry));
+    const triangulator = new DelaunayTriangulator(points);
+
+    const ringEdges = new Set<string>();
+    for (const [start, end, ring] of noded) {
+      for (const [from, to] of triangulator.insertConstraint(start, end)) {
+        if (ring) {
+          ringEdges.add(DelaunayTriangulation.edgeKey(from, to));
+        }
+      }
+    }
+
+    let keep = triangulator.triangles.map(() => true);
+    if (clipToPolygons) {
+      keep = DelaunayTriangulation.getDepths(triangulator, ringEdges).map(
+        (depth) => depth % 2 === 1,
+      );
+    }
+    return DelaunayTriangulation.createTin(
+      triangulator,
+      keep,
+      geometry.hasZ || constraints.hasZ,
+      geometry.hasM || constraints.hasM,
+      geometry.srid,
+    );
+  }
+
+  /**
+   * Add the segments of a point list
+   * @param points points
+   * @param ring true if a polygon ring
+   * @param segments constraint segments
+   */
+  private static addSegments(
+    points: Point[],
+    ring: boolean,
+    segments: ConstraintSegment[],
+  ): void {
+    for (let i = 1; i < points.length; i++) {
+      segments.push([points[i - 1], points[i], ring]);
+    }
+  }
+
+  /**
+   * Split constraint segments at their intersections, sharing a single
+   * intersection point between the split segments
+   * @param segments constraint segments
+   * @returns noded constraint segments
+   */
+  private static node(segments: ConstraintSegment[]): ConstraintSegment[] {
+    const splits: [number, Point][][] = segments.map(() => []);
+    for (let i = 0; i < segments.length; i++) {
+      const [p1, p2] = segments[i];
+      for (let j = i + 1; j < segments.length; j++) {
+        const [q1, q2] = segments[j];
+        for (
+          const intersection of SegmentUtils.intersection(
+            p1,
+            p2,
+            q1,
+            q2,
+            GeometryConstants.DEFAULT_EQUAL_EPSILON,
+          )
+        ) {
+          const fraction1 = SegmentUtils.projectionFactor(intersection, p1, p2);
+          const fraction2 = SegmentUtils.projectionFactor(intersection, q1, q2);
+          let point = intersection;
+          if (![p1, p2, q1, q2].includes(intersection)) {
+            point = SegmentUtils.interpolate(p1, p2, fraction1);
+            point.x = intersection.x;
+            point.y = intersection.y;
+          }
+          splits[i].push([fraction1, point]);
+          splits[j].push([fraction2, point]);
+        }
+      }
+    }
+
+    const noded: ConstraintSegment[] = [];
+    for (let i = 0; i < segments.length; i++) {
+      const [start, end, ring] = segments[i];
+      const points = splits[i].filter(([fraction]) =>
+        fraction > 0 && fraction < 1
+      ).sort((split1, split2) => split1[0] - split2[0]).map(([, point]) =>
+        point
+      );
+      let previous = start;
+      for (const point of [...points, end]) {
+        if (previous.x !== point.x || previous.y !== point.y) {
+          noded.push([previous, point, ring]);
+          previous = point;
+        }
+      }
+    }
+    return noded;
+  }
+
+  /**
+   * Get the number of polygon ring edges crossed from outside the
+   * triangulation to each triangle
+   * @param triangulator triangulator
+   * @param ringEdges polygon ring edge keys
+   * @returns triangle depths
+   */
+  private static getDepths(
+    triangulator: DelaunayTriangulator,
+    ringEdges: Set<string>,
+  ): number[] {
+    const { triangles, neighbors } = triangulator;
+    const isRingEdge = (triangle: number, edge: number): boolean =>
+      ringEdges.has(
+        DelaunayTriangulation.edgeKey(
+          triangles[triangle][edge],
+          triangles[triangle][(edge + 1) % 3],
+        ),
+      );
+
+    const depths = triangles.map(() => -1);
+    let current: number[] = [];
+    let deeper: number[] = [];
+    for (let triangle = 0; triangle < triangles.length; triangle++) {
+      for (let edge = 0; edge < 3; edge++) {
+        if (neighbors[triangle][edge] < 0) {
+          (isRingEdge(triangle, edge) ? deeper : current).push(triangle);
+        }
+      }
+    }
+    let depth = 0;
+    while (current.length > 0 || deeper.length > 0) {
+      if (current.length === 0) {
+        current = deeper;
+        deeper = [];
+        depth++;
+      }
+      const triangle = current.pop()!;
+      if (depths[triangle] < 0) {
+        depths[triangle] = depth;
+        for (let edge = 0; edge < 3; edge++) {
+          const neighbor = neighbors[triangle][edge];
+          if (neighbor >= 0 && depths[neighbor] < 0) {
+            (isRingEdge(triangle, edge) ? deeper : current).push(neighbor);
+          }
+        }
+      }
+    }
+    return depths;
+  }
+
+  /**
+   * Get the undirected key of an edge
+   * @param from from point index
+   * @param to to point index
+   * @returns edge key
+   */
+  private static edgeKey(from: number, to: number): string {
+    return from < to ? from + "," + to : to + "," + from;
+  }
+
+  /**
+   * Create a TIN of the kept triangles
+   * @param triangulator triangulator
+   * @param keep kept triangle flags
+   * @param hasZ has z
+   * @param hasM has m
+   * @param srid srid
+   * @returns TIN
+   */
+  private static createTin(
+    triangulator: DelaunayTriangulator,
+    keep: boolean[],
+    hasZ: boolean,
+    hasM: boolean,
+    srid?: number,
+  ): TIN {
+    const tin = TIN.create(hasZ, hasM);
+    const { points, triangles } = triangulator;
+    for (let i = 0; i < triangles.length; i++) {
+      if (keep[i]) {
+        const [a, b, c] = triangles[i];
+        const ring = LineString.create(hasZ, hasM);
+        ring.points = [a, b, c, a].map((index) => points[index].copy());
+        const triangle = Triangle.create(hasZ, hasM);
+        triangle.addRing(ring);
+        tin.addPolygon(triangle);
+      }
+    }
+    tin.srid = srid;
+    return tin;
+  }
+}
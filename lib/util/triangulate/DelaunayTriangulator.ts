@@ -0,0 +1,525 @@
+import type { Point } from "../../internal.ts";
+import { SegmentUtils, SFException } from "../../internal.ts";
+
+/**
+ * Delaunay triangulation of a set of points built by incremental Bowyer-Watson
+ * insertion. The convex hull edges are bounded by ghost triangles sharing a
+ * vertex at infinity, so the triangulation always covers the exact convex hull
+ * of the points. Duplicate points are triangulated once and collinear points
+ * produce no triangles. Constraint edges between triangulated points can be
+ * inserted afterwards, replacing the triangles they cross with constrained
+ * Delaunay triangles on both sides of the edge.
+ */
+export class DelaunayTriangulator {
+  /**
+   * Ghost vertex at infinity
+   */
+  private static readonly GHOST = -1;
+
+  /**
+   * Unique points in input order
+   */
+  private readonly _points: Point[] = [];
+
+  /**
+   * Point indices by coordinate key
+   */
+  private readonly _indices = new Map<string, number>();
+
+  /**
+   * Counter clockwise triangles of point indices, created when first needed
+   */
+  private _triangles?: [number, number, number][];
+
+  /**
+   * Adjacent triangle indices across each triangle edge, -1 on the hull
+   */
+  private _neighbors?: [number, number, number][];
+
+  /**
+   * Working triangles, including ghost and deleted triangles
+   */
+  private readonly _vertices: number[][] = [];
+
+  /**
+   * Working triangle deleted flags
+   */
+  private readonly _deleted: boolean[] = [];
+
+  /**
+   * Working triangle indices by directed edge key
+   */
+  private readonly _edges = new Map<number, number>();
+
+  /**
+   * Working triangle index incident to each point
+   */
+  private readonly _pointTriangles: number[] = [];
+
+  /**
+   * Constructor
+   * @param points points
+   */
+  public constructor(points: Point[]) {
+    for (const point of points) {
+      const key = DelaunayTriangulator.pointKey(point);
+      if (!this._indices.has(key)) {
+        this._indices.set(key, this._points.length);
+        this._points.push(point);
+      }
+    }
+    this.triangulate();
+  }
+
+  /**
+   * Get the unique triangulated points
+   * @returns points
+   */
+  public get points(): Point[] {
+    return this._points;
+  }
+
+  /**
+   * Get the counter clockwise triangles as point indices
+   * @returns triangles
+   */
+  public get triangles(): [number, number, number][] {
+    if (this._triangles === undefined) {
+      this.createTriangles();
+    }
+    return this._triangles!;
+  }
+
+  /**
+   * Get the adjacent triangles of each triangle. Neighbor i is across the
+   * edge from triangle point i to triangle point i + 1, -1 on the hull.
+   * @returns neighbor triangle indices
+   */
+  public get neighbors(): [number, number, number][] {
+    if (this._neighbors === undefined) {
+      this.createTriangles();
+    }
+    return this._neighbors!;
+  }
+
+  /**
+   * Get the index of a triangulated point
+   * @param point point
+   * @returns point index, -1 when not triangulated
+   */
+  public indexOf(point: Point): number {
+    return this._indices.get(DelaunayTriangulator.pointKey(point)) ?? -1;
+  }
+
+  /**
+   * Insert a constraint edge between two triangulated points. The edge must
+   * not cross previously inserted constraint edges. The edge is split at
+   * triangulated points lying on it.
+   * @param start start point
+   * @param end end point
+   * @returns constrained edges of point indices, empty when the points are
+   *          equal or collinear with all other points
+   */
+  public insertConstraint(start: Point, end: Point): [number, number][] {
+    const from = this.indexOf(start);
+    const to = this.indexOf(end);
+    if (from < 0 || to < 0) {
+      throw new SFException(
+        "Constraint end points must be triangulated points",
+      );
+    }
+    const edges: [number, number][] = [];
+    if (from !== to && this._vertices.length > 0) {
+      this.insertEdge(from, to, edges);
+      this._triangles = undefined;
+      this._neighbors = undefined;
+    }
+    return edges;
+  }
+
+  /**
+   * Triangulate the points
+   */
+  private triangulate(): void {
+    const points = this._points;
+    const order = points.map((_point, index) => index);
+    order.sort((index1, index2) =>
+      points[index1].x - points[index2].x ||
+      points[index1].y - points[index2].y
+    );
+
+    let third = 2;
+    while (
+      third < order.length &&
+      this.orientation(order[0], order[1], order[third]) === 0
+    ) {
+      third++;
+    }
+    if (third >= order.length) {
+      return;
+    }
+
+    const first = order[0];
+    let second = order[1];
+    let last = order[third];
+    if (this.orientation(first, second, last) < 0) {
+      [second, last] = [last, second];
+    }
+    const ghost = DelaunayTriangulator.GHOST;
+    let start = this.addTriangle(first, second, last);
+    this.addTriangle(second, first, ghost);
+    this.addTriangle(last, second, ghost);
+    this.addTriangle(first, last, ghost);
+
+    for (let i = 2; i < order.length; i++) {
+      if (i !== third) {
+        start = this.insert(order[i], start);
+      }
+    }
+  }
+
+  /**
+   * Insert a point, replacing the triangles in conflict with it
+   * @param point point index
+   * @param start alive solid triangle to start locating the point from
+   * @returns alive solid triangle containing the point as a vertex
+   */
+  private insert(point: number, start: number): number {
+    const located = this.locate(point, start);
+    const cavity = new Set<number>([located]);
+    const stack = [located];
+    const boundary: [number, number][] = [];
+    while (stack.length > 0) {
+      const triangle = stack.pop()!;
+      const vertices = this._vertices[triangle];
+      for (let i = 0; i < 3; i++) {
+        const from = vertices[i];
+        const to = vertices[(i + 1) % 3];
+        const neighbor = this._edges.get(this.edgeKey(to, from))!;
+        if (cavity.has(neighbor)) {
+          continue;
+        }
+        if (this.isConflict(neighbor, point)) {
+          cavity.add(neighbor);
+          stack.push(neighbor);
+        } else {
+          boundary.push([from, to]);
+        }
+      }
+    }
+
+    for (const triangle of cavity) {
+      this.deleteTriangle(triangle);
+    }
+    let inserted = -1;
+    for (const [from, to] of boundary) {
+      const triangle = this.addTriangle(from, to, point);
+      if (
+        from !== DelaunayTriangulator.GHOST && to !== DelaunayTriangulator.GHOST
+      ) {
+        inserted = triangle;
+      }
+    }
+    return inserted;
+  }
+
+  /**
+   * Locate a triangle in conflict with a point by walking from a triangle
+   * towards the point
+   * @param point point index
+   * @param start alive solid triangle
+   * @returns solid triangle containing the point or ghost triangle beyond
+   *          the hull edge facing the point
+   */
+  private locate(point: number, start: number): number {
+    let triangle = start;
+    let walking = true;
+    while (walking) {
+      walking = false;
+      const vertices = this._vertices[triangle];
+      if (!vertices.includes(DelaunayTriangulator.GHOST)) {
+        for (let i = 0; i < 3; i++) {
+          const from = vertices[i];
+          const to = vertices[(i + 1) % 3];
+          if (this.orientation(from, to, point) < 0) {
+            triangle = this._edges.get(this.edgeKey(to, from))!;
+            walking = true;
+            break;
+          }
+        }
+      }
+    }
+    return triangle;
+  }
+
+  /**
+   * Insert an edge, splitting it at points on the edge
+   * @param from from point index
+   * @param to to point index
+   * @param edges inserted edges
+   */
+  private insertEdge(
+    from: number,
+    to: number,
+    edges: [number, number][],
+  ): void {
+    if (
+      this._edges.has(this.edgeKey(from, to)) ||
+      this._edges.has(this.edgeKey(to, from))
+    ) {
+      edges.push([from, to]);
+      return;
+    }
+
+    const onEdge = (point: number): boolean =>
+      point !== DelaunayTriangulator.GHOST &&
+      this.orientation(from, to, point) === 0 &&
+      SegmentUtils.projectionFactor(
+          this._points[point],
+          this._points[from],
+          this._points[to],
+        ) > 0;
+
+    let triangle = this._pointTriangles[from];
+    let right: number;
+    let left: number;
+    for (;;) {
+      const vertices = this._vertices[triangle];
+      const index = vertices.indexOf(from);
+      right = vertices[(index + 1) % 3];
+      left = vertices[(index + 2) % 3];
+      if (onEdge(right) || onEdge(left)) {
+        const split = onEdge(right) ? right : left;
+        this.insertEdge(from, split, edges);
+        this.insertEdge(split, to, edges);
+        return;
+      }
+      if (
+        right !== DelaunayTriangulator.GHOST &&
+        left !== DelaunayTriangulator.GHOST &&
+        this.orientation(from, to, right) < 0 &&
+        this.orientation(from, to, left) > 0
+      ) {
+        break;
+      }
+      triangle = this._edges.get(this.edgeKey(from, left))!;
+    }
+
+    const crossed = [triangle];
+    const rightChain = [right];
+    const leftChain = [left];
+    let end = to;
+    for (;;) {
+      const next = this._edges.get(this.edgeKey(left, right))!;
+      crossed.push(next);
+      const vertices = this._vertices[next];
+      const apex = vertices[(vertices.indexOf(left) + 2) % 3];
+      if (apex === to) {
+        break;
+      }
+      const orientation = this.orientation(from, to, apex);
+      if (orientation === 0) {
+        end = apex;
+        break;
+      } else if (orientation < 0) {
+        rightChain.push(apex);
+        right = apex;
+      } else {
+        leftChain.push(apex);
+        left = apex;
+      }
+    }
+
+    for (const triangle of crossed) {
+      this.deleteTriangle(triangle);
+    }
+    this.triangulatePseudoPolygon(from, end, leftChain);
+    this.triangulatePseudoPolygon(end, from, rightChain.reverse());
+    edges.push([from, end]);
+    if (end !== to) {
+      this.insertEdge(end, to, edges);
+    }
+  }
+
+  /**
+   * Triangulate the pseudo polygon on the left of an edge, choosing the
+   * chain point whose circumcircle with the edge contains no other chain
+   * point and recursing on both sides of it
+   * @param from edge from point index
+   * @param to edge to point index
+   * @param chain points on the left of the edge, ordered from the edge from
+   *        point towards the edge to point
+   */
+  private triangulatePseudoPolygon(
+    from: number,
+    to: number,
+    chain: number[],
+  ): void {
+    if (chain.length > 0) {
+      let apex = 0;
+      for (let i = 1; i < chain.length; i++) {
+        if (this.inCircle(from, to, chain[apex], chain[i])) {
+          apex = i;
+        }
+      }
+      this.addTriangle(from, to, chain[apex]);
+      this.triangulatePseudoPolygon(from, chain[apex], chain.slice(0, apex));
+      this.triangulatePseudoPolygon(chain[apex], to, chain.slice(apex + 1));
+    }
+  }
+
+  /**
+   * Determine if a point is in conflict with a triangle, strictly within
+   * the circumcircle of a solid triangle or strictly beyond the hull edge of
+   * a ghost triangle
+   * @param triangle triangle index
+   * @param point point index
+   * @returns true if in conflict
+   */
+  private isConflict(triangle: number, point: number): boolean {
+    const vertices = this._vertices[triangle];
+    const ghost = vertices.indexOf(DelaunayTriangulator.GHOST);
+    let conflict: boolean;
+    if (ghost < 0) {
+      conflict = this.inCircle(vertices[0], vertices[1], vertices[2], point);
+    } else {
+      const from = vertices[(ghost + 1) % 3];
+      const to = vertices[(ghost + 2) % 3];
+      const orientation = this.orientation(from, to, point);
+      if (orientation === 0) {
+        const fraction = SegmentUtils.projectionFactor(
+          this._points[point],
+          this._points[from],
+          this._points[to],
+        );
+        conflict = fraction > 0 && fraction < 1;
+      } else {
+        conflict = orientation > 0;
+      }
+    }
+    return conflict;
+  }
+
+  /**
+   * Determine if a point is strictly within the circumcircle of a counter
+   * clockwise triangle
+   * @param a triangle point index a
+   * @param b triangle point index b
+   * @param c triangle point index c
+   * @param point point index
+   * @returns true if within the circumcircle
+   */
+  private inCircle(a: number, b: number, c: number, point: number): boolean {
+    const p = this._points[point];
+    const adx = this._points[a].x - p.x;
+    const ady = this._points[a].y - p.y;
+    const bdx = this._points[b].x - p.x;
+    const bdy = this._points[b].y - p.y;
+    const cdx = this._points[c].x - p.x;
+    const cdy = this._points[c].y - p.y;
+    return (adx * adx + ady * ady) * (bdx * cdy - cdx * bdy) +
+        (bdx * bdx + bdy * bdy) * (cdx * ady - adx * cdy) +
+        (cdx * cdx + cdy * cdy) * (adx * bdy - bdx * ady) > 0;
+  }
+
+  /**
+   * Get the orientation of three points
+   * @param a point index a
+   * @param b point index b
+   * @param c point index c
+   * @returns positive when counter clockwise, negative when clockwise, zero
+   *          when collinear
+   */
+  private orientation(a: number, b: number, c: number): number {
+    return SegmentUtils.orientation(
+      this._points[a],
+      this._points[b],
+      this._points[c],
+    );
+  }
+
+  /**
+   * Add a working triangle
+   * @param a point index a
+   * @param b point index b
+   * @param c point index c
+   * @returns triangle index
+   */
+  private addTriangle(a: number, b: number, c: number): number {
+    const triangle = this._vertices.length;
+    this._vertices.push([a, b, c]);
+    this._deleted.push(false);
+    this._edges.set(this.edgeKey(a, b), triangle);
+    this._edges.set(this.edgeKey(b, c), triangle);
+    this._edges.set(this.edgeKey(c, a), triangle);
+    for (const point of [a, b, c]) {
+      if (point !== DelaunayTriangulator.GHOST) {
+        this._pointTriangles[point] = triangle;
+      }
+    }
+    return triangle;
+  }
+
+  /**
+   * Delete a working triangle
+   * @param triangle triangle index
+   */
+  private deleteTriangle(triangle: number): void {
+    const [a, b, c] = this._vertices[triangle];
+    this._deleted[triangle] = true;
+    this._edges.delete(this.edgeKey(a, b));
+    this._edges.delete(this.edgeKey(b, c));
+    this._edges.delete(this.edgeKey(c, a));
+  }
+
+  /**
+   * Get the key of a directed edge
+   * @param from from point index
+   * @param to to point index
+   * @returns edge key
+   */
+  private edgeKey(from: number, to: number): number {
+    const count = this._points.length;
+    return (from < 0 ? count : from) * (count + 1) + (to < 0 ? count : to);
+  }
+
+  /**
+   * Get the coordinate key of a point
+   * @param point point
+   * @returns key
+   */
+  private static pointKey(point: Point): string {
+    return point.x + "," + point.y;
+  }
+
+  /**
+   * Create the solid triangles and their neighbors from the working
+   * triangles
+   */
+  private createTriangles(): void {
+    this._triangles = [];
+    this._neighbors = [];
+    const indices = new Map<number, number>();
+    for (let triangle = 0; triangle < this._vertices.length; triangle++) {
+      const vertices = this._vertices[triangle];
+      if (
+        !this._deleted[triangle] &&
+        !vertices.includes(DelaunayTriangulator.GHOST)
+      ) {
+        indices.set(triangle, this._triangles.length);
+        this._triangles.push([vertices[0], vertices[1], vertices[2]]);
+      }
+    }
+    for (const [triangle] of indices) {
+      const vertices = this._vertices[triangle];
+      const neighbors: number[] = [];
+      for (let i = 0; i < 3; i++) {
+        const neighbor = this._edges.get(
+          this.edgeKey(vertices[(i + 1) % 3], vertices[i]),
+        )!;
+        neighbors.push(indices.get(neighbor) ?? -1);
+      }
+      this._neighbors.push([neighbors[0], neighbors[1], neighbors[2]]);
+    }
+  }
+}
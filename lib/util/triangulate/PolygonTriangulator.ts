@@ -0,0 +1,674 @@
+import type { Geometry, Point, TriangulationArrays } from "../../internal.ts";
+import {
+  GeometryComponents,
+  GeometryTypeUtils,
+  LineString,
+  SFException,
+  TIN,
+  Triangle,
+} from "../../internal.ts";
+
+/**
+ * Polygon ring vertex in a circular doubly linked list
+ */
+class EarNode {
+  /**
+   * Previous node
+   */
+  public prev: EarNode = this;
+
+  /**
+   * Next node
+   */
+  public next: EarNode = this;
+
+  /**
+   * True if a single point hole vertex, which is never filtered
+   */
+  public steiner = false;
+
+  /**
+   * Constructor
+   * @param index vertex index
+   * @param x x coordinate
+   * @param y y coordinate
+   */
+  public constructor(
+    public readonly index: number,
+    public readonly x: number,
+    public readonly y: number,
+  ) {}
+}
+
+/**
+ * Triangulates polygons with holes by ear clipping, for rendering. Holes are
+ * bridged into the exterior ring, then ears are clipped. Duplicate and
+ * collinear vertices are filtered and self touching rings are cured or split
+ * when no ear remains, so the degenerate rings accepted as simple polygons
+ * are triangulated. Curves are linearized.
+ */
+export class PolygonTriangulator {
+  /**
+   * Triangulate a polygonal geometry into a TIN of counter clockwise
+   * triangles
+   * @param geometry polygon, multi polygon or other polygonal geometry
+   * @returns TIN, keeping the z and m values and srid of the geometry
+   */
+  public static triangulate(geometry: Geometry): TIN {
+    const vertices: Point[] = [];
+    const indices = PolygonTriangulator.triangulatePolygons(geometry, vertices);
+    const tin = TIN.create(geometry.hasZ, geometry.hasM);
+    for (let i = 0; i < indices.length; i += 3) {
+      const ring = LineString.create(geometry.hasZ, geometry.hasM);
+      ring.points = [i, i + 1, i + 2, i].map((index) =>
+        vertices[indices[index]].copy()
+      );
+      const triangle = Triangle.create(geometry.hasZ, geometry.hasM);
+      triangle.addRing(ring);
+      tin.addPolygon(triangle);
+    }
+    tin.srid = geometry.srid;
+    return tin;
+  }
+
+  /**
+   * Triangulate a polygonal geometry into flat vertex and index arrays
+   * @param geometry polygon, multi polygon or other polygonal geometry
+   * @returns vertices of all ring points without closing points, with z
+   *          values when the geometry has z, and triangle indices
+   */
+  public static triangulateToArrays(geometry: Geometry): TriangulationArrays {
+    const points: Point[] = [];
+    const indices = PolygonTriangulator.triangulatePolygons(geometry, points);
+    const dimension = geometry.hasZ ? 3 : 2;
+    const vertices = new Float64Array(points.length * dimension);
+    for (let i = 0; i < points.length; i++) {
+      vertices[i * dimension] = points[i].x;
+      vertices[i * dimension + 1] = points[i].y;
+      if (dimension === 3) {
+        vertices[i * dimension + 2] = points[i].z ?? 0;
+      }
+    }
+    return {
+      dimension,
+      vertices,
+      indices: Uint32Array.from(indices),
+    };
+  }
+
+  /**
+   * Triangulate the polygons of a geometry
+   * @param geometry polygonal geometry
+   * @param vertices vertices to add the ring points to
+   * @returns triangle vertex indices
+   */
+  private static triangulatePolygons(
+    geometry: Geometry,
+    vertices: Point[],
+  ): number[] {
+    const components = new GeometryComponents(geometry);
+    if (components.points.length > 0 || components.lines.length > 0) {
+      throw new SFException(
+        "Triangulation requires polygonal geometries, found " +
+          GeometryTypeUtils.nameFromType(geometry.geometryType),
+      );
+    }
+    const triangles: number[] = [];
+    for (const polygon of components.polygons) {
+      let outer: EarNode | undefined;
+      const holes: EarNode[] = [];
+      for (let i = 0; i < polygon.length; i++) {
+        const ring = polygon[i].slice(0, polygon[i].length - 1);
+        const node = PolygonTriangulator.linkedList(
+          ring,
+          vertices.length,
+          i === 0,
+        );
+        vertices.push(...ring);
+        if (i === 0) {
+          outer = node;
+        } else if (node !== undefined) {
+          holes.push(node);
+        }
+      }
+      if (outer !== undefined && outer.next !== outer.prev) {
+        outer = PolygonTriangulator.eliminateHoles(holes, outer);
+        PolygonTriangulator.earcut(outer, triangles, 0);
+      }
+    }
+    return triangles;
+  }
+
+  /**
+   * Create a circular linked list of ring vertices in the requested winding
+   * @param ring ring points without the closing point
+   * @param offset index of the first ring point
+   * @param counterClockwise true for counter clockwise, false for clockwise
+   * @returns last node, undefined when empty
+   */
+  private static linkedList(
+    ring: Point[],
+    offset: number,
+    counterClockwise: boolean,
+  ): EarNode | undefined {
+    let area = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      area += (ring[j].x - ring[i].x) * (ring[i].y + ring[j].y);
+    }
+    let last: EarNode | undefined;
+    if (counterClockwise === area > 0) {
+      for (let i = 0; i < ring.length; i++) {
+        last = PolygonTriangulator.insertNode(offset + i, ring[i], last);
+      }
+    } else {
+      for (let i = ring.length - 1; i >= 0; i--) {
+        last = PolygonTriangulator.insertNode(offset + i, ring[i], last);
+      }
+    }
+    if (last !== undefined && PolygonTriangulator.equals(last, last.next)) {
+      PolygonTriangulator.removeNode(last);
+      last = last.next;
+    }
+    return last;
+  }
+
+  /**
+   * Clip the ears of a ring, retrying with filtered points, cured local
+   * intersections and finally split rings when no ear remains
+   * @param start ring node
+   * @param triangles triangle vertex indices
+   * @param pass retry pass
+   */
+  private static earcut(
+    start: EarNode | undefined,
+    triangles: number[],
+    pass: number,
+  ): void {
+    if (start === undefined) {
+      return;
+    }
+    let ear = start;
+    let stop = ear;
+    while (ear.prev !== ear.next) {
+      const prev = ear.prev;
+      const next = ear.next;
+      if (PolygonTriangulator.isEar(ear)) {
+        triangles.push(prev.index, ear.index, next.index);
+        PolygonTriangulator.removeNode(ear);
+        ear = next.next;
+        stop = next.next;
+        continue;
+      }
+      ear = next;
+      if (ear === stop) {
+        if (pass === 0) {
+          PolygonTriangulator.earcut(
+            PolygonTriangulator.filterPoints(ear),
+            triangles,
+            1,
+          );
+        } else if (pass === 1) {
+          PolygonTriangulator.earcut(
+            PolygonTriangulator.cureLocalIntersections(
+              PolygonTriangulator.filterPoints(ear),
+              triangles,
+            ),
+            triangles,
+            2,
+          );
+        } else {
+          PolygonTriangulator.splitEarcut(ear, triangles);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Determine if a node is a convex vertex with no other reflex vertex in its
+   * triangle
+   * @param ear node
+   * @returns true if an ear
+   */
+  private static isEar(ear: EarNode): boolean {
+    const a = ear.prev;
+    const b = ear;
+    const c = ear.next;
+    if (PolygonTriangulator.area(a, b, c) >= 0) {
+      return false;
+    }
+    const minX = Math.min(a.x, b.x, c.x);
+    const minY = Math.min(a.y, b.y, c.y);
+    const maxX = Math.max(a.x, b.x, c.x);
+    const maxY = Math.max(a.y, b.y, c.y);
+    let p = c.next;
+    while (p !== a) {
+      if (
+        p.x >= minX && p.x <= maxX && p.y >= minY && p.y <= maxY &&
+        PolygonTriangulator.pointInTriangle(a, b, c, p) &&
+        PolygonTriangulator.area(p.prev, p, p.next) >= 0
+      ) {
+        return false;
+      }
+      p = p.next;
+    }
+    return true;
+  }
+
+  /**
+   * Remove duplicate and collinear vertices
+   * @param start start node
+   * @param end end node, defaults to the start node
+   * @returns remaining node
+   */
+  private static filterPoints(start: EarNode, end: EarNode = start): EarNode {
+    let p = start;
+    let again: boolean;
+    do {
+      again = false;
+      if (
+        !p.steiner &&
+        (PolygonTriangulator.equals(p, p.next) ||
+          PolygonTriangulator.area(p.prev, p, p.next) === 0)
+      ) {
+        PolygonTriangulator.removeNode(p);
+        p = end = p.prev;
+        if (p === p.next) {
+          break;
+        }
+        again = true;
+      } else {
+        p = p.next;
+      }
+    } while (again || p !== end);
+    return end;
+  }
+
+  /**
+   * Clip the triangles of small self intersecting loops
+   * @param start start node
+   * @param triangles triangle vertex indices
+   * @returns remaining node
+   */
+  private static cureLocalIntersections(
+    start: EarNode,
+    triangles: number[],
+  ): EarNode {
+    let p = start;
+    do {
+      const a = p.prev;
+      const b = p.next.next;
+      if (
+        !PolygonTriangulator.equals(a, b) &&
+        PolygonTriangulator.intersects(a, p, p.next, b) &&
+        PolygonTriangulator.locallyInside(a, b) &&
+        PolygonTriangulator.locallyInside(b, a)
+      ) {
+        triangles.push(a.index, p.index, b.index);
+        PolygonTriangulator.removeNode(p);
+        PolygonTriangulator.removeNode(p.next);
+        p = start = b;
+      }
+      p = p.next;
+    } while (p !== start);
+    return PolygonTriangulator.filterPoints(p);
+  }
+
+  /**
+   * Split the ring along a valid diagonal and clip both parts
+   * @param start start node
+   * @param triangles triangle vertex indices
+   */
+  private static splitEarcut(start: EarNode, triangles: number[]): void {
+    let a = start;
+    do {
+      let b = a.next.next;
+      while (b !== a.prev) {
+        if (a.index !== b.index && PolygonTriangulator.isValidDiagonal(a, b)) {
+          const c = PolygonTriangulator.splitPolygon(a, b);
+          PolygonTriangulator.earcut(
+            PolygonTriangulator.filterPoints(a, a.next),
+            triangles,
+            0,
+          );
+          PolygonTriangulator.earcut(
+            PolygonTriangulator.filterPoints(c, c.next),
+            triangles,
+            0,
+          );
+          return;
+        }
+        b = b.next;
+      }
+      a = a.next;
+    } while (a !== start);
+  }
+
+  /**
+   * Bridge the holes into the exterior ring, from left to right
+   * @param holes hole nodes
+   * @param outer exterior ring node
+   * @returns exterior ring node
+   */
+  private static eliminateHoles(holes: EarNode[], outer: EarNode): EarNode {
+    const leftmost = holes.map((hole) => {
+      if (hole === hole.next) {
+        hole.steiner = true;
+      }
+      return PolygonTriangulator.getLeftmost(hole);
+    });
+    leftmost.sort((node1, node2) => node1.x - node2.x);
+    for (const hole of leftmost) {
+      const bridge = PolygonTriangulator.findHoleBridge(hole, outer);
+      if (bridge !== undefined) {
+        const bridgeReverse = PolygonTriangulator.splitPolygon(bridge, hole);
+        PolygonTriangulator.filterPoints(bridgeReverse, bridgeReverse.next);
+        outer = PolygonTriangulator.filterPoints(bridge, bridge.next);
+      }
+    }
+    return outer;
+  }
+
+  /**
+   * Find the exterior ring vertex to bridge a hole to, visible from the
+   * leftmost hole vertex
+   * @param hole leftmost hole node
+   * @param outer exterior ring node
+   * @returns bridge node, undefined when not found
+   */
+  private static findHoleBridge(
+    hole: EarNode,
+    outer: EarNode,
+  ): EarNode | undefined {
+    const hx = hole.x;
+    const hy = hole.y;
+    let qx = Number.NEGATIVE_INFINITY;
+    let m: EarNode | undefined;
+    let p = outer;
+    do {
+      if (hy <= p.y && hy >= p.next.y && p.next.y !== p.y) {
+        const x = p.x + (hy - p.y) * (p.next.x - p.x) / (p.next.y - p.y);
+        if (x <= hx && x > qx) {
+          qx = x;
+          m = p.x < p.next.x ? p : p.next;
+          if (x === hx) {
+            return m;
+          }
+        }
+      }
+      p = p.next;
+    } while (p !== outer);
+    if (m === undefined) {
+      return undefined;
+    }
+
+    const stop = m;
+    const mx = m.x;
+    const my = m.y;
+    let tanMin = Number.POSITIVE_INFINITY;
+    p = m;
+    do {
+      if (
+        hx >= p.x && p.x >= mx && hx !== p.x &&
+        PolygonTriangulator.pointInTriangle(
+          { x: hy < my ? hx : qx, y: hy },
+          { x: mx, y: my },
+          { x: hy < my ? qx : hx, y: hy },
+          p,
+        )
+      ) {
+        const tan = Math.abs(hy - p.y) / (hx - p.x);
+        if (
+          PolygonTriangulator.locallyInside(p, hole) &&
+          (tan < tanMin ||
+            (tan === tanMin &&
+              (p.x > m.x ||
+                (p.x === m.x &&
+                  PolygonTriangulator.sectorContainsSector(m, p)))))
+        ) {
+          m = p;
+          tanMin = tan;
+        }
+      }
+      p = p.next;
+    } while (p !== stop);
+    return m;
+  }
+
+  /**
+   * Determine if the sector of one vertex contains the sector of another
+   * @param m vertex node
+   * @param p other vertex node
+   * @returns true if contained
+   */
+  private static sectorContainsSector(m: EarNode, p: EarNode): boolean {
+    return PolygonTriangulator.area(m.prev, m, p.prev) < 0 &&
+      PolygonTriangulator.area(p.next, m, m.next) < 0;
+  }
+
+  /**
+   * Get the leftmost, then lowest, node of a ring
+   * @param start ring node
+   * @returns leftmost node
+   */
+  private static getLeftmost(start: EarNode): EarNode {
+    let p = start;
+    let leftmost = start;
+    do {
+      if (p.x < leftmost.x || (p.x === leftmost.x && p.y < leftmost.y)) {
+        leftmost = p;
+      }
+      p = p.next;
+    } while (p !== start);
+    return leftmost;
+  }
+
+  /**
+   * Determine if a diagonal between two nodes is inside the ring and does not
+   * intersect its edges
+   * @param a node a
+   * @param b node b
+   * @returns true if valid
+   */
+  private static isValidDiagonal(a: EarNode, b: EarNode): boolean {
+    return a.next.index !== b.index && a.prev.index !== b.index &&
+      !PolygonTriangulator.intersectsPolygon(a, b) &&
+      ((PolygonTriangulator.locallyInside(a, b) &&
+        PolygonTriangulator.locallyInside(b, a) &&
+        PolygonTriangulator.middleInside(a, b) &&
+        (PolygonTriangulator.area(a.prev, a, b.prev) !== 0 ||
+          PolygonTriangulator.area(a, b.prev, b) !== 0)) ||
+        (PolygonTriangulator.equals(a, b) &&
+          PolygonTriangulator.area(a.prev, a, a.next) > 0 &&
+          PolygonTriangulator.area(b.prev, b, b.next) > 0));
+  }
+
+  /**
+   * Determine if a diagonal intersects any ring edge not sharing its nodes
+   * @param a node a
+   * @param b node b
+   * @returns true if intersecting
+   */
+  private static intersectsPolygon(a: EarNode, b: EarNode): boolean {
+    let p = a;
+    do {
+      if (
+        p.index !== a.index && p.next.index !== a.index &&
+        p.index !== b.index && p.next.index !== b.index &&
+        PolygonTriangulator.intersects(p, p.next, a, b)
+      ) {
+        return true;
+      }
+      p = p.next;
+    } while (p !== a);
+    return false;
+  }
+
+  /**
+   * Determine if a diagonal from a node is locally inside the ring
+   * @param a node a
+   * @param b node b
+   * @returns true if inside at node a
+   */
+  private static locallyInside(a: EarNode, b: EarNode): boolean {
+    return PolygonTriangulator.area(a.prev, a, a.next) < 0
+      ? PolygonTriangulator.area(a, b, a.next) >= 0 &&
+        PolygonTriangulator.area(a, a.prev, b) >= 0
+      : PolygonTriangulator.area(a, b, a.prev) < 0 ||
+        PolygonTriangulator.area(a, a.next, b) < 0;
+  }
+
+  /**
+   * Determine if the middle of a diagonal is inside the ring
+   * @param a node a
+   * @param b node b
+   * @returns true if inside
+   */
+  private static middleInside(a: EarNode, b: EarNode): boolean {
+    let p = a;
+    let inside = false;
+    const px = (a.x + b.x) / 2;
+    const py = (a.y + b.y) / 2;
+    do {
+      if (
+        (p.y > py) !== (p.next.y > py) && p.next.y !== p.y &&
+        px < (p.next.x - p.x) * (py - p.y) / (p.next.y - p.y) + p.x
+      ) {
+        inside = !inside;
+      }
+      p = p.next;
+    } while (p !== a);
+    return inside;
+  }
+
+  /**
+   * Split a ring in two along a diagonal, duplicating the diagonal nodes
+   * @param a node a
+   * @param b node b
+   * @returns duplicate of node b in the split off ring
+   */
+  private static splitPolygon(a: EarNode, b: EarNode): EarNode {
+    const a2 = new EarNode(a.index, a.x, a.y);
+    const b2 = new EarNode(b.index, b.x, b.y);
+    const an = a.next;
+    const bp = b.prev;
+    a.next = b;
+    b.prev = a;
+    a2.next = an;
+    an.prev = a2;
+    b2.next = a2;
+    a2.prev = b2;
+    bp.next = b2;
+    b2.prev = bp;
+    return b2;
+  }
+
+  /**
+   * Determine if two segments intersect, including touching
+   * @param p1 first segment start
+   * @param q1 first segment end
+   * @param p2 second segment start
+   * @param q2 second segment end
+   * @returns true if intersecting
+   */
+  private static intersects(
+    p1: EarNode,
+    q1: EarNode,
+    p2: EarNode,
+    q2: EarNode,
+  ): boolean {
+    const o1 = Math.sign(PolygonTriangulator.area(p1, q1, p2));
+    const o2 = Math.sign(PolygonTriangulator.area(p1, q1, q2));
+    const o3 = Math.sign(PolygonTriangulator.area(p2, q2, p1));
+    const o4 = Math.sign(PolygonTriangulator.area(p2, q2, q1));
+    return (o1 !== o2 && o3 !== o4) ||
+      (o1 === 0 && PolygonTriangulator.onSegment(p1, p2, q1)) ||
+      (o2 === 0 && PolygonTriangulator.onSegment(p1, q2, q1)) ||
+      (o3 === 0 && PolygonTriangulator.onSegment(p2, p1, q2)) ||
+      (o4 === 0 && PolygonTriangulator.onSegment(p2, q1, q2));
+  }
+
+  /**
+   * Determine if a collinear point is within the bounds of a segment
+   * @param p segment start
+   * @param q collinear point
+   * @param r segment end
+   * @returns true if on the segment
+   */
+  private static onSegment(p: EarNode, q: EarNode, r: EarNode): boolean {
+    return q.x <= Math.max(p.x, r.x) && q.x >= Math.min(p.x, r.x) &&
+      q.y <= Math.max(p.y, r.y) && q.y >= Math.min(p.y, r.y);
+  }
+
+  /**
+   * Determine if a point is in a counter clockwise triangle, including its
+   * boundary
+   * @param a triangle point a
+   * @param b triangle point b
+   * @param c triangle point c
+   * @param p point
+   * @returns true if in the triangle
+   */
+  private static pointInTriangle(
+    a: { x: number; y: number },
+    b: { x: number; y: number },
+    c: { x: number; y: number },
+    p: { x: number; y: number },
+  ): boolean {
+    return (c.x - p.x) * (a.y - p.y) >= (a.x - p.x) * (c.y - p.y) &&
+      (a.x - p.x) * (b.y - p.y) >= (b.x - p.x) * (a.y - p.y) &&
+      (b.x - p.x) * (c.y - p.y) >= (c.x - p.x) * (b.y - p.y);
+  }
+
+  /**
+   * Get the doubled signed area of a triangle
+   * @param p point p
+   * @param q point q
+   * @param r point r
+   * @returns negative when counter clockwise, positive when clockwise
+   */
+  private static area(p: EarNode, q: EarNode, r: EarNode): number {
+    return (q.y - p.y) * (r.x - q.x) - (q.x - p.x) * (r.y - q.y);
+  }
+
+  /**
+   * Determine if two nodes have equal coordinates
+   * @param p1 node 1
+   * @param p2 node 2
+   * @returns true if equal
+   */
+  private static equals(p1: EarNode, p2: EarNode): boolean {
+    return p1.x === p2.x && p1.y === p2.y;
+  }
+
+  /**
+   * Insert a node after the last node
+   * @param index vertex index
+   * @param point vertex point
+   * @param last last node
+   * @returns inserted node
+   */
+  private static insertNode(
+    index: number,
+    point: Point,
+    last?: EarNode,
+  ): EarNode {
+    const node = new EarNode(index, point.x, point.y);
+    if (last !== undefined) {
+      node.next = last.next;
+      node.prev = last;
+      last.next.prev = node;
+      last.next = node;
+    }
+    return node;
+  }
+
+  /**
+   * Remove a node from its ring
+   * @param node node
+   */
+  private static removeNode(node: EarNode): void {
+    node.next.prev = node.prev;
+    node.prev.next = node.next;
+  }
+}
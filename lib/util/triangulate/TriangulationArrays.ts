@@ -0,0 +1,19 @@
+/**
+ * Flat triangulation arrays for rendering
+ */
+export interface TriangulationArrays {
+  /**
+   * Number of coordinate values per vertex, 2 for x and y or 3 with z
+   */
+  dimension: number;
+
+  /**
+   * Vertex coordinate values
+   */
+  vertices: Float64Array;
+
+  /**
+   * Counter clockwise triangle vertex indices, three per triangle
+   */
+  indices: Uint32Array;
+}
@@ -0,0 +1,250 @@
+import type { Geometry } from "../../internal.ts";
+import {
+  DelaunayTriangulator,
+  GeometryCollection,
+  GeometryComponents,
+  GeometryEnvelope,
+  LineString,
+  Point,
+  Polygon,
+} from "../../internal.ts";
+
+/**
+ * Builds the Voronoi diagram of the vertices of a geometry as polygon cells
+ * clipped to an envelope. Each cell is the area of the envelope closer to its
+ * site than to any other site, computed by clipping the envelope by the
+ * perpendicular bisectors with the Delaunay neighbors of the site. Cells are
+ * in the order of the unique sites, so each input point maps to the cell of
+ * its site. Sites outside of the envelope have empty cells.
+ */
+export class VoronoiDiagramBuilder {
+  /**
+   * Default margin expanding the site envelope, as a ratio of the site
+   * envelope diagonal
+   */
+  public static readonly DEFAULT_MARGIN_RATIO = 0.5;
+
+  /**
+   * Geometry
+   */
+  private readonly _geometry: Geometry;
+
+  /**
+   * Delaunay triangulation of the sites
+   */
+  private readonly _triangulator: DelaunayTriangulator;
+
+  /**
+   * Clipping envelope
+   */
+  private readonly _envelope: GeometryEnvelope;
+
+  /**
+   * Cells, created when first needed
+   */
+  private _cells?: Polygon[];
+
+  /**
+   * Constructor
+   * @param geometry geometry of the sites
+   * @param envelope clipping envelope, defaults to the site envelope expanded
+   *        by the default margin
+   */
+  public constructor(geometry: Geometry, envelope?: GeometryEnvelope) {
+    this._geometry = geometry;
+    this._triangulator = new DelaunayTriangulator(
+      GeometryComponents.getVertices(geometry),
+    );
+    this._envelope = envelope ?? this.getDefaultEnvelope();
+  }
+
+  /**
+   * Get the unique sites, in the order of the cells
+   * @returns sites
+   */
+  public get sites(): Point[] {
+    return this._triangulator.points;
+  }
+
+  /**
+   * Get the clipping envelope
+   * @returns envelope
+   */
+  public get envelope(): GeometryEnvelope {
+    return this._envelope;
+  }
+
+  /**
+   * Get the cells, in the order of the sites
+   * @returns cell polygons, empty for sites outside of the envelope
+   */
+  public get cells(): Polygon[] {
+    if (this._cells === undefined) {
+      this._cells = this.createCells();
+    }
+    return this._cells;
+  }
+
+  /**
+   * Get the cell of a site
+   * @param point site point
+   * @returns cell polygon or undefined when not a site
+   */
+  public getCell(point: Point): Polygon | undefined {
+    const index = this._triangulator.indexOf(point);
+    return index >= 0 ? this.cells[index] : undefined;
+  }
+
+  /**
+   * Get the Voronoi diagram
+   * @returns geometry collection of cell polygons, keeping the srid of the
+   *          geometry
+   */
+  public getDiagram(): GeometryCollection {
+    const diagram = GeometryCollection.create();
+    diagram.geometries = this.cells.map((cell) => cell.copy());
+    diagram.srid = this._geometry.srid;
+    return diagram;
+  }
+
+  /**
+   * Get the site envelope expanded by the default margin
+   * @returns envelope
+   */
+  private getDefaultEnvelope(): GeometryEnvelope {
+    const sites = this.sites;
+    let minX = Number.POSITIVE_INFINITY;
+    let minY = Number.POSITIVE_INFINITY;
+    let maxX = Number.NEGATIVE_INFINITY;
+    let maxY = Number.NEGATIVE_INFINITY;
+    for (const site of sites) {
+      minX = Math.min(minX, site.x);
+      minY = Math.min(minY, site.y);
+      maxX = Math.max(maxX, site.x);
+      maxY = Math.max(maxY, site.y);
+    }
+    let margin = 0;
+    if (sites.length > 0) {
+      margin = Math.hypot(maxX - minX, maxY - minY) *
+        VoronoiDiagramBuilder.DEFAULT_MARGIN_RATIO;
+      if (margin === 0) {
+        margin = 1;
+      }
+    } else {
+      minX =
+        minY =
+        maxX =
+        maxY =
+          0;
+    }
+    return GeometryEnvelope.createFromMinMaxXY(
+      minX - margin,
+      minY - margin,
+      maxX + margin,
+      maxY + margin,
+    );
+  }
+
+  /**
+   * Create the cells
+   * @returns cells
+   */
+  private createCells(): Polygon[] {
+    const sites = this.sites;
+    const neighbors = this.getNeighbors();
+    const envelope = this._envelope;
+    return sites.map((site, index) => {
+      let cell: Point[] = [
+        Point.createFromXY(envelope.minX, envelope.minY),
+        Point.createFromXY(envelope.maxX, envelope.minY),
+        Point.createFromXY(envelope.maxX, envelope.maxY),
+        Point.createFromXY(envelope.minX, envelope.maxY),
+      ];
+      if (!envelope.containsPoint(site)) {
+        cell = [];
+      }
+      for (const neighbor of neighbors[index]) {
+        if (cell.length === 0) {
+          break;
+        }
+        cell = VoronoiDiagramBuilder.clip(cell, site, sites[neighbor]);
+      }
+      const polygon = Polygon.create();
+      if (cell.length >= 3) {
+        cell.push(cell[0].copy());
+        polygon.addRing(LineString.createFromPoints(cell));
+      }
+      return polygon;
+    });
+  }
+
+  /**
+   * Get the Delaunay neighbor site indices of each site, or the adjacent
+   * sites along the line when all sites are collinear
+   * @returns neighbor indices by site
+   */
+  private getNeighbors(): Set<number>[] {
+    const sites = this.sites;
+    const neighbors = sites.map(() => new Set<number>());
+    const triangles = this._triangulator.triangles;
+    if (triangles.length > 0) {
+      for (const triangle of triangles) {
+        for (let i = 0; i < 3; i++) {
+          neighbors[triangle[i]].add(triangle[(i + 1) % 3]);
+          neighbors[triangle[(i + 1) % 3]].add(triangle[i]);
+        }
+      }
+    } else {
+      const order = sites.map((_site, index) => index).sort((index1, index2) =>
+        sites[index1].x - sites[index2].x || sites[index1].y - sites[index2].y
+      );
+      for (let i = 1; i < order.length; i++) {
+        neighbors[order[i - 1]].add(order[i]);
+        neighbors[order[i]].add(order[i - 1]);
+      }
+    }
+    return neighbors;
+  }
+
+  /**
+   * Clip a convex cell to the half plane closer to a site than to a
+   * neighbor site
+   * @param cell convex cell points
+   * @param site site
+   * @param neighbor neighbor site
+   * @returns clipped cell points
+   */
+  private static clip(cell: Point[], site: Point, neighbor: Point): Point[] {
+    const dx = neighbor.x - site.x;
+    const dy = neighbor.y - site.y;
+    const midX = (site.x + neighbor.x) / 2;
+    const midY = (site.y + neighbor.y) / 2;
+    const distance = (point: Point): number =>
+      (midX - point.x) * dx + (midY - point.y) * dy;
+
+    const clipped: Point[] = [];
+    for (let i = 0; i < cell.length; i++) {
+      const previous = cell[(i + cell.length - 1) % cell.length];
+      const current = cell[i];
+      const previousDistance = distance(previous);
+      const currentDistance = distance(current);
+      if (
+        (previousDistance > 0 && currentDistance < 0) ||
+        (previousDistance < 0 && currentDistance > 0)
+      ) {
+        const fraction = previousDistance /
+          (previousDistance - currentDistance);
+        clipped.push(
+          Point.createFromXY(
+            previous.x + (current.x - previous.x) * fraction,
+            previous.y + (current.y - previous.y) * fraction,
+          ),
+        );
+      }
+      if (currentDistance >= 0) {
+        clipped.push(current);
+      }
+    }
+    return clipped;
+  }
+}
@@ -0,0 +1,682 @@
+import type {
+  CompoundCurve,
+  Curve,
+  CurvePolygon,
+  Geometry,
+  GeometryCollection,
+  LineString,
+  MultiPoint,
+  Point,
+  PolyhedralSurface,
+} from "../../internal.ts";
+import {
+  CurveLinearizer,
+  GeometryType,
+  GeometryTypeUtils,
+  OverlayGraph,
+  PointLocator,
+  SegmentUtils,
+  SFException,
+  ValidationError,
+  ValidationErrorType,
+} from "../../internal.ts";
+
+/**
+ * Segment start and end points with the index of its ring or polygon part
+ * and the index of the segment within its ring
+ */
+type IndexedSegment = [Point, Point, number, number];
+
+/**
+ * Validates geometries of every type, collecting structured errors with
+ * locations. Checks coordinates, z and m consistency between parents and
+ * children, curve and ring point counts, ring closure and orientation, ring
+ * self intersections, disconnected polygon interiors, holes outside the
+ * exterior ring or nested within other holes, and overlapping multi polygon
+ * parts. Exterior rings are expected counter clockwise and holes clockwise,
+ * except for polyhedral surface patches. Polygon topology is only checked
+ * once its rings are structurally valid.
+ */
+export class GeometryValidator {
+  /**
+   * Determine if a geometry is valid
+   * @param geometry geometry
+   * @returns true if valid
+   */
+  public static isValid(geometry: Geometry): boolean {
+    return GeometryValidator.validate(geometry).length === 0;
+  }
+
+  /**
+   * Validate a geometry
+   * @param geometry geometry
+   * @returns validation errors, empty when valid
+   */
+  public static validate(geometry: Geometry): ValidationError[] {
+    const errors: ValidationError[] = [];
+    GeometryValidator.validateGeometry(geometry, errors);
+    return errors;
+  }
+
+  /**
+   * Validate a geometry
+   * @param geometry geometry
+   * @param errors validation errors
+   */
+  private static validateGeometry(
+    geometry: Geometry,
+    errors: ValidationError[],
+  ): void {
+    switch (geometry.geometryType) {
+      case GeometryType.Point: {
+        if (!geometry.isEmpty()) {
+          GeometryValidator.validateCoordinates(
+            geometry,
+            [geometry as Point],
+            errors,
+          );
+        }
+        break;
+      }
+      case GeometryType.LineString:
+      case GeometryType.CircularString:
+      case GeometryType.CompoundCurve: {
+        GeometryValidator.validateCurve(geometry as Curve, errors);
+        break;
+      }
+      case GeometryType.Polygon:
+      case GeometryType.Triangle:
+      case GeometryType.CurvePolygon: {
+        GeometryValidator.validatePolygon(
+          geometry as CurvePolygon,
+          true,
+          errors,
+        );
+        break;
+      }
+      case GeometryType.MultiPoint: {
+        for (const point of (geometry as MultiPoint).points) {
+          GeometryValidator.validateChild(geometry, point, errors);
+        }
+        break;
+      }
+      case GeometryType.MultiLineString:
+      case GeometryType.MultiCurve:
+      case GeometryType.GeometryCollection: {
+        for (const child of (geometry as GeometryCollection).geometries) {
+          GeometryValidator.validateChild(geometry, child, errors);
+        }
+        break;
+      }
+      case GeometryType.MultiPolygon:
+      case GeometryType.MultiSurface: {
+        GeometryValidator.validateMultiSurface(
+          geometry as GeometryCollection,
+          errors,
+        );
+        break;
+      }
+      case GeometryType.PolyhedralSurface:
+      case GeometryType.Tin: {
+        for (const polygon of (geometry as PolyhedralSurface).polygons) {
+          GeometryValidator.validateDimensions(geometry, polygon, errors);
+          GeometryValidator.validatePolygon(polygon, false, errors);
+        }
+        break;
+      }
+      default:
+        throw new SFException(
+          `Unsupported Geometry Type: ${geometry.geometryType}`,
+        );
+    }
+  }
+
+  /**
+   * Validate a child geometry and its dimensions
+   * @param parent parent geometry
+   * @param child child geometry
+   * @param errors validation errors
+   */
+  private static validateChild(
+    parent: Geometry,
+    child: Geometry,
+    errors: ValidationError[],
+  ): void {
+    GeometryValidator.validateDimensions(parent, child, errors);
+    GeometryValidator.validateGeometry(child, errors);
+  }
+
+  /**
+   * Validate that a child geometry has the z and m values of its parent
+   * @param parent parent geometry
+   * @param child child geometry
+   * @param errors validation errors
+   * @param location location of the error
+   */
+  private static validateDimensions(
+    parent: Geometry,
+    child: Geometry,
+    errors: ValidationError[],
+    location?: Point,
+  ): void {
+    if (parent.hasZ !== child.hasZ || parent.hasM !== child.hasM) {
+      errors.push(
+        new ValidationError(
+          ValidationErrorType.InconsistentDimensions,
+          `${
+            GeometryValidator.typeName(child)
+          } z and m values are inconsistent ` +
+            `with the ${GeometryValidator.typeName(parent)}`,
+          child,
+          location,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Validate the dimensions and finite coordinates of geometry points
+   * @param geometry geometry
+   * @param points points
+   * @param errors validation errors
+   */
+  private static validateCoordinates(
+    geometry: Geometry,
+    points: Point[],
+    errors: ValidationError[],
+  ): void {
+    const inconsistent = points.find((point) =>
+      point !== geometry &&
+      (point.hasZ !== geometry.hasZ || point.hasM !== geometry.hasM)
+    );
+    if (inconsistent !== undefined) {
+      GeometryValidator.validateDimensions(
+        geometry,
+        inconsistent,
+        errors,
+        inconsistent,
+      );
+    }
+    for (const point of points) {
+      if (
+        !Number.isFinite(point.x) || !Number.isFinite(point.y) ||
+        (point.z !== undefined && !Number.isFinite(point.z)) ||
+        (point.m !== undefined && !Number.isFinite(point.m))
+      ) {
+        errors.push(
+          new ValidationError(
+            ValidationErrorType.NonFiniteCoordinate,
+            `${
+              GeometryValidator.typeName(geometry)
+            } has a non finite coordinate`,
+            geometry,
+            point,
+          ),
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate a curve
+   * @param curve line string, circular string or compound curve
+   * @param errors validation errors
+   * @returns true if valid
+   */
+  private static validateCurve(
+    curve: Curve,
+    errors: ValidationError[],
+  ): boolean {
+    const count = errors.length;
+    if (curve.geometryType === GeometryType.CompoundCurve) {
+      for (const lineString of (curve as CompoundCurve).lineStrings) {
+        GeometryValidator.validateDimensions(curve, lineString, errors);
+        GeometryValidator.validateCurve(lineString, errors);
+      }
+    } else {
+      const points = (curve as LineString).points;
+      GeometryValidator.validateCoordinates(curve, points, errors);
+      const minimum = curve.geometryType === GeometryType.CircularString
+        ? 3
+        : 2;
+      if (
+        points.length > 0 &&
+        (points.length < minimum ||
+          GeometryValidator.removeDuplicates(points).length < 2)
+      ) {
+        errors.push(
+          new ValidationError(
+            ValidationErrorType.TooFewPoints,
+            `${GeometryValidator.typeName(curve)} has too few points`,
+            curve,
+            points[0],
+          ),
+        );
+      }
+    }
+    return errors.length === count;
+  }
+
+  /**
+   * Validate a polygon
+   * @param polygon polygon, triangle or curve polygon
+   * @param orientation true to validate the ring orientation
+   * @param errors validation errors
+   * @returns closed rings without consecutive duplicate points, undefined
+   *          when invalid
+   */
+  private static validatePolygon(
+    polygon: CurvePolygon,
+    orientation: boolean,
+    errors: ValidationError[],
+  ): Point[][] | undefined {
+    const count = errors.length;
+    const rings: Point[][] = [];
+    for (const ring of polygon.rings) {
+      GeometryValidator.validateDimensions(polygon, ring, errors);
+      if (!GeometryValidator.validateCurve(ring, errors)) {
+        continue;
+      }
+      const points = ring.geometryType === GeometryType.LineString
+        ? (ring as LineString).points
+        : CurveLinearizer.linearizeCurve(ring).points;
+      const location = points.length > 0 ? points[0] : undefined;
+      if (
+        points.length > 0 &&
+        (points[0].x !== points[points.length - 1].x ||
+          points[0].y !== points[points.length - 1].y)
+      ) {
+        errors.push(
+          new ValidationError(
+            ValidationErrorType.RingNotClosed,
+            `${GeometryValidator.typeName(polygon)} ring is not closed`,
+            ring,
+            location,
+          ),
+        );
+        continue;
+      }
+      const unique = GeometryValidator.removeDuplicates(points);
+      if (unique.length < 4) {
+        errors.push(
+          new ValidationError(
+            ValidationErrorType.TooFewPoints,
+            `${GeometryValidator.typeName(polygon)} ring has too few points`,
+            ring,
+            location,
+          ),
+        );
+        continue;
+      }
+      rings.push(unique);
+    }
+    if (errors.length === count) {
+      GeometryValidator.validateRings(polygon, rings, orientation, errors);
+    }
+    return errors.length === count ? rings : undefined;
+  }
+
+  /**
+   * Validate the orientation and topology of polygon rings
+   * @param polygon polygon
+   * @param rings closed rings without consecutive duplicate points
+   * @param orientation true to validate the ring orientation
+   * @param errors validation errors
+   */
+  private static validateRings(
+    polygon: Geometry,
+    rings: Point[][],
+    orientation: boolean,
+    errors: ValidationError[],
+  ): void {
+    const name = GeometryValidator.typeName(polygon);
+    if (orientation) {
+      for (let i = 0; i < rings.length; i++) {
+        const area = OverlayGraph.signedArea(rings[i]);
+        if (i === 0 ? area < 0 : area > 0) {
+          errors.push(
+            new ValidationError(
+              ValidationErrorType.RingOrientation,
+              i === 0
+                ? `${name} exterior ring is not counter clockwise`
+                : `${name} interior ring is not clockwise`,
+              polygon,
+              rings[i][0],
+            ),
+          );
+        }
+      }
+    }
+
+    const count = errors.length;
+    const locations = new Set<string>();
+    const touches = new Map<string, [number, Point]>();
+    GeometryValidator.forEachSegmentPair(
+      GeometryValidator.getSegments(rings),
+      (segment1, segment2, intersections) => {
+        let location: Point | undefined;
+        if (segment1[2] === segment2[2]) {
+          const difference = Math.abs(segment1[3] - segment2[3]);
+          if (
+            difference === 1 || difference === rings[segment1[2]].length - 2
+          ) {
+            location = intersections.find((intersection) =>
+              !GeometryValidator.isEndPoint(intersection, segment1) ||
+              !GeometryValidator.isEndPoint(intersection, segment2)
+            );
+          } else {
+            location = intersections[0];
+          }
+        } else if (
+          intersections.length > 1 ||
+          (!GeometryValidator.isEndPoint(intersections[0], segment1) &&
+            !GeometryValidator.isEndPoint(intersections[0], segment2))
+        ) {
+          location = intersections[0];
+        } else {
+          const key = GeometryValidator.key(intersections[0]);
+          for (const ring of [segment1[2], segment2[2]]) {
+            touches.set(ring + "|" + key, [ring, intersections[0]]);
+          }
+        }
+        if (location !== undefined) {
+          const key = GeometryValidator.key(location);
+          if (!locations.has(key)) {
+            locations.add(key);
+            errors.push(
+              new ValidationError(
+                ValidationErrorType.SelfIntersection,
+                `${name} rings self intersect`,
+                polygon,
+                location,
+              ),
+            );
+          }
+        }
+      },
+    );
+    if (errors.length > count) {
+      return;
+    }
+
+    // Rings touching in a cycle disconnect the interior
+    const parents: number[] = rings.map((_ring, index) => index);
+    const pointNodes = new Map<string, number>();
+    const find = (node: number): number => {
+      while (parents[node] !== node) {
+        node = parents[node] = parents[parents[node]];
+      }
+      return node;
+    };
+    for (const [ring, point] of touches.values()) {
+      const key = GeometryValidator.key(point);
+      let node = pointNodes.get(key);
+      if (node === undefined) {
+        node = parents.length;
+        parents.push(node);
+        pointNodes.set(key, node);
+      }
+      const root1 = find(ring);
+      const root2 = find(node);
+      if (root1 === root2) {
+        errors.push(
+          new ValidationError(
+            ValidationErrorType.DisconnectedInterior,
+            `${name} interior is disconnected`,
+            polygon,
+            point,
+          ),
+        );
+        return;
+      }
+      parents[root1] = root2;
+    }
+
+    for (let i = 1; i < rings.length; i++) {
+      const point = GeometryValidator.getInteriorPoint(rings[i], [rings[0]]);
+      if (point !== undefined && !PointLocator.isInRing(point, rings[0])) {
+        errors.push(
+          new ValidationError(
+            ValidationErrorType.HoleOutsideShell,
+            `${name} hole is outside of the exterior ring`,
+            polygon,
+            point,
+          ),
+        );
+      }
+      for (let j = 1; j < rings.length; j++) {
+        if (i !== j) {
+          const holePoint = GeometryValidator.getInteriorPoint(rings[i], [
+            rings[j],
+          ]);
+          if (
+            holePoint !== undefined &&
+            PointLocator.isInRing(holePoint, rings[j])
+          ) {
+            errors.push(
+              new ValidationError(
+                ValidationErrorType.NestedHoles,
+                `${name} hole is within another hole`,
+                polygon,
+                holePoint,
+              ),
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate a multi surface and the interiors of its polygons
+   * @param multiSurface multi polygon or multi surface
+   * @param errors validation errors
+   */
+  private static validateMultiSurface(
+    multiSurface: GeometryCollection,
+    errors: ValidationError[],
+  ): void {
+    const parts: Point[][][] = [];
+    for (const child of multiSurface.geometries) {
+      GeometryValidator.validateDimensions(multiSurface, child, errors);
+      switch (child.geometryType) {
+        case GeometryType.Polygon:
+        case GeometryType.Triangle:
+        case GeometryType.CurvePolygon: {
+          const rings = GeometryValidator.validatePolygon(
+            child as CurvePolygon,
+            true,
+            errors,
+          );
+          if (rings !== undefined && rings.length > 0) {
+            parts.push(rings);
+          }
+          break;
+        }
+        default:
+          GeometryValidator.validateGeometry(child, errors);
+      }
+    }
+
+    const name = GeometryValidator.typeName(multiSurface);
+    const count = errors.length;
+    const segments: IndexedSegment[] = [];
+    for (let i = 0; i < parts.length; i++) {
+      for (
+        const [start, end, ring] of GeometryValidator.getSegments(parts[i])
+      ) {
+        segments.push([start, end, i, ring]);
+      }
+    }
+    const locations = new Set<string>();
+    GeometryValidator.forEachSegmentPair(
+      segments,
+      (segment1, segment2, intersections) => {
+        if (
+          segment1[2] !== segment2[2] &&
+          (intersections.length > 1 ||
+            (!GeometryValidator.isEndPoint(intersections[0], segment1) &&
+              !GeometryValidator.isEndPoint(intersections[0], segment2)))
+        ) {
+          const key = GeometryValidator.key(intersections[0]);
+          if (!locations.has(key)) {
+            locations.add(key);
+            errors.push(
+              new ValidationError(
+                ValidationErrorType.OverlappingPolygons,
+                `${name} polygons overlap`,
+                multiSurface,
+                intersections[0],
+              ),
+            );
+          }
+        }
+      },
+    );
+    if (errors.length > count) {
+      return;
+    }
+
+    for (let i = 0; i < parts.length; i++) {
+      for (let j = 0; j < parts.length; j++) {
+        if (i !== j) {
+          const point = GeometryValidator.getInteriorPoint(
+            parts[j][0],
+            parts[i],
+          );
+          if (
+            point !== undefined && PointLocator.isInRing(point, parts[i][0]) &&
+            !parts[i].slice(1).some((hole) =>
+              PointLocator.isInRing(point, hole)
+            )
+          ) {
+            errors.push(
+              new ValidationError(
+                ValidationErrorType.OverlappingPolygons,
+                `${name} polygons overlap`,
+                multiSurface,
+                point,
+              ),
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the segments of rings
+   * @param rings rings
+   * @returns segments with ring and segment indices
+   */
+  private static getSegments(rings: Point[][]): IndexedSegment[] {
+    const segments: IndexedSegment[] = [];
+    for (let i = 0; i < rings.length; i++) {
+      for (let j = 1; j < rings[i].length; j++) {
+        segments.push([rings[i][j - 1], rings[i][j], i, j - 1]);
+      }
+    }
+    return segments;
+  }
+
+  /**
+   * Call back for each pair of intersecting segments, sweeping the segments
+   * sorted by their minimum x
+   * @param segments segments
+   * @param callback callback with the intersection points
+   */
+  private static forEachSegmentPair(
+    segments: IndexedSegment[],
+    callback: (
+      segment1: IndexedSegment,
+      segment2: IndexedSegment,
+      intersections: Point[],
+    ) => void,
+  ): void {
+    const sorted = segments.slice().sort((segment1, segment2) =>
+      Math.min(segment1[0].x, segment1[1].x) -
+      Math.min(segment2[0].x, segment2[1].x)
+    );
+    for (let i = 0; i < sorted.length; i++) {
+      const [start, end] = sorted[i];
+      const maxX = Math.max(start.x, end.x);
+      for (let j = i + 1; j < sorted.length; j++) {
+        const [otherStart, otherEnd] = sorted[j];
+        if (Math.min(otherStart.x, otherEnd.x) > maxX) {
+          break;
+        }
+        const intersections = SegmentUtils.intersection(
+          start,
+          end,
+          otherStart,
+          otherEnd,
+          0,
+        );
+        if (intersections.length > 0) {
+          callback(sorted[i], sorted[j], intersections);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get a ring vertex not on the boundary of other rings
+   * @param ring ring
+   * @param rings other rings
+   * @returns vertex or undefined when all are on the boundary
+   */
+  private static getInteriorPoint(
+    ring: Point[],
+    rings: Point[][],
+  ): Point | undefined {
+    return ring.find((point) =>
+      !rings.some((other) =>
+        other.some((otherPoint, index) =>
+          index > 0 &&
+          SegmentUtils.pointOnSegment(point, other[index - 1], otherPoint, 0)
+        )
+      )
+    );
+  }
+
+  /**
+   * Determine if a point is an end point of a segment
+   * @param point point
+   * @param segment segment
+   * @returns true if an end point
+   */
+  private static isEndPoint(point: Point, segment: IndexedSegment): boolean {
+    return (point.x === segment[0].x && point.y === segment[0].y) ||
+      (point.x === segment[1].x && point.y === segment[1].y);
+  }
+
+  /**
+   * Remove consecutive duplicate points
+   * @param points points
+   * @returns points without consecutive duplicates
+   */
+  private static removeDuplicates(points: Point[]): Point[] {
+    return points.filter((point, index) =>
+      index === 0 || point.x !== points[index - 1].x ||
+      point.y !== points[index - 1].y
+    );
+  }
+
+  /**
+   * Get the location key of a point
+   * @param point point
+   * @returns key
+   */
+  private static key(point: Point): string {
+    return point.x + "," + point.y;
+  }
+
+  /**
+   * Get the geometry type name of a geometry
+   * @param geometry geometry
+   * @returns name
+   */
+  private static typeName(geometry: Geometry): string {
+    return GeometryTypeUtils.nameFromType(geometry.geometryType);
+  }
+}
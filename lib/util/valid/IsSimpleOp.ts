@@ -0,0 +1,682 @@
+import type {
+  Curve,
+  CurvePolygon,
+  Geometry,
+  GeometryCollection,
+  LineString,
+  Polygon,
+  PolyhedralSurface,
+} from "../../internal.ts";
+import {
+  CurveLinearizer,
+  GeometryConstants,
+  GeometryType,
+  OverlayGraph,
+  Point,
+  PointLocator,
+  SegmentIntersectionType,
+  SegmentIntersector,
+  SFException,
+  ShamosHoey,
+} from "../../internal.ts";
+
+/**
+ * Three dimensional coordinate vector
+ */
+type Vector = [number, number, number];
+
+/**
+ * Determines OGC simplicity of geometries. Curves are simple when they do not
+ * pass through the same point twice, except for the shared end points of a
+ * closed curve. Multi curves are simple when each curve is simple and curves
+ * only meet at points on the boundaries of both, where closed curves have no
+ * boundary by the mod 2 rule. Curve polygons are linearized, including their
+ * arcs, and checked as polygons. Polyhedral surface patches must each be
+ * simple in their own plane and may only meet along complete shared edges or
+ * at shared vertices, with each edge shared by at most two patches. Other
+ * collections are simple when all of their geometries are simple.
+ */
+export class IsSimpleOp {
+  /**
+   * Determine if a geometry is simple
+   * @param geometry geometry
+   * @returns true if simple
+   */
+  public static isSimple(geometry: Geometry): boolean {
+    let simple: boolean;
+    switch (geometry.geometryType) {
+      case GeometryType.Point:
+      case GeometryType.MultiPoint: {
+        simple = geometry.isSimple();
+        break;
+      }
+      case GeometryType.LineString:
+      case GeometryType.CircularString:
+      case GeometryType.CompoundCurve: {
+        simple = IsSimpleOp.isSimpleCurves([geometry as Curve]);
+        break;
+      }
+      case GeometryType.Polygon:
+      case GeometryType.Triangle:
+      case GeometryType.CurvePolygon: {
+        simple = ShamosHoey.simplePolygon(
+          CurveLinearizer.linearizeCurvePolygon(geometry as CurvePolygon),
+        );
+        break;
+      }
+      case GeometryType.MultiLineString:
+      case GeometryType.MultiCurve: {
+        simple = IsSimpleOp.isSimpleCurves(
+          (geometry as GeometryCollection<Curve>).geometries,
+        );
+        break;
+      }
+      case GeometryType.MultiPolygon:
+      case GeometryType.MultiSurface:
+      case GeometryType.GeometryCollection: {
+        simple = (geometry as GeometryCollection).geometries.every((child) =>
+          child.isSimple()
+        );
+        break;
+      }
+      case GeometryType.PolyhedralSurface:
+      case GeometryType.Tin: {
+        simple = IsSimpleOp.isSimpleSurface(geometry as PolyhedralSurface);
+        break;
+      }
+      default:
+        throw new SFException(
+          `Unsupported Geometry Type: ${geometry.geometryType}`,
+        );
+    }
+    return simple;
+  }
+
+  /**
+   * Determine if curves are simple, each on its own and meeting each other
+   * only at end points of open curves
+   * @param curves curves
+   * @returns true if simple
+   */
+  private static isSimpleCurves(curves: Curve[]): boolean {
+    const lineStrings = curves.map((curve) =>
+      CurveLinearizer.linearizeCurve(curve)
+    );
+    return SegmentIntersector.intersections(lineStrings).every((
+      intersection,
+    ) =>
+      intersection.ring1 !== intersection.ring2 &&
+      intersection.type === SegmentIntersectionType.Touch &&
+      IsSimpleOp.isBoundaryPoint(
+        intersection.point,
+        lineStrings[intersection.ring1],
+      ) &&
+      IsSimpleOp.isBoundaryPoint(
+        intersection.point,
+        lineStrings[intersection.ring2],
+      )
+    );
+  }
+
+  /**
+   * Determine if a point is on the boundary of a line string, one of the end
+   * points of an open line string
+   * @param point point
+   * @param lineString line string
+   * @returns true if a boundary point
+   */
+  private static isBoundaryPoint(
+    point: Point,
+    lineString: LineString,
+  ): boolean {
+    const points = lineString.points;
+    const start = points[0];
+    const end = points[points.length - 1];
+    const closed = start.x === end.x && start.y === end.y;
+    return !closed &&
+      ((point.x === start.x && point.y === start.y) ||
+        (point.x === end.x && point.y === end.y));
+  }
+
+  /**
+   * Determine if a polyhedral surface is simple
+   * @param surface polyhedral surface
+   * @returns true if simple
+   */
+  private static isSimpleSurface(surface: PolyhedralSurface): boolean {
+    const epsilon = GeometryConstants.DEFAULT_EQUAL_EPSILON;
+    const patches = surface.polygons.map((polygon) =>
+      IsSimpleOp.getPatchRings(polygon)
+    );
+    if (
+      !patches.every((patch) => IsSimpleOp.isSimplePatch(patch)) ||
+      !IsSimpleOp.isManifold(patches)
+    ) {
+      return false;
+    }
+
+    const bounds = patches.map((patch) => IsSimpleOp.getBounds(patch));
+    const order = patches.map((_patch, index) => index).sort((a, b) =>
+      bounds[a][0][0] - bounds[b][0][0]
+    );
+    for (let i = 0; i < order.length; i++) {
+      const [min1, max1] = bounds[order[i]];
+      for (let j = i + 1; j < order.length; j++) {
+        const [min2, max2] = bounds[order[j]];
+        if (min2[0] > max1[0] + epsilon) {
+          break;
+        }
+        if (
+          min2.every((value, axis) => value <= max1[axis] + epsilon) &&
+          min1.every((value, axis) => value <= max2[axis] + epsilon) &&
+          !IsSimpleOp.isSimplePatchPair(
+            patches[order[i]],
+            patches[order[j]],
+            epsilon,
+          )
+        ) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Get the polygon rings as coordinate vectors, with a zero z when missing
+   * @param polygon polygon
+   * @returns rings
+   */
+  private static getPatchRings(polygon: Polygon): Vector[][] {
+    return polygon.rings.map((ring) =>
+      ring.points.map((point): Vector => [point.x, point.y, point.z ?? 0])
+    );
+  }
+
+  /**
+   * Determine if a patch is simple when projected on its plane
+   * @param patch patch rings
+   * @returns true if simple
+   */
+  private static isSimplePatch(patch: Vector[][]): boolean {
+    const normal = IsSimpleOp.getNormal(patch);
+    return normal !== undefined &&
+      ShamosHoey.simplePolygonRingPoints(
+        IsSimpleOp.project(patch, IsSimpleOp.getAxis(normal)),
+      );
+  }
+
+  /**
+   * Determine if each patch edge is shared by at most two patches
+   * @param patches patch rings
+   * @returns true if no edge is shared by more than two patches
+   */
+  private static isManifold(patches: Vector[][][]): boolean {
+    const counts = new Map<string, number>();
+    for (const patch of patches) {
+      const keys = new Set<string>();
+      for (const [start, end] of IsSimpleOp.getEdges(patch)) {
+        keys.add(IsSimpleOp.getEdgeKey(start, end));
+      }
+      for (const key of keys) {
+        const count = (counts.get(key) ?? 0) + 1;
+        if (count > 2) {
+          return false;
+        }
+        counts.set(key, count);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Determine if two patches only meet along complete shared edges or at
+   * shared vertices
+   * @param patch1 first patch rings
+   * @param patch2 second patch rings
+   * @param epsilon distance tolerance
+   * @returns true if the patches meet simply
+   */
+  private static isSimplePatchPair(
+    patch1: Vector[][],
+    patch2: Vector[][],
+    epsilon: number,
+  ): boolean {
+    const edges1 = IsSimpleOp.getEdges(patch1);
+    const edges2 = IsSimpleOp.getEdges(patch2);
+    for (const edge1 of edges1) {
+      for (const edge2 of edges2) {
+        if (!IsSimpleOp.isSimpleEdgePair(edge1, edge2, epsilon)) {
+          return false;
+        }
+      }
+    }
+
+    const normal1 = IsSimpleOp.getNormal(patch1) as Vector;
+    const normal2 = IsSimpleOp.getNormal(patch2) as Vector;
+    if (
+      IsSimpleOp.isCoplanar(patch1, normal1, patch2, normal2, epsilon) &&
+      IsSimpleOp.hasSameSideEdge(patch1, patch2, normal1)
+    ) {
+      return false;
+    }
+    return !edges1.some((edge) =>
+      IsSimpleOp.touchesInterior(edge, patch2, normal2, epsilon)
+    ) &&
+      !edges2.some((edge) =>
+        IsSimpleOp.touchesInterior(edge, patch1, normal1, epsilon)
+      );
+  }
+
+  /**
+   * Determine if two patch edges are the same edge or only meet at a shared
+   * end point
+   * @param edge1 first edge
+   * @param edge2 second edge
+   * @param epsilon distance tolerance
+   * @returns true if the edges meet simply
+   */
+  private static isSimpleEdgePair(
+    edge1: Vector[],
+    edge2: Vector[],
+    epsilon: number,
+  ): boolean {
+    const [a, b] = edge1;
+    const [c, d] = edge2;
+    const same = (v1: Vector, v2: Vector) =>
+      IsSimpleOp.length(IsSimpleOp.subtract(v1, v2)) <= epsilon;
+    if ((same(a, c) && same(b, d)) || (same(a, d) && same(b, c))) {
+      return true;
+    }
+    for (
+      const [vector, start, end] of [[a, c, d], [b, c, d], [c, a, b], [
+        d,
+        a,
+        b,
+      ]]
+    ) {
+      if (
+        !same(vector, start) && !same(vector, end) &&
+        IsSimpleOp.segmentDistance(vector, start, end) <= epsilon
+      ) {
+        return false;
+      }
+    }
+
+    // Proper crossing between the segment interiors
+    const u = IsSimpleOp.subtract(b, a);
+    const v = IsSimpleOp.subtract(d, c);
+    const w = IsSimpleOp.subtract(a, c);
+    const uu = IsSimpleOp.dot(u, u);
+    const uv = IsSimpleOp.dot(u, v);
+    const vv = IsSimpleOp.dot(v, v);
+    const denominator = uu * vv - uv * uv;
+    if (denominator <= epsilon * epsilon * uu * vv) {
+      return true;
+    }
+    const s = (uv * IsSimpleOp.dot(v, w) - vv * IsSimpleOp.dot(u, w)) /
+      denominator;
+    const t = (uu * IsSimpleOp.dot(v, w) - uv * IsSimpleOp.dot(u, w)) /
+      denominator;
+    if (s <= 0 || s >= 1 || t <= 0 || t >= 1) {
+      return true;
+    }
+    const closest1 = IsSimpleOp.add(a, IsSimpleOp.scale(u, s));
+    const closest2 = IsSimpleOp.add(c, IsSimpleOp.scale(v, t));
+    return !same(closest1, closest2);
+  }
+
+  /**
+   * Determine if a patch edge touches the interior of another patch, by
+   * passing through it, ending on it or lying in its plane inside of it
+   * @param edge edge
+   * @param patch patch rings
+   * @param normal patch normal
+   * @param epsilon distance tolerance
+   * @returns true if touching the patch interior
+   */
+  private static touchesInterior(
+    edge: Vector[],
+    patch: Vector[][],
+    normal: Vector,
+    epsilon: number,
+  ): boolean {
+    const [start, end] = edge;
+    const startDistance = IsSimpleOp.planeDistance(start, patch, normal);
+    const endDistance = IsSimpleOp.planeDistance(end, patch, normal);
+    const vectors: Vector[] = [];
+    if (Math.abs(startDistance) <= epsilon) {
+      vectors.push(start);
+    }
+    if (Math.abs(endDistance) <= epsilon) {
+      vectors.push(end);
+    }
+    if (vectors.length === 2) {
+      vectors.push(IsSimpleOp.scale(IsSimpleOp.add(start, end), 0.5));
+    } else if (
+      vectors.length === 0 && (startDistance < 0) !== (endDistance < 0)
+    ) {
+      vectors.push(
+        IsSimpleOp.add(
+          start,
+          IsSimpleOp.scale(
+            IsSimpleOp.subtract(end, start),
+            startDistance / (startDistance - endDistance),
+          ),
+        ),
+      );
+    }
+    return vectors.some((vector) =>
+      IsSimpleOp.isInteriorPoint(vector, patch, normal, epsilon)
+    );
+  }
+
+  /**
+   * Determine if a point on the plane of a patch is in its interior
+   * @param vector point
+   * @param patch patch rings
+   * @param normal patch normal
+   * @param epsilon distance tolerance
+   * @returns true if in the interior
+   */
+  private static isInteriorPoint(
+    vector: Vector,
+    patch: Vector[][],
+    normal: Vector,
+    epsilon: number,
+  ): boolean {
+    if (
+      IsSimpleOp.getEdges(patch).some(([start, end]) =>
+        IsSimpleOp.segmentDistance(vector, start, end) <= epsilon
+      )
+    ) {
+      return false;
+    }
+    const axis = IsSimpleOp.getAxis(normal);
+    const [point] = IsSimpleOp.project([[vector]], axis)[0];
+    return IsSimpleOp.project(patch, axis).every((ring, index) =>
+      PointLocator.isInRing(point, ring) === (index === 0)
+    );
+  }
+
+  /**
+   * Determine if two patches lie in the same plane
+   * @param patch1 first patch rings
+   * @param normal1 first patch normal
+   * @param patch2 second patch rings
+   * @param normal2 second patch normal
+   * @param epsilon distance tolerance
+   * @returns true if coplanar
+   */
+  private static isCoplanar(
+    patch1: Vector[][],
+    normal1: Vector,
+    patch2: Vector[][],
+    normal2: Vector,
+    epsilon: number,
+  ): boolean {
+    return IsSimpleOp.length(IsSimpleOp.cross(normal1, normal2)) <= epsilon &&
+      Math.abs(IsSimpleOp.planeDistance(patch2[0][0], patch1, normal1)) <=
+        epsilon;
+  }
+
+  /**
+   * Determine if coplanar patches share an edge with both interiors on the
+   * same side of it, overlapping each other
+   * @param patch1 first patch rings
+   * @param patch2 second patch rings
+   * @param normal shared plane normal
+   * @returns true if an edge is shared on the same side
+   */
+  private static hasSameSideEdge(
+    patch1: Vector[][],
+    patch2: Vector[][],
+    normal: Vector,
+  ): boolean {
+    const axis = IsSimpleOp.getAxis(normal);
+    const sides1 = IsSimpleOp.getEdgeSides(patch1, axis);
+    const sides2 = IsSimpleOp.getEdgeSides(patch2, axis);
+    for (const [key, side] of sides1) {
+      if (sides2.get(key) === side) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Get the side of each patch edge the patch interior is on, keyed by the
+   * edge end points in sorted order
+   * @param patch patch rings
+   * @param axis dropped projection axis
+   * @returns interior sides by edge, true when left of the sorted edge
+   */
+  private static getEdgeSides(
+    patch: Vector[][],
+    axis: number,
+  ): Map<string, boolean> {
+    const sides = new Map<string, boolean>();
+    const rings = IsSimpleOp.project(patch, axis);
+    rings.forEach((ring, index) => {
+      const left = (index === 0) === (OverlayGraph.signedArea(ring) > 0);
+      for (let i = 1; i < patch[index].length; i++) {
+        const start = patch[index][i - 1];
+        const end = patch[index][i];
+        const startKey = start.join(" ");
+        const endKey = end.join(" ");
+        if (startKey !== endKey) {
+          sides.set(
+            IsSimpleOp.getEdgeKey(start, end),
+            startKey < endKey ? left : !left,
+          );
+        }
+      }
+    });
+    return sides;
+  }
+
+  /**
+   * Get a key identifying an edge in either direction
+   * @param start edge start
+   * @param end edge end
+   * @returns edge key with the end points in sorted order
+   */
+  private static getEdgeKey(start: Vector, end: Vector): string {
+    const startKey = start.join(" ");
+    const endKey = end.join(" ");
+    return startKey < endKey
+      ? `${startKey},${endKey}`
+      : `${endKey},${startKey}`;
+  }
+
+  /**
+   * Get the non zero length edges of patch rings
+   * @param patch patch rings
+   * @returns edges as start and end vectors
+   */
+  private static getEdges(patch: Vector[][]): Vector[][] {
+    const edges: Vector[][] = [];
+    for (const ring of patch) {
+      for (let i = 1; i < ring.length; i++) {
+        if (ring[i - 1].some((value, axis) => value !== ring[i][axis])) {
+          edges.push([ring[i - 1], ring[i]]);
+        }
+      }
+    }
+    return edges;
+  }
+
+  /**
+   * Get the minimum and maximum coordinates of patch rings
+   * @param patch patch rings
+   * @returns minimum and maximum vectors
+   */
+  private static getBounds(patch: Vector[][]): Vector[] {
+    const min: Vector = [Infinity, Infinity, Infinity];
+    const max: Vector = [-Infinity, -Infinity, -Infinity];
+    for (const ring of patch) {
+      for (const vector of ring) {
+        for (let axis = 0; axis < 3; axis++) {
+          min[axis] = Math.min(min[axis], vector[axis]);
+          max[axis] = Math.max(max[axis], vector[axis]);
+        }
+      }
+    }
+    return [min, max];
+  }
+
+  /**
+   * Get the unit normal of a patch exterior ring using Newell's method
+   * @param patch patch rings
+   * @returns normal or undefined when the ring has no area
+   */
+  private static getNormal(patch: Vector[][]): Vector | undefined {
+    const normal: Vector = [0, 0, 0];
+    const ring = patch[0] ?? [];
+    for (let i = 0; i < ring.length; i++) {
+      const current = ring[i];
+      const next = ring[(i + 1) % ring.length];
+      normal[0] += (current[1] - next[1]) * (current[2] + next[2]);
+      normal[1] += (current[2] - next[2]) * (current[0] + next[0]);
+      normal[2] += (current[0] - next[0]) * (current[1] + next[1]);
+    }
+    const length = IsSimpleOp.length(normal);
+    return length > 0 ? IsSimpleOp.scale(normal, 1 / length) : undefined;
+  }
+
+  /**
+   * Get the axis to drop when projecting onto a plane, the largest normal
+   * component
+   * @param normal plane normal
+   * @returns axis index
+   */
+  private static getAxis(normal: Vector): number {
+    const [x, y, z] = normal.map(Math.abs);
+    return z >= x && z >= y ? 2 : (y >= x ? 1 : 0);
+  }
+
+  /**
+   * Project patch rings onto a coordinate plane by dropping an axis
+   * @param patch patch rings
+   * @param axis dropped axis
+   * @returns projected rings
+   */
+  private static project(patch: Vector[][], axis: number): Point[][] {
+    return patch.map((ring) =>
+      ring.map((vector) => {
+        const [x, y] = vector.filter((_value, index) => index !== axis);
+        return Point.createFromXY(x, y);
+      })
+    );
+  }
+
+  /**
+   * Get the signed distance of a point from the plane of a patch
+   * @param vector point
+   * @param patch patch rings
+   * @param normal patch unit normal
+   * @returns signed distance
+   */
+  private static planeDistance(
+    vector: Vector,
+    patch: Vector[][],
+    normal: Vector,
+  ): number {
+    return IsSimpleOp.dot(
+      normal,
+      IsSimpleOp.subtract(vector, patch[0][0]),
+    );
+  }
+
+  /**
+   * Get the distance from a point to a segment
+   * @param vector point
+   * @param start segment start
+   * @param end segment end
+   * @returns distance
+   */
+  private static segmentDistance(
+    vector: Vector,
+    start: Vector,
+    end: Vector,
+  ): number {
+    const direction = IsSimpleOp.subtract(end, start);
+    const factor = Math.min(
+      1,
+      Math.max(
+        0,
+        IsSimpleOp.dot(IsSimpleOp.subtract(vector, start), direction) /
+          IsSimpleOp.dot(direction, direction),
+      ),
+    );
+    return IsSimpleOp.length(
+      IsSimpleOp.subtract(
+        vector,
+        IsSimpleOp.add(start, IsSimpleOp.scale(direction, factor)),
+      ),
+    );
+  }
+
+  /**
+   * Add two vectors
+   * @param a first vector
+   * @param b second vector
+   * @returns sum
+   */
+  private static add(a: Vector, b: Vector): Vector {
+    return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+  }
+
+  /**
+   * Subtract a vector from another
+   * @param a first vector
+   * @param b second vector
+   * @returns difference
+   */
+  private static subtract(a: Vector, b: Vector): Vector {
+    return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+  }
+
+  /**
+   * Scale a vector
+   * @param a vector
+   * @param factor scale factor
+   * @returns scaled vector
+   */
+  private static scale(a: Vector, factor: number): Vector {
+    return [a[0] * factor, a[1] * factor, a[2] * factor];
+  }
+
+  /**
+   * Get the dot product of two vectors
+   * @param a first vector
+   * @param b second vector
+   * @returns dot product
+   */
+  private static dot(a: Vector, b: Vector): number {
+    return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  }
+
+  /**
+   * Get the cross product of two vectors
+   * @param a first vector
+   * @param b second vector
+   * @returns cross product
+   */
+  private static cross(a: Vector, b: Vector): Vector {
+    return [
+      a[1] * b[2] - a[2] * b[1],
+      a[2] * b[0] - a[0] * b[2],
+      a[0] * b[1] - a[1] * b[0],
+    ];
+  }
+
+  /**
+   * Get the length of a vector
+   * @param a vector
+   * @returns length
+   */
+  private static length(a: Vector): number {
+    return Math.hypot(a[0], a[1], a[2]);
+  }
+}
@@ -0,0 +1,414 @@
+import type {
+  Geometry,
+  GeometryCollection,
+  GeometryCoordinate,
+  MultiPoint,
+  Polygon,
+  PolyhedralSurface,
+} from "../../internal.ts";
+import {
+  CurveLinearizer,
+  GeometryConstants,
+  GeometryTraversal,
+  GeometryType,
+  GeometryValidator,
+  LineString,
+  Location,
+  OverlayGraph,
+  OverlayOp,
+  Point,
+  PointLocator,
+  SegmentUtils,
+  SFException,
+} from "../../internal.ts";
+
+/**
+ * Repairs invalid geometries while keeping all of their area. Points with
+ * non finite coordinates and consecutive duplicate points are dropped, rings
+ * are closed and holes outside of their exterior ring are moved to the
+ * polygon containing them, or become exterior rings when none does. The area
+ * of each polygon is determined by the even odd rule over its rings, which
+ * splits self intersecting rings, and overlapping polygons are dissolved.
+ * Polygons are rebuilt with counter clockwise exterior rings and clockwise
+ * interior rings. Rings collapsed to lines or points, holes included, are
+ * returned as lines along their distinct points or as points, and the rings
+ * of polygons whose area cancels out are returned as lines, in a geometry
+ * collection when mixed with polygons. Valid geometries without
+ * consecutive duplicate points are returned as copies and repaired
+ * geometries are 2D.
+ */
+export class MakeValidOp {
+  /**
+   * Make a geometry valid
+   * @param geometry geometry
+   * @param epsilon distance tolerance
+   * @returns valid geometry
+   */
+  public static makeValid(
+    geometry: Geometry,
+    epsilon: number = GeometryConstants.DEFAULT_EQUAL_EPSILON,
+  ): Geometry {
+    if (
+      GeometryValidator.isValid(geometry) &&
+      !MakeValidOp.hasRepeatedPoints(geometry)
+    ) {
+      return geometry.copy();
+    }
+
+    const polygons: Point[][][] = [];
+    const lines: Point[][] = [];
+    const points: Point[] = [];
+    MakeValidOp.addComponents(
+      CurveLinearizer.linearize(geometry),
+      polygons,
+      lines,
+      points,
+    );
+    MakeValidOp.moveStrayHoles(polygons);
+    MakeValidOp.collapseWithoutArea(polygons, lines, epsilon);
+
+    const graph = new OverlayGraph(epsilon);
+    for (const polygon of polygons) {
+      for (const ring of polygon) {
+        graph.addRing(ring);
+      }
+    }
+    graph.node();
+    const resultEdges: [number, number][] = [];
+    for (const edge of graph.edges) {
+      const [left, right] = graph.isInteriorOnSides(
+        edge,
+        (point) => MakeValidOp.locate(point, polygons, epsilon),
+      );
+      if (left !== right) {
+        resultEdges.push(left ? edge : [edge[1], edge[0]]);
+      }
+    }
+
+    const result = OverlayOp.createResult(
+      graph.buildPolygons(resultEdges),
+      lines.map((line) =>
+        LineString.createFromPoints(
+          line.map((point) => Point.createFromXY(point.x, point.y)),
+        )
+      ),
+      points.map((point) => Point.createFromXY(point.x, point.y)),
+    );
+    result.srid = geometry.srid;
+    return result;
+  }
+
+  /**
+   * Add the finite polygon rings, lines and points of a linear geometry,
+   * collapsing polygons without area to lines or points
+   * @param geometry linear geometry
+   * @param polygons polygon rings
+   * @param lines lines
+   * @param points points
+   */
+  private static addComponents(
+    geometry: Geometry,
+    polygons: Point[][][],
+    lines: Point[][],
+    points: Point[],
+  ): void {
+    switch (geometry.geometryType) {
+      case GeometryType.Point: {
+        MakeValidOp.addLine([geometry as Point], lines, points);
+        break;
+      }
+      case GeometryType.LineString: {
+        MakeValidOp.addLine((geometry as LineString).points, lines, points);
+        break;
+      }
+      case GeometryType.Polygon:
+      case GeometryType.Triangle: {
+        MakeValidOp.addPolygon(geometry as Polygon, polygons, lines, points);
+        break;
+      }
+      case GeometryType.MultiPoint: {
+        for (const point of (geometry as MultiPoint).points) {
+          MakeValidOp.addComponents(point, polygons, lines, points);
+        }
+        break;
+      }
+      case GeometryType.MultiLineString:
+      case GeometryType.MultiPolygon:
+      case GeometryType.GeometryCollection:
+      case GeometryType.MultiCurve:
+      case GeometryType.MultiSurface: {
+        for (const child of (geometry as GeometryCollection).geometries) {
+          MakeValidOp.addComponents(child, polygons, lines, points);
+        }
+        break;
+      }
+      case GeometryType.PolyhedralSurface:
+      case GeometryType.Tin: {
+        for (const polygon of (geometry as PolyhedralSurface).polygons) {
+          MakeValidOp.addPolygon(polygon, polygons, lines, points);
+        }
+        break;
+      }
+      default:
+        throw new SFException(
+          `Unsupported Geometry Type: ${geometry.geometryType}`,
+        );
+    }
+  }
+
+  /**
+   * Add a line, or a point when the line has a single distinct point
+   * @param line line points
+   * @param lines lines
+   * @param points points
+   */
+  private static addLine(
+    line: Point[],
+    lines: Point[][],
+    points: Point[],
+  ): void {
+    const unique = MakeValidOp.removeDuplicates(line);
+    if (unique.length > 1) {
+      lines.push(unique);
+    } else if (unique.length === 1) {
+      points.push(unique[0]);
+    }
+  }
+
+  /**
+   * Add the closed rings of a polygon. Rings without area are collapsed to
+   * lines or points, and when the exterior ring has no area the holes are
+   * collapsed to lines as well.
+   * @param polygon polygon
+   * @param polygons polygon rings
+   * @param lines lines
+   * @param points points
+   */
+  private static addPolygon(
+    polygon: Polygon,
+    polygons: Point[][][],
+    lines: Point[][],
+    points: Point[],
+  ): void {
+    const rings: Point[][] = [];
+    for (const [index, ring] of polygon.rings.entries()) {
+      const unique = MakeValidOp.removeDuplicates(ring.points);
+      if (
+        unique.length > 1 &&
+        (unique[0].x !== unique[unique.length - 1].x ||
+          unique[0].y !== unique[unique.length - 1].y)
+      ) {
+        unique.push(unique[0]);
+      }
+      if (MakeValidOp.isCollinear(unique)) {
+        MakeValidOp.addLine(MakeValidOp.collapseRing(unique), lines, points);
+      } else if (index > 0 && rings.length === 0) {
+        MakeValidOp.addLine(unique, lines, points);
+      } else {
+        rings.push(unique);
+      }
+    }
+    if (rings.length > 0) {
+      polygons.push(rings);
+    }
+  }
+
+  /**
+   * Replace the polygons whose rings cancel out by the even odd rule with
+   * the lines of their rings
+   * @param polygons polygon rings
+   * @param lines lines
+   * @param epsilon distance tolerance
+   */
+  private static collapseWithoutArea(
+    polygons: Point[][][],
+    lines: Point[][],
+    epsilon: number,
+  ): void {
+    for (let i = polygons.length - 1; i >= 0; i--) {
+      const polygon = polygons[i];
+      const graph = new OverlayGraph(epsilon);
+      for (const ring of polygon) {
+        graph.addRing(ring);
+      }
+      graph.node();
+      const hasArea = graph.edges.some((edge) => {
+        const [left, right] = graph.isInteriorOnSides(
+          edge,
+          (point) => MakeValidOp.locate(point, [polygon], epsilon),
+        );
+        return left !== right;
+      });
+      if (!hasArea) {
+        polygons.splice(i, 1);
+        lines.push(...polygon);
+      }
+    }
+  }
+
+  /**
+   * Move holes outside of their exterior ring to the polygon with the
+   * exterior ring containing them, or to a new polygon when none does
+   * @param polygons polygon rings
+   */
+  private static moveStrayHoles(polygons: Point[][][]): void {
+    const count = polygons.length;
+    for (let i = 0; i < count; i++) {
+      const rings = polygons[i];
+      for (let j = rings.length - 1; j > 0; j--) {
+        const hole = rings[j];
+        const point = MakeValidOp.getInteriorPoint(hole, rings[0]);
+        if (point === undefined || PointLocator.isInRing(point, rings[0])) {
+          continue;
+        }
+        rings.splice(j, 1);
+        const polygon = polygons.find((other, index) =>
+          index !== i && index < count &&
+          PointLocator.isInRing(point, other[0])
+        );
+        if (polygon !== undefined) {
+          polygon.push(hole);
+        } else {
+          polygons.push([hole]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Locate a point in the union of the polygons, each with the area of its
+   * rings by the even odd rule
+   * @param point point
+   * @param polygons polygon rings
+   * @param epsilon distance tolerance
+   * @returns location
+   */
+  private static locate(
+    point: Point,
+    polygons: Point[][][],
+    epsilon: number,
+  ): Location {
+    let location = Location.Exterior;
+    for (const polygon of polygons) {
+      let inside = false;
+      for (const ring of polygon) {
+        for (let i = 1; i < ring.length; i++) {
+          if (
+            SegmentUtils.pointOnSegment(point, ring[i - 1], ring[i], epsilon)
+          ) {
+            return Location.Boundary;
+          }
+        }
+        if (PointLocator.isInRing(point, ring)) {
+          inside = !inside;
+        }
+      }
+      if (inside) {
+        location = Location.Interior;
+      }
+    }
+    return location;
+  }
+
+  /**
+   * Get a ring vertex not on the boundary of another ring
+   * @param ring ring
+   * @param other other ring
+   * @returns vertex or undefined when all are on the boundary
+   */
+  private static getInteriorPoint(
+    ring: Point[],
+    other: Point[],
+  ): Point | undefined {
+    return ring.find((point) =>
+      !other.some((otherPoint, index) =>
+        index > 0 &&
+        SegmentUtils.pointOnSegment(point, other[index - 1], otherPoint, 0)
+      )
+    );
+  }
+
+  /**
+   * Collapse the points of a ring without area into the line they lie on,
+   * ordered along it so the line does not run back over itself
+   * @param points collinear ring points
+   * @returns line points
+   */
+  private static collapseRing(points: Point[]): Point[] {
+    const first = points[0];
+    let end = first;
+    for (const point of points) {
+      if (
+        SegmentUtils.distance(first, point) > SegmentUtils.distance(first, end)
+      ) {
+        end = point;
+      }
+    }
+    return MakeValidOp.removeDuplicates(
+      [...points].sort((point1, point2) =>
+        SegmentUtils.projectionFactor(point1, first, end) -
+        SegmentUtils.projectionFactor(point2, first, end)
+      ),
+    );
+  }
+
+  /**
+   * Determine if points are all on a single line
+   * @param points points
+   * @returns true if collinear
+   */
+  private static isCollinear(points: Point[]): boolean {
+    const first = points[0];
+    const second = points.find((point) =>
+      point.x !== first.x || point.y !== first.y
+    );
+    return second === undefined ||
+      points.every((point) =>
+        SegmentUtils.orientation(first, second, point) === 0
+      );
+  }
+
+  /**
+   * Determine if a geometry has consecutive duplicate points within a line or
+   * ring
+   * @param geometry geometry
+   * @returns true if repeated points
+   */
+  private static hasRepeatedPoints(geometry: Geometry): boolean {
+    let previous: GeometryCoordinate | undefined;
+    for (const coordinate of GeometryTraversal.coordinates(geometry)) {
+      if (
+        previous !== undefined &&
+        previous.partIndex === coordinate.partIndex &&
+        previous.ringIndex === coordinate.ringIndex &&
+        previous.point.x === coordinate.point.x &&
+        previous.point.y === coordinate.point.y
+      ) {
+        return true;
+      }
+      previous = coordinate;
+    }
+    return false;
+  }
+
+  /**
+   * Remove points with non finite coordinates and consecutive duplicate
+   * points
+   * @param points points
+   * @returns finite points without consecutive duplicates
+   */
+  private static removeDuplicates(points: Point[]): Point[] {
+    const result: Point[] = [];
+    for (const point of points) {
+      const previous = result[result.length - 1];
+      if (
+        Number.isFinite(point.x) && Number.isFinite(point.y) &&
+        (previous === undefined || previous.x !== point.x ||
+          previous.y !== point.y)
+      ) {
+        result.push(point);
+      }
+    }
+    return result;
+  }
+}
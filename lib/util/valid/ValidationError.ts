@@ -0,0 +1,89 @@
+import type { Geometry, Point, ValidationErrorType } from "../../internal.ts";
+
+/**
+ * Geometry validation error, describing why a geometry is invalid
+ */
+export class ValidationError {
+  /**
+   * Error type
+   */
+  private readonly _type: ValidationErrorType;
+
+  /**
+   * Error message
+   */
+  private readonly _message: string;
+
+  /**
+   * Invalid geometry or component geometry
+   */
+  private readonly _geometry: Geometry;
+
+  /**
+   * Location of the error
+   */
+  private readonly _location?: Point;
+
+  /**
+   * Constructor
+   * @param type error type
+   * @param message error message
+   * @param geometry invalid geometry or component geometry
+   * @param location location of the error
+   */
+  public constructor(
+    type: ValidationErrorType,
+    message: string,
+    geometry: Geometry,
+    location?: Point,
+  ) {
+    this._type = type;
+    this._message = message;
+    this._geometry = geometry;
+    this._location = location;
+  }
+
+  /**
+   * Get the error type
+   * @returns error type
+   */
+  public get type(): ValidationErrorType {
+    return this._type;
+  }
+
+  /**
+   * Get the error message
+   * @returns error message
+   */
+  public get message(): string {
+    return this._message;
+  }
+
+  /**
+   * Get the invalid geometry or component geometry
+   * @returns geometry
+   */
+  public get geometry(): Geometry {
+    return this._geometry;
+  }
+
+  /**
+   * Get the location of the error
+   * @returns location or undefined when not located
+   */
+  public get location(): Point | undefined {
+    return this._location;
+  }
+
+  /**
+   * Get the message with the location
+   * @returns string
+   */
+  public toString(): string {
+    let value = this._message;
+    if (this._location !== undefined) {
+      value += ` at (${this._location.x} ${this._location.y})`;
+    }
+    return value;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Geometry validation error type
+ */
+export enum ValidationErrorType {
+  /**
+   * Coordinate value that is NaN or infinite
+   */
+  NonFiniteCoordinate = 0,
+
+  /**
+   * Child geometry or point with z or m values differing from its parent
+   */
+  InconsistentDimensions = 1,
+
+  /**
+   * Curve or ring with too few distinct points
+   */
+  TooFewPoints = 2,
+
+  /**
+   * Polygon ring with different start and end points
+   */
+  RingNotClosed = 3,
+
+  /**
+   * Polygon rings crossing, overlapping or touching themselves
+   */
+  SelfIntersection = 4,
+
+  /**
+   * Polygon interior split by rings touching at multiple points
+   */
+  DisconnectedInterior = 5,
+
+  /**
+   * Polygon hole not within the exterior ring
+   */
+  HoleOutsideShell = 6,
+
+  /**
+   * Polygon hole within another hole
+   */
+  NestedHoles = 7,
+
+  /**
+   * Exterior ring not counter clockwise or hole not clockwise
+   */
+  RingOrientation = 8,
+
+  /**
+   * Multi polygon parts with intersecting interiors or overlapping edges
+   */
+  OverlappingPolygons = 9,
+}
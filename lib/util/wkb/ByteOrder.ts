@@ -0,0 +1,14 @@
+/**
+ * Well-Known Binary byte order, valued as the byte order marker
+ */
+export enum ByteOrder {
+  /**
+   * Big endian, network byte order (XDR)
+   */
+  BigEndian = 0,
+
+  /**
+   * Little endian (NDR)
+   */
+  LittleEndian = 1,
+}
@@ -0,0 +1,132 @@
+import { ByteOrder, SFException } from "../../internal.ts";
+
+/**
+ * Reads values from bytes, advancing through the bytes as they are read
+ */
+export class ByteReader {
+  /**
+   * Data view of the bytes
+   */
+  private readonly _view: DataView;
+
+  /**
+   * Next byte index to read
+   */
+  private _nextByte = 0;
+
+  /**
+   * Byte order
+   */
+  private _byteOrder: ByteOrder = ByteOrder.BigEndian;
+
+  /**
+   * Constructor
+   * @param bytes bytes
+   * @param byteOrder byte order
+   */
+  public constructor(
+    bytes: Uint8Array | DataView,
+    byteOrder: ByteOrder = ByteOrder.BigEndian,
+  ) {
+    this._view = bytes instanceof DataView
+      ? bytes
+      : new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this._byteOrder = byteOrder;
+  }
+
+  /**
+   * Get the next byte index to read
+   * @returns next byte index
+   */
+  public get nextByte(): number {
+    return this._nextByte;
+  }
+
+  /**
+   * Get the byte order
+   * @returns byte order
+   */
+  public get byteOrder(): ByteOrder {
+    return this._byteOrder;
+  }
+
+  /**
+   * Set the byte order
+   * @param byteOrder byte order
+   */
+  public set byteOrder(byteOrder: ByteOrder) {
+    this._byteOrder = byteOrder;
+  }
+
+  /**
+   * Get the number of bytes remaining to be read
+   * @returns remaining bytes
+   */
+  public remaining(): number {
+    return this._view.byteLength - this._nextByte;
+  }
+
+  /**
+   * Read a byte
+   * @returns byte
+   */
+  public readByte(): number {
+    this.verifyRemaining(1);
+    const value = this._view.getUint8(this._nextByte);
+    this._nextByte++;
+    return value;
+  }
+
+  /**
+   * Read an unsigned 32 bit integer
+   * @returns integer
+   */
+  public readUInt32(): number {
+    this.verifyRemaining(4);
+    const value = this._view.getUint32(this._nextByte, this.isLittleEndian());
+    this._nextByte += 4;
+    return value;
+  }
+
+  /**
+   * Read a signed 32 bit integer
+   * @returns integer
+   */
+  public readInt32(): number {
+    this.verifyRemaining(4);
+    const value = this._view.getInt32(this._nextByte, this.isLittleEndian());
+    this._nextByte += 4;
+    return value;
+  }
+
+  /**
+   * Read a 64 bit double
+   * @returns double
+   */
+  public readDouble(): number {
+    this.verifyRemaining(8);
+    const value = this._view.getFloat64(this._nextByte, this.isLittleEndian());
+    this._nextByte += 8;
+    return value;
+  }
+
+  /**
+   * Determine if reading in little endian byte order
+   * @returns true if little endian
+   */
+  private isLittleEndian(): boolean {
+    return this._byteOrder === ByteOrder.LittleEndian;
+  }
+
+  /**
+   * Verify the number of bytes are available to read
+   * @param count byte count
+   */
+  private verifyRemaining(count: number): void {
+    if (this.remaining() < count) {
+      throw new SFException(
+        `Unexpected end of bytes at byte ${this._nextByte}, expected ${count} more byte(s)`,
+      );
+    }
+  }
+}
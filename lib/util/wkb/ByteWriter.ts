@@ -0,0 +1,134 @@
+import { ByteOrder } from "../../internal.ts";
+
+/**
+ * Writes values to a growable byte buffer
+ */
+export class ByteWriter {
+  /**
+   * Byte buffer
+   */
+  private _bytes: Uint8Array;
+
+  /**
+   * Data view of the byte buffer
+   */
+  private _view: DataView;
+
+  /**
+   * Number of bytes written
+   */
+  private _size = 0;
+
+  /**
+   * Byte order
+   */
+  private _byteOrder: ByteOrder = ByteOrder.BigEndian;
+
+  /**
+   * Constructor
+   * @param byteOrder byte order
+   * @param initialCapacity initial buffer capacity in bytes
+   */
+  public constructor(
+    byteOrder: ByteOrder = ByteOrder.BigEndian,
+    initialCapacity = 64,
+  ) {
+    this._byteOrder = byteOrder;
+    this._bytes = new Uint8Array(Math.max(initialCapacity, 8));
+    this._view = new DataView(this._bytes.buffer);
+  }
+
+  /**
+   * Get the byte order
+   * @returns byte order
+   */
+  public get byteOrder(): ByteOrder {
+    return this._byteOrder;
+  }
+
+  /**
+   * Set the byte order
+   * @param byteOrder byte order
+   */
+  public set byteOrder(byteOrder: ByteOrder) {
+    this._byteOrder = byteOrder;
+  }
+
+  /**
+   * Get the number of bytes written
+   * @returns size
+   */
+  public get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Get the written bytes
+   * @returns bytes
+   */
+  public getBytes(): Uint8Array {
+    return this._bytes.slice(0, this._size);
+  }
+
+  /**
+   * Write a byte
+   * @param value byte
+   */
+  public writeByte(value: number): void {
+    this.ensureCapacity(1);
+    this._view.setUint8(this._size, value);
+    this._size++;
+  }
+
+  /**
+   * Write an unsigned 32 bit integer
+   * @param value integer
+   */
+  public writeUInt32(value: number): void {
+    this.ensureCapacity(4);
+    this._view.setUint32(this._size, value, this.isLittleEndian());
+    this._size += 4;
+  }
+
+  /**
+   * Write a signed 32 bit integer
+   * @param value integer
+   */
+  public writeInt32(value: number): void {
+    this.ensureCapacity(4);
+    this._view.setInt32(this._size, value, this.isLittleEndian());
+    this._size += 4;
+  }
+
+  /**
+   * Write a 64 bit double
+   * @param value double
+   */
+  public writeDouble(value: number): void {
+    this.ensureCapacity(8);
+    this._view.setFloat64(this._size, value, this.isLittleEndian());
+    this._size += 8;
+  }
+
+  /**
+   * Determine if writing in little endian byte order
+   * @returns true if little endian
+   */
+  private isLittleEndian(): boolean {
+    return this._byteOrder === ByteOrder.LittleEndian;
+  }
+
+  /**
+   * Grow the buffer when needed to fit the additional bytes
+   * @param count additional byte count
+   */
+  private ensureCapacity(count: number): void {
+    const required = this._size + count;
+    if (required > this._bytes.length) {
+      const bytes = new Uint8Array(Math.max(required, this._bytes.length * 2));
+      bytes.set(this._bytes.subarray(0, this._size));
+      this._bytes = bytes;
+      this._view = new DataView(this._bytes.buffer);
+    }
+  }
+}
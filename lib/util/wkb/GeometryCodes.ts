@@ -0,0 +1,161 @@
+import { GeometryType, SFException } from "../../internal.ts";
+import type { Geometry, GeometryTypeInfo } from "../../internal.ts";
+
+/**
+ * Well-Known Binary geometry type codes, in both the ISO 13249 form (1000, 2000
+ * and 3000 offsets for Z, M and ZM) and the extended form (high bit flags)
+ */
+export class GeometryCodes {
+  /**
+   * Extended code flag for z values
+   */
+  public static readonly EXTENDED_Z_FLAG = 0x80000000;
+
+  /**
+   * Extended code flag for m values
+   */
+  public static readonly EXTENDED_M_FLAG = 0x40000000;
+
+  /**
+   * Extended code flag for a spatial reference system identifier
+   */
+  public static readonly EXTENDED_SRID_FLAG = 0x20000000;
+
+  /**
+   * Mask of all extended code flags
+   */
+  private static readonly EXTENDED_FLAGS = 0xE0000000;
+
+  /**
+   * Get the ISO geometry code of the geometry
+   * @param geometry geometry
+   * @returns geometry code
+   */
+  public static getCode(geometry: Geometry): number {
+    return GeometryCodes.getCodeFromType(
+      geometry.geometryType,
+      geometry.hasZ,
+      geometry.hasM,
+    );
+  }
+
+  /**
+   * Get the ISO geometry code of the geometry type and dimensions
+   * @param geometryType geometry type
+   * @param hasZ has z values
+   * @param hasM has m values
+   * @returns geometry code
+   */
+  public static getCodeFromType(
+    geometryType: GeometryType,
+    hasZ: boolean,
+    hasM: boolean,
+  ): number {
+    GeometryCodes.verifyGeometryType(geometryType);
+    let code = geometryType as number;
+    if (hasZ) {
+      code += 1000;
+    }
+    if (hasM) {
+      code += 2000;
+    }
+    return code;
+  }
+
+  /**
+   * Get the extended geometry code of the geometry type and dimensions
+   * @param geometryType geometry type
+   * @param hasZ has z values
+   * @param hasM has m values
+   * @param hasSRID followed by a spatial reference system identifier
+   * @returns geometry code
+   */
+  public static getExtendedCode(
+    geometryType: GeometryType,
+    hasZ: boolean,
+    hasM: boolean,
+    hasSRID = false,
+  ): number {
+    GeometryCodes.verifyGeometryType(geometryType);
+    let code = geometryType as number;
+    if (hasZ) {
+      code |= GeometryCodes.EXTENDED_Z_FLAG;
+    }
+    if (hasM) {
+      code |= GeometryCodes.EXTENDED_M_FLAG;
+    }
+    if (hasSRID) {
+      code |= GeometryCodes.EXTENDED_SRID_FLAG;
+    }
+    return code >>> 0;
+  }
+
+  /**
+   * Decode an ISO or extended geometry code
+   * @param code geometry code
+   * @returns geometry type info
+   */
+  public static getGeometryTypeInfo(code: number): GeometryTypeInfo {
+    const flags = (code & GeometryCodes.EXTENDED_FLAGS) >>> 0;
+    const baseCode = (code & ~GeometryCodes.EXTENDED_FLAGS) >>> 0;
+
+    let geometryType: number;
+    let hasZ: boolean;
+    let hasM: boolean;
+    let hasSRID = false;
+    if (flags !== 0) {
+      if (baseCode >= 1000) {
+        throw new SFException(
+          `Geometry code mixes extended flags and ISO dimensions: ${code}`,
+        );
+      }
+      geometryType = baseCode;
+      hasZ = (flags & GeometryCodes.EXTENDED_Z_FLAG) !== 0;
+      hasM = (flags & GeometryCodes.EXTENDED_M_FLAG) !== 0;
+      hasSRID = (flags & GeometryCodes.EXTENDED_SRID_FLAG) !== 0;
+    } else {
+      const dimensions = Math.floor(baseCode / 1000);
+      if (dimensions > 3) {
+        throw new SFException(`Unsupported geometry code: ${code}`);
+      }
+      geometryType = baseCode % 1000;
+      hasZ = dimensions === 1 || dimensions === 3;
+      hasM = dimensions === 2 || dimensions === 3;
+    }
+
+    if (!GeometryCodes.isInstantiable(geometryType)) {
+      throw new SFException(`Unsupported geometry code: ${code}`);
+    }
+
+    return {
+      geometryType: geometryType as GeometryType,
+      hasZ,
+      hasM,
+      hasSRID,
+    };
+  }
+
+  /**
+   * Verify the geometry type can be encoded
+   * @param geometryType geometry type
+   */
+  private static verifyGeometryType(geometryType: GeometryType): void {
+    if (!GeometryCodes.isInstantiable(geometryType)) {
+      throw new SFException(
+        `Unsupported geometry type for a geometry code: ${geometryType}`,
+      );
+    }
+  }
+
+  /**
+   * Determine if the geometry type value is an instantiable geometry type
+   * @param geometryType geometry type value
+   * @returns true if instantiable
+   */
+  private static isInstantiable(geometryType: number): boolean {
+    return geometryType >= GeometryType.Point &&
+      geometryType <= GeometryType.Triangle &&
+      geometryType !== GeometryType.Curve &&
+      geometryType !== GeometryType.Surface;
+  }
+}
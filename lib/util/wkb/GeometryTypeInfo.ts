@@ -0,0 +1,26 @@
+import type { GeometryType } from "../../internal.ts";
+
+/**
+ * Geometry type and dimension information decoded from a geometry code
+ */
+export interface GeometryTypeInfo {
+  /**
+   * Geometry type
+   */
+  geometryType: GeometryType;
+
+  /**
+   * Has z values
+   */
+  hasZ: boolean;
+
+  /**
+   * Has m values
+   */
+  hasM: boolean;
+
+  /**
+   * Extended code with a spatial reference system identifier following it
+   */
+  hasSRID: boolean;
+}
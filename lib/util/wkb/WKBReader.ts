@@ -0,0 +1,355 @@
+import type { Curve, Geometry, GeometryFilter } from "../../internal.ts";
+import {
+  ByteOrder,
+  ByteReader,
+  CircularString,
+  CompoundCurve,
+  CurvePolygon,
+  ExtendedGeometryCollection,
+  GeometryCodes,
+  GeometryCollection,
+  GeometryType,
+  GeometryTypeUtils,
+  LineString,
+  MultiLineString,
+  MultiPoint,
+  MultiPolygon,
+  Point,
+  Polygon,
+  PolyhedralSurface,
+  SFException,
+  TIN,
+  Triangle,
+} from "../../internal.ts";
+
+/**
+ * Well-Known Binary reader. Reads every geometry type in either byte order
+ * with ISO 13249 or extended geometry codes. An empty point is read as a point
+ * with NaN coordinates. An extended srid is set on the outermost geometry only,
+ * srids of child geometries are ignored.
+ */
+export class WKBReader {
+  /**
+   * Byte reader
+   */
+  private readonly _reader: ByteReader;
+
+  /**
+   * Geometry filter
+   */
+  private readonly _filter?: GeometryFilter;
+
+  /**
+   * Constructor
+   * @param bytes well-known binary
+   * @param filter geometry filter
+   */
+  private constructor(bytes: Uint8Array | DataView, filter?: GeometryFilter) {
+    this._reader = new ByteReader(bytes);
+    this._filter = filter;
+  }
+
+  /**
+   * Read a geometry from well-known binary
+   * @param bytes well-known binary
+   * @param filter geometry filter applied to each geometry as it is read
+   * @returns geometry, undefined when filtered out
+   */
+  public static readGeometry(
+    bytes: Uint8Array | DataView,
+    filter?: GeometryFilter,
+  ): Geometry | undefined {
+    const wkbReader = new WKBReader(bytes, filter);
+    const geometry = wkbReader.readGeometryElement();
+    if (wkbReader._reader.remaining() > 0) {
+      throw new SFException(
+        `Unexpected bytes after the geometry at byte ${wkbReader._reader.nextByte}`,
+      );
+    }
+    return geometry;
+  }
+
+  /**
+   * Read a geometry including its byte order and geometry code header
+   * @param containingType geometry type of the containing geometry, undefined
+   *        at the top level
+   * @param allowedTypes allowed geometry types, all when undefined
+   * @returns geometry, undefined when filtered out
+   */
+  private readGeometryElement(
+    containingType?: GeometryType,
+    allowedTypes?: GeometryType[],
+  ): Geometry | undefined {
+    const byteOrder = this._reader.readByte();
+    if (
+      byteOrder !== ByteOrder.BigEndian && byteOrder !== ByteOrder.LittleEndian
+    ) {
+      throw new SFException(
+        `Unexpected byte order ${byteOrder} at byte ${
+          this._reader.nextByte - 1
+        }`,
+      );
+    }
+    this._reader.byteOrder = byteOrder;
+
+    const typeInfo = GeometryCodes.getGeometryTypeInfo(
+      this._reader.readUInt32(),
+    );
+    const srid = typeInfo.hasSRID ? this._reader.readInt32() : undefined;
+
+    const geometryType = typeInfo.geometryType;
+    if (allowedTypes && !allowedTypes.includes(geometryType)) {
+      throw new SFException(
+        `Unexpected geometry type ${
+          GeometryTypeUtils.nameFromType(geometryType)
+        } within ${GeometryTypeUtils.nameFromType(containingType!)}`,
+      );
+    }
+
+    const hasZ = typeInfo.hasZ;
+    const hasM = typeInfo.hasM;
+    let geometry: Geometry;
+    switch (geometryType) {
+      case GeometryType.Point: {
+        geometry = this.readPoint(hasZ, hasM);
+        break;
+      }
+      case GeometryType.LineString: {
+        geometry = this.readLineString(LineString.create(hasZ, hasM));
+        break;
+      }
+      case GeometryType.CircularString: {
+        geometry = this.readLineString(CircularString.create(hasZ, hasM));
+        break;
+      }
+      case GeometryType.Polygon: {
+        geometry = this.readPolygon(Polygon.create(hasZ, hasM));
+        break;
+      }
+      case GeometryType.Triangle: {
+        geometry = this.readPolygon(Triangle.create(hasZ, hasM));
+        break;
+      }
+      case GeometryType.MultiPoint: {
+        const multiPoint = MultiPoint.create(hasZ, hasM);
+        this.readGeometries(
+          geometryType,
+          [GeometryType.Point],
+          (point) => multiPoint.addPoint(point as Point),
+        );
+        geometry = multiPoint;
+        break;
+      }
+      case GeometryType.MultiLineString: {
+        const multiLineString = MultiLineString.create(hasZ, hasM);
+        this.readGeometries(
+          geometryType,
+          [GeometryType.LineString],
+          (lineString) =>
+            multiLineString.addLineString(lineString as LineString),
+        );
+        geometry = multiLineString;
+        break;
+      }
+      case GeometryType.MultiPolygon: {
+        const multiPolygon = MultiPolygon.create(hasZ, hasM);
+        this.readGeometries(
+          geometryType,
+          [GeometryType.Polygon],
+          (polygon) => multiPolygon.addPolygon(polygon as Polygon),
+        );
+        geometry = multiPolygon;
+        break;
+      }
+      case GeometryType.GeometryCollection: {
+        const geometryCollection = GeometryCollection.create(hasZ, hasM);
+        this.readGeometries(
+          geometryType,
+          undefined,
+          (child) => geometryCollection.addGeometry(child),
+        );
+        geometry = geometryCollection;
+        break;
+      }
+      case GeometryType.CompoundCurve: {
+        const compoundCurve = CompoundCurve.create(hasZ, hasM);
+        this.readGeometries(
+          geometryType,
+          [GeometryType.LineString, GeometryType.CircularString],
+          (lineString) => compoundCurve.addLineString(lineString as LineString),
+        );
+        geometry = compoundCurve;
+        break;
+      }
+      case GeometryType.CurvePolygon: {
+        const curvePolygon = CurvePolygon.create(hasZ, hasM);
+        this.readGeometries(
+          geometryType,
+          [
+            GeometryType.LineString,
+            GeometryType.CircularString,
+            GeometryType.CompoundCurve,
+          ],
+          (ring) => curvePolygon.addRing(ring as Curve),
+        );
+        geometry = curvePolygon;
+        break;
+      }
+      case GeometryType.MultiCurve: {
+        const multiCurve = ExtendedGeometryCollection.create(hasZ, hasM);
+        multiCurve.geometryType = GeometryType.MultiCurve;
+        this.readGeometries(
+          geometryType,
+          [
+            GeometryType.LineString,
+            GeometryType.CircularString,
+            GeometryType.CompoundCurve,
+          ],
+          (curve) => multiCurve.addGeometry(curve),
+        );
+        geometry = multiCurve;
+        break;
+      }
+      case GeometryType.MultiSurface: {
+        const multiSurface = ExtendedGeometryCollection.create(hasZ, hasM);
+        multiSurface.geometryType = GeometryType.MultiSurface;
+        this.readGeometries(
+          geometryType,
+          [
+            GeometryType.Polygon,
+            GeometryType.CurvePolygon,
+            GeometryType.Triangle,
+            GeometryType.PolyhedralSurface,
+            GeometryType.Tin,
+          ],
+          (surface) => multiSurface.addGeometry(surface),
+        );
+        geometry = multiSurface;
+        break;
+      }
+      case GeometryType.PolyhedralSurface: {
+        const polyhedralSurface = PolyhedralSurface.create(hasZ, hasM);
+        this.readGeometries(
+          geometryType,
+          [GeometryType.Polygon],
+          (polygon) => polyhedralSurface.addPolygon(polygon as Polygon),
+        );
+        geometry = polyhedralSurface;
+        break;
+      }
+      case GeometryType.Tin: {
+        const tin = TIN.create(hasZ, hasM);
+        this.readGeometries(
+          geometryType,
+          [GeometryType.Triangle],
+          (triangle) => tin.addPolygon(triangle as Triangle),
+        );
+        geometry = tin;
+        break;
+      }
+      default:
+        throw new SFException(`Unsupported Geometry Type: ${geometryType}`);
+    }
+
+    if (containingType === undefined) {
+      geometry.srid = srid;
+    }
+
+    return this.filter(containingType, geometry);
+  }
+
+  /**
+   * Read a count followed by that many geometries, adding those that pass the
+   * filter
+   * @param containingType geometry type of the containing geometry
+   * @param allowedTypes allowed geometry types, all when undefined
+   * @param addGeometry function to add each geometry
+   */
+  private readGeometries(
+    containingType: GeometryType,
+    allowedTypes: GeometryType[] | undefined,
+    addGeometry: (geometry: Geometry) => void,
+  ): void {
+    const numGeometries = this._reader.readUInt32();
+    for (let i = 0; i < numGeometries; i++) {
+      const geometry = this.readGeometryElement(containingType, allowedTypes);
+      if (geometry !== undefined) {
+        addGeometry(geometry);
+      }
+    }
+  }
+
+  /**
+   * Read point coordinates
+   * @param hasZ has z values
+   * @param hasM has m values
+   * @returns point
+   */
+  private readPoint(hasZ: boolean, hasM: boolean): Point {
+    const point = Point.create(hasZ, hasM);
+    point.x = this._reader.readDouble();
+    point.y = this._reader.readDouble();
+    if (hasZ) {
+      point.z = this._reader.readDouble();
+    }
+    if (hasM) {
+      point.m = this._reader.readDouble();
+    }
+    return point;
+  }
+
+  /**
+   * Read line string points into the line string
+   * @param lineString line string or circular string
+   * @returns line string
+   */
+  private readLineString<T extends LineString>(lineString: T): T {
+    const numPoints = this._reader.readUInt32();
+    for (let i = 0; i < numPoints; i++) {
+      const point = this.filter(
+        lineString.geometryType,
+        this.readPoint(lineString.hasZ, lineString.hasM),
+      );
+      if (point !== undefined) {
+        lineString.addPoint(point);
+      }
+    }
+    return lineString;
+  }
+
+  /**
+   * Read polygon rings into the polygon
+   * @param polygon polygon or triangle
+   * @returns polygon
+   */
+  private readPolygon<T extends Polygon>(polygon: T): T {
+    const numRings = this._reader.readUInt32();
+    for (let i = 0; i < numRings; i++) {
+      const ring = this.filter(
+        polygon.geometryType,
+        this.readLineString(LineString.create(polygon.hasZ, polygon.hasM)),
+      );
+      if (ring !== undefined) {
+        polygon.addRing(ring);
+      }
+    }
+    return polygon;
+  }
+
+  /**
+   * Apply the geometry filter
+   * @param containingType geometry type of the containing geometry, undefined
+   *        at the top level
+   * @param geometry geometry
+   * @returns geometry, undefined when filtered out
+   */
+  private filter<T extends Geometry>(
+    containingType: GeometryType | undefined,
+    geometry: T,
+  ): T | undefined {
+    return this._filter === undefined ||
+        this._filter.filter(containingType, geometry)
+      ? geometry
+      : undefined;
+  }
+}
@@ -0,0 +1,184 @@
+import type {
+  CompoundCurve,
+  CurvePolygon,
+  Geometry,
+  GeometryCollection,
+  LineString,
+  MultiPoint,
+  Point,
+  Polygon,
+  PolyhedralSurface,
+} from "../../internal.ts";
+import {
+  ByteOrder,
+  ByteWriter,
+  GeometryCodes,
+  GeometryType,
+  SFException,
+} from "../../internal.ts";
+
+/**
+ * Well-Known Binary writer. Writes every geometry type in either byte order
+ * with ISO 13249 or extended geometry codes. An empty point is written with NaN
+ * coordinates. Extended well-known binary includes the srid of the outermost
+ * geometry, child geometry srids are not written.
+ */
+export class WKBWriter {
+  /**
+   * Byte writer
+   */
+  private readonly _writer: ByteWriter;
+
+  /**
+   * Write extended geometry codes
+   */
+  private readonly _extended: boolean;
+
+  /**
+   * Constructor
+   * @param byteOrder byte order
+   * @param extended write extended geometry codes
+   */
+  private constructor(byteOrder: ByteOrder, extended: boolean) {
+    this._writer = new ByteWriter(byteOrder);
+    this._extended = extended;
+  }
+
+  /**
+   * Write a geometry to well-known binary
+   * @param geometry geometry
+   * @param byteOrder byte order
+   * @param extended true to write extended geometry codes and srid instead of
+   *        ISO codes
+   * @returns well-known binary
+   */
+  public static writeGeometry(
+    geometry: Geometry,
+    byteOrder: ByteOrder = ByteOrder.BigEndian,
+    extended = false,
+  ): Uint8Array {
+    const wkbWriter = new WKBWriter(byteOrder, extended);
+    wkbWriter.writeGeometryElement(
+      geometry,
+      extended ? geometry.srid : undefined,
+    );
+    return wkbWriter._writer.getBytes();
+  }
+
+  /**
+   * Write a geometry including its byte order and geometry code header
+   * @param geometry geometry
+   * @param srid extended srid to write in the header
+   */
+  private writeGeometryElement(geometry: Geometry, srid?: number): void {
+    this._writer.writeByte(this._writer.byteOrder);
+    const geometryType = geometry.geometryType;
+    this._writer.writeUInt32(
+      this._extended
+        ? GeometryCodes.getExtendedCode(
+          geometryType,
+          geometry.hasZ,
+          geometry.hasM,
+          srid !== undefined,
+        )
+        : GeometryCodes.getCode(geometry),
+    );
+    if (srid !== undefined) {
+      this._writer.writeInt32(srid);
+    }
+
+    switch (geometryType) {
+      case GeometryType.Point: {
+        this.writePoint(geometry as Point, geometry.hasZ, geometry.hasM);
+        break;
+      }
+      case GeometryType.LineString:
+      case GeometryType.CircularString: {
+        this.writeLineString(geometry as LineString);
+        break;
+      }
+      case GeometryType.Polygon:
+      case GeometryType.Triangle: {
+        this.writePolygon(geometry as Polygon);
+        break;
+      }
+      case GeometryType.MultiPoint: {
+        this.writeGeometries((geometry as MultiPoint).points);
+        break;
+      }
+      case GeometryType.MultiLineString:
+      case GeometryType.MultiPolygon:
+      case GeometryType.GeometryCollection:
+      case GeometryType.MultiCurve:
+      case GeometryType.MultiSurface: {
+        this.writeGeometries((geometry as GeometryCollection).geometries);
+        break;
+      }
+      case GeometryType.CompoundCurve: {
+        this.writeGeometries((geometry as CompoundCurve).lineStrings);
+        break;
+      }
+      case GeometryType.CurvePolygon: {
+        this.writeGeometries((geometry as CurvePolygon).rings);
+        break;
+      }
+      case GeometryType.PolyhedralSurface:
+      case GeometryType.Tin: {
+        this.writeGeometries((geometry as PolyhedralSurface).polygons);
+        break;
+      }
+      default:
+        throw new SFException(`Unsupported Geometry Type: ${geometryType}`);
+    }
+  }
+
+  /**
+   * Write a count followed by each geometry
+   * @param geometries geometries
+   */
+  private writeGeometries(geometries: Geometry[]): void {
+    this._writer.writeUInt32(geometries.length);
+    for (const geometry of geometries) {
+      this.writeGeometryElement(geometry);
+    }
+  }
+
+  /**
+   * Write point coordinates
+   * @param point point
+   * @param hasZ write the z value
+   * @param hasM write the m value
+   */
+  private writePoint(point: Point, hasZ: boolean, hasM: boolean): void {
+    this._writer.writeDouble(point.x);
+    this._writer.writeDouble(point.y);
+    if (hasZ) {
+      this._writer.writeDouble(point.z ?? Number.NaN);
+    }
+    if (hasM) {
+      this._writer.writeDouble(point.m ?? Number.NaN);
+    }
+  }
+
+  /**
+   * Write line string points
+   * @param lineString line string
+   */
+  private writeLineString(lineString: LineString): void {
+    this._writer.writeUInt32(lineString.numPoints());
+    for (const point of lineString.points) {
+      this.writePoint(point, lineString.hasZ, lineString.hasM);
+    }
+  }
+
+  /**
+   * Write polygon rings
+   * @param polygon polygon
+   */
+  private writePolygon(polygon: Polygon): void {
+    this._writer.writeUInt32(polygon.numRings());
+    for (const ring of polygon.rings) {
+      this.writeLineString(ring);
+    }
+  }
+}
@@ -0,0 +1,236 @@
+import { SFException } from "../../internal.ts";
+
+/**
+ * Tokenizing reader of well-known text, tracking the column position of each
+ * token for error reporting
+ */
+export class TextReader {
+  /**
+   * Text being read
+   */
+  private readonly _text: string;
+
+  /**
+   * Current character index
+   */
+  private _index = 0;
+
+  /**
+   * Peeked token
+   */
+  private _peeked: string | undefined;
+
+  /**
+   * Character index of the peeked token
+   */
+  private _peekedIndex = 0;
+
+  /**
+   * Character index of the last read token
+   */
+  private _tokenIndex = 0;
+
+  /**
+   * Constructor
+   * @param text well-known text
+   */
+  public constructor(text: string) {
+    this._text = text;
+  }
+
+  /**
+   * Get the text
+   * @returns text
+   */
+  public get text(): string {
+    return this._text;
+  }
+
+  /**
+   * Get the one based column of the last read token
+   * @returns column
+   */
+  public get column(): number {
+    return this._tokenIndex + 1;
+  }
+
+  /**
+   * Read the next token
+   * @returns token or undefined when the end of the text is reached
+   */
+  public readToken(): string | undefined {
+    const token = this.peekToken();
+    this._tokenIndex = this._peekedIndex;
+    this._peeked = undefined;
+    return token;
+  }
+
+  /**
+   * Peek at the next token without consuming it
+   * @returns token or undefined when the end of the text is reached
+   */
+  public peekToken(): string | undefined {
+    if (this._peeked === undefined) {
+      while (
+        this._index < this._text.length &&
+        /\s/.test(this._text.charAt(this._index))
+      ) {
+        this._index++;
+      }
+
+      this._peekedIndex = this._index;
+      if (this._index < this._text.length) {
+        const start = this._index;
+        const c = this._text.charAt(this._index);
+        if (TextReader.isDelimiter(c)) {
+          this._index++;
+        } else {
+          while (
+            this._index < this._text.length &&
+            !TextReader.isDelimiter(this._text.charAt(this._index)) &&
+            !/\s/.test(this._text.charAt(this._index))
+          ) {
+            this._index++;
+          }
+        }
+        this._peeked = this._text.substring(start, this._index);
+      }
+    }
+    return this._peeked;
+  }
+
+  /**
+   * Get the one based column of the next token
+   * @returns column
+   */
+  public peekColumn(): number {
+    this.peekToken();
+    return this._peekedIndex + 1;
+  }
+
+  /**
+   * Read the next token, which must exist
+   * @param expected description of the expected token for error messages
+   * @returns token
+   */
+  public readRequiredToken(expected: string): string {
+    const token = this.readToken();
+    if (token === undefined) {
+      throw this.createException(
+        `Unexpected end of text, expected ${expected}`,
+        this._text.length + 1,
+      );
+    }
+    return token;
+  }
+
+  /**
+   * Read the next token and verify it matches the expected token
+   * @param expected expected token, case insensitive
+   */
+  public readExpected(expected: string): void {
+    const token = this.readRequiredToken(`'${expected}'`);
+    if (token.toUpperCase() !== expected.toUpperCase()) {
+      throw this.createException(
+        `Unexpected token '${token}', expected '${expected}'`,
+      );
+    }
+  }
+
+  /**
+   * Consume the next token if it matches the expected token
+   * @param expected expected token, case insensitive
+   * @returns true if the token was read
+   */
+  public readIf(expected: string): boolean {
+    const token = this.peekToken();
+    const matches = token !== undefined &&
+      token.toUpperCase() === expected.toUpperCase();
+    if (matches) {
+      this.readToken();
+    }
+    return matches;
+  }
+
+  /**
+   * Read a number token
+   * @returns number
+   */
+  public readNumber(): number {
+    const token = this.readRequiredToken("a number");
+    let value: number;
+    switch (token.toUpperCase()) {
+      case "NAN": {
+        value = Number.NaN;
+        break;
+      }
+      case "INF":
+      case "+INF":
+      case "INFINITY":
+      case "+INFINITY": {
+        value = Number.POSITIVE_INFINITY;
+        break;
+      }
+      case "-INF":
+      case "-INFINITY": {
+        value = Number.NEGATIVE_INFINITY;
+        break;
+      }
+      default: {
+        value = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(token)
+          ? Number(token)
+          : Number.NaN;
+        if (Number.isNaN(value)) {
+          throw this.createException(
+            `Invalid number '${token}'`,
+          );
+        }
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Determine if the next token is a number
+   * @returns true if a number is next
+   */
+  public isNumberNext(): boolean {
+    const token = this.peekToken();
+    return token !== undefined &&
+      /^([-+]?(\d|\.\d|INF)|NAN)/i.test(token);
+  }
+
+  /**
+   * Verify the end of the text was reached
+   */
+  public readEnd(): void {
+    const token = this.readToken();
+    if (token !== undefined) {
+      throw this.createException(
+        `Unexpected token '${token}', expected end of text`,
+      );
+    }
+  }
+
+  /**
+   * Create a parse exception located at a column
+   * @param message message
+   * @param column one based column, defaults to the last read token column
+   * @returns exception
+   */
+  public createException(
+    message: string,
+    column: number = this.column,
+  ): SFException {
+    return new SFException(`${message} at column ${column}`);
+  }
+
+  /**
+   * Determine if the character is a single character token
+   * @param c character
+   * @returns true if a delimiter
+   */
+  private static isDelimiter(c: string): boolean {
+    return c === "(" || c === ")" || c === "," || c === ";" || c === "=";
+  }
+}
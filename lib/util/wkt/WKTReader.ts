@@ -0,0 +1,548 @@
+import type { Curve, Geometry, Surface } from "../../internal.ts";
+import {
+  CircularString,
+  CompoundCurve,
+  CurvePolygon,
+  ExtendedGeometryCollection,
+  GeometryCollection,
+  GeometryType,
+  GeometryTypeUtils,
+  LineString,
+  MultiLineString,
+  MultiPoint,
+  MultiPolygon,
+  Point,
+  Polygon,
+  PolyhedralSurface,
+  TextReader,
+  TIN,
+  Triangle,
+} from "../../internal.ts";
+
+/**
+ * Coordinate dimensions of a geometry being read, either declared by a Z, M
+ * or ZM tag or inferred from the first coordinate
+ */
+class Dimensions {
+  /**
+   * Constructor
+   * @param hasZ has z
+   * @param hasM has m
+   * @param known true if declared or inferred
+   */
+  public constructor(
+    public hasZ = false,
+    public hasM = false,
+    public known = false,
+  ) {}
+}
+
+/**
+ * Well-Known Text reader. Reads the OGC / ISO 13249 text representation of
+ * every geometry type, including Z, M and ZM variants and EMPTY geometries.
+ * An empty point is read as a point with NaN coordinates.
+ */
+export class WKTReader {
+  /**
+   * Text reader
+   */
+  private readonly _reader: TextReader;
+
+  /**
+   * Constructor
+   * @param text well-known text
+   */
+  private constructor(text: string) {
+    this._reader = new TextReader(text);
+  }
+
+  /**
+   * Read a geometry from well-known text or extended well-known text, where an
+   * optional "SRID=4326;" prefix sets the geometry srid
+   * @param text well-known text
+   * @returns geometry
+   * @throws SFException with the column position when the text is invalid
+   */
+  public static readGeometry(text: string): Geometry {
+    const wktReader = new WKTReader(text);
+    const srid = wktReader.readSrid();
+    const geometry = wktReader.readGeometryTaggedText(new Dimensions());
+    wktReader._reader.readEnd();
+    geometry.srid = srid;
+    return geometry;
+  }
+
+  /**
+   * Read the optional extended well-known text SRID prefix
+   * @returns srid or undefined when not present
+   */
+  private readSrid(): number | undefined {
+    let srid: number | undefined;
+    if (this._reader.readIf("SRID")) {
+      this._reader.readExpected("=");
+      srid = this._reader.readNumber();
+      if (!Number.isInteger(srid)) {
+        throw this._reader.createException(`Invalid SRID '${srid}'`);
+      }
+      this._reader.readExpected(";");
+    }
+    return srid;
+  }
+
+  /**
+   * Read geometry tagged text
+   * @param parent containing geometry dimensions
+   * @param allowedTypes allowed geometry types, all when undefined
+   * @returns geometry
+   */
+  private readGeometryTaggedText(
+    parent: Dimensions,
+    allowedTypes?: GeometryType[],
+  ): Geometry {
+    const [geometryType, tag] = this.readGeometryType(allowedTypes);
+    const dimensions = this.readDimensions(parent, tag);
+    return this.readGeometryText(geometryType, dimensions);
+  }
+
+  /**
+   * Read the geometry type name
+   * @param allowedTypes allowed geometry types, all when undefined
+   * @returns geometry type and any dimension tag attached to the name
+   */
+  private readGeometryType(
+    allowedTypes?: GeometryType[],
+  ): [GeometryType, string | undefined] {
+    const token = this._reader.readRequiredToken("a geometry type");
+    const name = token.toUpperCase();
+    let geometryType = GeometryTypeUtils.fromName(name);
+    let tag: string | undefined;
+
+    // Support type names with attached dimensions, such as POINTZ
+    if (geometryType === undefined) {
+      for (const suffix of ["ZM", "Z", "M"]) {
+        if (name.length > suffix.length && name.endsWith(suffix)) {
+          geometryType = GeometryTypeUtils.fromName(
+            name.substring(0, name.length - suffix.length),
+          );
+          if (geometryType !== undefined) {
+            tag = suffix;
+            break;
+          }
+        }
+      }
+    }
+
+    if (
+      geometryType === undefined ||
+      geometryType === GeometryType.Geometry ||
+      geometryType === GeometryType.Curve ||
+      geometryType === GeometryType.Surface
+    ) {
+      throw this._reader.createException(`Unknown geometry type '${token}'`);
+    }
+
+    if (allowedTypes && !allowedTypes.includes(geometryType)) {
+      throw this._reader.createException(
+        `Unexpected geometry type '${token}'`,
+      );
+    }
+
+    return [geometryType, tag];
+  }
+
+  /**
+   * Read the optional Z, M or ZM dimension tag
+   * @param parent containing geometry dimensions
+   * @param tag dimension tag attached to the geometry type name
+   * @returns dimensions
+   */
+  private readDimensions(parent: Dimensions, tag?: string): Dimensions {
+    if (tag === undefined) {
+      const token = this._reader.peekToken()?.toUpperCase();
+      if (token === "Z" || token === "M" || token === "ZM") {
+        this._reader.readToken();
+        tag = token;
+      }
+    }
+
+    let dimensions: Dimensions;
+    if (tag !== undefined) {
+      dimensions = new Dimensions(tag.includes("Z"), tag.includes("M"), true);
+      if (
+        parent.known &&
+        (parent.hasZ !== dimensions.hasZ || parent.hasM !== dimensions.hasM)
+      ) {
+        throw this._reader.createException(
+          `Dimension '${tag}' does not match the containing geometry`,
+        );
+      }
+    } else if (parent.known) {
+      dimensions = new Dimensions(parent.hasZ, parent.hasM, true);
+    } else {
+      dimensions = new Dimensions();
+    }
+    return dimensions;
+  }
+
+  /**
+   * Read the geometry text of the geometry type
+   * @param geometryType geometry type
+   * @param dimensions dimensions
+   * @returns geometry
+   */
+  private readGeometryText(
+    geometryType: GeometryType,
+    dimensions: Dimensions,
+  ): Geometry {
+    let geometry: Geometry;
+    switch (geometryType) {
+      case GeometryType.Point: {
+        geometry = this.readPointText(dimensions);
+        break;
+      }
+      case GeometryType.LineString: {
+        geometry = this.readLineStringText(
+          LineString.create(dimensions.hasZ, dimensions.hasM),
+          dimensions,
+        );
+        break;
+      }
+      case GeometryType.CircularString: {
+        geometry = this.readLineStringText(
+          CircularString.create(dimensions.hasZ, dimensions.hasM),
+          dimensions,
+        );
+        break;
+      }
+      case GeometryType.Polygon: {
+        geometry = this.readPolygonText(
+          Polygon.create(dimensions.hasZ, dimensions.hasM),
+          dimensions,
+        );
+        break;
+      }
+      case GeometryType.Triangle: {
+        geometry = this.readPolygonText(
+          Triangle.create(dimensions.hasZ, dimensions.hasM),
+          dimensions,
+        );
+        break;
+      }
+      case GeometryType.MultiPoint: {
+        geometry = this.readMultiPointText(dimensions);
+        break;
+      }
+      case GeometryType.MultiLineString: {
+        const multiLineString = MultiLineString.create(
+          dimensions.hasZ,
+          dimensions.hasM,
+        );
+        this.readList(() => {
+          multiLineString.addLineString(
+            this.readLineStringText(
+              LineString.create(dimensions.hasZ, dimensions.hasM),
+              dimensions,
+            ),
+          );
+        });
+        geometry = multiLineString;
+        break;
+      }
+      case GeometryType.MultiPolygon: {
+        const multiPolygon = MultiPolygon.create(
+          dimensions.hasZ,
+          dimensions.hasM,
+        );
+        this.readList(() => {
+          multiPolygon.addPolygon(
+            this.readPolygonText(
+              Polygon.create(dimensions.hasZ, dimensions.hasM),
+              dimensions,
+            ),
+          );
+        });
+        geometry = multiPolygon;
+        break;
+      }
+      case GeometryType.GeometryCollection: {
+        const geometryCollection = GeometryCollection.create(
+          dimensions.hasZ,
+          dimensions.hasM,
+        );
+        this.readList(() => {
+          geometryCollection.addGeometry(
+            this.readGeometryTaggedText(dimensions),
+          );
+        });
+        geometry = geometryCollection;
+        break;
+      }
+      case GeometryType.CompoundCurve: {
+        const compoundCurve = CompoundCurve.create(
+          dimensions.hasZ,
+          dimensions.hasM,
+        );
+        this.readList(() => {
+          compoundCurve.addLineString(
+            this.readChild(dimensions, GeometryType.LineString, [
+              GeometryType.LineString,
+              GeometryType.CircularString,
+            ]) as LineString,
+          );
+        });
+        geometry = compoundCurve;
+        break;
+      }
+      case GeometryType.CurvePolygon: {
+        const curvePolygon = CurvePolygon.create(
+          dimensions.hasZ,
+          dimensions.hasM,
+        );
+        this.readList(() => {
+          curvePolygon.addRing(
+            this.readChild(dimensions, GeometryType.LineString, [
+              GeometryType.LineString,
+              GeometryType.CircularString,
+              GeometryType.CompoundCurve,
+            ]) as Curve,
+          );
+        });
+        geometry = curvePolygon;
+        break;
+      }
+      case GeometryType.MultiCurve: {
+        const multiCurve = ExtendedGeometryCollection.create(
+          dimensions.hasZ,
+          dimensions.hasM,
+        );
+        multiCurve.geometryType = GeometryType.MultiCurve;
+        this.readList(() => {
+          multiCurve.addGeometry(
+            this.readChild(dimensions, GeometryType.LineString, [
+              GeometryType.LineString,
+              GeometryType.CircularString,
+              GeometryType.CompoundCurve,
+            ]) as Curve,
+          );
+        });
+        geometry = multiCurve;
+        break;
+      }
+      case GeometryType.MultiSurface: {
+        const multiSurface = ExtendedGeometryCollection.create(
+          dimensions.hasZ,
+          dimensions.hasM,
+        );
+        multiSurface.geometryType = GeometryType.MultiSurface;
+        this.readList(() => {
+          multiSurface.addGeometry(
+            this.readChild(dimensions, GeometryType.Polygon, [
+              GeometryType.Polygon,
+              GeometryType.CurvePolygon,
+              GeometryType.Triangle,
+              GeometryType.PolyhedralSurface,
+              GeometryType.Tin,
+            ]) as Surface,
+          );
+        });
+        geometry = multiSurface;
+        break;
+      }
+      case GeometryType.PolyhedralSurface: {
+        const polyhedralSurface = PolyhedralSurface.create(
+          dimensions.hasZ,
+          dimensions.hasM,
+        );
+        this.readList(() => {
+          polyhedralSurface.addPolygon(
+            this.readChild(dimensions, GeometryType.Polygon, [
+              GeometryType.Polygon,
+            ]) as Polygon,
+          );
+        });
+        geometry = polyhedralSurface;
+        break;
+      }
+      case GeometryType.Tin: {
+        const tin = TIN.create(dimensions.hasZ, dimensions.hasM);
+        this.readList(() => {
+          tin.addPolygon(
+            this.readChild(dimensions, GeometryType.Triangle, [
+              GeometryType.Triangle,
+            ]) as Triangle,
+          );
+        });
+        geometry = tin;
+        break;
+      }
+      default:
+        throw this._reader.createException(
+          `Unsupported geometry type: ${geometryType}`,
+        );
+    }
+    return geometry;
+  }
+
+  /**
+   * Read a child geometry which is either untagged text of the default type
+   * or tagged text of one of the allowed types
+   * @param dimensions containing geometry dimensions
+   * @param defaultType geometry type of untagged text
+   * @param allowedTypes allowed tagged geometry types
+   * @returns geometry
+   */
+  private readChild(
+    dimensions: Dimensions,
+    defaultType: GeometryType,
+    allowedTypes: GeometryType[],
+  ): Geometry {
+    let geometry: Geometry;
+    const token = this._reader.peekToken();
+    if (token === "(" || token?.toUpperCase() === "EMPTY") {
+      geometry = this.readGeometryText(defaultType, dimensions);
+    } else {
+      geometry = this.readGeometryTaggedText(dimensions, allowedTypes);
+    }
+    return geometry;
+  }
+
+  /**
+   * Read a comma separated list enclosed in parentheses, or EMPTY
+   * @param readElement function to read each list element
+   * @returns true if empty
+   */
+  private readList(readElement: () => void): boolean {
+    const empty = this._reader.readIf("EMPTY");
+    if (!empty) {
+      this._reader.readExpected("(");
+      do {
+        readElement();
+      } while (this._reader.readIf(","));
+      this._reader.readExpected(")");
+    }
+    return empty;
+  }
+
+  /**
+   * Read point text
+   * @param dimensions dimensions
+   * @returns point
+   */
+  private readPointText(dimensions: Dimensions): Point {
+    let point: Point | undefined;
+    this.readList(() => {
+      point = this.readCoordinate(dimensions);
+    });
+    return point ?? this.createEmptyPoint(dimensions);
+  }
+
+  /**
+   * Create an empty point
+   * @param dimensions dimensions
+   * @returns point with NaN coordinates
+   */
+  private createEmptyPoint(dimensions: Dimensions): Point {
+    const point = Point.create(dimensions.hasZ, dimensions.hasM);
+    point.x = Number.NaN;
+    point.y = Number.NaN;
+    return point;
+  }
+
+  /**
+   * Read a coordinate, validating or inferring the dimensions
+   * @param dimensions dimensions
+   * @returns point
+   */
+  private readCoordinate(dimensions: Dimensions): Point {
+    const column = this._reader.peekColumn();
+    const values: number[] = [];
+    do {
+      values.push(this._reader.readNumber());
+    } while (this._reader.isNumberNext());
+
+    if (!dimensions.known) {
+      if (values.length === 3) {
+        dimensions.hasZ = true;
+      } else if (values.length === 4) {
+        dimensions.hasZ = true;
+        dimensions.hasM = true;
+      }
+      dimensions.known = true;
+    }
+
+    const expected = 2 + (dimensions.hasZ ? 1 : 0) + (dimensions.hasM ? 1 : 0);
+    if (values.length !== expected) {
+      throw this._reader.createException(
+        `Expected ${expected} coordinate values, found ${values.length}`,
+        column,
+      );
+    }
+
+    const point = Point.create(dimensions.hasZ, dimensions.hasM);
+    point.x = values[0];
+    point.y = values[1];
+    if (dimensions.hasZ) {
+      point.z = values[2];
+    }
+    if (dimensions.hasM) {
+      point.m = values[expected - 1];
+    }
+    return point;
+  }
+
+  /**
+   * Read line string text into the line string
+   * @param lineString line string or circular string
+   * @param dimensions dimensions
+   * @returns line string
+   */
+  private readLineStringText<T extends LineString>(
+    lineString: T,
+    dimensions: Dimensions,
+  ): T {
+    this.readList(() => {
+      lineString.addPoint(this.readCoordinate(dimensions));
+    });
+    return lineString;
+  }
+
+  /**
+   * Read polygon text into the polygon
+   * @param polygon polygon or triangle
+   * @param dimensions dimensions
+   * @returns polygon
+   */
+  private readPolygonText<T extends Polygon>(
+    polygon: T,
+    dimensions: Dimensions,
+  ): T {
+    this.readList(() => {
+      polygon.addRing(
+        this.readLineStringText(
+          LineString.create(dimensions.hasZ, dimensions.hasM),
+          dimensions,
+        ),
+      );
+    });
+    return polygon;
+  }
+
+  /**
+   * Read multi point text, accepting points with or without parentheses
+   * @param dimensions dimensions
+   * @returns multi point
+   */
+  private readMultiPointText(dimensions: Dimensions): MultiPoint {
+    const multiPoint = MultiPoint.create(dimensions.hasZ, dimensions.hasM);
+    this.readList(() => {
+      let point: Point;
+      if (this._reader.isNumberNext()) {
+        point = this.readCoordinate(dimensions);
+      } else {
+        point = this.readPointText(dimensions);
+      }
+      multiPoint.addPoint(point);
+    });
+    return multiPoint;
+  }
+}
@@ -0,0 +1,341 @@
+import type {
+  CompoundCurve,
+  CurvePolygon,
+  Geometry,
+  GeometryCollection,
+  LineString,
+  MultiPoint,
+  Point,
+  Polygon,
+  PolyhedralSurface,
+} from "../../internal.ts";
+import {
+  GeometryType,
+  GeometryTypeUtils,
+  SFException,
+} from "../../internal.ts";
+
+/**
+ * Well-Known Text writer. Writes the OGC / ISO 13249 text representation of
+ * every geometry type, including Z, M and ZM variants and EMPTY geometries.
+ * Extended well-known text prefixes the srid of the outermost geometry, child
+ * geometry srids are not written.
+ */
+export class WKTWriter {
+  /**
+   * Write a geometry to well-known text
+   * @param geometry geometry
+   * @param extended true to write extended well-known text with a
+   *        "SRID=4326;" prefix when the geometry has a srid
+   * @returns well-known text
+   */
+  public static writeGeometry(geometry: Geometry, extended = false): string {
+    const text: string[] = [];
+    if (extended && geometry.srid !== undefined) {
+      text.push(`SRID=${geometry.srid};`);
+    }
+    WKTWriter.writeGeometryTaggedText(text, geometry);
+    return text.join("");
+  }
+
+  /**
+   * Get the well-known text name of the geometry type
+   * @param geometryType geometry type
+   * @returns upper case name
+   */
+  public static nameFromType(geometryType: GeometryType): string {
+    return GeometryTypeUtils.nameFromType(geometryType).toUpperCase();
+  }
+
+  /**
+   * Write geometry tagged text, including the dimension tag
+   * @param text text parts
+   * @param geometry geometry
+   */
+  private static writeGeometryTaggedText(
+    text: string[],
+    geometry: Geometry,
+  ): void {
+    text.push(WKTWriter.nameFromType(geometry.geometryType));
+    if (geometry.hasZ || geometry.hasM) {
+      text.push(" ");
+      if (geometry.hasZ) {
+        text.push("Z");
+      }
+      if (geometry.hasM) {
+        text.push("M");
+      }
+    }
+    text.push(" ");
+    WKTWriter.writeGeometryText(text, geometry, geometry.hasZ, geometry.hasM);
+  }
+
+  /**
+   * Write the geometry text without the geometry type tag
+   * @param text text parts
+   * @param geometry geometry
+   * @param hasZ write z values
+   * @param hasM write m values
+   */
+  private static writeGeometryText(
+    text: string[],
+    geometry: Geometry,
+    hasZ: boolean,
+    hasM: boolean,
+  ): void {
+    if (geometry.isEmpty()) {
+      text.push("EMPTY");
+      return;
+    }
+
+    const geometryType = geometry.geometryType;
+    switch (geometryType) {
+      case GeometryType.Point: {
+        text.push("(");
+        WKTWriter.writeCoordinate(text, geometry as Point, hasZ, hasM);
+        text.push(")");
+        break;
+      }
+      case GeometryType.LineString:
+      case GeometryType.CircularString: {
+        WKTWriter.writeLineStringText(
+          text,
+          geometry as LineString,
+          hasZ,
+          hasM,
+        );
+        break;
+      }
+      case GeometryType.Polygon:
+      case GeometryType.Triangle: {
+        WKTWriter.writePolygonText(text, geometry as Polygon, hasZ, hasM);
+        break;
+      }
+      case GeometryType.MultiPoint: {
+        WKTWriter.writeList(
+          text,
+          (geometry as MultiPoint).points,
+          (point) => WKTWriter.writeGeometryText(text, point, hasZ, hasM),
+        );
+        break;
+      }
+      case GeometryType.MultiLineString:
+      case GeometryType.MultiPolygon: {
+        WKTWriter.writeList(
+          text,
+          (geometry as GeometryCollection).geometries,
+          (child) => WKTWriter.writeGeometryText(text, child, hasZ, hasM),
+        );
+        break;
+      }
+      case GeometryType.GeometryCollection: {
+        WKTWriter.writeList(
+          text,
+          (geometry as GeometryCollection).geometries,
+          (child) => WKTWriter.writeGeometryTaggedText(text, child),
+        );
+        break;
+      }
+      case GeometryType.CompoundCurve: {
+        WKTWriter.writeList(
+          text,
+          (geometry as CompoundCurve).lineStrings,
+          (child) =>
+            WKTWriter.writeChild(
+              text,
+              child,
+              GeometryType.LineString,
+              hasZ,
+              hasM,
+            ),
+        );
+        break;
+      }
+      case GeometryType.CurvePolygon: {
+        WKTWriter.writeList(
+          text,
+          (geometry as CurvePolygon).rings,
+          (child) =>
+            WKTWriter.writeChild(
+              text,
+              child,
+              GeometryType.LineString,
+              hasZ,
+              hasM,
+            ),
+        );
+        break;
+      }
+      case GeometryType.MultiCurve: {
+        WKTWriter.writeList(
+          text,
+          (geometry as GeometryCollection).geometries,
+          (child) =>
+            WKTWriter.writeChild(
+              text,
+              child,
+              GeometryType.LineString,
+              hasZ,
+              hasM,
+            ),
+        );
+        break;
+      }
+      case GeometryType.MultiSurface: {
+        WKTWriter.writeList(
+          text,
+          (geometry as GeometryCollection).geometries,
+          (child) =>
+            WKTWriter.writeChild(
+              text,
+              child,
+              GeometryType.Polygon,
+              hasZ,
+              hasM,
+            ),
+        );
+        break;
+      }
+      case GeometryType.PolyhedralSurface:
+      case GeometryType.Tin: {
+        WKTWriter.writeList(
+          text,
+          (geometry as PolyhedralSurface).polygons,
+          (polygon) => WKTWriter.writePolygonText(text, polygon, hasZ, hasM),
+        );
+        break;
+      }
+      default:
+        throw new SFException(
+          `Unsupported Geometry Type: ${geometryType}`,
+        );
+    }
+  }
+
+  /**
+   * Write a child geometry as untagged text when of the default type,
+   * otherwise as text tagged with the geometry type name
+   * @param text text parts
+   * @param geometry child geometry
+   * @param defaultType geometry type written untagged
+   * @param hasZ write z values
+   * @param hasM write m values
+   */
+  private static writeChild(
+    text: string[],
+    geometry: Geometry,
+    defaultType: GeometryType,
+    hasZ: boolean,
+    hasM: boolean,
+  ): void {
+    if (geometry.geometryType !== defaultType) {
+      text.push(WKTWriter.nameFromType(geometry.geometryType));
+      text.push(" ");
+    }
+    WKTWriter.writeGeometryText(text, geometry, hasZ, hasM);
+  }
+
+  /**
+   * Write a comma separated list enclosed in parentheses
+   * @param text text parts
+   * @param elements list elements
+   * @param writeElement function to write each element
+   */
+  private static writeList<T>(
+    text: string[],
+    elements: T[],
+    writeElement: (element: T) => void,
+  ): void {
+    text.push("(");
+    for (let i = 0; i < elements.length; i++) {
+      if (i > 0) {
+        text.push(", ");
+      }
+      writeElement(elements[i]);
+    }
+    text.push(")");
+  }
+
+  /**
+   * Write line string text
+   * @param text text parts
+   * @param lineString line string
+   * @param hasZ write z values
+   * @param hasM write m values
+   */
+  private static writeLineStringText(
+    text: string[],
+    lineString: LineString,
+    hasZ: boolean,
+    hasM: boolean,
+  ): void {
+    if (lineString.isEmpty()) {
+      text.push("EMPTY");
+    } else {
+      WKTWriter.writeList(
+        text,
+        lineString.points,
+        (point) => WKTWriter.writeCoordinate(text, point, hasZ, hasM),
+      );
+    }
+  }
+
+  /**
+   * Write polygon text
+   * @param text text parts
+   * @param polygon polygon
+   * @param hasZ write z values
+   * @param hasM write m values
+   */
+  private static writePolygonText(
+    text: string[],
+    polygon: Polygon,
+    hasZ: boolean,
+    hasM: boolean,
+  ): void {
+    if (polygon.isEmpty()) {
+      text.push("EMPTY");
+    } else {
+      WKTWriter.writeList(
+        text,
+        polygon.rings,
+        (ring) => WKTWriter.writeLineStringText(text, ring, hasZ, hasM),
+      );
+    }
+  }
+
+  /**
+   * Write a coordinate
+   * @param text text parts
+   * @param point point
+   * @param hasZ write the z value
+   * @param hasM write the m value
+   */
+  private static writeCoordinate(
+    text: string[],
+    point: Point,
+    hasZ: boolean,
+    hasM: boolean,
+  ): void {
+    text.push(WKTWriter.writeNumber(point.x));
+    text.push(" ");
+    text.push(WKTWriter.writeNumber(point.y));
+    if (hasZ) {
+      text.push(" ");
+      text.push(WKTWriter.writeNumber(point.z ?? Number.NaN));
+    }
+    if (hasM) {
+      text.push(" ");
+      text.push(WKTWriter.writeNumber(point.m ?? Number.NaN));
+    }
+  }
+
+  /**
+   * Write a number using the shortest text that reads back to the same value
+   * @param value number
+   * @returns text
+   */
+  private static writeNumber(value: number): string {
+    return String(value);
+  }
+}
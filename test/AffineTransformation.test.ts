@@ -0,0 +1,124 @@
+import type {
+  CircularString,
+  Geometry,
+  GeometryCollection,
+  LineString,
+  PolyhedralSurface,
+} from "../lib/internal.ts";
+import {
+  AffineTransformation,
+  GeometryEnvelope,
+  Point,
+  SFException,
+  WKTReader,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Expect the point to be close to the coordinates
+ * @param point point
+ * @param x expected x
+ * @param y expected y
+ * @param z expected z
+ */
+function expectPoint(point: Point, x: number, y: number, z?: number): void {
+  expect(point.x).toBeCloseTo(x, 10);
+  expect(point.y).toBeCloseTo(y, 10);
+  if (z !== undefined) {
+    expect(point.z).toBeCloseTo(z, 10);
+  }
+}
+
+Deno.test("test affine transformations", () => {
+  const point = Point.createFromXYZM(3, 4, 5, 6);
+
+  let transformed = AffineTransformation.translation(1, 2, 3).transformPoint(
+    point,
+  );
+  expectPoint(transformed, 4, 6, 8);
+  expect(transformed.m).toBe(6);
+  expectPoint(point, 3, 4, 5);
+
+  transformed = AffineTransformation.scaling(2, 3, 4, Point.createFromXY(1, 1))
+    .transformPoint(point);
+  expectPoint(transformed, 5, 10, 20);
+
+  const centroid = Point.createFromXY(1, 1);
+  transformed = AffineTransformation.rotation(Math.PI / 2, centroid)
+    .transformPoint(point);
+  expectPoint(transformed, -2, 3, 5);
+
+  transformed = AffineTransformation.shear(2, 0).transformPoint(point);
+  expectPoint(transformed, 11, 4, 5);
+
+  transformed = AffineTransformation.reflection(
+    Point.createFromXY(0, 0),
+    Point.createFromXY(1, 1),
+  ).transformPoint(point);
+  expectPoint(transformed, 4, 3, 5);
+
+  expect(() =>
+    AffineTransformation.reflection(centroid, Point.createFromXY(1, 1))
+  ).toThrow(SFException);
+  expect(() => new AffineTransformation([[1, 0], [0, 1]])).toThrow(
+    SFException,
+  );
+});
+
+Deno.test("test affine composition and inverse", () => {
+  const transformation = AffineTransformation.rotation(0.7)
+    .compose(AffineTransformation.scaling(2, 0.5, 3))
+    .compose(AffineTransformation.translation(10, -20, 5));
+  expect(transformation.hasZ).toBe(true);
+  expect(AffineTransformation.rotation(0.7).hasZ).toBe(false);
+
+  const point = Point.createFromXYZ(3, 4, 5);
+  const transformed = transformation.transformPoint(point);
+  const rotated = AffineTransformation.rotation(0.7).transformPoint(point);
+  expectPoint(transformed, 2 * rotated.x + 10, 0.5 * rotated.y - 20, 20);
+
+  const inverse = transformation.inverse();
+  expectPoint(inverse.transformPoint(transformed), 3, 4, 5);
+  expect(transformation.compose(inverse).matrix.flat().map(Math.round))
+    .toEqual(new AffineTransformation().matrix.flat());
+  expect(new AffineTransformation().isIdentity()).toBe(true);
+
+  expect(() => AffineTransformation.scaling(0, 1).inverse()).toThrow(
+    SFException,
+  );
+});
+
+Deno.test("test affine apply", () => {
+  const circularString = WKTReader.readGeometry(
+    "CIRCULARSTRING (0 0, 1 1, 2 0)",
+  );
+  const moved = AffineTransformation.translation(10, 20).apply(
+    circularString,
+  ) as CircularString;
+  expectPoint(moved.getPoint(1), 11, 21);
+  expectPoint((circularString as CircularString).getPoint(1), 1, 1);
+
+  const surface = WKTReader.readGeometry(
+    "POLYHEDRALSURFACE Z (((0 0 0, 1 0 0, 1 1 0, 0 0 0)), " +
+      "((0 0 0, 1 1 0, 0 1 1, 0 0 0)))",
+  );
+  const scaled = AffineTransformation.scaling(2, 2, 2).apply(
+    surface,
+  ) as PolyhedralSurface;
+  expect(scaled.hasZ).toBe(true);
+  const ring = scaled.polygons[1].getRing(0) as LineString;
+  expectPoint(ring.getPoint(2), 0, 2, 2);
+
+  const collection = WKTReader.readGeometry(
+    "GEOMETRYCOLLECTION (POINT EMPTY, LINESTRING (0 0, 10 5))",
+  );
+  const mapping = AffineTransformation.envelopeMapping(
+    GeometryEnvelope.createFromMinMaxXY(0, 0, 10, 5),
+    GeometryEnvelope.createFromMinMaxXY(100, 200, 300, 300),
+  );
+  const mapped = mapping.apply(collection) as GeometryCollection<Geometry>;
+  expect(mapped.geometries[0].isEmpty()).toBe(true);
+  const line = mapped.geometries[1] as LineString;
+  expectPoint(line.getPoint(0), 100, 200);
+  expectPoint(line.getPoint(1), 300, 300);
+});
@@ -0,0 +1,153 @@
+import type { MultiPolygon, Polygon } from "../lib/internal.ts";
+import {
+  BufferCapStyle,
+  BufferJoinStyle,
+  GeometryType,
+  OverlayGraph,
+  SFException,
+  WKTReader,
+  WKTWriter,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Buffer well-known text
+ * @param text well-known text
+ * @param distance buffer distance
+ * @param capStyle cap style
+ * @param joinStyle join style
+ * @returns buffered well-known text
+ */
+function buffer(
+  text: string,
+  distance: number,
+  capStyle?: BufferCapStyle,
+  joinStyle?: BufferJoinStyle,
+): string {
+  return WKTWriter.writeGeometry(
+    WKTReader.readGeometry(text).buffer(distance, { capStyle, joinStyle }),
+  );
+}
+
+/**
+ * Get the area of polygon rings
+ * @param polygon polygon
+ * @returns area
+ */
+function area(polygon: Polygon): number {
+  let area = 0;
+  for (const ring of polygon.rings) {
+    area += OverlayGraph.signedArea(ring.points);
+  }
+  return area;
+}
+
+Deno.test("test buffer points", () => {
+  const circle = WKTReader.readGeometry("POINT (1 2)").buffer(1) as Polygon;
+  expect(circle.geometryType).toEqual(GeometryType.Polygon);
+  expect(circle.rings[0].numPoints()).toEqual(33);
+  expect(area(circle)).toBeCloseTo(32 * Math.sin(Math.PI / 16) / 2, 10);
+  const envelope = circle.getEnvelope();
+  expect(envelope.minX).toBeCloseTo(0);
+  expect(envelope.maxY).toBeCloseTo(3);
+
+  const fine = WKTReader.readGeometry("POINT (0 0)").buffer(2, {
+    quadrantSegments: 32,
+  }) as Polygon;
+  expect(area(fine)).toBeCloseTo(4 * Math.PI, 1);
+
+  expect(buffer("POINT (0 0)", 1, BufferCapStyle.Square)).toEqual(
+    "POLYGON ((-1 -1, 1 -1, 1 1, -1 1, -1 -1))",
+  );
+  expect(buffer("POINT (0 0)", 1, BufferCapStyle.Flat)).toEqual(
+    "POLYGON EMPTY",
+  );
+  expect(buffer("POINT (0 0)", -1)).toEqual("POLYGON EMPTY");
+
+  const union = WKTReader.readGeometry("MULTIPOINT ((0 0), (1 0))").buffer(1);
+  expect(union.geometryType).toEqual(GeometryType.Polygon);
+  const separate = WKTReader.readGeometry("MULTIPOINT ((0 0), (5 0))").buffer(
+    1,
+  );
+  expect(separate.geometryType).toEqual(GeometryType.MultiPolygon);
+  expect((separate as MultiPolygon).numPolygons()).toEqual(2);
+});
+
+Deno.test("test buffer lines", () => {
+  expect(buffer("LINESTRING (0 0, 10 0)", 1, BufferCapStyle.Flat)).toEqual(
+    "POLYGON ((0 1, 0 -1, 10 -1, 10 1, 0 1))",
+  );
+  expect(buffer("LINESTRING (0 0, 10 0)", 1, BufferCapStyle.Square)).toEqual(
+    "POLYGON ((-1 1, -1 -1, 11 -1, 11 1, -1 1))",
+  );
+  const round = WKTReader.readGeometry("LINESTRING (0 0, 10 0)").buffer(
+    1,
+  ) as Polygon;
+  expect(area(round)).toBeCloseTo(20 + 32 * Math.sin(Math.PI / 16) / 2, 10);
+
+  expect(
+    buffer(
+      "LINESTRING (0 0, 10 0, 10 10)",
+      1,
+      BufferCapStyle.Flat,
+      BufferJoinStyle.Mitre,
+    ),
+  ).toEqual("POLYGON ((0 1, 0 -1, 11 -1, 11 10, 9 10, 9 1, 0 1))");
+  expect(
+    buffer(
+      "LINESTRING (0 0, 10 0, 10 10)",
+      1,
+      BufferCapStyle.Flat,
+      BufferJoinStyle.Bevel,
+    ),
+  ).toEqual("POLYGON ((0 1, 0 -1, 10 -1, 11 0, 11 10, 9 10, 9 1, 0 1))");
+
+  const crossing = WKTReader.readGeometry(
+    "LINESTRING (0 0, 10 0, 10 10, 5 -5)",
+  ).buffer(1);
+  expect(crossing.geometryType).toEqual(GeometryType.Polygon);
+  expect(crossing.isSimple()).toBe(true);
+});
+
+Deno.test("test buffer polygons", () => {
+  const square = "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0))";
+  expect(buffer(square, 1, undefined, BufferJoinStyle.Mitre)).toEqual(
+    "POLYGON ((-1 -1, 11 -1, 11 11, -1 11, -1 -1))",
+  );
+  expect(buffer(square, -1)).toEqual("POLYGON ((1 1, 9 1, 9 9, 1 9, 1 1))");
+  expect(buffer(square, -6)).toEqual("POLYGON EMPTY");
+  expect(buffer(square, 0)).toEqual(square);
+
+  const holed =
+    "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (4 4, 6 4, 6 6, 4 6, 4 4))";
+  expect(buffer(holed, 1, undefined, BufferJoinStyle.Mitre)).toEqual(
+    "POLYGON ((-1 -1, 11 -1, 11 11, -1 11, -1 -1))",
+  );
+  expect(buffer(holed, -1, undefined, BufferJoinStyle.Mitre)).toEqual(
+    "POLYGON ((1 1, 9 1, 9 9, 1 9, 1 1), (3 3, 3 7, 7 7, 7 3, 3 3))",
+  );
+
+  const notched = "POLYGON ((0 0, 10 0, 10 10, 8 10, 8 2, 2 2, 2 10, " +
+    "0 10, 0 0))";
+  expect(buffer(notched, -1.5)).toEqual("POLYGON EMPTY");
+  const filled = WKTReader.readGeometry(notched).buffer(4, {
+    joinStyle: BufferJoinStyle.Mitre,
+  }) as Polygon;
+  expect(filled.numRings()).toEqual(1);
+  expect(area(filled)).toBeCloseTo(324);
+
+  const collection = WKTReader.readGeometry(
+    "SRID=4326;GEOMETRYCOLLECTION (POINT (0 0), LINESTRING (5 0, 10 0))",
+  ).buffer(1);
+  expect(collection.geometryType).toEqual(GeometryType.MultiPolygon);
+  expect(collection.srid).toEqual(4326);
+});
+
+Deno.test("test buffer options", () => {
+  const point = WKTReader.readGeometry("POINT (0 0)");
+  expect(() => point.buffer(1, { quadrantSegments: 0 })).toThrow(SFException);
+  expect(() => point.buffer(1, { quadrantSegments: 1.5 })).toThrow(
+    SFException,
+  );
+  expect(() => point.buffer(1, { mitreLimit: 0 })).toThrow(SFException);
+});
@@ -0,0 +1,424 @@
+import type {
+  LineString,
+  MultiLineString,
+  MultiPolygon,
+  Polygon,
+  TIN,
+} from "../lib/internal.ts";
+import {
+  AntimeridianCutter,
+  GeometryEnvelope,
+  GeometryType,
+  GeometryUtils,
+  PolygonClipper,
+  RectangleClipper,
+  SFException,
+  WKTReader,
+  WKTWriter,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+const envelope = GeometryEnvelope.createFromMinMaxXY(0, 0, 10, 10);
+
+/**
+ * Clip well-known text by the rectangle
+ * @param text well-known text
+ * @returns clipped well-known text or undefined
+ */
+function clipRectangle(text: string): string | undefined {
+  const clip = new RectangleClipper(envelope).clip(
+    WKTReader.readGeometry(text),
+  );
+  return clip !== undefined ? WKTWriter.writeGeometry(clip) : undefined;
+}
+
+Deno.test("test rectangle clip points and lines", () => {
+  expect(clipRectangle("POINT (5 5)")).toEqual("POINT (5 5)");
+  expect(clipRectangle("POINT (10 0)")).toEqual("POINT (10 0)");
+  expect(clipRectangle("POINT (11 5)")).toBeUndefined();
+  expect(clipRectangle("MULTIPOINT ((1 1), (20 20), (2 2))")).toEqual(
+    "MULTIPOINT ((1 1), (2 2))",
+  );
+
+  expect(clipRectangle("LINESTRING (-5 5, 15 5)")).toEqual(
+    "LINESTRING (0 5, 10 5)",
+  );
+  expect(clipRectangle("LINESTRING (5 5, 5 15, 8 15, 8 5)")).toEqual(
+    "MULTILINESTRING ((5 5, 5 10), (8 10, 8 5))",
+  );
+  expect(clipRectangle("LINESTRING (1 1, 2 2, 3 1)")).toEqual(
+    "LINESTRING (1 1, 2 2, 3 1)",
+  );
+  expect(clipRectangle("LINESTRING (-5 15, 15 -5)")).toEqual(
+    "LINESTRING (0 10, 10 0)",
+  );
+  expect(clipRectangle("LINESTRING (20 20, 30 30)")).toBeUndefined();
+  expect(clipRectangle("LINESTRING (-5 5, 0 10, -5 15)")).toBeUndefined();
+
+  const clip = new RectangleClipper(envelope).clip(
+    WKTReader.readGeometry("LINESTRING ZM (-10 5 0 100, 10 5 10 200)"),
+  ) as LineString;
+  expect(clip.hasZ).toBe(true);
+  expect(clip.hasM).toBe(true);
+  expect(clip.startPoint().z).toEqual(5);
+  expect(clip.startPoint().m).toEqual(150);
+});
+
+Deno.test("test rectangle clip polygons", () => {
+  expect(clipRectangle("POLYGON ((5 5, 15 5, 15 15, 5 15, 5 5))")).toEqual(
+    "POLYGON ((5 5, 10 5, 10 10, 5 10, 5 5))",
+  );
+  expect(
+    clipRectangle(
+      "POLYGON ((-5 -5, 15 -5, 15 15, -5 15, -5 -5), (4 4, 6 4, 6 6, 4 6, 4 4))",
+    ),
+  ).toEqual(
+    "POLYGON ((0 10, 0 0, 10 0, 10 10, 0 10), (4 4, 6 4, 6 6, 4 6, 4 4))",
+  );
+  expect(clipRectangle("POLYGON ((20 20, 30 20, 30 30, 20 20))"))
+    .toBeUndefined();
+
+  const concave = new RectangleClipper(envelope).clip(
+    WKTReader.readGeometry(
+      "POLYGON ((2 2, 8 2, 8 20, 6 20, 6 4, 4 4, 4 20, 2 20, 2 2))",
+    ),
+  ) as Polygon;
+  expect(concave.geometryType).toEqual(GeometryType.Polygon);
+  expect(concave.numRings()).toEqual(1);
+  expect(WKTWriter.writeGeometry(concave)).toEqual(
+    "POLYGON ((2 2, 8 2, 8 10, 6 10, 6 4, 4 4, 4 10, 2 10, 2 2))",
+  );
+
+  const triangle = new RectangleClipper(envelope).clip(
+    WKTReader.readGeometry("TRIANGLE Z ((0 0 0, 20 0 20, 0 20 0, 0 0 0))"),
+  ) as Polygon;
+  expect(triangle.geometryType).toEqual(GeometryType.Polygon);
+  expect(WKTWriter.writeGeometry(triangle)).toEqual(
+    "POLYGON Z ((0 0 0, 10 0 10, 10 10 10, 0 10 0, 0 0 0))",
+  );
+});
+
+Deno.test("test rectangle clip geometry types", () => {
+  expect(
+    clipRectangle(
+      "GEOMETRYCOLLECTION (POINT (1 1), POINT (20 20), LINESTRING (5 5, 5 20))",
+    ),
+  ).toEqual("GEOMETRYCOLLECTION (POINT (1 1), LINESTRING (5 5, 5 10))");
+  expect(
+    clipRectangle(
+      "MULTIPOLYGON (((1 1, 2 1, 2 2, 1 1)), ((20 20, 21 20, 21 21, 20 20)))",
+    ),
+  ).toEqual("MULTIPOLYGON (((1 1, 2 1, 2 2, 1 1)))");
+  expect(
+    clipRectangle(
+      "TIN (((5 5, 15 5, 5 15, 5 5)), ((20 20, 21 20, 20 21, 20 20)))",
+    ),
+  ).toEqual("TIN (((5 10, 5 5, 10 5, 5 10)), ((10 5, 10 10, 5 10, 10 5)))");
+  expect(clipRectangle("TRIANGLE ((1 1, 2 1, 1 2, 1 1))")).toEqual(
+    "TRIANGLE ((1 1, 2 1, 1 2, 1 1))",
+  );
+  expect(
+    clipRectangle("POLYHEDRALSURFACE (((5 5, 15 5, 15 15, 5 15, 5 5)))"),
+  ).toEqual("POLYHEDRALSURFACE (((5 5, 10 5, 10 10, 5 10, 5 5)))");
+  expect(clipRectangle("MULTICURVE ((5 5, 5 15, 8 15, 8 5))")).toEqual(
+    "MULTICURVE ((5 5, 5 10), (8 10, 8 5))",
+  );
+
+  const arc = new RectangleClipper(envelope).clip(
+    WKTReader.readGeometry("CIRCULARSTRING (0 5, 5 10, 10 5)"),
+  ) as LineString;
+  expect(arc.geometryType).toEqual(GeometryType.LineString);
+  expect(arc.points.every((point) => point.y >= 5 && point.y <= 10)).toBe(
+    true,
+  );
+
+  const curvePolygon = new RectangleClipper(envelope).clip(
+    WKTReader.readGeometry("CURVEPOLYGON (CIRCULARSTRING (5 0, 5 20, 5 0))"),
+  ) as Polygon;
+  expect(curvePolygon.geometryType).toEqual(GeometryType.Polygon);
+  expect(curvePolygon.getEnvelope().maxY).toBeLessThanOrEqual(10);
+
+  const geometry = WKTReader.readGeometry(
+    "SRID=4326;LINESTRING (-5 5, 5 5, 5 15)",
+  );
+  const crop = GeometryUtils.crop(geometry, envelope) as LineString;
+  expect(crop.srid).toEqual(4326);
+  expect(WKTWriter.writeGeometry(crop)).toEqual("LINESTRING (0 5, 5 5, 5 10)");
+});
+
+Deno.test("test polygon clip", () => {
+  const clipper = new PolygonClipper(
+    WKTReader.readGeometry(
+      "POLYGON ((0 0, 10 0, 10 10, 5 5, 0 10, 0 0), (2 1, 3 1, 3 2, 2 2, 2 1))",
+    ),
+  );
+
+  const points = clipper.clip(
+    WKTReader.readGeometry(
+      "MULTIPOINT ((1 1), (5 8), (2.5 1.5), (5 5), (20 20))",
+    ),
+  );
+  expect(WKTWriter.writeGeometry(points!)).toEqual(
+    "MULTIPOINT ((1 1), (5 5))",
+  );
+
+  const line = clipper.clip(
+    WKTReader.readGeometry("LINESTRING M (-2 8 0, 12 8 14)"),
+  ) as MultiLineString;
+  expect(line.geometryType).toEqual(GeometryType.MultiLineString);
+  expect(WKTWriter.writeGeometry(line)).toEqual(
+    "MULTILINESTRING M ((0 8 2, 2 8 4), (8 8 10, 10 8 12))",
+  );
+
+  const polygon = clipper.clip(
+    WKTReader.readGeometry(
+      "POLYGON Z ((-5 4 0, 15 4 20, 15 6 20, -5 6 0, -5 4 0))",
+    ),
+  ) as Polygon;
+  expect(polygon.geometryType).toEqual(GeometryType.Polygon);
+  expect(polygon.hasZ).toBe(true);
+  expect(
+    polygon.equalsTopo(
+      WKTReader.readGeometry(
+        "POLYGON ((0 4, 10 4, 10 6, 6 6, 5 5, 4 6, 0 6, 0 4))",
+      ),
+    ),
+  ).toBe(true);
+  for (const point of polygon.getExteriorRing().points) {
+    if (point.y === 4 || point.y === 6) {
+      expect(point.z).toBeCloseTo(point.x + 5);
+    }
+  }
+
+  const tin = clipper.clip(
+    WKTReader.readGeometry("TIN (((-1 -1, 12 -1, -1 12, -1 -1)))"),
+  ) as TIN;
+  expect(tin.geometryType).toEqual(GeometryType.Tin);
+  for (const triangle of tin.polygons) {
+    expect(triangle.geometryType).toEqual(GeometryType.Triangle);
+    expect(triangle.getExteriorRing().numPoints()).toEqual(4);
+  }
+  expect(tin.getArea()).toBeCloseTo(
+    clipper.clip(
+      WKTReader.readGeometry("POLYGON ((-1 -1, 12 -1, -1 12, -1 -1))"),
+    )!.getArea(),
+  );
+
+  expect(
+    clipper.clip(WKTReader.readGeometry("POLYGON ((2 1, 3 1, 3 2, 2 1))")),
+  ).toBeUndefined();
+  expect(() => new PolygonClipper(WKTReader.readGeometry("POINT (1 1)")))
+    .toThrow(SFException);
+});
+
+/**
+ * Cut well-known text at the antimeridian
+ * @param text well-known text
+ * @returns cut well-known text
+ */
+function cutAntimeridian(text: string): string {
+  return WKTWriter.writeGeometry(
+    GeometryUtils.cutAntimeridian(WKTReader.readGeometry(text))!,
+  );
+}
+
+/**
+ * Merge well-known text cut at the antimeridian
+ * @param text well-known text
+ * @returns merged well-known text
+ */
+function mergeAntimeridian(text: string): string {
+  return WKTWriter.writeGeometry(
+    GeometryUtils.mergeAntimeridian(WKTReader.readGeometry(text)),
+  );
+}
+
+Deno.test("test antimeridian cut lines", () => {
+  expect(cutAntimeridian("LINESTRING (10 0, 20 0)")).toEqual(
+    "LINESTRING (10 0, 20 0)",
+  );
+  expect(cutAntimeridian("LINESTRING Z (170 10 0, -170 20 100)")).toEqual(
+    "MULTILINESTRING Z ((170 10 0, 180 15 50), (-180 15 50, -170 20 100))",
+  );
+  expect(cutAntimeridian("LINESTRING (170 0, 190 0, 170 10, -175 10)"))
+    .toEqual(
+      "MULTILINESTRING ((170 0, 180 0), (-180 0, -170 0, -180 5), " +
+        "(180 5, 170 10, 180 10), (-180 10, -175 10))",
+    );
+  expect(cutAntimeridian("LINESTRING (170 0, 180 0, -170 0)")).toEqual(
+    "MULTILINESTRING ((170 0, 180 0), (-180 0, -170 0))",
+  );
+  expect(cutAntimeridian("POINT (190 0)")).toEqual("POINT (-170 0)");
+  expect(
+    cutAntimeridian("MULTIPOINT ((-180 1), (180 2), (-540 3), (725 4))"),
+  ).toEqual("MULTIPOINT ((-180 1), (180 2), (180 3), (5 4))");
+  expect(
+    cutAntimeridian(
+      "GEOMETRYCOLLECTION (POINT (1 2), LINESTRING (170 0, -170 0))",
+    ),
+  ).toEqual(
+    "GEOMETRYCOLLECTION (POINT (1 2), " +
+      "MULTILINESTRING ((170 0, 180 0), (-180 0, -170 0)))",
+  );
+
+  expect(
+    mergeAntimeridian(
+      "MULTILINESTRING Z ((170 10 0, 180 15 50), (-180 15 50, -170 20 100))",
+    ),
+  ).toEqual("LINESTRING Z (170 10 0, 180 15 50, -170 20 100)");
+  expect(
+    mergeAntimeridian(
+      "MULTILINESTRING ((170 0, 180 0), (-180 0, -170 0, -180 5), " +
+        "(180 5, 170 10, 180 10), (-180 10, -175 10), (0 0, 1 1))",
+    ),
+  ).toEqual(
+    "MULTILINESTRING ((170 0, 180 0, -170 0, -180 5, 170 10, 180 10, " +
+      "-175 10), (0 0, 1 1))",
+  );
+  expect(
+    mergeAntimeridian("MULTILINESTRING ((170 0, 180 0), (-180 5, -170 5))"),
+  ).toEqual("MULTILINESTRING ((170 0, 180 0), (-180 5, -170 5))");
+
+  for (
+    const [text, expected] of [
+      [
+        "LINESTRING (170 0, 180 0, -170 0)",
+        "LINESTRING (170 0, 180 0, -170 0)",
+      ],
+      [
+        "MULTILINESTRING ((170 0, 180 0, -170 0), (-175 5, 175 5, 170 10))",
+        "MULTILINESTRING ((170 0, 180 0, -170 0), " +
+        "(-175 5, -180 5, 175 5, 170 10))",
+      ],
+    ]
+  ) {
+    const merged = mergeAntimeridian(cutAntimeridian(text));
+    expect(merged).toEqual(expected);
+    expect(cutAntimeridian(merged)).toEqual(cutAntimeridian(text));
+  }
+});
+
+Deno.test("test antimeridian cut polygons", () => {
+  expect(cutAntimeridian("POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0))")).toEqual(
+    "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0))",
+  );
+  expect(
+    cutAntimeridian(
+      "POLYGON Z ((170 -10 0, -170 -10 100, -170 10 100, 170 10 0, " +
+        "170 -10 0))",
+    ),
+  ).toEqual(
+    "MULTIPOLYGON Z (((170 -10 0, 180 -10 50, 180 10 50, 170 10 0, " +
+      "170 -10 0)), ((-180 -10 50, -170 -10 100, -170 10 100, -180 10 50, " +
+      "-180 -10 50)))",
+  );
+  expect(
+    cutAntimeridian("POLYGON ((170 0, 190 0, 190 10, 170 10, 170 0))"),
+  ).toEqual(
+    "MULTIPOLYGON (((170 0, 180 0, 180 10, 170 10, 170 0)), " +
+      "((-180 0, -170 0, -170 10, -180 10, -180 0)))",
+  );
+  expect(
+    cutAntimeridian(
+      "POLYGON ((160 -10, -160 -10, -160 10, 160 10, 160 -10), " +
+        "(175 -5, -175 -5, -175 5, 175 5, 175 -5))",
+    ),
+  ).toEqual(
+    "MULTIPOLYGON (((160 -10, 180 -10, 180 -5, 175 -5, 175 5, 180 5, " +
+      "180 10, 160 10, 160 -10)), ((-180 -10, -160 -10, -160 10, -180 10, " +
+      "-180 5, -175 5, -175 -5, -180 -5, -180 -10)))",
+  );
+
+  expect(
+    mergeAntimeridian(
+      "MULTIPOLYGON Z (((170 -10 0, 180 -10 50, 180 10 50, 170 10 0, " +
+        "170 -10 0)), ((-180 -10 50, -170 -10 100, -170 10 100, " +
+        "-180 10 50, -180 -10 50)))",
+    ),
+  ).toEqual(
+    "POLYGON Z ((170 -10 0, -170 -10 100, -170 10 100, 170 10 0, " +
+      "170 -10 0))",
+  );
+  expect(
+    mergeAntimeridian(
+      "MULTIPOLYGON (((160 -10, 180 -10, 180 -5, 175 -5, 175 5, 180 5, " +
+        "180 10, 160 10, 160 -10)), ((-180 -10, -160 -10, -160 10, " +
+        "-180 10, -180 5, -175 5, -175 -5, -180 -5, -180 -10)))",
+    ),
+  ).toEqual(
+    "POLYGON ((160 -10, -160 -10, -160 10, 160 10, 160 -10), " +
+      "(175 -5, 175 5, -175 5, -175 -5, 175 -5))",
+  );
+  expect(
+    mergeAntimeridian(
+      "MULTIPOLYGON (((170 0, 180 0, 180 10, 170 10, 170 0)), " +
+        "((0 0, 1 0, 1 1, 0 0)))",
+    ),
+  ).toEqual(
+    "MULTIPOLYGON (((170 0, 180 0, 180 10, 170 10, 170 0)), " +
+      "((0 0, 1 0, 1 1, 0 0)))",
+  );
+});
+
+Deno.test("test antimeridian cut polar caps", () => {
+  const cutter = new AntimeridianCutter();
+
+  const north = WKTReader.readGeometry(
+    "POLYGON ((0 80, 120 80, -120 80, 0 80))",
+  );
+  const northCut = cutter.cut(north) as MultiPolygon;
+  expect(WKTWriter.writeGeometry(northCut)).toEqual(
+    "MULTIPOLYGON (((0 80, 120 80, 180 80, 180 90, 0 90, 0 80)), " +
+      "((-180 80, -120 80, 0 80, 0 90, -180 90, -180 80)))",
+  );
+  for (const polygon of northCut.polygons) {
+    expect(polygon.isValid()).toBe(true);
+  }
+  expect(WKTWriter.writeGeometry(cutter.merge(northCut))).toEqual(
+    "POLYGON ((0 80, 120 80, -120 80, 0 80))",
+  );
+
+  const south = WKTReader.readGeometry(
+    "POLYGON ((0 -80, -120 -80, 120 -80, 0 -80))",
+  );
+  const southCut = cutter.cut(south) as MultiPolygon;
+  expect(WKTWriter.writeGeometry(southCut)).toEqual(
+    "MULTIPOLYGON (((180 -80, 120 -80, 0 -80, 0 -90, 180 -90, 180 -80)), " +
+      "((0 -80, -120 -80, -180 -80, -180 -90, 0 -90, 0 -80)))",
+  );
+  expect(cutter.merge(southCut).getGeodesicArea()).toBeCloseTo(
+    south.getGeodesicArea(),
+    3,
+  );
+
+  expect(
+    WKTWriter.writeGeometry(
+      cutter.cut(
+        WKTReader.readGeometry("POLYGON ((180 80, -60 80, 60 80, 180 80))"),
+      )!,
+    ),
+  ).toEqual(
+    "POLYGON ((-180 80, -60 80, 60 80, 180 80, 180 90, -180 90, -180 80))",
+  );
+
+  for (
+    const [text, expected] of [
+      [
+        "POLYGON ((0 70, 90 70, 180 70, -90 70, 0 70))",
+        "POLYGON ((0 70, 90 70, 180 70, -90 70, 0 70))",
+      ],
+      [
+        "POLYGON ((0 -70, -90 -70, 180 -70, 90 -70, 0 -70))",
+        "POLYGON ((180 -70, 90 -70, 0 -70, -90 -70, 180 -70))",
+      ],
+    ]
+  ) {
+    const cap = WKTReader.readGeometry(text);
+    const cut = cutter.cut(cap)!;
+    const merged = cutter.merge(cut);
+    expect(WKTWriter.writeGeometry(merged)).toEqual(expected);
+    expect(merged.getGeodesicArea()).toBeCloseTo(cap.getGeodesicArea(), 3);
+    const recut = cutter.cut(merged)!;
+    expect(recut.getArea()).toBeCloseTo(cut.getArea(), 9);
+  }
+});
@@ -0,0 +1,301 @@
+import type {
+  GeoJSONGeometry,
+  GeoJSONPolygon,
+  Geometry,
+  LineString,
+} from "../lib/internal.ts";
+import {
+  CurveLinearizer,
+  GeoJSONReader,
+  GeoJSONWriter,
+  GeometryType,
+  GeometryUtils,
+  Point,
+  SFException,
+  UnsupportedTypePolicy,
+  WKTReader,
+} from "../lib/internal.ts";
+import {
+  compareGeometries,
+  createGeometryCollection,
+  createLineString,
+  createMultiLineString,
+  createMultiPoint,
+  createMultiPolygon,
+  createPoint,
+  createPolygon,
+} from "./SFTestUtils.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Write the geometry to GeoJSON text, read it back and verify the geometries
+ * are equal
+ * @param geometry geometry without m values
+ */
+function testRoundTrip(geometry: Geometry): void {
+  const json = JSON.stringify(new GeoJSONWriter().writeGeometry(geometry));
+  const readGeometry = GeoJSONReader.readGeometry(json);
+  compareGeometries(geometry, readGeometry);
+  expect(readGeometry.equals(geometry)).toBe(true);
+}
+
+Deno.test("test GeoJSON random geometries", () => {
+  for (let i = 0; i < 10; i++) {
+    testRoundTrip(createPoint(true, false));
+    testRoundTrip(createLineString(false, false));
+    testRoundTrip(createPolygon(true, false));
+    testRoundTrip(createMultiPoint(false, false));
+    testRoundTrip(createMultiLineString(true, false));
+    testRoundTrip(createMultiPolygon(false, false));
+    testRoundTrip(createGeometryCollection(true, false));
+  }
+});
+
+Deno.test("test GeoJSON geometry objects", () => {
+  const writer = new GeoJSONWriter();
+  expect(writer.writeGeometry(Point.createFromXYZM(1, 2, 3, 4))).toEqual({
+    type: "Point",
+    coordinates: [1, 2, 3],
+  });
+  expect(writer.writeGeometry(WKTReader.readGeometry("POINT EMPTY")))
+    .toEqual({ type: "Point", coordinates: [] });
+  expect(
+    GeoJSONReader.readGeometry({ type: "Point", coordinates: [] }).isEmpty(),
+  ).toBe(true);
+  expect(
+    writer.writeGeometry(
+      WKTReader.readGeometry(
+        "GEOMETRYCOLLECTION (MULTIPOINT ((1 2)), LINESTRING (0 0, 1 1))",
+      ),
+    ),
+  ).toEqual({
+    type: "GeometryCollection",
+    geometries: [
+      { type: "MultiPoint", coordinates: [[1, 2]] },
+      { type: "LineString", coordinates: [[0, 0], [1, 1]] },
+    ],
+  });
+
+  const point = GeoJSONReader.readGeometry({
+    type: "Point",
+    coordinates: [1, 2, 3, 4],
+  }) as Point;
+  expect(point.hasZ).toBe(true);
+  expect(point.hasM).toBe(false);
+  expect(point.z).toEqual(3);
+});
+
+Deno.test("test GeoJSON bbox", () => {
+  const writer = new GeoJSONWriter();
+  writer.bbox = true;
+  expect(
+    writer.writeGeometry(WKTReader.readGeometry("LINESTRING (3 1, -1 4)")).bbox,
+  ).toEqual([-1, 1, 3, 4]);
+  expect(
+    writer.writeGeometry(
+      WKTReader.readGeometry("MULTIPOINT Z ((1 2 3), (4 -5 6))"),
+    ).bbox,
+  ).toEqual([1, -5, 3, 4, 2, 6]);
+  expect(writer.writeGeometry(WKTReader.readGeometry("LINESTRING EMPTY")).bbox)
+    .toBeUndefined();
+
+  const featureCollection = writer.writeFeatureCollection([
+    { geometry: Point.createFromXY(1, 1) },
+    { geometry: Point.createFromXY(-2, 5) },
+    {},
+  ]);
+  expect(featureCollection.bbox).toEqual([-2, 1, 1, 5]);
+  expect(featureCollection.features[0].bbox).toEqual([1, 1, 1, 1]);
+  expect(featureCollection.features[2].bbox).toBeUndefined();
+  expect(featureCollection.features[0].geometry!.bbox).toBeUndefined();
+});
+
+Deno.test("test GeoJSON features", () => {
+  const writer = new GeoJSONWriter();
+  const feature = writer.writeFeature({
+    id: 7,
+    geometry: Point.createFromXY(1, 2),
+    properties: { name: "a", value: 1 },
+  });
+  expect(feature).toEqual({
+    type: "Feature",
+    id: 7,
+    geometry: { type: "Point", coordinates: [1, 2] },
+    properties: { name: "a", value: 1 },
+  });
+  expect(writer.writeFeature({})).toEqual({
+    type: "Feature",
+    geometry: null,
+    properties: null,
+  });
+
+  const features = GeoJSONReader.readFeatureCollection(
+    JSON.stringify(
+      writer.writeFeatureCollection([
+        { id: "first", geometry: Point.createFromXY(1, 2) },
+        { properties: { empty: true } },
+      ]),
+    ),
+  );
+  expect(features.length).toEqual(2);
+  expect(features[0].id).toEqual("first");
+  expect(features[0].geometry!.equals(Point.createFromXY(1, 2))).toBe(true);
+  expect(features[0].properties).toBeNull();
+  expect(features[1].id).toBeUndefined();
+  expect(features[1].geometry).toBeUndefined();
+  expect(features[1].properties).toEqual({ empty: true });
+
+  expect(() => GeoJSONReader.readFeature({ type: "Point" } as unknown as never))
+    .toThrow(SFException);
+});
+
+Deno.test("test GeoJSON unsupported type policies", () => {
+  const circularString = WKTReader.readGeometry(
+    "CIRCULARSTRING (1 0, 0 1, -1 0)",
+  );
+
+  const reject = new GeoJSONWriter(UnsupportedTypePolicy.Reject);
+  expect(() => reject.writeGeometry(circularString)).toThrow(
+    "Geometry Type not supported by GeoJSON: CircularString",
+  );
+  expect(() =>
+    reject.writeGeometry(
+      WKTReader.readGeometry("GEOMETRYCOLLECTION (TRIANGLE EMPTY)"),
+    )
+  ).toThrow(SFException);
+
+  const linearize = new GeoJSONWriter();
+  const linear = linearize.writeGeometry(circularString);
+  expect(linear.type).toEqual("LineString");
+  expect(linear.wkt).toBeUndefined();
+  const lineString = GeoJSONReader.readGeometry(linear) as LineString;
+  expect(lineString.numPoints()).toBeGreaterThan(3);
+  for (const point of lineString.points) {
+    expect(GeometryUtils.distance(point, Point.createFromXY(0, 0)))
+      .toBeCloseTo(1, 12);
+  }
+
+  const foreignMember = new GeoJSONWriter(UnsupportedTypePolicy.ForeignMember);
+  for (
+    const text of [
+      "CIRCULARSTRING (1 0, 0 1, -1 0)",
+      "COMPOUNDCURVE (CIRCULARSTRING (0 0, 1 1, 2 0), (2 0, 3 0))",
+      "CURVEPOLYGON (CIRCULARSTRING (0 0, 2 0, 0 0))",
+      "MULTICURVE ((0 0, 1 1), CIRCULARSTRING (0 0, 1 1, 2 0))",
+      "MULTISURFACE (((0 0, 1 0, 1 1, 0 0)), TIN (((0 0, 0 1, 1 0, 0 0))))",
+      "POLYHEDRALSURFACE Z (((0 0 0, 0 1 0, 1 1 0, 0 0 0)))",
+      "TIN (((0 0, 0 1, 1 0, 0 0)), ((1 0, 0 1, 1 1, 1 0)))",
+      "TRIANGLE ((0 0, 0 1, 1 0, 0 0))",
+    ]
+  ) {
+    const geometry = WKTReader.readGeometry(text);
+    const geoJSON = foreignMember.writeGeometry(geometry);
+    expect(geoJSON.wkt).toEqual(text);
+    expect(GeoJSONReader.readGeometry(JSON.stringify(geoJSON)).equals(geometry))
+      .toBe(true);
+
+    const linearGeoJSON = linearize.writeGeometry(geometry);
+    delete geoJSON.wkt;
+    expect(geoJSON).toEqual(linearGeoJSON);
+  }
+
+  const types = [
+    "LineString",
+    "LineString",
+    "Polygon",
+    "MultiLineString",
+    "MultiPolygon",
+    "MultiPolygon",
+    "MultiPolygon",
+    "Polygon",
+  ];
+  expect(
+    [
+      "CIRCULARSTRING (1 0, 0 1, -1 0)",
+      "COMPOUNDCURVE ((0 0, 1 0))",
+      "CURVEPOLYGON ((0 0, 1 0, 1 1, 0 0))",
+      "MULTICURVE ((0 0, 1 1))",
+      "MULTISURFACE (((0 0, 1 0, 1 1, 0 0)))",
+      "POLYHEDRALSURFACE (((0 0, 0 1, 1 1, 0 0)))",
+      "TIN (((0 0, 0 1, 1 0, 0 0)))",
+      "TRIANGLE ((0 0, 0 1, 1 0, 0 0))",
+    ].map((text) => linearize.writeGeometry(WKTReader.readGeometry(text)).type),
+  ).toEqual(types);
+});
+
+Deno.test("test GeoJSON right hand rule", () => {
+  const polygon = WKTReader.readGeometry(
+    "POLYGON ((0 0, 0 10, 10 10, 10 0, 0 0), (2 2, 4 2, 4 4, 2 4, 2 2))",
+  );
+  const writer = new GeoJSONWriter();
+  expect((writer.writeGeometry(polygon) as GeoJSONPolygon).coordinates[0][1])
+    .toEqual([0, 10]);
+
+  writer.rightHandRule = true;
+  const oriented = writer.writeGeometry(polygon) as GeoJSONPolygon;
+  expect(oriented.coordinates[0]).toEqual([
+    [0, 0],
+    [10, 0],
+    [10, 10],
+    [0, 10],
+    [0, 0],
+  ]);
+  expect(oriented.coordinates[1]).toEqual([
+    [2, 2],
+    [2, 4],
+    [4, 4],
+    [4, 2],
+    [2, 2],
+  ]);
+});
+
+Deno.test("test GeoJSON invalid input", () => {
+  for (
+    const geoJSON of [
+      { type: "Point", coordinates: [1] },
+      { type: "LineString", coordinates: [[1, 2], [3]] },
+      { type: "Polygon", coordinates: [[1, 2]] },
+      { type: "MultiPolygon", coordinates: "[]" },
+      { type: "Circle", coordinates: [1, 2] },
+      { type: "GeometryCollection" },
+    ]
+  ) {
+    expect(() =>
+      GeoJSONReader.readGeometry(geoJSON as unknown as GeoJSONGeometry)
+    ).toThrow(SFException);
+  }
+  expect(() => GeoJSONReader.readGeometry("null")).toThrow(SFException);
+});
+
+Deno.test("test curve linearizer", () => {
+  const circle = CurveLinearizer.linearize(
+    WKTReader.readGeometry("CIRCULARSTRING ZM (2 0 0 0, 0 0 4 8, 2 0 0 0)"),
+  ) as LineString;
+  expect(circle.geometryType).toEqual(GeometryType.LineString);
+  expect(circle.hasZ).toBe(true);
+  expect(circle.numPoints()).toEqual(129);
+  expect(circle.getPoint(64).equals(Point.createFromXYZM(0, 0, 4, 8)))
+    .toBe(true);
+  expect(circle.getPoint(32).x).toBeCloseTo(1, 12);
+  expect(circle.getPoint(32).y).toBeCloseTo(1, 12);
+  expect(circle.getPoint(32).z).toBeCloseTo(2, 12);
+  expect(circle.getPoint(32).m).toBeCloseTo(4, 12);
+
+  const clockwise = CurveLinearizer.linearize(
+    WKTReader.readGeometry("CIRCULARSTRING (-1 0, 0 1, 1 0)"),
+    Math.PI / 4,
+  ) as LineString;
+  expect(clockwise.numPoints()).toEqual(5);
+  expect(clockwise.getPoint(1).x).toBeCloseTo(-Math.SQRT1_2, 12);
+  expect(clockwise.getPoint(1).y).toBeCloseTo(Math.SQRT1_2, 12);
+
+  const straight = CurveLinearizer.linearize(
+    WKTReader.readGeometry(
+      "COMPOUNDCURVE (CIRCULARSTRING (0 0, 1 0, 2 0), (2 0, 3 0))",
+    ),
+  );
+  expect(
+    straight.equals(WKTReader.readGeometry("LINESTRING (0 0, 1 0, 2 0, 3 0)")),
+  )
+    .toBe(true);
+});
@@ -0,0 +1,128 @@
+import {
+  Ellipsoid,
+  Geodesic,
+  GeodesicMeasure,
+  GeometryUtils,
+  Point,
+  SFException,
+  WKTReader,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+Deno.test("test geodesic inverse", () => {
+  // Flinders Peak to Buninyong
+  const flindersLat = -(37 + 57 / 60 + 3.72030 / 3600);
+  const flindersLon = 144 + 25 / 60 + 29.52440 / 3600;
+  const buninyongLat = -(37 + 39 / 60 + 10.15610 / 3600);
+  const buninyongLon = 143 + 55 / 60 + 35.38390 / 3600;
+
+  const inverse = Geodesic.WGS84.inverse(
+    flindersLat,
+    flindersLon,
+    buninyongLat,
+    buninyongLon,
+  );
+  expect(inverse.distance).toBeCloseTo(54972.271, 3);
+  expect(inverse.azimuth1 + 360).toBeCloseTo(
+    306 + 52 / 60 + 5.37 / 3600,
+    5,
+  );
+  expect(inverse.azimuth2 + 360).toBeCloseTo(
+    307 + 10 / 60 + 25.07 / 3600,
+    5,
+  );
+
+  expect(Geodesic.WGS84.inverse(0, 0, 90, 0).distance).toBeCloseTo(
+    10001965.7293,
+    4,
+  );
+  expect(Geodesic.WGS84.inverse(10, 20, 10, 20).distance).toEqual(0);
+  expect(
+    Geodesic.WGS84.inverse(0, 179, 0, -179).distance,
+  ).toBeCloseTo(Geodesic.WGS84.inverse(0, 0, 0, 2).distance, 6);
+
+  const sphere = new Geodesic(new Ellipsoid(6371000, 0));
+  expect(sphere.inverse(0, 0, 0, 90).distance).toBeCloseTo(
+    6371000 * Math.PI / 2,
+    6,
+  );
+  expect(() => new Ellipsoid(-1, 0)).toThrow(SFException);
+});
+
+Deno.test("test geodesic direct", () => {
+  const geodesic = new Geodesic(Ellipsoid.GRS80);
+  const direct = geodesic.direct(40, -75, 45, 1000000);
+  const inverse = geodesic.inverse(40, -75, direct.latitude, direct.longitude);
+  expect(inverse.distance).toBeCloseTo(1000000, 6);
+  expect(inverse.azimuth1).toBeCloseTo(45, 9);
+  expect(inverse.azimuth2).toBeCloseTo(direct.azimuth, 9);
+
+  const antimeridian = Geodesic.WGS84.direct(0, 179, 90, 222638.98158654713);
+  expect(antimeridian.latitude).toBeCloseTo(0, 9);
+  expect(antimeridian.longitude).toBeCloseTo(-179, 9);
+});
+
+Deno.test("test geodesic measure", () => {
+  expect(
+    GeodesicMeasure.getDistance(
+      Point.createFromXY(0, 0),
+      Point.createFromXY(0, 90),
+    ),
+  ).toBeCloseTo(10001965.7293, 4);
+
+  const octant = WKTReader.readGeometry("POLYGON ((0 0, 90 0, 0 90, 0 0))");
+  expect(octant.getGeodesicArea()).toBeCloseTo(
+    Geodesic.WGS84.ellipsoidArea / 8,
+    1,
+  );
+  expect(octant.getGeodesicPerimeter()).toBeCloseTo(
+    2 * 10001965.7293 + Math.PI * 6378137 / 2,
+    3,
+  );
+  expect(octant.getGeodesicLength()).toEqual(0);
+
+  const line = WKTReader.readGeometry("LINESTRING (179 0, -179 0)");
+  expect(line.getGeodesicLength()).toBeCloseTo(
+    GeometryUtils.getGeodesicLength(
+      WKTReader.readGeometry("LINESTRING (0 0, 2 0)"),
+    ),
+    6,
+  );
+  expect(line.getGeodesicArea()).toEqual(0);
+
+  const polygon = WKTReader.readGeometry(
+    "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (2 2, 2 4, 4 4, 4 2, 2 2))",
+  );
+  const exterior = WKTReader.readGeometry(
+    "POLYGON ((0 0, 0 10, 10 10, 10 0, 0 0))",
+  );
+  const hole = WKTReader.readGeometry("POLYGON ((2 2, 4 2, 4 4, 2 4, 2 2))");
+  expect(polygon.getGeodesicArea()).toBeCloseTo(
+    exterior.getGeodesicArea() - hole.getGeodesicArea(),
+    3,
+  );
+
+  const antimeridian = WKTReader.readGeometry(
+    "POLYGON ((179 -1, -179 -1, -179 1, 179 1, 179 -1))",
+  );
+  expect(antimeridian.getGeodesicArea()).toBeCloseTo(
+    WKTReader.readGeometry("POLYGON ((-1 -1, 1 -1, 1 1, -1 1, -1 -1))")
+      .getGeodesicArea(),
+    3,
+  );
+
+  const cap = WKTReader.readGeometry(
+    "POLYGON ((0 80, 90 80, 180 80, -90 80, 0 80))",
+  );
+  expect(cap.getGeodesicArea()).toBeCloseTo(
+    4 * WKTReader.readGeometry("POLYGON ((0 80, 90 80, 0 90, 0 80))")
+      .getGeodesicArea(),
+    2,
+  );
+
+  const sphere = new Geodesic(new Ellipsoid(6371000, 0));
+  expect(octant.getGeodesicArea(sphere)).toBeCloseTo(
+    Math.PI * 6371000 * 6371000 / 2,
+    1,
+  );
+});
@@ -1,3 +1,4 @@
+import { expect } from "@std/expect";
 import type { Geometry } from "../lib/internal.ts";
 import { GeometrySerializer } from "../lib/internal.ts";
 import {
@@ -72,3 +73,13 @@ Deno.test("test compound curve", () => {
     createCompoundCurve(Math.random() < 0.5, Math.random() < 0.5),
   );
 });
+
+Deno.test("test srid", () => {
+  const geometry = createMultiPolygon(Math.random() < 0.5, Math.random() < 0.5);
+  geometry.srid = 4326;
+  const deserializedGeometry = GeometrySerializer.deserialize(
+    GeometrySerializer.serialize(geometry),
+  );
+  expect(deserializedGeometry.srid).toEqual(4326);
+  expect(deserializedGeometry.equals(geometry)).toBe(true);
+});
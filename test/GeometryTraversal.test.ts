@@ -0,0 +1,145 @@
+import type {
+  CircularString,
+  CompoundCurve,
+  Curve,
+  CurvePolygon,
+  Geometry,
+  GeometryCollection,
+  GeometryVisitor,
+  LineString,
+  MultiLineString,
+  MultiPoint,
+  MultiPolygon,
+  Polygon,
+  PolyhedralSurface,
+  Surface,
+  TIN,
+  Triangle,
+} from "../lib/internal.ts";
+import {
+  GeometryTraversal,
+  Point,
+  WKTReader,
+  WKTWriter,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+Deno.test("test coordinates", () => {
+  const geometry = WKTReader.readGeometry(
+    "GEOMETRYCOLLECTION (POINT (1 2), " +
+      "MULTIPOLYGON (((0 0, 4 0, 4 4, 0 0), (1 1, 2 1, 2 2, 1 1)), " +
+      "((5 5, 6 5, 6 6, 5 5))), " +
+      "COMPOUNDCURVE ((0 0, 1 1), CIRCULARSTRING (1 1, 2 2, 3 1)))",
+  );
+
+  const coordinates = [...GeometryTraversal.coordinates(geometry)];
+  expect(coordinates.length).toBe(1 + 8 + 4 + 5);
+  expect(coordinates.map((coordinate) => [
+    coordinate.partIndex,
+    coordinate.ringIndex,
+    coordinate.vertexIndex,
+  ])).toEqual([
+    [0, 0, 0],
+    [1, 0, 0],
+    [1, 0, 1],
+    [1, 0, 2],
+    [1, 0, 3],
+    [1, 1, 0],
+    [1, 1, 1],
+    [1, 1, 2],
+    [1, 1, 3],
+    [2, 0, 0],
+    [2, 0, 1],
+    [2, 0, 2],
+    [2, 0, 3],
+    [3, 0, 0],
+    [3, 0, 1],
+    [3, 0, 2],
+    [3, 0, 3],
+    [3, 0, 4],
+  ]);
+  expect(coordinates[6].point.x).toBe(2);
+  expect(coordinates[6].point.y).toBe(1);
+
+  const surface = WKTReader.readGeometry(
+    "TIN Z (((0 0 0, 1 0 0, 0 1 0, 0 0 0)), ((1 0 0, 1 1 1, 0 1 0, 1 0 0)))",
+  );
+  const patches = [...GeometryTraversal.coordinates(surface)];
+  expect(patches.length).toBe(8);
+  expect(patches[5].partIndex).toBe(1);
+  expect(patches[5].point.z).toBe(1);
+
+  expect(
+    [...GeometryTraversal.coordinates(
+      WKTReader.readGeometry("MULTIPOINT (EMPTY, 1 2)"),
+    )].map((coordinate) => coordinate.partIndex),
+  ).toEqual([1]);
+});
+
+Deno.test("test map coordinates", () => {
+  const geometry = WKTReader.readGeometry(
+    "CURVEPOLYGON ZM (CIRCULARSTRING ZM (0 0 1 2, 2 2 3 4, 4 0 5 6, 2 -2 7 8, 0 0 1 2))",
+  );
+
+  const mapped = GeometryTraversal.mapCoordinates(
+    geometry,
+    (coordinate) =>
+      Point.createFromXY(
+        coordinate.point.x + 10,
+        coordinate.vertexIndex,
+      ),
+  );
+  expect(WKTWriter.writeGeometry(mapped)).toBe(
+    "CURVEPOLYGON ZM (CIRCULARSTRING (10 0 1 2, 12 1 3 4, 14 2 5 6, 12 3 7 8, 10 4 1 2))",
+  );
+  expect(WKTWriter.writeGeometry(geometry)).toBe(
+    "CURVEPOLYGON ZM (CIRCULARSTRING (0 0 1 2, 2 2 3 4, 4 0 5 6, 2 -2 7 8, 0 0 1 2))",
+  );
+
+  const elevated = GeometryTraversal.mapCoordinates(
+    WKTReader.readGeometry("LINESTRING Z (0 0 1, 1 1 2)"),
+    (coordinate) =>
+      Point.createFromXYZ(
+        coordinate.point.x,
+        coordinate.point.y,
+        (coordinate.point.z as number) * 100,
+      ),
+  ) as LineString;
+  expect(elevated.getPoint(1).z).toBe(200);
+  expect(elevated.hasM).toBe(false);
+});
+
+Deno.test("test visitor", () => {
+  const visitor: GeometryVisitor<string> = {
+    visitPoint: (_point: Point) => "point",
+    visitLineString: (_lineString: LineString) => "line string",
+    visitCircularString: (_circularString: CircularString) => "circular string",
+    visitCompoundCurve: (_compoundCurve: CompoundCurve) => "compound curve",
+    visitPolygon: (_polygon: Polygon) => "polygon",
+    visitTriangle: (_triangle: Triangle) => "triangle",
+    visitCurvePolygon: (_curvePolygon: CurvePolygon<Curve>) => "curve polygon",
+    visitPolyhedralSurface: (_polyhedralSurface: PolyhedralSurface) =>
+      "polyhedral surface",
+    visitTIN: (_tin: TIN) => "tin",
+    visitMultiPoint: (_multiPoint: MultiPoint) => "multi point",
+    visitMultiLineString: (_multiLineString: MultiLineString) =>
+      "multi line string",
+    visitMultiPolygon: (_multiPolygon: MultiPolygon) => "multi polygon",
+    visitMultiCurve: (_multiCurve: GeometryCollection<Curve>) => "multi curve",
+    visitMultiSurface: (_multiSurface: GeometryCollection<Surface>) =>
+      "multi surface",
+    visitGeometryCollection: (collection: GeometryCollection) =>
+      collection.geometries.map((geometry: Geometry) =>
+        GeometryTraversal.visit(geometry, visitor)
+      ).join(", "),
+  };
+
+  const geometry = WKTReader.readGeometry(
+    "GEOMETRYCOLLECTION (POINT (1 2), TRIANGLE ((0 0, 1 0, 0 1, 0 0)), " +
+      "MULTICURVE ((0 0, 1 1)), TIN (((0 0, 1 0, 0 1, 0 0))), " +
+      "GEOMETRYCOLLECTION (CIRCULARSTRING (0 0, 1 1, 2 0)))",
+  );
+  expect(GeometryTraversal.visit(geometry, visitor)).toBe(
+    "point, triangle, multi curve, tin, circular string",
+  );
+});
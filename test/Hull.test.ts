@@ -0,0 +1,150 @@
+import type { Polygon } from "../lib/internal.ts";
+import {
+  DelaunayTriangulator,
+  GeometryUtils,
+  Point,
+  SFException,
+  WKTReader,
+  WKTWriter,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Get the convex hull of well-known text
+ * @param text well-known text
+ * @returns convex hull well-known text
+ */
+function convexHull(text: string): string {
+  return WKTWriter.writeGeometry(
+    GeometryUtils.convexHull(WKTReader.readGeometry(text)),
+  );
+}
+
+/**
+ * Create a multi point of grid points
+ * @param include grid point filter
+ * @returns multi point well-known text
+ */
+function grid(include: (x: number, y: number) => boolean): string {
+  const points: string[] = [];
+  for (let x = 0; x <= 10; x++) {
+    for (let y = 0; y <= 10; y++) {
+      if (include(x, y)) {
+        points.push(`(${x} ${y})`);
+      }
+    }
+  }
+  return `MULTIPOINT (${points.join(", ")})`;
+}
+
+Deno.test("test convex hull", () => {
+  expect(convexHull("MULTIPOINT EMPTY")).toEqual("POLYGON EMPTY");
+  expect(convexHull("MULTIPOINT ((1 1), (1 1))")).toEqual("POINT (1 1)");
+  expect(convexHull("MULTIPOINT ((0 0), (2 2), (1 1))")).toEqual(
+    "LINESTRING (0 0, 2 2)",
+  );
+  expect(
+    convexHull("MULTIPOINT ((0 0), (10 0), (5 5), (10 10), (5 10), (0 10))"),
+  ).toEqual("POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0))");
+  expect(
+    convexHull("POLYGON ((0 0, 10 0, 5 1, 10 10, 0 10, 0 0))"),
+  ).toEqual("POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0))");
+  expect(convexHull("TIN Z (((0 0 1, 1 0 1, 0 1 1, 0 0 1)))")).toEqual(
+    "POLYGON ((0 0, 1 0, 0 1, 0 0))",
+  );
+  expect(
+    convexHull(
+      "POLYHEDRALSURFACE (((0 0, 1 0, 1 1, 0 0)), ((0 0, 1 1, -1 1, 0 0)))",
+    ),
+  ).toEqual("POLYGON ((-1 1, 0 0, 1 0, 1 1, -1 1))");
+  expect(convexHull("POLYGON ((0 0, 1 1, 0 0))")).toEqual(
+    "LINESTRING (0 0, 1 1)",
+  );
+
+  const hull = GeometryUtils.convexHull(
+    WKTReader.readGeometry("SRID=4326;CIRCULARSTRING (0 0, 1 1, 2 0)"),
+  ) as Polygon;
+  expect(hull.srid).toEqual(4326);
+  const envelope = hull.getEnvelope();
+  expect(envelope.minX).toEqual(0);
+  expect(envelope.maxX).toEqual(2);
+  expect(envelope.maxY).toBeCloseTo(1);
+});
+
+Deno.test("test concave hull", () => {
+  const points = WKTReader.readGeometry(
+    "MULTIPOINT ((0 0), (10 0), (5 5), (10 10), (0 10), (5 1))",
+  );
+  expect(WKTWriter.writeGeometry(GeometryUtils.concaveHull(points, 1)))
+    .toEqual("POLYGON ((0 10, 0 0, 10 0, 10 10, 0 10))");
+  expect(WKTWriter.writeGeometry(GeometryUtils.concaveHull(points, 0)))
+    .toEqual("POLYGON ((0 0, 5 1, 10 0, 10 10, 0 10, 5 5, 0 0))");
+
+  const u = WKTReader.readGeometry(
+    grid((x, y) => x <= 2 || x >= 8 || y <= 2),
+  );
+  const uHull = GeometryUtils.concaveHull(u, 0.3) as Polygon;
+  expect(uHull.numRings()).toEqual(1);
+  expect(uHull.contains(WKTReader.readGeometry("POINT (5 8)"))).toBe(false);
+  expect(uHull.covers(u)).toBe(true);
+  expect(
+    GeometryUtils.concaveHull(u, 1).contains(
+      WKTReader.readGeometry("POINT (5 8)"),
+    ),
+  ).toBe(true);
+
+  const ring = WKTReader.readGeometry(
+    grid((x, y) => x < 4 || x > 6 || y < 4 || y > 6),
+  );
+  const holed = GeometryUtils.concaveHull(ring, 0.2, true) as Polygon;
+  expect(holed.numRings()).toEqual(2);
+  expect(holed.contains(WKTReader.readGeometry("POINT (5 5)"))).toBe(false);
+  expect(holed.covers(ring)).toBe(true);
+  const filled = GeometryUtils.concaveHull(ring, 0.2) as Polygon;
+  expect(filled.numRings()).toEqual(1);
+
+  expect(
+    WKTWriter.writeGeometry(
+      GeometryUtils.concaveHull(
+        WKTReader.readGeometry("MULTIPOINT ((0 0), (1 1), (2 2))"),
+        0,
+      ),
+    ),
+  ).toEqual("LINESTRING (0 0, 2 2)");
+  expect(() => GeometryUtils.concaveHull(points, 1.5)).toThrow(SFException);
+});
+
+Deno.test("test delaunay triangulator", () => {
+  const points: Point[] = [];
+  for (let x = 0; x <= 4; x++) {
+    for (let y = 0; y <= 4; y++) {
+      points.push(Point.createFromXY(x + y * 0.01, y + x * 0.02));
+    }
+  }
+  points.push(Point.createFromXY(0, 0));
+  const triangulator = new DelaunayTriangulator(points);
+  expect(triangulator.points.length).toEqual(25);
+  let hullEdges = 0;
+  for (let i = 0; i < triangulator.triangles.length; i++) {
+    const [a, b, c] = triangulator.triangles[i].map((index) =>
+      triangulator.points[index]
+    );
+    expect((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x))
+      .toBeGreaterThan(0);
+    for (let edge = 0; edge < 3; edge++) {
+      const neighbor = triangulator.neighbors[i][edge];
+      if (neighbor >= 0) {
+        expect(triangulator.neighbors[neighbor]).toContain(i);
+      } else {
+        hullEdges++;
+      }
+    }
+  }
+  expect(triangulator.triangles.length).toEqual(2 * 25 - 2 - hullEdges);
+  expect(
+    new DelaunayTriangulator([
+      Point.createFromXY(0, 0),
+      Point.createFromXY(1, 1),
+    ]).triangles.length,
+  ).toEqual(0);
+});
@@ -0,0 +1,112 @@
+import { WKTReader } from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Determine if geometry well-known text is simple
+ * @param text geometry well-known text
+ * @returns true if simple
+ */
+function isSimple(text: string): boolean {
+  return WKTReader.readGeometry(text).isSimple();
+}
+
+Deno.test("test is simple curves", () => {
+  expect(isSimple("LINESTRING (0 0, 10 0, 10 10, 0 10)")).toBe(true);
+  expect(isSimple("LINESTRING (0 0, 10 0, 10 10, 0 10, 0 0)")).toBe(true);
+  expect(isSimple("LINESTRING (5 0, 10 0, 10 10, 0 10, 5 0)")).toBe(true);
+  expect(isSimple("LINESTRING (0 0, 10 0, 10 10, 5 -5)")).toBe(false);
+  expect(isSimple("LINESTRING (0 0, 10 0, 10 10, 5 0)")).toBe(false);
+  expect(isSimple("LINESTRING (0 0, 10 0, 5 0)")).toBe(false);
+  expect(
+    isSimple("LINESTRING (5 0, 10 0, 10 10, 0 10, 0 0, 5 0, 5 5)"),
+  ).toBe(false);
+
+  expect(isSimple("CIRCULARSTRING (0 0, 1 1, 2 0, 1 -1, 0 0)")).toBe(true);
+  expect(isSimple("CIRCULARSTRING (0 0, 1 1, 2 0, 1 -1, 1 1)")).toBe(false);
+  expect(
+    isSimple("COMPOUNDCURVE (CIRCULARSTRING (0 0, 1 1, 2 0), (2 0, 0 0))"),
+  ).toBe(true);
+  expect(
+    isSimple("COMPOUNDCURVE (CIRCULARSTRING (0 0, 1 1, 2 0), (2 0, 1 2))"),
+  ).toBe(false);
+});
+
+Deno.test("test is simple multi curves", () => {
+  expect(isSimple("MULTILINESTRING ((0 0, 1 1), (1 1, 2 0))")).toBe(true);
+  expect(
+    isSimple("MULTILINESTRING ((0 0, 1 1), (1 1, 2 0), (1 1, 1 2))"),
+  ).toBe(true);
+  expect(isSimple("MULTILINESTRING ((0 0, 2 2), (0 2, 2 0))")).toBe(false);
+  expect(isSimple("MULTILINESTRING ((0 0, 2 2), (1 1, 2 0))")).toBe(false);
+  expect(isSimple("MULTILINESTRING ((0 0, 1 0), (0 0, 1 0))")).toBe(false);
+  expect(
+    isSimple("MULTILINESTRING ((0 0, 1 0, 1 1, 0 0), (0 0, -1 -1))"),
+  ).toBe(false);
+  expect(
+    isSimple(
+      "MULTICURVE (CIRCULARSTRING (0 0, 1 1, 2 0), (2 0, 3 0))",
+    ),
+  ).toBe(true);
+});
+
+Deno.test("test is simple surfaces and collections", () => {
+  expect(
+    isSimple(
+      "CURVEPOLYGON (CIRCULARSTRING (0 0, 4 0, 0 0), " +
+        "(1 -1, 3 -1, 3 1, 1 1, 1 -1))",
+    ),
+  ).toBe(true);
+  expect(
+    isSimple(
+      "CURVEPOLYGON (CIRCULARSTRING (0 0, 4 0, 0 0), " +
+        "(1 -1, 5 -1, 5 1, 1 1, 1 -1))",
+    ),
+  ).toBe(false);
+
+  expect(
+    isSimple("GEOMETRYCOLLECTION (POINT (1 1), LINESTRING (0 0, 1 1))"),
+  ).toBe(true);
+  expect(
+    isSimple(
+      "GEOMETRYCOLLECTION (POINT (1 1), LINESTRING (0 0, 2 2, 2 0, 0 2))",
+    ),
+  ).toBe(false);
+});
+
+Deno.test("test is simple polyhedral surfaces", () => {
+  expect(
+    isSimple("TIN (((0 0, 1 0, 0 1, 0 0)), ((1 0, 0 1, 1 1, 1 0)))"),
+  ).toBe(true);
+  expect(
+    isSimple("TIN (((0 0, 1 0, 0 1, 0 0)), ((1 0, 0 1, 0 0, 1 0)))"),
+  ).toBe(false);
+  expect(
+    isSimple("TIN (((0 0, 2 0, 0 2, 0 0)), ((1 0, 2 0, 2 2, 1 0)))"),
+  ).toBe(false);
+  expect(
+    isSimple("TIN (((0 0, 4 0, 0 4, 0 0)), ((1 1, 2 1, 1 2, 1 1)))"),
+  ).toBe(false);
+
+  expect(
+    isSimple(
+      "POLYHEDRALSURFACE Z (((0 0 0, 0 1 0, 1 1 0, 1 0 0, 0 0 0)), " +
+        "((0 0 0, 0 1 0, 0 1 1, 0 0 1, 0 0 0)), " +
+        "((0 0 0, 1 0 0, 1 0 1, 0 0 1, 0 0 0)), " +
+        "((1 1 1, 1 0 1, 0 0 1, 0 1 1, 1 1 1)), " +
+        "((1 1 1, 1 0 1, 1 0 0, 1 1 0, 1 1 1)), " +
+        "((1 1 1, 1 1 0, 0 1 0, 0 1 1, 1 1 1)))",
+    ),
+  ).toBe(true);
+  expect(
+    isSimple(
+      "POLYHEDRALSURFACE Z (((0 0 0, 2 0 0, 2 2 0, 0 2 0, 0 0 0)), " +
+        "((1 1 -1, 1 1 1, 1 3 1, 1 3 -1, 1 1 -1)))",
+    ),
+  ).toBe(false);
+  expect(
+    isSimple(
+      "POLYHEDRALSURFACE Z (((0 0 0, 1 0 0, 0 1 0, 0 0 0)), " +
+        "((0 0 0, 1 0 0, 0 -1 1, 0 0 0)), ((0 0 0, 1 0 0, 0 -1 -1, 0 0 0)))",
+    ),
+  ).toBe(false);
+});
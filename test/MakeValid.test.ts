@@ -0,0 +1,159 @@
+import type { Geometry, MultiPolygon, Polygon } from "../lib/internal.ts";
+import {
+  GeometryType,
+  GeometryUtils,
+  OverlayGraph,
+  WKTReader,
+  WKTWriter,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Get the area of a polygon or multi polygon, from its signed ring areas
+ * @param geometry polygon or multi polygon
+ * @returns area
+ */
+function area(geometry: Geometry): number {
+  const polygons = geometry.geometryType === GeometryType.MultiPolygon
+    ? (geometry as MultiPolygon).polygons
+    : [geometry as Polygon];
+  let total = 0;
+  for (const polygon of polygons) {
+    for (const ring of polygon.rings) {
+      total += OverlayGraph.signedArea(ring.points);
+    }
+  }
+  return total;
+}
+
+/**
+ * Make a geometry valid and verify the result is valid
+ * @param text geometry well-known text
+ * @returns valid geometry
+ */
+function makeValid(text: string): Geometry {
+  const geometry = WKTReader.readGeometry(text);
+  expect(geometry.isValid()).toBe(false);
+  const valid = GeometryUtils.makeValid(geometry);
+  expect(valid.validate()).toEqual([]);
+  return valid;
+}
+
+Deno.test("test make valid polygons", () => {
+  const bowTie = makeValid("SRID=4326;POLYGON ((0 0, 10 10, 10 0, 0 10, 0 0))");
+  expect(bowTie.geometryType).toEqual(GeometryType.MultiPolygon);
+  expect((bowTie as MultiPolygon).numPolygons()).toEqual(2);
+  expect(area(bowTie)).toEqual(50);
+  expect(bowTie.srid).toEqual(4326);
+
+  const unclosed = makeValid("POLYGON ((0 0, 10 0, 10 0, 10 10, 0 10))");
+  expect(unclosed.geometryType).toEqual(GeometryType.Polygon);
+  expect((unclosed as Polygon).rings[0].numPoints()).toEqual(5);
+  expect(area(unclosed)).toEqual(100);
+
+  const clockwise = makeValid(
+    "POLYGON ((0 0, 0 10, 10 10, 10 0, 0 0), (2 2, 4 2, 4 4, 2 4, 2 2))",
+  );
+  expect((clockwise as Polygon).numRings()).toEqual(2);
+  expect(area(clockwise)).toEqual(96);
+
+  const strayHole = makeValid(
+    "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (20 0, 20 2, 22 2, 22 0, 20 0))",
+  );
+  expect(strayHole.geometryType).toEqual(GeometryType.MultiPolygon);
+  expect(area(strayHole)).toEqual(104);
+
+  const valid = WKTReader.readGeometry(
+    "POLYGON Z ((0 0 1, 10 0 2, 10 10 3, 0 10 4, 0 0 1))",
+  );
+  expect(GeometryUtils.makeValid(valid).equals(valid)).toBe(true);
+});
+
+Deno.test("test make valid multi polygons", () => {
+  const overlapping = makeValid(
+    "MULTIPOLYGON (((0 0, 2 0, 2 2, 0 2, 0 0)), ((1 1, 3 1, 3 3, 1 3, 1 1)))",
+  );
+  expect(overlapping.geometryType).toEqual(GeometryType.Polygon);
+  expect(area(overlapping)).toEqual(7);
+
+  const movedHole = makeValid(
+    "MULTIPOLYGON (((0 0, 4 0, 4 4, 0 4, 0 0), (11 1, 11 2, 12 2, 12 1, 11 1)), " +
+      "((10 0, 14 0, 14 4, 10 4, 10 0)))",
+  );
+  expect((movedHole as MultiPolygon).numPolygons()).toEqual(2);
+  expect(
+    (movedHole as MultiPolygon).polygons.map((polygon) => polygon.numRings())
+      .sort(),
+  ).toEqual([1, 2]);
+  expect(area(movedHole)).toEqual(31);
+});
+
+Deno.test("test make valid collapsed", () => {
+  const collapsed = makeValid(
+    "MULTIPOLYGON (((0 0, 10 0, 10 10, 0 10, 0 0)), ((20 0, 30 0, 20 0)))",
+  );
+  expect(collapsed.geometryType).toEqual(GeometryType.GeometryCollection);
+  expect(WKTWriter.writeGeometry(collapsed)).toContain(
+    "LINESTRING (20 0, 30 0)",
+  );
+  expect(
+    WKTWriter.writeGeometry(makeValid("POLYGON ((0 0, 10 0, 20 0, 0 0))")),
+  ).toEqual("LINESTRING (0 0, 10 0, 20 0)");
+  expect(
+    WKTWriter.writeGeometry(
+      makeValid("POLYGON ((5 5, 0 0, 10 10, 5 5, 2 2, 5 5))"),
+    ),
+  ).toEqual("LINESTRING (10 10, 5 5, 2 2, 0 0)");
+
+  expect(
+    WKTWriter.writeGeometry(makeValid("POLYGON ((1 1, 1 1, 1 1, 1 1))")),
+  ).toEqual("POINT (1 1)");
+  expect(
+    WKTWriter.writeGeometry(makeValid("LINESTRING (1 1, 1 1)")),
+  ).toEqual("POINT (1 1)");
+
+  expect(
+    WKTWriter.writeGeometry(
+      GeometryUtils.makeValid(
+        WKTReader.readGeometry(
+          "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (0 0, 0 10, 10 10, 10 0, 0 0))",
+        ),
+      ),
+    ),
+  ).toEqual(
+    "MULTILINESTRING ((0 0, 10 0, 10 10, 0 10, 0 0), (0 0, 0 10, 10 10, 10 0, 0 0))",
+  );
+  expect(
+    WKTWriter.writeGeometry(
+      makeValid(
+        "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (2 2, 4 4, 6 6, 2 2))",
+      ),
+    ),
+  ).toEqual(
+    "GEOMETRYCOLLECTION (POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0)), " +
+      "LINESTRING (2 2, 4 4, 6 6))",
+  );
+  expect(
+    WKTWriter.writeGeometry(
+      makeValid(
+        "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (2 2, 4 2, 4 2, 2 2))",
+      ),
+    ),
+  ).toEqual(
+    "GEOMETRYCOLLECTION (POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0)), " +
+      "LINESTRING (2 2, 4 2))",
+  );
+});
+
+Deno.test("test make valid repeated points", () => {
+  const polygon = WKTReader.readGeometry(
+    "POLYGON ((0 0, 10 0, 10 0, 10 10, 0 10, 0 0))",
+  );
+  expect(WKTWriter.writeGeometry(GeometryUtils.makeValid(polygon))).toEqual(
+    "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0))",
+  );
+
+  const lineString = WKTReader.readGeometry("LINESTRING (0 0, 0 0, 1 1)");
+  expect(WKTWriter.writeGeometry(GeometryUtils.makeValid(lineString)))
+    .toEqual("LINESTRING (0 0, 1 1)");
+});
@@ -0,0 +1,132 @@
+import { GeometryUtils, WKTReader } from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+Deno.test("test area", () => {
+  expect(
+    WKTReader.readGeometry(
+      "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (2 2, 2 4, 4 4, 4 2, 2 2))",
+    ).getArea(),
+  ).toEqual(96);
+  expect(
+    WKTReader.readGeometry(
+      "MULTIPOLYGON (((0 0, 1 0, 1 1, 0 0)), ((5 5, 5 7, 7 7, 7 5, 5 5)))",
+    ).getArea(),
+  ).toEqual(4.5);
+  expect(
+    WKTReader.readGeometry("CURVEPOLYGON (CIRCULARSTRING (0 0, 2 0, 0 0))")
+      .getArea(),
+  ).toBeCloseTo(Math.PI, 12);
+  expect(
+    WKTReader.readGeometry(
+      "CURVEPOLYGON (COMPOUNDCURVE (CIRCULARSTRING (0 0, 1 -1, 2 0), " +
+        "(2 0, 2 5, 0 5, 0 0)))",
+    ).getArea(),
+  ).toBeCloseTo(10 + Math.PI / 2, 12);
+  expect(
+    WKTReader.readGeometry(
+      "CURVEPOLYGON (CIRCULARSTRING (-4 0, 0 4, 4 0, 0 -4, -4 0), " +
+        "COMPOUNDCURVE (CIRCULARSTRING (0 0, 1 1, 2 0), (2 0, 0 0)))",
+    ).getArea(),
+  ).toBeCloseTo(16 * Math.PI - Math.PI / 2, 12);
+
+  expect(
+    WKTReader.readGeometry(
+      "POLYHEDRALSURFACE Z (((0 0 0, 0 1 0, 1 1 0, 1 0 0, 0 0 0)), " +
+        "((0 0 0, 0 1 0, 0 1 1, 0 0 1, 0 0 0)))",
+    ).getArea(),
+  ).toEqual(2);
+  expect(
+    WKTReader.readGeometry("TIN Z (((0 0 0, 1 0 0, 0 1 1, 0 0 0)))").getArea(),
+  ).toBeCloseTo(Math.SQRT2 / 2, 12);
+
+  expect(WKTReader.readGeometry("POINT (1 1)").getArea()).toEqual(0);
+  expect(WKTReader.readGeometry("LINESTRING (0 0, 1 1)").getArea()).toEqual(0);
+});
+
+Deno.test("test length", () => {
+  expect(
+    WKTReader.readGeometry("LINESTRING (0 0, 3 4, 3 10)").getLength(),
+  ).toEqual(11);
+  expect(
+    WKTReader.readGeometry("MULTILINESTRING ((0 0, 3 4), (0 0, 1 0))")
+      .getLength(),
+  ).toEqual(6);
+  expect(
+    WKTReader.readGeometry("CIRCULARSTRING (0 0, 1 1, 2 0)").getLength(),
+  ).toBeCloseTo(Math.PI, 12);
+  expect(
+    WKTReader.readGeometry(
+      "COMPOUNDCURVE (CIRCULARSTRING (0 0, 1 1, 2 0), (2 0, 2 3))",
+    ).getLength(),
+  ).toBeCloseTo(Math.PI + 3, 12);
+  expect(
+    WKTReader.readGeometry("POLYGON ((0 0, 1 0, 1 1, 0 0))").getLength(),
+  ).toEqual(0);
+
+  const line = WKTReader.readGeometry("LINESTRING Z (0 0 0, 3 4 12)");
+  expect(line.getLength()).toEqual(5);
+  expect(line.getLength(true)).toEqual(13);
+  expect(GeometryUtils.getLength(line, true)).toEqual(13);
+  expect(
+    WKTReader.readGeometry("CIRCULARSTRING Z (0 0 0, 1 1 1, 2 0 2)")
+      .getLength(true),
+  ).toBeCloseTo(2 * Math.hypot(Math.PI / 2, 1), 12);
+});
+
+Deno.test("test perimeter", () => {
+  expect(
+    WKTReader.readGeometry(
+      "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (2 2, 2 4, 4 4, 4 2, 2 2))",
+    ).getPerimeter(),
+  ).toEqual(48);
+  expect(
+    WKTReader.readGeometry("CURVEPOLYGON (CIRCULARSTRING (0 0, 2 0, 0 0))")
+      .getPerimeter(),
+  ).toBeCloseTo(2 * Math.PI, 12);
+  expect(
+    WKTReader.readGeometry("TIN Z (((0 0 0, 1 0 0, 0 1 1, 0 0 0)))")
+      .getPerimeter(true),
+  ).toBeCloseTo(1 + Math.SQRT2 + Math.sqrt(3), 12);
+  expect(
+    WKTReader.readGeometry(
+      "GEOMETRYCOLLECTION (POINT (1 1), LINESTRING (0 0, 3 4), " +
+        "POLYGON ((0 0, 3 0, 3 4, 0 0)))",
+    ).getPerimeter(),
+  ).toEqual(12);
+  expect(
+    WKTReader.readGeometry("LINESTRING (0 0, 3 4)").getPerimeter(),
+  ).toEqual(0);
+});
+
+Deno.test("test distance", () => {
+  const distance = (wkt1: string, wkt2: string) =>
+    WKTReader.readGeometry(wkt1).getDistance(WKTReader.readGeometry(wkt2));
+
+  expect(distance("POINT (0 0)", "POINT (3 4)")).toEqual(5);
+  expect(distance("POINT (0 5)", "LINESTRING (-1 0, 1 0)")).toEqual(5);
+  expect(distance("LINESTRING (0 0, 2 2)", "LINESTRING (0 2, 2 0)"))
+    .toEqual(0);
+  expect(distance("LINESTRING (0 0, 0 2)", "LINESTRING (3 1, 5 1)"))
+    .toEqual(3);
+  expect(
+    distance("POINT (5 5)", "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0))"),
+  ).toEqual(0);
+  expect(
+    distance(
+      "POINT (5 5)",
+      "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (4 4, 4 7, 7 7, 7 4, 4 4))",
+    ),
+  ).toEqual(1);
+  expect(
+    distance(
+      "POLYGON ((2 2, 3 2, 3 3, 2 2))",
+      "MULTIPOLYGON (((0 0, 10 0, 10 10, 0 10, 0 0)))",
+    ),
+  ).toEqual(0);
+  expect(
+    distance("CIRCULARSTRING (-1 0, 0 1, 1 0)", "POINT (0 3)"),
+  ).toBeCloseTo(2, 2);
+  expect(distance("POINT EMPTY", "POINT (0 0)")).toEqual(
+    Number.POSITIVE_INFINITY,
+  );
+});
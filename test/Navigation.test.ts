@@ -0,0 +1,163 @@
+import type { LineString } from "../lib/internal.ts";
+import {
+  GreatCircle,
+  Point,
+  RhumbLine,
+  SFException,
+  WKTReader,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Convert degrees, minutes and seconds to decimal degrees
+ * @param degrees degrees
+ * @param minutes minutes
+ * @param seconds seconds
+ * @returns decimal degrees
+ */
+function dms(degrees: number, minutes: number, seconds: number): number {
+  const value = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+  return degrees < 0 ? -value : value;
+}
+
+Deno.test("test great circle", () => {
+  const landsEnd = Point.createFromXY(dms(-5, 42, 53), dms(50, 3, 59));
+  const johnOGroats = Point.createFromXY(dms(-3, 4, 12), dms(58, 38, 38));
+
+  expect(GreatCircle.distance(landsEnd, johnOGroats)).toBeCloseTo(968855, 0);
+  expect(GreatCircle.initialBearing(landsEnd, johnOGroats)).toBeCloseTo(
+    dms(9, 7, 11),
+    3,
+  );
+  expect(GreatCircle.finalBearing(landsEnd, johnOGroats)).toBeCloseTo(
+    dms(11, 16, 31),
+    3,
+  );
+
+  const midpoint = GreatCircle.midpoint(landsEnd, johnOGroats);
+  expect(midpoint.x).toBeCloseTo(dms(-4, 31, 50), 3);
+  expect(midpoint.y).toBeCloseTo(dms(54, 21, 44), 3);
+  const start = GreatCircle.interpolate(landsEnd, johnOGroats, 0);
+  expect(start.x).toBeCloseTo(landsEnd.x, 12);
+  expect(start.y).toBeCloseTo(landsEnd.y, 12);
+
+  const destination = GreatCircle.destination(
+    Point.createFromXYZ(dms(-1, 43, 47), dms(53, 19, 14), 10),
+    dms(96, 1, 18),
+    124800,
+  );
+  expect(destination.x).toBeCloseTo(dms(0, 8, 0), 3);
+  expect(destination.y).toBeCloseTo(dms(53, 11, 18), 3);
+  expect(destination.z).toEqual(10);
+
+  const pathStart = Point.createFromXY(-1.7297, 53.3206);
+  const pathEnd = Point.createFromXY(0.1334, 53.1887);
+  const point = Point.createFromXY(-0.7972, 53.2611);
+  expect(
+    GreatCircle.crossTrackDistance(point, pathStart, pathEnd),
+  ).toBeCloseTo(-307.5, 1);
+  expect(
+    GreatCircle.alongTrackDistance(point, pathStart, pathEnd),
+  ).toBeCloseTo(62331.6, 1);
+  expect(
+    GreatCircle.alongTrackDistance(point, pathEnd, pathStart) < 0,
+  ).toBe(false);
+  expect(
+    GreatCircle.alongTrackDistance(
+      Point.createFromXY(-2, 53.3),
+      pathStart,
+      pathEnd,
+    ) < 0,
+  ).toBe(true);
+
+  const antimeridian = GreatCircle.midpoint(
+    Point.createFromXY(179, 0),
+    Point.createFromXY(-179, 0),
+  );
+  expect(antimeridian.x).toBeCloseTo(180, 12);
+  expect(antimeridian.y).toBeCloseTo(0, 12);
+
+  expect(() =>
+    GreatCircle.midpoint(Point.createFromXY(0, 0), Point.createFromXY(180, 0))
+  ).toThrow(SFException);
+});
+
+Deno.test("test great circle densify", () => {
+  const lineString = WKTReader.readGeometry(
+    "LINESTRING Z (0 0 0, 10 0 100, 10 10 200)",
+  ) as LineString;
+  const densified = GreatCircle.densify(lineString, 3);
+  expect(densified).not.toBe(lineString);
+  expect(densified.hasZ).toBe(true);
+  expect(densified.numPoints()).toEqual(9);
+  expect(lineString.numPoints()).toEqual(3);
+  expect(densified.getPoint(2).x).toBeCloseTo(5, 12);
+  expect(densified.getPoint(2).z).toEqual(50);
+  expect(densified.getPoint(4).equals(lineString.getPoint(1))).toBe(true);
+  expect(densified.getPoint(6).y).toBeCloseTo(5, 12);
+
+  const flight = GreatCircle.densify(
+    WKTReader.readGeometry("LINESTRING (-74 40.7, 2.35 48.86)") as LineString,
+    10,
+  );
+  expect(flight.numPoints()).toEqual(7);
+  for (let i = 1; i < flight.numPoints(); i++) {
+    expect(flight.getPoint(i).y > 40.7).toBe(true);
+    expect(
+      GreatCircle.crossTrackDistance(
+        flight.getPoint(i),
+        flight.startPoint(),
+        flight.endPoint(),
+      ),
+    ).toBeCloseTo(0, 6);
+  }
+
+  expect(() => GreatCircle.densify(lineString, 0)).toThrow(SFException);
+});
+
+Deno.test("test rhumb line", () => {
+  const plymouth = Point.createFromXY(dms(-4, 8, 2), dms(50, 21, 59));
+  const capeCod = Point.createFromXY(dms(-71, 2, 27), dms(42, 21, 4));
+
+  expect(RhumbLine.distance(plymouth, capeCod)).toBeCloseTo(5198009, 0);
+  expect(RhumbLine.bearing(plymouth, capeCod)).toBeCloseTo(
+    dms(260, 7, 38),
+    3,
+  );
+
+  const midpoint = RhumbLine.midpoint(plymouth, capeCod);
+  expect(midpoint.y).toBeCloseTo((plymouth.y + capeCod.y) / 2, 12);
+  expect(RhumbLine.bearing(plymouth, midpoint)).toBeCloseTo(
+    RhumbLine.bearing(plymouth, capeCod),
+    9,
+  );
+  expect(RhumbLine.distance(plymouth, midpoint)).toBeCloseTo(
+    RhumbLine.distance(plymouth, capeCod) / 2,
+    3,
+  );
+
+  const destination = RhumbLine.destination(
+    plymouth,
+    RhumbLine.bearing(plymouth, capeCod),
+    RhumbLine.distance(plymouth, capeCod),
+  );
+  expect(destination.x).toBeCloseTo(capeCod.x, 9);
+  expect(destination.y).toBeCloseTo(capeCod.y, 9);
+
+  const east = Point.createFromXY(179, 10);
+  const west = Point.createFromXY(-179, 10);
+  expect(RhumbLine.bearing(east, west)).toEqual(90);
+  const crossing = RhumbLine.interpolate(
+    Point.createFromXYZM(179, 10, 0, 0),
+    Point.createFromXYZM(-179, 10, 100, 10),
+    0.5,
+  );
+  expect(crossing.x).toBeCloseTo(180, 12);
+  expect(crossing.y).toBeCloseTo(10, 12);
+  expect(crossing.z).toEqual(50);
+  expect(crossing.m).toEqual(5);
+  expect(RhumbLine.distance(east, west)).toBeCloseTo(
+    RhumbLine.distance(Point.createFromXY(0, 10), Point.createFromXY(2, 10)),
+    6,
+  );
+});
@@ -0,0 +1,162 @@
+import type { Geometry } from "../lib/internal.ts";
+import {
+  GeometryType,
+  OverlayGraph,
+  OverlayOp,
+  OverlayType,
+  SFException,
+  WKTReader,
+} from "../lib/internal.ts";
+import type { MultiPolygon, Polygon } from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Verify an overlay result is topologically equal to the expected geometry
+ * @param result overlay result
+ * @param expected expected well-known text
+ */
+function expectResult(result: Geometry, expected: string): void {
+  const expectedGeometry = WKTReader.readGeometry(expected);
+  expect(result.geometryType).toEqual(expectedGeometry.geometryType);
+  expect(result.equalsTopo(expectedGeometry)).toBe(true);
+}
+
+const square = WKTReader.readGeometry(
+  "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0))",
+);
+const shifted = WKTReader.readGeometry(
+  "POLYGON ((5 5, 15 5, 15 15, 5 15, 5 5))",
+);
+
+Deno.test("test overlay overlapping polygons", () => {
+  expectResult(
+    square.intersection(shifted),
+    "POLYGON ((5 5, 10 5, 10 10, 5 10, 5 5))",
+  );
+  expectResult(
+    square.union(shifted),
+    "POLYGON ((0 0, 10 0, 10 5, 15 5, 15 15, 5 15, 5 10, 0 10, 0 0))",
+  );
+  expectResult(
+    square.difference(shifted),
+    "POLYGON ((0 0, 10 0, 10 5, 5 5, 5 10, 0 10, 0 0))",
+  );
+  expectResult(
+    square.symDifference(shifted),
+    "MULTIPOLYGON (((0 0, 10 0, 10 5, 5 5, 5 10, 0 10, 0 0)), " +
+      "((10 5, 15 5, 15 15, 5 15, 5 10, 10 10, 10 5)))",
+  );
+  expectResult(
+    OverlayOp.overlay(square, square.copy(), OverlayType.Union),
+    "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0))",
+  );
+  expectResult(square.difference(square.copy()), "POLYGON EMPTY");
+});
+
+Deno.test("test overlay holes", () => {
+  const withHole = WKTReader.readGeometry(
+    "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (4 4, 6 4, 6 6, 4 6, 4 4))",
+  );
+  const center = WKTReader.readGeometry(
+    "POLYGON ((3 3, 7 3, 7 7, 3 7, 3 3))",
+  );
+  expectResult(
+    withHole.union(center),
+    "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0))",
+  );
+  expectResult(
+    withHole.intersection(center),
+    "POLYGON ((3 3, 7 3, 7 7, 3 7, 3 3), (4 4, 6 4, 6 6, 4 6, 4 4))",
+  );
+  const difference = square.difference(center) as Polygon;
+  expectResult(
+    difference,
+    "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (3 3, 7 3, 7 7, 3 7, 3 3))",
+  );
+  expect(OverlayGraph.signedArea(difference.getRing(0).points)).toEqual(100);
+  expect(OverlayGraph.signedArea(difference.getRing(1).points)).toEqual(-16);
+
+  const inHole = WKTReader.readGeometry(
+    "POLYGON ((4.5 4.5, 5.5 4.5, 5.5 5.5, 4.5 5.5, 4.5 4.5))",
+  );
+  const union = withHole.union(inHole) as MultiPolygon;
+  expect(union.geometryType).toEqual(GeometryType.MultiPolygon);
+  expect(union.numPolygons()).toEqual(2);
+  expect(union.getPolygon(0).numRings() + union.getPolygon(1).numRings())
+    .toEqual(3);
+});
+
+Deno.test("test overlay multi polygons", () => {
+  const multiPolygon = WKTReader.readGeometry(
+    "MULTIPOLYGON (((0 0, 4 0, 4 4, 0 4, 0 0)), ((6 0, 10 0, 10 4, 6 4, 6 0)))",
+  );
+  const band = WKTReader.readGeometry(
+    "POLYGON ((-1 1, 11 1, 11 3, -1 3, -1 1))",
+  );
+  expectResult(
+    multiPolygon.intersection(band),
+    "MULTIPOLYGON (((0 1, 4 1, 4 3, 0 3, 0 1)), ((6 1, 10 1, 10 3, 6 3, 6 1)))",
+  );
+  expectResult(
+    multiPolygon.union(band),
+    "POLYGON ((0 0, 4 0, 4 1, 6 1, 6 0, 10 0, 10 1, 11 1, 11 3, 10 3, " +
+      "10 4, 6 4, 6 3, 4 3, 4 4, 0 4, 0 3, -1 3, -1 1, 0 1, 0 0))",
+  );
+  expectResult(
+    band.difference(multiPolygon),
+    "MULTIPOLYGON (((-1 1, 0 1, 0 3, -1 3, -1 1)), " +
+      "((4 1, 6 1, 6 3, 4 3, 4 1)), ((10 1, 11 1, 11 3, 10 3, 10 1)))",
+  );
+});
+
+Deno.test("test overlay lower dimension results", () => {
+  const adjacent = WKTReader.readGeometry(
+    "POLYGON ((10 0, 20 0, 20 10, 10 10, 10 0))",
+  );
+  expectResult(square.intersection(adjacent), "LINESTRING (10 0, 10 10)");
+  expectResult(
+    square.union(adjacent),
+    "POLYGON ((0 0, 20 0, 20 10, 0 10, 0 0))",
+  );
+
+  const corner = WKTReader.readGeometry(
+    "POLYGON ((10 10, 20 10, 20 20, 10 20, 10 10))",
+  );
+  expectResult(square.intersection(corner), "POINT (10 10)");
+  expect(square.union(corner).geometryType).toEqual(GeometryType.MultiPolygon);
+
+  const mixed = square.intersection(
+    WKTReader.readGeometry(
+      "MULTIPOLYGON (((10 0, 20 0, 20 5, 10 5, 10 0)), " +
+        "((8 8, 12 8, 12 12, 8 12, 8 8)), ((10 -5, 15 -5, 10 -10, 10 -5)))",
+    ),
+  );
+  expectResult(
+    mixed,
+    "GEOMETRYCOLLECTION (POLYGON ((8 8, 10 8, 10 10, 8 10, 8 8)), " +
+      "LINESTRING (10 0, 10 5))",
+  );
+
+  const far = WKTReader.readGeometry(
+    "POLYGON ((20 20, 30 20, 30 30, 20 30, 20 20))",
+  );
+  expectResult(square.intersection(far), "POLYGON EMPTY");
+});
+
+Deno.test("test overlay epsilon and errors", () => {
+  const near = WKTReader.readGeometry(
+    "POLYGON ((10.000000001 0, 20 0, 20 10, 10.000000001 10, " +
+      "10.000000001 0))",
+  );
+  expectResult(square.union(near), "POLYGON ((0 0, 20 0, 20 10, 0 10, 0 0))");
+
+  const srid = square.copy();
+  srid.srid = 4326;
+  expect(srid.intersection(shifted).srid).toEqual(4326);
+
+  expect(() => square.union(WKTReader.readGeometry("LINESTRING (0 0, 1 1)")))
+    .toThrow(SFException);
+  expect(() => square.union(WKTReader.readGeometry("POINT (0 0)"))).toThrow(
+    "Overlay requires polygonal geometries, found Point",
+  );
+});
@@ -0,0 +1,174 @@
+import type { MultiPoint, PointIndex } from "../lib/internal.ts";
+import {
+  GeometryEnvelope,
+  KdTree,
+  Point,
+  Quadtree,
+  SFException,
+  WKTReader,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Create a grid of points with z values of the row and column sum
+ * @param size points per row and column
+ * @returns points
+ */
+function createGrid(size: number): Point[] {
+  const points = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      points.push(Point.createFromXYZ(x, y, x + y));
+    }
+  }
+  return points;
+}
+
+/**
+ * Get the x and y values of points
+ * @param points points
+ * @returns x and y values
+ */
+function toXY(points: Point[]): number[][] {
+  return points.map((point) => [point.x, point.y]);
+}
+
+Deno.test("test point index query", () => {
+  const indexes: PointIndex[] = [
+    KdTree.load(createGrid(30)),
+    Quadtree.load(createGrid(30)),
+    new KdTree(),
+    new Quadtree(undefined, false, 2),
+  ];
+  for (const index of indexes.slice(2)) {
+    expect(index.isEmpty()).toBe(true);
+    expect(index.nearest(Point.createFromXY(0, 0))).toEqual([]);
+    expect(index.insertAll(createGrid(30).reverse())).toBe(900);
+  }
+
+  for (const index of indexes) {
+    expect(index.size).toBe(900);
+    expect(index.all().length).toBe(900);
+
+    const envelope = GeometryEnvelope.createFromMinMaxXY(10.5, 20, 12, 21.5);
+    expect(toXY(index.queryEnvelope(envelope)).sort()).toEqual([
+      [11, 20],
+      [11, 21],
+      [12, 20],
+      [12, 21],
+    ]);
+
+    const center = Point.createFromXY(5.1, 5.2);
+    expect(toXY(index.queryRadius(center, 1.2))).toEqual([
+      [5, 5],
+      [5, 6],
+      [6, 5],
+      [4, 5],
+    ]);
+    expect(toXY(index.nearest(center, 3))).toEqual([[5, 5], [5, 6], [6, 5]]);
+    expect(toXY(index.nearest(Point.createFromXY(-3, -4), 2, 5))).toEqual([
+      [0, 0],
+    ]);
+    expect(index.nearest(Point.createFromXY(-3, -4), 2, 4.9)).toEqual([]);
+  }
+
+  const quadtree = new Quadtree();
+  quadtree.insert(Point.createFromXY(0, 0));
+  quadtree.insert(Point.createFromXY(1e6, -1e6));
+  quadtree.insert(Point.createFromXY(-5.5, 3));
+  expect(toXY(quadtree.nearest(Point.createFromXY(-4, 3)))).toEqual([
+    [-5.5, 3],
+  ]);
+  expect(() => quadtree.insert(Point.createFromXY(Infinity, 0))).toThrow(
+    SFException,
+  );
+  expect(() => new Quadtree(undefined, false, 0)).toThrow(SFException);
+});
+
+Deno.test("test point index 3d", () => {
+  for (const use3D of [false, true]) {
+    for (
+      const index of [
+        KdTree.load(createGrid(10), undefined, use3D),
+        Quadtree.load(createGrid(10), undefined, use3D),
+      ]
+    ) {
+      expect(index.use3D).toBe(use3D);
+
+      const center = Point.createFromXYZ(2, 2, 10);
+      expect(index.distance(center, Point.createFromXY(5, 6))).toBe(
+        use3D ? Math.hypot(3, 4, 10) : 5,
+      );
+      expect(toXY(index.nearest(center))).toEqual(
+        use3D ? [[4, 4]] : [[2, 2]],
+      );
+      expect(index.queryRadius(center, 2).length).toBe(use3D ? 0 : 13);
+
+      const envelope = GeometryEnvelope.createFromMinMaxXYZ(0, 0, 3, 2, 2, 3);
+      expect(toXY(index.queryEnvelope(envelope)).sort()).toEqual(
+        use3D ? [[1, 2], [2, 1]] : [
+          [0, 0],
+          [0, 1],
+          [0, 2],
+          [1, 0],
+          [1, 1],
+          [1, 2],
+          [2, 0],
+          [2, 1],
+          [2, 2],
+        ],
+      );
+    }
+  }
+  expect(new KdTree(undefined, true).dimensions).toBe(3);
+});
+
+Deno.test("test point index duplicates", () => {
+  const multiPoint = WKTReader.readGeometry(
+    "MULTIPOINT Z ((1 1 1), (1.05 1 1), (1 1 2), EMPTY, (3 3 3), (1 1 1))",
+  ) as MultiPoint;
+
+  expect(KdTree.load(multiPoint).size).toBe(5);
+  expect(KdTree.load(multiPoint, 0).size).toBe(4);
+  expect(Quadtree.load(multiPoint, 0.1).size).toBe(3);
+  expect(Quadtree.load(multiPoint, 1).size).toBe(2);
+  expect(() => new KdTree(-1)).toThrow(SFException);
+
+  for (const index of [new KdTree(0.1), new Quadtree(0.1)]) {
+    expect(index.epsilon).toBe(0.1);
+    expect(index.insertAll(multiPoint)).toBe(3);
+    expect(index.insert(Point.createFromXYZ(2.95, 3.05, 3))).toBe(false);
+    expect(index.insert(Point.createFromXY(3, 3))).toBe(true);
+    expect(index.insert(Point.createFromXY(NaN, NaN))).toBe(false);
+    expect(index.findDuplicate(Point.createFromXYZ(1.08, 0.93, 2))?.z).toBe(
+      2,
+    );
+    expect(index.findDuplicate(Point.createFromXYZ(1.2, 1, 2))).toBe(
+      undefined,
+    );
+    expect(index.size).toBe(4);
+  }
+});
+
+Deno.test("test point index ordered inserts", () => {
+  const line = new KdTree();
+  const same = new KdTree();
+  for (let i = 0; i < 20000; i++) {
+    line.insert(Point.createFromXY(i, 0));
+    same.insert(Point.createFromXY(1, 1));
+  }
+  expect(line.size).toBe(20000);
+  expect(line.all().length).toBe(20000);
+  expect(toXY(line.nearest(Point.createFromXY(12345.4, 1), 2))).toEqual([
+    [12345, 0],
+    [12346, 0],
+  ]);
+  expect(
+    line.queryEnvelope(GeometryEnvelope.createFromMinMaxXY(99.5, -1, 199, 1))
+      .length,
+  ).toBe(100);
+
+  expect(same.all().length).toBe(20000);
+  expect(same.queryRadius(Point.createFromXY(1, 1.5), 0.5).length).toBe(20000);
+  expect(same.nearest(Point.createFromXY(0, 0), 3).length).toBe(3);
+});
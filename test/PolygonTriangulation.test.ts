@@ -0,0 +1,120 @@
+import type { TIN, Triangle } from "../lib/internal.ts";
+import {
+  GeometryType,
+  GeometryUtils,
+  SFException,
+  WKTReader,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Get the signed areas of the triangles of a TIN
+ * @param tin TIN
+ * @returns areas, positive when counter clockwise
+ */
+function areas(tin: TIN): number[] {
+  return tin.polygons.map((polygon) => {
+    const [a, b, c] = (polygon as Triangle).rings[0].points;
+    return ((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x)) / 2;
+  });
+}
+
+/**
+ * Get the total area of triangles, all of which must be counter clockwise
+ * @param tin TIN
+ * @returns total area
+ */
+function totalArea(tin: TIN): number {
+  return areas(tin).reduce((total, area) => {
+    expect(area).toBeGreaterThan(0);
+    return total + area;
+  }, 0);
+}
+
+Deno.test("test polygon triangulation", () => {
+  const square = GeometryUtils.triangulatePolygon(
+    WKTReader.readGeometry(
+      "SRID=4326;POLYGON Z ((0 0 1, 10 0 2, 10 10 3, 0 10 4, 0 0 1))",
+    ),
+  );
+  expect(square.geometryType).toEqual(GeometryType.Tin);
+  expect(square.hasZ).toBe(true);
+  expect(square.srid).toEqual(4326);
+  expect(square.numPolygons()).toEqual(2);
+  expect(square.polygons[0].geometryType).toEqual(GeometryType.Triangle);
+  expect(totalArea(square)).toEqual(100);
+
+  const holes = GeometryUtils.triangulatePolygon(
+    WKTReader.readGeometry(
+      "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (2 2, 2 4, 4 4, 4 2, 2 2), " +
+        "(6 6, 6 7, 7 7, 7 6, 6 6))",
+    ),
+  );
+  expect(holes.numPolygons()).toEqual(14);
+  expect(totalArea(holes)).toEqual(95);
+
+  const multi = GeometryUtils.triangulatePolygon(
+    WKTReader.readGeometry(
+      "MULTIPOLYGON (((0 0, 0 4, 4 4, 4 0, 0 0)), " +
+        "((10 0, 14 0, 12 3, 10 0)))",
+    ),
+  );
+  expect(multi.numPolygons()).toEqual(3);
+  expect(totalArea(multi)).toEqual(22);
+
+  expect(
+    GeometryUtils.triangulatePolygon(WKTReader.readGeometry("POLYGON EMPTY"))
+      .isEmpty(),
+  ).toBe(true);
+});
+
+Deno.test("test polygon triangulation degenerate", () => {
+  const collinear = GeometryUtils.triangulatePolygon(
+    WKTReader.readGeometry(
+      "POLYGON ((0 0, 5 0, 5 0, 10 0, 10 5, 10 10, 5 10, 0 10, 0 5, 0 0))",
+    ),
+  );
+  expect(totalArea(collinear)).toEqual(100);
+
+  const concave = GeometryUtils.triangulatePolygon(
+    WKTReader.readGeometry(
+      "POLYGON ((0 0, 10 0, 10 10, 8 10, 8 2, 2 2, 2 10, 0 10, 0 0))",
+    ),
+  );
+  expect(concave.numPolygons()).toEqual(6);
+  expect(totalArea(concave)).toEqual(52);
+
+  const touching = GeometryUtils.triangulatePolygon(
+    WKTReader.readGeometry(
+      "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (0 0, 5 2, 5 5, 0 0))",
+    ),
+  );
+  expect(totalArea(touching)).toEqual(92.5);
+});
+
+Deno.test("test polygon triangulation arrays", () => {
+  const arrays = GeometryUtils.triangulatePolygonArrays(
+    WKTReader.readGeometry(
+      "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (2 2, 2 4, 4 4, 4 2, 2 2))",
+    ),
+  );
+  expect(arrays.dimension).toEqual(2);
+  expect(arrays.vertices).toBeInstanceOf(Float64Array);
+  expect(arrays.vertices.length).toEqual(16);
+  expect(arrays.indices).toBeInstanceOf(Uint32Array);
+  expect(arrays.indices.length).toEqual(24);
+  expect(Math.max(...arrays.indices)).toBeLessThan(8);
+
+  const z = GeometryUtils.triangulatePolygonArrays(
+    WKTReader.readGeometry("POLYGON Z ((0 0 1, 4 0 2, 0 3 3, 0 0 1))"),
+  );
+  expect(z.dimension).toEqual(3);
+  expect(Array.from(z.vertices)).toEqual([0, 0, 1, 4, 0, 2, 0, 3, 3]);
+  expect(Array.from(z.indices).sort()).toEqual([0, 1, 2]);
+
+  expect(() =>
+    GeometryUtils.triangulatePolygonArrays(
+      WKTReader.readGeometry("LINESTRING (0 0, 1 1)"),
+    )
+  ).toThrow(SFException);
+});
@@ -0,0 +1,141 @@
+import type { Geometry, SerializedGeometry } from "../lib/internal.ts";
+import {
+  GeometryEnvelope,
+  GeometrySerializer,
+  RTree,
+  SFException,
+  WKTReader,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Create a grid of unit cell envelope entries numbered by row
+ * @param size cells per row and column
+ * @returns entries
+ */
+function createGrid(
+  size: number,
+): { envelope: GeometryEnvelope; item: number }[] {
+  const entries = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      entries.push({
+        envelope: GeometryEnvelope.createFromMinMaxXY(x, y, x + 0.5, y + 0.5),
+        item: y * size + x,
+      });
+    }
+  }
+  return entries;
+}
+
+Deno.test("test r-tree query", () => {
+  const tree = RTree.load(createGrid(50), 8);
+  expect(tree.size).toBe(2500);
+  expect(tree.height).toBe(4);
+  expect(tree.getEnvelope()?.maxX).toBe(49.5);
+
+  const query = GeometryEnvelope.createFromMinMaxXY(10.2, 20.2, 12.5, 21);
+  expect(tree.query(query).sort((a, b) => a - b)).toEqual([
+    1010,
+    1011,
+    1012,
+    1060,
+    1061,
+    1062,
+  ]);
+  expect(
+    tree.query(GeometryEnvelope.createFromMinMaxXY(60, 60, 70, 70)),
+  ).toEqual([]);
+
+  expect(tree.remove(createGrid(50)[1011].envelope, 1011)).toBe(true);
+  expect(tree.remove(createGrid(50)[1011].envelope, 1011)).toBe(false);
+  tree.insert(GeometryEnvelope.createFromMinMaxXY(11.6, 20.6, 11.8, 20.8), -1);
+  expect(tree.query(query).sort((a, b) => a - b)).toEqual([
+    -1,
+    1010,
+    1012,
+    1060,
+    1061,
+    1062,
+  ]);
+  expect(tree.size).toBe(2500);
+
+  for (const entry of createGrid(50)) {
+    tree.remove(entry.envelope, entry.item);
+  }
+  expect(tree.all()).toEqual([-1]);
+  tree.clear();
+  expect(tree.isEmpty()).toBe(true);
+  expect(tree.getEnvelope()).toBeUndefined();
+
+  const incremental = new RTree<number>(4);
+  for (const entry of createGrid(20)) {
+    incremental.insert(entry.envelope, entry.item);
+  }
+  expect(incremental.query(query)).toEqual([]);
+  expect(
+    incremental.query(GeometryEnvelope.createFromMinMaxXY(5, 5, 6, 6)).sort(
+      (a, b) => a - b,
+    ),
+  ).toEqual([105, 106, 125, 126]);
+
+  expect(() => new RTree(2)).toThrow(SFException);
+});
+
+Deno.test("test r-tree nearest", () => {
+  const tree = RTree.load(createGrid(10));
+  expect(
+    tree.nearest(GeometryEnvelope.createFromMinMaxXY(4.7, 4.7, 4.8, 4.8), 4)
+      .sort((a, b) => a - b),
+  ).toEqual([44, 45, 54, 55]);
+  expect(
+    tree.nearest(GeometryEnvelope.createFromMinMaxXY(-5, -5, -5, -5)),
+  ).toEqual([0]);
+  expect(tree.nearest(GeometryEnvelope.createFromMinMaxXY(0, 0, 1, 1), 0))
+    .toEqual([]);
+
+  const geometries = [
+    "LINESTRING (0 0, 10 10)",
+    "POINT (6 0)",
+    "POLYGON ((0 6, 2 6, 2 8, 0 6))",
+  ].map((wkt) => WKTReader.readGeometry(wkt));
+  const geometryTree = RTree.loadGeometries(geometries);
+  const point = WKTReader.readGeometry("POINT (3 5)");
+  expect(geometryTree.nearest(point.getEnvelope())).toEqual([geometries[0]]);
+  expect(geometryTree.nearestToGeometry(point, 3)).toEqual([
+    geometries[0],
+    geometries[2],
+    geometries[1],
+  ]);
+  expect(geometryTree.nearestToGeometry(point, 1)).toEqual([geometries[0]]);
+});
+
+Deno.test("test r-tree serialization", () => {
+  const tree = RTree.load(createGrid(30), 6);
+  const copy = RTree.deserialize<number>(tree.serialize());
+  expect(copy.size).toBe(tree.size);
+  expect(copy.height).toBe(tree.height);
+  expect(copy.nodeCapacity).toBe(6);
+  const query = GeometryEnvelope.createFromMinMaxXY(3, 3, 5, 4);
+  expect(copy.query(query).sort((a, b) => a - b)).toEqual(
+    tree.query(query).sort((a, b) => a - b),
+  );
+  copy.insert(GeometryEnvelope.createFromMinMaxXY(3.6, 3.6, 3.7, 3.7), -1);
+  expect(copy.query(query)).toContain(-1);
+
+  const geometries = [
+    "POINT (1 2)",
+    "LINESTRING (0 0, 3 4)",
+    "POLYGON ((0 0, 1 0, 1 1, 0 0))",
+  ].map((wkt) => WKTReader.readGeometry(wkt));
+  const geometryTree = RTree.deserialize<Geometry, SerializedGeometry>(
+    RTree.loadGeometries(geometries).serialize(),
+    GeometrySerializer.fromJSON,
+  );
+  expect(
+    geometryTree.query(GeometryEnvelope.createFromMinMaxXY(2, 3, 2, 3)),
+  ).toEqual([geometries[1]]);
+
+  expect(RTree.deserialize<number>(new RTree<number>().serialize()).size)
+    .toBe(0);
+});
@@ -0,0 +1,162 @@
+import {
+  IntersectionMatrix,
+  Point,
+  RelateOp,
+  SFException,
+  WKTReader,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Relate two well-known text geometries
+ * @param textA geometry A well-known text
+ * @param textB geometry B well-known text
+ * @returns intersection matrix string
+ */
+function relate(textA: string, textB: string): string {
+  return RelateOp.relate(
+    WKTReader.readGeometry(textA),
+    WKTReader.readGeometry(textB),
+  ).toString();
+}
+
+const square = "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0))";
+const squareWithHole =
+  "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (4 4, 6 4, 6 6, 4 6, 4 4))";
+
+Deno.test("test relate polygons", () => {
+  expect(relate(square, "POLYGON ((2 2, 8 2, 8 8, 2 8, 2 2))")).toEqual(
+    "212FF1FF2",
+  );
+  expect(relate(square, "POLYGON ((5 5, 15 5, 15 15, 5 15, 5 5))"))
+    .toEqual("212101212");
+  expect(relate(square, "POLYGON ((10 0, 20 0, 20 10, 10 10, 10 0))"))
+    .toEqual("FF2F11212");
+  expect(relate(square, "POLYGON ((10 10, 20 10, 20 20, 10 20, 10 10))"))
+    .toEqual("FF2F01212");
+  expect(relate(square, "POLYGON ((20 20, 30 20, 30 30, 20 30, 20 20))"))
+    .toEqual("FF2FF1212");
+  expect(relate(square, "POLYGON ((10 0, 0 0, 0 10, 10 10, 10 0))"))
+    .toEqual("2FFF1FFF2");
+});
+
+Deno.test("test relate holes and multi polygons", () => {
+  const inHole = "POLYGON ((4.5 4.5, 5.5 4.5, 5.5 5.5, 4.5 5.5, 4.5 4.5))";
+  expect(relate(squareWithHole, inHole)).toEqual("FF2FF1212");
+  expect(relate(squareWithHole, "POINT (5 5)")).toEqual("FF2FF10F2");
+  expect(relate(squareWithHole, "POINT (5 4)")).toEqual("FF20F1FF2");
+  expect(relate(squareWithHole, "POINT (2 2)")).toEqual("0F2FF1FF2");
+  expect(relate(squareWithHole, "POLYGON ((4 4, 6 4, 6 6, 4 6, 4 4))"))
+    .toEqual("FF2F112F2");
+
+  const multiPolygon = "MULTIPOLYGON (((0 0, 1 0, 1 1, 0 1, 0 0)), " +
+    "((2 0, 3 0, 3 1, 2 1, 2 0)))";
+  expect(relate(multiPolygon, "LINESTRING (0.5 0.5, 2.5 0.5)")).toEqual(
+    "1020F11F2",
+  );
+  expect(relate(multiPolygon, "MULTIPOINT ((0.5 0.5), (2.5 0.5))"))
+    .toEqual("0F2FF1FF2");
+});
+
+Deno.test("test relate lines and points", () => {
+  const line = "LINESTRING (0 0, 10 10)";
+  expect(relate(line, "LINESTRING (0 10, 10 0)")).toEqual("0F1FF0102");
+  expect(relate(line, "LINESTRING (5 5, 20 20)")).toEqual("1010F0102");
+  expect(relate(line, "LINESTRING (10 10, 20 20)")).toEqual("FF1F00102");
+  expect(relate(line, "POINT (5 5)")).toEqual("0F1FF0FF2");
+  expect(relate(line, "POINT (0 0)")).toEqual("FF10F0FF2");
+  expect(relate("POINT (1 1)", "POINT (1 1)")).toEqual("0FFFFFFF2");
+  expect(relate("LINESTRING (0 0, 1 0, 1 1, 0 0)", "POINT (0 0)"))
+    .toEqual("0F1FFFFF2");
+  expect(relate("MULTILINESTRING ((0 0, 1 0), (1 0, 2 0))", "POINT (1 0)"))
+    .toEqual("0F1FF0FF2");
+  expect(relate(square, "LINESTRING (-5 5, 15 5)")).toEqual("1F20F1102");
+  expect(relate("POINT EMPTY", square)).toEqual("FFFFFF212");
+});
+
+Deno.test("test relate curves", () => {
+  expect(
+    relate(
+      "CURVEPOLYGON (CIRCULARSTRING (0 0, 2 0, 0 0))",
+      "POINT (1 0.99)",
+    ),
+  ).toEqual("0F2FF1FF2");
+  expect(
+    relate(
+      "CURVEPOLYGON (CIRCULARSTRING (0 0, 2 0, 0 0))",
+      "POINT (1 1.01)",
+    ),
+  ).toEqual("FF2FF10F2");
+});
+
+Deno.test("test relate epsilon", () => {
+  const polygon = WKTReader.readGeometry(square);
+  const near = Point.createFromXY(10 + 1e-9, 5);
+  expect(polygon.touches(near)).toBe(true);
+  expect(polygon.intersects(near)).toBe(true);
+  const far = Point.createFromXY(10 + 1e-6, 5);
+  expect(polygon.disjoint(far)).toBe(true);
+  expect(polygon.intersects(far, 1e-5)).toBe(true);
+  expect(polygon.equalsTopo(
+    WKTReader.readGeometry(
+      "POLYGON ((0 0, 10 0, 10 10.000000001, 0 10, 0 0))",
+    ),
+  )).toBe(true);
+});
+
+Deno.test("test spatial predicates", () => {
+  const polygon = WKTReader.readGeometry(square);
+  const inner = WKTReader.readGeometry("POLYGON ((2 2, 8 2, 8 8, 2 8, 2 2))");
+  const overlapping = WKTReader.readGeometry(
+    "POLYGON ((5 5, 15 5, 15 15, 5 15, 5 5))",
+  );
+  const edge = WKTReader.readGeometry("LINESTRING (0 0, 10 0)");
+  const crossing = WKTReader.readGeometry("LINESTRING (-5 5, 15 5)");
+
+  expect(polygon.contains(inner)).toBe(true);
+  expect(inner.within(polygon)).toBe(true);
+  expect(polygon.covers(inner)).toBe(true);
+  expect(inner.coveredBy(polygon)).toBe(true);
+  expect(inner.contains(polygon)).toBe(false);
+
+  expect(polygon.contains(edge)).toBe(false);
+  expect(polygon.covers(edge)).toBe(true);
+  expect(edge.coveredBy(polygon)).toBe(true);
+  expect(edge.touches(polygon)).toBe(true);
+
+  expect(polygon.overlaps(overlapping)).toBe(true);
+  expect(polygon.overlaps(inner)).toBe(false);
+  expect(crossing.crosses(polygon)).toBe(true);
+  expect(polygon.crosses(crossing)).toBe(true);
+  expect(
+    edge.crosses(WKTReader.readGeometry("LINESTRING (5 -5, 5 5)")),
+  ).toBe(true);
+  expect(edge.overlaps(WKTReader.readGeometry("LINESTRING (5 0, 15 0)")))
+    .toBe(true);
+
+  expect(polygon.equalsTopo(polygon.copy())).toBe(true);
+  expect(
+    WKTReader.readGeometry("LINESTRING (0 0, 5 0, 10 0)").equalsTopo(
+      WKTReader.readGeometry("LINESTRING (10 0, 0 0)"),
+    ),
+  ).toBe(true);
+  expect(
+    WKTReader.readGeometry("POINT EMPTY").equalsTopo(
+      WKTReader.readGeometry("LINESTRING EMPTY"),
+    ),
+  ).toBe(true);
+  expect(polygon.relatePattern(inner, "T*****FF*")).toBe(true);
+});
+
+Deno.test("test intersection matrix", () => {
+  const matrix = new IntersectionMatrix("212101212");
+  expect(matrix.toString()).toEqual("212101212");
+  expect(matrix.matches("T*T***T**")).toBe(true);
+  expect(matrix.matches("2********")).toBe(true);
+  expect(matrix.matches("1********")).toBe(false);
+  expect(matrix.isOverlaps(2, 2)).toBe(true);
+  expect(() => new IntersectionMatrix("2121")).toThrow(SFException);
+  expect(() => matrix.matches("X********")).toThrow(
+    "Invalid intersection matrix pattern element 'X'",
+  );
+});
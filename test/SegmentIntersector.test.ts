@@ -0,0 +1,129 @@
+import type { LineString, Polygon } from "../lib/internal.ts";
+import {
+  SegmentIntersectionType,
+  SegmentIntersector,
+  WKTReader,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+Deno.test("test segment intersections", () => {
+  const bowTie = WKTReader.readGeometry(
+    "POLYGON ((0 0, 10 10, 10 0, 0 10, 0 0))",
+  ) as Polygon;
+  const intersections = SegmentIntersector.intersectionsPolygon(bowTie);
+  expect(intersections.length).toEqual(1);
+  expect(intersections[0].type).toEqual(SegmentIntersectionType.Crossing);
+  expect(intersections[0].point.x).toEqual(5);
+  expect(intersections[0].point.y).toEqual(5);
+  expect(intersections[0].ring1).toEqual(0);
+  expect(intersections[0].edge1).toEqual(0);
+  expect(intersections[0].ring2).toEqual(0);
+  expect(intersections[0].edge2).toEqual(2);
+
+  const square = WKTReader.readGeometry(
+    "POLYGON ((0 0, 10 0, 10 0, 10 10, 0 10, 0 0))",
+  ) as Polygon;
+  expect(SegmentIntersector.intersectionsPolygon(square)).toEqual([]);
+
+  const lines = [
+    "LINESTRING (0 0, 10 0)",
+    "LINESTRING (5 -5, 5 5)",
+    "LINESTRING (10 0, 10 5)",
+    "LINESTRING (2 0, 4 0, 4 3)",
+    "LINESTRING (20 20, 30 30)",
+  ].map((text) => WKTReader.readGeometry(text) as LineString);
+  const all = SegmentIntersector.intersections(lines);
+  expect(all.length).toEqual(4);
+  const byRings = (ring1: number, ring2: number, edge2 = 0) =>
+    all.find((intersection) =>
+      intersection.ring1 === ring1 && intersection.ring2 === ring2 &&
+      intersection.edge2 === edge2
+    );
+  expect(byRings(0, 1)?.type).toEqual(SegmentIntersectionType.Crossing);
+  expect(byRings(0, 2)?.type).toEqual(SegmentIntersectionType.Touch);
+  expect(byRings(0, 2)?.point.x).toEqual(10);
+  const overlap = byRings(0, 3);
+  expect(overlap?.type).toEqual(SegmentIntersectionType.Overlap);
+  expect(overlap?.edge2).toEqual(0);
+  expect(overlap?.points.map((point) => point.x).sort()).toEqual([2, 4]);
+  expect(byRings(0, 3, 1)?.type).toEqual(SegmentIntersectionType.Touch);
+});
+
+Deno.test("test segment self intersections", () => {
+  const touching = SegmentIntersector.intersectionsLineString(
+    WKTReader.readGeometry(
+      "LINESTRING (0 0, 10 0, 10 10, 5 0, 0 10)",
+    ) as LineString,
+  );
+  expect(touching.length).toEqual(2);
+  for (const intersection of touching) {
+    expect(intersection.type).toEqual(SegmentIntersectionType.Touch);
+    expect(intersection.edge1).toEqual(0);
+    expect(intersection.point.x).toEqual(5);
+  }
+  expect(touching.map((intersection) => intersection.edge2).sort()).toEqual([
+    2,
+    3,
+  ]);
+
+  const spike = SegmentIntersector.intersectionsLineString(
+    WKTReader.readGeometry("LINESTRING (0 0, 10 0, 5 0)") as LineString,
+  );
+  expect(spike.length).toEqual(1);
+  expect(spike[0].type).toEqual(SegmentIntersectionType.Overlap);
+
+  const ring = SegmentIntersector.intersectionsLineString(
+    WKTReader.readGeometry(
+      "LINESTRING (0 0, 10 0, 10 10, 0 10, 0 0)",
+    ) as LineString,
+  );
+  expect(ring).toEqual([]);
+});
+
+Deno.test("test segment intersections sweep", () => {
+  const concurrent = [
+    "LINESTRING (0 0, 10 10)",
+    "LINESTRING (0 10, 10 0)",
+    "LINESTRING (0 5, 10 5)",
+    "LINESTRING (5 0, 5 10)",
+    "LINESTRING (0 10, 10 0)",
+  ].map((text) => WKTReader.readGeometry(text) as LineString);
+  const all = SegmentIntersector.intersections(concurrent);
+  expect(all.length).toEqual(10);
+  for (const intersection of all) {
+    if (intersection.ring1 === 1 && intersection.ring2 === 4) {
+      expect(intersection.type).toEqual(SegmentIntersectionType.Overlap);
+    } else {
+      expect(intersection.type).toEqual(SegmentIntersectionType.Crossing);
+      expect(intersection.point.x).toBeCloseTo(5);
+      expect(intersection.point.y).toBeCloseTo(5);
+    }
+  }
+
+  const parallel: LineString[] = [];
+  for (let i = 0; i < 1000; i++) {
+    parallel.push(
+      WKTReader.readGeometry(
+        `LINESTRING (0 ${i}, 100 ${i + 0.5}, 200 ${i})`,
+      ) as LineString,
+    );
+  }
+  expect(SegmentIntersector.intersections(parallel)).toEqual([]);
+  parallel.push(
+    WKTReader.readGeometry("LINESTRING (150 -1, 150 1000)") as LineString,
+  );
+  expect(SegmentIntersector.intersections(parallel).length).toEqual(1000);
+
+  const near = [
+    "LINESTRING (0 0, 10 0)",
+    "LINESTRING (5 0.05, 5 10)",
+    "LINESTRING (0 -0.05, 10 -0.05)",
+  ].map((text) => WKTReader.readGeometry(text) as LineString);
+  expect(SegmentIntersector.intersections(near).length).toEqual(0);
+  const touching = SegmentIntersector.intersections(near, 0.1);
+  expect(touching.map((intersection) => intersection.type).sort()).toEqual([
+    SegmentIntersectionType.Overlap,
+    SegmentIntersectionType.Touch,
+    SegmentIntersectionType.Touch,
+  ].sort());
+});
@@ -0,0 +1,183 @@
+import type { LineString, MultiPolygon } from "../lib/internal.ts";
+import {
+  CoordinateTransform,
+  CoordinateTransforms,
+  Ellipsoid,
+  GeometryUtils,
+  LambertConformalConicProjection,
+  Point,
+  PolarStereographicProjection,
+  SFException,
+  TransverseMercatorProjection,
+  WKTReader,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Clarke 1866 ellipsoid of the Snyder projection examples
+ */
+const CLARKE_1866 = new Ellipsoid(6378206.4, 1 / 294.978698);
+
+Deno.test("test projections", () => {
+  // Snyder, Map Projections: A Working Manual, worked examples
+  const transverseMercator = new TransverseMercatorProjection(
+    0,
+    -75,
+    0.9996,
+    0,
+    0,
+    CLARKE_1866,
+  );
+  let [x, y] = transverseMercator.forward(-73.5, 40.5);
+  expect(x).toBeCloseTo(127106.5, 0);
+  expect(y).toBeCloseTo(4484124.4, 0);
+  let [longitude, latitude] = transverseMercator.inverse(x, y);
+  expect(longitude).toBeCloseTo(-73.5, 9);
+  expect(latitude).toBeCloseTo(40.5, 9);
+
+  const lambert = new LambertConformalConicProjection(
+    0,
+    33,
+    45,
+    23,
+    -96,
+    0,
+    0,
+    CLARKE_1866,
+  );
+  [x, y] = lambert.forward(-75, 35);
+  expect(x).toBeCloseTo(1894410.9, 0);
+  expect(y).toBeCloseTo(1564649.5, 0);
+  [longitude, latitude] = lambert.inverse(x, y);
+  expect(longitude).toBeCloseTo(-75, 9);
+  expect(latitude).toBeCloseTo(35, 9);
+
+  const polar = new PolarStereographicProjection(
+    0,
+    -71,
+    -100,
+    1,
+    0,
+    0,
+    new Ellipsoid(6378388, 1 / 297),
+  );
+  [x, y] = polar.forward(150, -75);
+  expect(x).toBeCloseTo(-1540033.6, 0);
+  expect(y).toBeCloseTo(-560526.4, 0);
+  [longitude, latitude] = polar.inverse(x, y);
+  expect(longitude).toBeCloseTo(150, 9);
+  expect(latitude).toBeCloseTo(-75, 9);
+
+  [x, y] = PolarStereographicProjection.ups(true).forward(0, 90);
+  expect(x).toBeCloseTo(2000000, 6);
+  expect(y).toBeCloseTo(2000000, 6);
+});
+
+Deno.test("test utm", () => {
+  const north = TransverseMercatorProjection.utm(31, true);
+  expect(north.srid).toBe(32631);
+  expect(north.centralMeridian).toBe(3);
+  let [x, y] = north.forward(3, 0);
+  expect(x).toBeCloseTo(500000, 6);
+  expect(y).toBeCloseTo(0, 6);
+
+  const south = TransverseMercatorProjection.utm(31, false);
+  expect(south.srid).toBe(32731);
+  [x, y] = south.forward(3, 0);
+  expect(y).toBeCloseTo(10000000, 6);
+
+  const point = CoordinateTransforms.transform(
+    Point.createFromXY(2.5, -33.5),
+    4326,
+    32731,
+  ) as Point;
+  expect(point.x).toBeLessThan(500000);
+  expect(point.y).toBeLessThan(10000000);
+  const back = CoordinateTransforms.transform(point, 32731, 4326) as Point;
+  expect(back.x).toBeCloseTo(2.5, 9);
+  expect(back.y).toBeCloseTo(-33.5, 9);
+
+  expect(() => TransverseMercatorProjection.utm(61, true)).toThrow(
+    SFException,
+  );
+});
+
+Deno.test("test transform geometry", () => {
+  const wkt =
+    "MULTIPOLYGON ZM (((10 20 1 2, 11 20 3 4, 11 21 5 6, 10 20 1 2)))";
+  const geometry = WKTReader.readGeometry(wkt);
+
+  const meters = GeometryUtils.transform(geometry, 4326, 3857);
+  expect(meters.hasZ).toBe(true);
+  expect(meters.hasM).toBe(true);
+  expect(meters.srid).toBe(3857);
+  expect(geometry.srid).toBeUndefined();
+
+  const polygon = (meters as MultiPolygon).getGeometry(0);
+  const point = (polygon.getRing(0) as LineString).getPoint(1);
+  const expected = GeometryUtils.degreesToMetersCoord(11, 20);
+  expect(point.x).toBeCloseTo(expected.x, 6);
+  expect(point.y).toBeCloseTo(expected.y, 6);
+  expect(point.z).toBe(3);
+  expect(point.m).toBe(4);
+
+  const utm = CoordinateTransforms.transform(meters, 3857, 32632);
+  const degrees = CoordinateTransforms.transform(utm, 32632, 4326);
+  const result = ((degrees as MultiPolygon).getGeometry(0)
+    .getRing(0) as LineString).points;
+  const original = ((geometry as MultiPolygon).getGeometry(0)
+    .getRing(0) as LineString).points;
+  for (let i = 0; i < original.length; i++) {
+    expect(result[i].x).toBeCloseTo(original[i].x, 9);
+    expect(result[i].y).toBeCloseTo(original[i].y, 9);
+    expect(result[i].z).toBe(original[i].z);
+    expect(result[i].m).toBe(original[i].m);
+  }
+
+  const empty = CoordinateTransforms.transform(
+    WKTReader.readGeometry("POINT EMPTY"),
+    4326,
+    3857,
+  ) as Point;
+  expect(empty.isEmpty()).toBe(true);
+});
+
+Deno.test("test transform registry", () => {
+  class ShiftTransform extends CoordinateTransform {
+    public transformCoordinate(x: number, y: number): [number, number] {
+      return [x + 1000, y + 2000];
+    }
+  }
+
+  expect(() => CoordinateTransforms.getTransform(4326, 99999)).toThrow(
+    SFException,
+  );
+
+  CoordinateTransforms.registerTransform(new ShiftTransform(4326, 99999));
+  const point = CoordinateTransforms.transform(
+    Point.createFromXYZ(1, 2, 3),
+    4326,
+    99999,
+  ) as Point;
+  expect(point.x).toBe(1001);
+  expect(point.y).toBe(2002);
+  expect(point.z).toBe(3);
+  expect(point.srid).toBe(99999);
+  expect(CoordinateTransforms.removeTransform(4326, 99999)).toBe(true);
+  expect(() => CoordinateTransforms.getTransform(4326, 99999)).toThrow(
+    SFException,
+  );
+
+  const lambert = new LambertConformalConicProjection(99998, 49, 44, 46.5, 3);
+  CoordinateTransforms.registerProjection(lambert);
+  expect(CoordinateTransforms.getProjection(99998)).toBe(lambert);
+  const projected = CoordinateTransforms.transform(
+    Point.createFromXY(3, 46.5),
+    4326,
+    99998,
+  ) as Point;
+  expect(projected.x).toBeCloseTo(0, 6);
+  expect(projected.y).toBeCloseTo(0, 6);
+  expect(CoordinateTransforms.removeProjection(99998)).toBe(true);
+  expect(CoordinateTransforms.getProjection(99998)).toBeUndefined();
+});
@@ -0,0 +1,137 @@
+import type { Triangle } from "../lib/internal.ts";
+import {
+  GeometryType,
+  GeometryUtils,
+  WKTReader,
+  WKTWriter,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Get the signed area of a triangle
+ * @param triangle triangle
+ * @returns area, positive when counter clockwise
+ */
+function area(triangle: Triangle): number {
+  const [a, b, c] = triangle.rings[0].points;
+  return ((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x)) / 2;
+}
+
+/**
+ * Determine if a TIN has an edge between two points
+ * @param text TIN well-known text
+ * @param edge edge points well-known text
+ * @returns true if a triangle has the edge
+ */
+function hasEdge(text: string, edge: [string, string]): boolean {
+  return text.split(")), ((").some((triangle) =>
+    triangle.includes(edge[0]) && triangle.includes(edge[1])
+  );
+}
+
+Deno.test("test delaunay triangulation", () => {
+  const tin = GeometryUtils.delaunayTriangulation(
+    WKTReader.readGeometry(
+      "SRID=4326;MULTIPOINT Z ((0 0 1), (10 0 2), (10 10 3), (0 10 4), " +
+        "(5 5 5), (5 5 6))",
+    ),
+  );
+  expect(tin.geometryType).toEqual(GeometryType.Tin);
+  expect(tin.hasZ).toBe(true);
+  expect(tin.srid).toEqual(4326);
+  expect(tin.numPolygons()).toEqual(4);
+  let total = 0;
+  for (const triangle of tin.polygons) {
+    expect(triangle.geometryType).toEqual(GeometryType.Triangle);
+    expect(area(triangle as Triangle)).toBeGreaterThan(0);
+    total += area(triangle as Triangle);
+  }
+  expect(total).toEqual(100);
+  expect(WKTWriter.writeGeometry(tin)).toContain("5 5 5");
+  expect(WKTWriter.writeGeometry(tin)).not.toContain("5 5 6");
+
+  const polygon = GeometryUtils.delaunayTriangulation(
+    WKTReader.readGeometry("POLYGON ((0 0, 4 0, 4 3, 0 3, 0 0))"),
+  );
+  expect(polygon.numPolygons()).toEqual(2);
+
+  expect(
+    WKTWriter.writeGeometry(
+      GeometryUtils.delaunayTriangulation(
+        WKTReader.readGeometry("MULTIPOINT ((0 0), (1 1), (2 2))"),
+      ),
+    ),
+  ).toEqual("TIN EMPTY");
+});
+
+Deno.test("test constrained delaunay triangulation", () => {
+  const points = WKTReader.readGeometry(
+    "MULTIPOINT ((0 0), (10 0), (5 1), (5 -1))",
+  );
+  const unconstrained = WKTWriter.writeGeometry(
+    GeometryUtils.delaunayTriangulation(points),
+  );
+  expect(hasEdge(unconstrained, ["5 1", "5 -1"])).toBe(true);
+  const constrained = WKTWriter.writeGeometry(
+    GeometryUtils.constrainedDelaunayTriangulation(
+      points,
+      WKTReader.readGeometry("LINESTRING (0 0, 10 0)"),
+    ),
+  );
+  expect(hasEdge(constrained, ["5 1", "5 -1"])).toBe(false);
+  expect(hasEdge(constrained, ["0 0", "10 0"])).toBe(true);
+
+  const split = WKTWriter.writeGeometry(
+    GeometryUtils.constrainedDelaunayTriangulation(
+      WKTReader.readGeometry("MULTIPOINT ((0 0), (2 0), (4 0), (2 3), (2 -3))"),
+      WKTReader.readGeometry("LINESTRING (0 0, 4 0)"),
+    ),
+  );
+  expect(hasEdge(split, ["0 0", "2 0"])).toBe(true);
+  expect(hasEdge(split, ["2 0", "4 0"])).toBe(true);
+
+  const crossing = GeometryUtils.constrainedDelaunayTriangulation(
+    WKTReader.readGeometry("MULTIPOINT ((5 2))"),
+    WKTReader.readGeometry(
+      "MULTILINESTRING Z ((0 0 0, 10 10 10), (0 10 0, 10 0 20))",
+    ),
+  );
+  expect(crossing.hasZ).toBe(true);
+  expect(crossing.numPolygons()).toEqual(6);
+  expect(WKTWriter.writeGeometry(crossing)).toContain("5 5 5");
+});
+
+Deno.test("test constrained delaunay triangulation clipped to polygons", () => {
+  const holed = GeometryUtils.constrainedDelaunayTriangulation(
+    WKTReader.readGeometry("MULTIPOINT EMPTY"),
+    WKTReader.readGeometry(
+      "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (4 4, 6 4, 6 6, 4 6, 4 4))",
+    ),
+    true,
+  );
+  expect(holed.numPolygons()).toEqual(8);
+  let total = 0;
+  for (const triangle of holed.polygons) {
+    total += area(triangle as Triangle);
+  }
+  expect(total).toEqual(96);
+
+  const notched = GeometryUtils.constrainedDelaunayTriangulation(
+    WKTReader.readGeometry("MULTIPOINT ((5 8), (5 1))"),
+    WKTReader.readGeometry("POLYGON ((0 0, 10 0, 10 10, 5 2, 0 10, 0 0))"),
+    true,
+  );
+  total = 0;
+  for (const triangle of notched.polygons) {
+    total += area(triangle as Triangle);
+  }
+  expect(total).toEqual(60);
+  expect(WKTWriter.writeGeometry(notched)).not.toContain("5 8");
+  expect(WKTWriter.writeGeometry(notched)).toContain("5 1");
+
+  const unclipped = GeometryUtils.constrainedDelaunayTriangulation(
+    WKTReader.readGeometry("MULTIPOINT EMPTY"),
+    WKTReader.readGeometry("POLYGON ((0 0, 10 0, 10 10, 5 2, 0 10, 0 0))"),
+  );
+  expect(unclipped.numPolygons()).toEqual(4);
+});
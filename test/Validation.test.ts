@@ -0,0 +1,150 @@
+import {
+  GeometryValidator,
+  LineString,
+  MultiPoint,
+  Point,
+  ValidationErrorType,
+  WKTReader,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Get the validation error types of a geometry
+ * @param text geometry well-known text
+ * @returns error types
+ */
+function errorTypes(text: string): ValidationErrorType[] {
+  return GeometryValidator.validate(WKTReader.readGeometry(text)).map((
+    error,
+  ) => error.type);
+}
+
+Deno.test("test valid geometries", () => {
+  for (
+    const text of [
+      "POINT EMPTY",
+      "POINT (1 2)",
+      "LINESTRING (0 0, 10 10, 10 0, 0 10)",
+      "POLYGON EMPTY",
+      "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (2 2, 2 4, 4 4, 4 2, 2 2))",
+      "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (0 0, 2 4, 4 2, 0 0))",
+      "POLYGON ((0 0, 5 0, 5 0, 10 0, 10 10, 0 10, 0 0))",
+      "MULTIPOLYGON (((0 0, 1 0, 1 1, 0 1, 0 0)), ((1 1, 2 1, 2 2, 1 2, 1 1)))",
+      "MULTIPOLYGON (((0 0, 10 0, 10 10, 0 10, 0 0), " +
+      "(2 2, 2 8, 8 8, 8 2, 2 2)), ((4 4, 6 4, 6 6, 4 6, 4 4)))",
+      "CURVEPOLYGON (CIRCULARSTRING (0 0, 2 0, 0 0))",
+      "TIN (((0 0, 1 0, 0 1, 0 0)), ((1 0, 0 1, 1 1, 1 0)))",
+      "GEOMETRYCOLLECTION (POINT (1 1), LINESTRING (0 0, 1 1))",
+    ]
+  ) {
+    const geometry = WKTReader.readGeometry(text);
+    expect(geometry.validate()).toEqual([]);
+    expect(geometry.isValid()).toBe(true);
+  }
+});
+
+Deno.test("test invalid polygons", () => {
+  const errors = WKTReader.readGeometry(
+    "POLYGON ((0 0, 10 10, 10 0, 0 10, 0 0))",
+  ).validate();
+  expect(errors.length).toEqual(1);
+  expect(errors[0].type).toEqual(ValidationErrorType.SelfIntersection);
+  expect(errors[0].location?.x).toEqual(5);
+  expect(errors[0].location?.y).toEqual(5);
+  expect(errors[0].toString()).toEqual(
+    "Polygon rings self intersect at (5 5)",
+  );
+
+  expect(errorTypes("POLYGON ((0 0, 10 0, 10 10, 0 10))")).toEqual([
+    ValidationErrorType.RingNotClosed,
+  ]);
+  expect(errorTypes("POLYGON ((0 0, 1 1, 0 0))")).toEqual([
+    ValidationErrorType.TooFewPoints,
+  ]);
+  expect(
+    errorTypes(
+      "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (20 20, 20 21, 21 21, 20 20))",
+    ),
+  ).toEqual([ValidationErrorType.HoleOutsideShell]);
+  expect(
+    errorTypes(
+      "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (1 1, 1 9, 9 9, 9 1, 1 1), " +
+        "(2 2, 2 3, 3 3, 3 2, 2 2))",
+    ),
+  ).toEqual([ValidationErrorType.NestedHoles]);
+  expect(errorTypes("POLYGON ((0 0, 0 10, 10 10, 10 0, 0 0))")).toEqual([
+    ValidationErrorType.RingOrientation,
+  ]);
+  expect(
+    errorTypes(
+      "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (0 5, 5 8, 10 5, 5 2, 0 5))",
+    ),
+  ).toEqual([ValidationErrorType.DisconnectedInterior]);
+  expect(
+    errorTypes(
+      "POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (5 5, 5 15, 15 15, 15 5, 5 5))",
+    ),
+  ).toContain(ValidationErrorType.SelfIntersection);
+  expect(
+    errorTypes("POLYGON ((0 0, 10 0, 10 10, 5 0, 0 10, 0 0))"),
+  ).toEqual([ValidationErrorType.SelfIntersection]);
+});
+
+Deno.test("test invalid multi polygons", () => {
+  expect(
+    errorTypes(
+      "MULTIPOLYGON (((0 0, 2 0, 2 2, 0 2, 0 0)), ((1 1, 3 1, 3 3, 1 3, 1 1)))",
+    ),
+  ).toEqual([
+    ValidationErrorType.OverlappingPolygons,
+    ValidationErrorType.OverlappingPolygons,
+  ]);
+  expect(
+    errorTypes(
+      "MULTIPOLYGON (((0 0, 10 0, 10 10, 0 10, 0 0)), " +
+        "((4 4, 6 4, 6 6, 4 6, 4 4)))",
+    ),
+  ).toEqual([ValidationErrorType.OverlappingPolygons]);
+  expect(
+    errorTypes(
+      "MULTIPOLYGON (((0 0, 1 0, 1 1, 0 1, 0 0)), ((1 0, 2 0, 2 1, 1 1, 1 0)))",
+    ),
+  ).toEqual([ValidationErrorType.OverlappingPolygons]);
+  expect(
+    errorTypes(
+      "GEOMETRYCOLLECTION (POINT (1 1), " +
+        "POLYGON ((0 0, 10 10, 10 0, 0 10, 0 0)))",
+    ),
+  ).toEqual([ValidationErrorType.SelfIntersection]);
+});
+
+Deno.test("test invalid coordinates and dimensions", () => {
+  expect(errorTypes("LINESTRING (1 1, 1 1)")).toEqual([
+    ValidationErrorType.TooFewPoints,
+  ]);
+  expect(errorTypes("CIRCULARSTRING (0 0, 1 1)")).toEqual([
+    ValidationErrorType.TooFewPoints,
+  ]);
+
+  const line = LineString.createFromPoints([
+    Point.createFromXY(0, 0),
+    Point.createFromXY(Number.POSITIVE_INFINITY, 1),
+  ]);
+  const errors = GeometryValidator.validate(line);
+  expect(errors.length).toEqual(1);
+  expect(errors[0].type).toEqual(ValidationErrorType.NonFiniteCoordinate);
+  expect(errors[0].geometry).toBe(line);
+  expect(errors[0].location).toBe(line.points[1]);
+  expect(Point.createFromXY(Number.NaN, 1).isValid()).toBe(false);
+
+  const multiPoint = MultiPoint.create(true, false);
+  multiPoint.addPoint(Point.createFromXYZ(0, 0, 0));
+  const point = Point.createFromXY(1, 1);
+  multiPoint.addPoint(point);
+  const dimensionErrors = multiPoint.validate();
+  expect(dimensionErrors.length).toEqual(1);
+  expect(dimensionErrors[0].type).toEqual(
+    ValidationErrorType.InconsistentDimensions,
+  );
+  expect(dimensionErrors[0].geometry).toBe(point);
+});
@@ -0,0 +1,84 @@
+import type { Polygon } from "../lib/internal.ts";
+import {
+  GeometryEnvelope,
+  GeometryType,
+  GeometryUtils,
+  Point,
+  VoronoiDiagramBuilder,
+  WKTReader,
+  WKTWriter,
+} from "../lib/internal.ts";
+import { expect } from "@std/expect";
+
+Deno.test("test voronoi diagram", () => {
+  const diagram = GeometryUtils.voronoiDiagram(
+    WKTReader.readGeometry(
+      "SRID=3857;MULTIPOINT ((0 0), (10 0), (0 10), (10 10))",
+    ),
+    GeometryEnvelope.createFromMinMaxXY(-5, -5, 15, 15),
+  );
+  expect(diagram.geometryType).toEqual(GeometryType.GeometryCollection);
+  expect(diagram.srid).toEqual(3857);
+  expect(WKTWriter.writeGeometry(diagram)).toEqual(
+    "GEOMETRYCOLLECTION (POLYGON ((-5 5, -5 -5, 5 -5, 5 5, -5 5)), " +
+      "POLYGON ((5 5, 5 -5, 15 -5, 15 5, 5 5)), " +
+      "POLYGON ((-5 5, 5 5, 5 15, -5 15, -5 5)), " +
+      "POLYGON ((5 5, 15 5, 15 15, 5 15, 5 5)))",
+  );
+
+  expect(
+    WKTWriter.writeGeometry(
+      GeometryUtils.voronoiDiagram(
+        WKTReader.readGeometry("MULTIPOINT ((0 0), (10 0), (20 0))"),
+      ),
+    ),
+  ).toEqual(
+    "GEOMETRYCOLLECTION (POLYGON ((-10 -10, 5 -10, 5 10, -10 10, -10 -10)), " +
+      "POLYGON ((5 -10, 15 -10, 15 10, 5 10, 5 -10)), " +
+      "POLYGON ((15 -10, 30 -10, 30 10, 15 10, 15 -10)))",
+  );
+  expect(
+    WKTWriter.writeGeometry(
+      GeometryUtils.voronoiDiagram(WKTReader.readGeometry("POINT (1 1)")),
+    ),
+  ).toEqual("GEOMETRYCOLLECTION (POLYGON ((0 0, 2 0, 2 2, 0 2, 0 0)))");
+  expect(
+    WKTWriter.writeGeometry(
+      GeometryUtils.voronoiDiagram(WKTReader.readGeometry("MULTIPOINT EMPTY")),
+    ),
+  ).toEqual("GEOMETRYCOLLECTION EMPTY");
+});
+
+Deno.test("test voronoi cells", () => {
+  const sites = WKTReader.readGeometry(
+    "MULTIPOINT ((0 0), (10 0), (5 5), (0 0), (30 30))",
+  );
+  const builder = new VoronoiDiagramBuilder(
+    sites,
+    GeometryEnvelope.createFromMinMaxXY(-5, -5, 15, 15),
+  );
+  expect(builder.sites.length).toEqual(4);
+  expect(builder.cells.length).toEqual(4);
+  expect(builder.getCell(Point.createFromXY(30, 30))!.isEmpty()).toBe(true);
+  expect(builder.getCell(Point.createFromXY(1, 1))).toBeUndefined();
+
+  for (
+    const point of [
+      Point.createFromXY(0, 0),
+      Point.createFromXY(10, 0),
+      Point.createFromXY(5, 5),
+    ]
+  ) {
+    const cell = builder.getCell(point) as Polygon;
+    expect(cell.contains(point)).toBe(true);
+    for (const other of builder.sites) {
+      if (other.x !== point.x || other.y !== point.y) {
+        expect(cell.intersects(other)).toBe(false);
+      }
+    }
+  }
+
+  const cell = builder.getCell(Point.createFromXY(5, 5))!;
+  expect(cell.contains(Point.createFromXY(5, 14))).toBe(true);
+  expect(cell.contains(Point.createFromXY(5, -1))).toBe(false);
+});
@@ -0,0 +1,270 @@
+import type {
+  Geometry,
+  GeometryCollection,
+  GeometryFilter,
+  LineString,
+} from "../lib/internal.ts";
+import {
+  ByteOrder,
+  FiniteFilterType,
+  GeometryCodes,
+  GeometryType,
+  Point,
+  PointFiniteFilter,
+  SFException,
+  WKBReader,
+  WKBWriter,
+  WKTReader,
+} from "../lib/internal.ts";
+import {
+  coinFlip,
+  compareGeometries,
+  createCompoundCurve,
+  createCurvePolygon,
+  createGeometryCollection,
+  createLineString,
+  createMultiLineString,
+  createMultiPoint,
+  createMultiPolygon,
+  createPoint,
+  createPolygon,
+} from "./SFTestUtils.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Convert hex to bytes
+ * @param hex hex string
+ * @returns bytes
+ */
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Convert bytes to upper case hex
+ * @param bytes bytes
+ * @returns hex string
+ */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+    .toUpperCase();
+}
+
+/**
+ * Write the geometry in each byte order and code form, read it back and verify
+ * the geometries are equal
+ * @param geometry geometry
+ */
+function testRoundTrip(geometry: Geometry): void {
+  for (const byteOrder of [ByteOrder.BigEndian, ByteOrder.LittleEndian]) {
+    for (const extended of [false, true]) {
+      const bytes = WKBWriter.writeGeometry(geometry, byteOrder, extended);
+      const readGeometry = WKBReader.readGeometry(bytes)!;
+      compareGeometries(geometry, readGeometry);
+      expect(geometry.equals(readGeometry)).toBe(true);
+      expect(WKBWriter.writeGeometry(readGeometry, byteOrder, extended))
+        .toEqual(bytes);
+    }
+  }
+}
+
+Deno.test("test WKB random geometries", () => {
+  for (let i = 0; i < 10; i++) {
+    testRoundTrip(createPoint(coinFlip(), coinFlip()));
+    testRoundTrip(createLineString(coinFlip(), coinFlip()));
+    testRoundTrip(createPolygon(coinFlip(), coinFlip()));
+    testRoundTrip(createMultiPoint(coinFlip(), coinFlip()));
+    testRoundTrip(createMultiLineString(coinFlip(), coinFlip()));
+    testRoundTrip(createMultiPolygon(coinFlip(), coinFlip()));
+    testRoundTrip(createGeometryCollection(coinFlip(), coinFlip()));
+    testRoundTrip(createCompoundCurve(coinFlip(), coinFlip()));
+    testRoundTrip(createCurvePolygon(coinFlip(), coinFlip()));
+  }
+});
+
+Deno.test("test WKB all geometry types", () => {
+  for (
+    const text of [
+      "POINT EMPTY",
+      "LINESTRING EMPTY",
+      "CIRCULARSTRING M (0 0 1, 1 1 2, 2 0 3)",
+      "TRIANGLE Z ((0 0 1, 0 1 2, 1 0 3, 0 0 1))",
+      "MULTICURVE ((0 0, 1 1), CIRCULARSTRING (0 0, 1 1, 2 0))",
+      "MULTISURFACE (((0 0, 1 0, 1 1, 0 0)), " +
+      "CURVEPOLYGON (CIRCULARSTRING (0 0, 1 1, 2 0, 1 -1, 0 0)))",
+      "POLYHEDRALSURFACE ZM (((0 0 0 1, 0 1 0 2, 1 1 0 3, 0 0 0 1)))",
+      "TIN (((0 0, 0 1, 1 0, 0 0)), ((1 0, 0 1, 1 1, 1 0)))",
+      "GEOMETRYCOLLECTION (POINT (1 2), GEOMETRYCOLLECTION EMPTY)",
+    ]
+  ) {
+    testRoundTrip(WKTReader.readGeometry(text));
+  }
+});
+
+Deno.test("test WKB known bytes", () => {
+  const point = Point.createFromXY(1, 2);
+  expect(toHex(WKBWriter.writeGeometry(point))).toEqual(
+    "00000000013FF00000000000004000000000000000",
+  );
+  expect(toHex(WKBWriter.writeGeometry(point, ByteOrder.LittleEndian))).toEqual(
+    "0101000000000000000000F03F0000000000000040",
+  );
+
+  const pointZ = Point.createFromXYZ(1, 2, 3);
+  expect(toHex(WKBWriter.writeGeometry(pointZ)).substring(0, 10)).toEqual(
+    "00000003E9",
+  );
+  expect(
+    toHex(WKBWriter.writeGeometry(pointZ, ByteOrder.BigEndian, true))
+      .substring(0, 10),
+  ).toEqual("0080000001");
+
+  // PostGIS extended little endian POINT ZM (1 2 3 4)
+  const pointZM = WKBReader.readGeometry(
+    fromHex(
+      "01010000C0000000000000F03F000000000000004000000000000008400000000000001040",
+    ),
+  ) as Point;
+  expect(pointZM.equals(Point.createFromXYZM(1, 2, 3, 4))).toBe(true);
+
+  // ISO little endian LINESTRING M (1 2 3, 4 5 6)
+  const lineStringM = WKBReader.readGeometry(
+    new DataView(
+      fromHex(
+        "01D207000002000000000000000000F03F00000000000000400000000000000840" +
+          "000000000000104000000000000014400000000000001840",
+      ).buffer,
+    ),
+  ) as LineString;
+  expect(lineStringM.geometryType).toEqual(GeometryType.LineString);
+  expect(lineStringM.hasZ).toBe(false);
+  expect(lineStringM.hasM).toBe(true);
+  expect(lineStringM.getPoint(1).m).toEqual(6);
+});
+
+Deno.test("test WKB geometry codes", () => {
+  expect(GeometryCodes.getCodeFromType(GeometryType.Tin, true, true))
+    .toEqual(3016);
+  expect(
+    GeometryCodes.getExtendedCode(GeometryType.Polygon, true, false, true),
+  ).toEqual(0xA0000003);
+  expect(GeometryCodes.getGeometryTypeInfo(2008)).toEqual({
+    geometryType: GeometryType.CircularString,
+    hasZ: false,
+    hasM: true,
+    hasSRID: false,
+  });
+  expect(GeometryCodes.getGeometryTypeInfo(0x40000002)).toEqual({
+    geometryType: GeometryType.LineString,
+    hasZ: false,
+    hasM: true,
+    hasSRID: false,
+  });
+  expect(() => GeometryCodes.getGeometryTypeInfo(13)).toThrow(SFException);
+  expect(() => GeometryCodes.getGeometryTypeInfo(4001)).toThrow(SFException);
+  expect(() => GeometryCodes.getGeometryTypeInfo(0x800003E9)).toThrow(
+    SFException,
+  );
+});
+
+Deno.test("test WKB filter", () => {
+  const lineString = WKTReader.readGeometry(
+    "LINESTRING Z (0 0 0, 1 1 NaN, 2 2 2, Inf 3 3)",
+  );
+  const bytes = WKBWriter.writeGeometry(lineString);
+
+  const filtered = WKBReader.readGeometry(
+    bytes,
+    new PointFiniteFilter(FiniteFilterType.Finite, true),
+  ) as LineString;
+  expect(filtered.numPoints()).toEqual(2);
+  expect(filtered.getPoint(1).x).toEqual(2);
+
+  const infinite = WKBReader.readGeometry(
+    bytes,
+    new PointFiniteFilter(FiniteFilterType.FiniteAndInfinite),
+  ) as LineString;
+  expect(infinite.numPoints()).toEqual(4);
+
+  const containingTypes: (GeometryType | undefined)[] = [];
+  const polygonFilter: GeometryFilter = {
+    filter(containingType: GeometryType | undefined, geometry: Geometry) {
+      containingTypes.push(containingType);
+      return geometry.geometryType !== GeometryType.Polygon;
+    },
+  };
+  const collection = WKBReader.readGeometry(
+    WKBWriter.writeGeometry(
+      WKTReader.readGeometry(
+        "GEOMETRYCOLLECTION (POINT (1 2), POLYGON ((0 0, 1 0, 1 1, 0 0)))",
+      ),
+    ),
+    polygonFilter,
+  ) as Geometry;
+  expect(collection.equals(WKTReader.readGeometry(
+    "GEOMETRYCOLLECTION (POINT (1 2))",
+  ))).toBe(true);
+  expect(containingTypes[0]).toEqual(GeometryType.GeometryCollection);
+  expect(containingTypes[containingTypes.length - 1]).toBeUndefined();
+
+  expect(
+    WKBReader.readGeometry(
+      WKBWriter.writeGeometry(Point.createFromXY(Number.NaN, 1)),
+      new PointFiniteFilter(FiniteFilterType.Finite),
+    ),
+  ).toBeUndefined();
+});
+
+Deno.test("test WKB read errors", () => {
+  const bytes = WKBWriter.writeGeometry(Point.createFromXY(1, 2));
+  expect(() => WKBReader.readGeometry(bytes.subarray(0, 12))).toThrow(
+    "Unexpected end of bytes at byte 5",
+  );
+  const invalidByteOrder = bytes.slice();
+  invalidByteOrder[0] = 2;
+  expect(() => WKBReader.readGeometry(invalidByteOrder)).toThrow(
+    "Unexpected byte order 2 at byte 0",
+  );
+  const trailing = new Uint8Array(bytes.length + 1);
+  trailing.set(bytes);
+  expect(() => WKBReader.readGeometry(trailing)).toThrow(SFException);
+  expect(() =>
+    WKBReader.readGeometry(
+      WKBWriter.writeGeometry(
+        WKTReader.readGeometry("MULTIPOINT ((1 2))"),
+      ).map((b, i) => i === 13 ? 2 : b),
+    )
+  ).toThrow("Unexpected geometry type LineString within MultiPoint");
+});
+
+Deno.test("test EWKB srid", () => {
+  const geometry = WKTReader.readGeometry(
+    "SRID=4326;GEOMETRYCOLLECTION (POINT (1 2), LINESTRING (0 0, 1 1))",
+  );
+  (geometry as GeometryCollection<Geometry>).getGeometry(0).srid = 3857;
+
+  const bytes = WKBWriter.writeGeometry(geometry, ByteOrder.LittleEndian, true);
+  expect(toHex(bytes.subarray(0, 9))).toEqual("0107000020E6100000");
+  expect(toHex(bytes.subarray(13, 18))).toEqual("0101000000");
+
+  const readGeometry = WKBReader.readGeometry(bytes) as GeometryCollection<
+    Geometry
+  >;
+  expect(readGeometry.srid).toEqual(4326);
+  expect(readGeometry.getGeometry(0).srid).toBeUndefined();
+
+  const iso = WKBReader.readGeometry(WKBWriter.writeGeometry(geometry))!;
+  expect(iso.srid).toBeUndefined();
+
+  // PostGIS SRID=4326;POINT(1 2)
+  const point = WKBReader.readGeometry(
+    fromHex("0101000020E6100000000000000000F03F0000000000000040"),
+  ) as Point;
+  expect(point.srid).toEqual(4326);
+  expect(point.x).toEqual(1);
+  expect(point.y).toEqual(2);
+});
@@ -0,0 +1,269 @@
+import type { Geometry, MultiPoint } from "../lib/internal.ts";
+import {
+  CircularString,
+  CompoundCurve,
+  CurvePolygon,
+  ExtendedGeometryCollection,
+  GeometryType,
+  LineString,
+  Point,
+  Polygon,
+  PolyhedralSurface,
+  SFException,
+  TIN,
+  Triangle,
+  WKTReader,
+  WKTWriter,
+} from "../lib/internal.ts";
+import {
+  coinFlip,
+  compareGeometries,
+  createCompoundCurve,
+  createCurvePolygon,
+  createGeometryCollection,
+  createLineString,
+  createMultiLineString,
+  createMultiPoint,
+  createMultiPolygon,
+  createPoint,
+  createPolygon,
+} from "./SFTestUtils.ts";
+import { expect } from "@std/expect";
+
+/**
+ * Write the geometry, read it back and verify the geometries are equal
+ * @param geometry geometry
+ * @returns well-known text
+ */
+function testRoundTrip(geometry: Geometry): string {
+  const text = WKTWriter.writeGeometry(geometry);
+  const readGeometry = WKTReader.readGeometry(text);
+  compareGeometries(geometry, readGeometry);
+  expect(geometry.equals(readGeometry)).toBe(true);
+  expect(WKTWriter.writeGeometry(readGeometry)).toEqual(text);
+  return text;
+}
+
+Deno.test("test WKT random geometries", () => {
+  for (let i = 0; i < 10; i++) {
+    testRoundTrip(createPoint(coinFlip(), coinFlip()));
+    testRoundTrip(createLineString(coinFlip(), coinFlip()));
+    testRoundTrip(createPolygon(coinFlip(), coinFlip()));
+    testRoundTrip(createMultiPoint(coinFlip(), coinFlip()));
+    testRoundTrip(createMultiLineString(coinFlip(), coinFlip()));
+    testRoundTrip(createMultiPolygon(coinFlip(), coinFlip()));
+    testRoundTrip(createGeometryCollection(coinFlip(), coinFlip()));
+    testRoundTrip(createCompoundCurve(coinFlip(), coinFlip()));
+    testRoundTrip(createCurvePolygon(coinFlip(), coinFlip()));
+  }
+});
+
+Deno.test("test WKT point dimensions", () => {
+  expect(testRoundTrip(Point.createFromXY(1, 2))).toEqual("POINT (1 2)");
+  expect(testRoundTrip(Point.createFromXYZ(1, 2, 3))).toEqual(
+    "POINT Z (1 2 3)",
+  );
+  expect(testRoundTrip(Point.createFromXYZM(1, 2, 3, 4))).toEqual(
+    "POINT ZM (1 2 3 4)",
+  );
+  const pointM = Point.createFromXY(1.5, -2.25);
+  pointM.m = 4;
+  expect(testRoundTrip(pointM)).toEqual("POINT M (1.5 -2.25 4)");
+
+  const inferred = WKTReader.readGeometry("point(1 2 3)") as Point;
+  expect(inferred.hasZ).toBe(true);
+  expect(inferred.hasM).toBe(false);
+  expect(inferred.z).toEqual(3);
+
+  const attached = WKTReader.readGeometry("POINTZM(1 2 3 4)") as Point;
+  expect(attached.hasZ).toBe(true);
+  expect(attached.hasM).toBe(true);
+  expect(attached.m).toEqual(4);
+
+  const exponent = WKTReader.readGeometry("POINT(1e3 -2.5E-2)") as Point;
+  expect(exponent.x).toEqual(1000);
+  expect(exponent.y).toEqual(-0.025);
+});
+
+Deno.test("test WKT empty geometries", () => {
+  const point = WKTReader.readGeometry("POINT EMPTY");
+  expect(point.isEmpty()).toBe(true);
+  expect(WKTWriter.writeGeometry(point)).toEqual("POINT EMPTY");
+
+  for (
+    const text of [
+      "POINT Z EMPTY",
+      "LINESTRING EMPTY",
+      "POLYGON M EMPTY",
+      "MULTIPOINT EMPTY",
+      "MULTIPOINT (EMPTY, (1 2))",
+      "MULTILINESTRING ZM EMPTY",
+      "MULTIPOLYGON EMPTY",
+      "GEOMETRYCOLLECTION EMPTY",
+      "GEOMETRYCOLLECTION (POINT EMPTY, LINESTRING EMPTY)",
+      "CIRCULARSTRING EMPTY",
+      "COMPOUNDCURVE EMPTY",
+      "CURVEPOLYGON EMPTY",
+      "MULTICURVE EMPTY",
+      "MULTISURFACE EMPTY",
+      "POLYHEDRALSURFACE EMPTY",
+      "TIN EMPTY",
+      "TRIANGLE EMPTY",
+    ]
+  ) {
+    const geometry = WKTReader.readGeometry(text);
+    expect(WKTWriter.writeGeometry(geometry)).toEqual(text);
+    expect(geometry.equals(WKTReader.readGeometry(text))).toBe(true);
+  }
+});
+
+Deno.test("test WKT curve and surface types", () => {
+  const circularString = WKTReader.readGeometry(
+    "CIRCULARSTRING(0 0, 1 1, 2 0)",
+  );
+  expect(circularString).toBeInstanceOf(CircularString);
+  expect(testRoundTrip(circularString)).toEqual(
+    "CIRCULARSTRING (0 0, 1 1, 2 0)",
+  );
+
+  const compoundCurve = WKTReader.readGeometry(
+    "COMPOUNDCURVE Z (CIRCULARSTRING (0 0 1, 1 1 2, 2 0 3), (2 0 3, 4 0 4))",
+  ) as CompoundCurve;
+  expect(compoundCurve).toBeInstanceOf(CompoundCurve);
+  expect(compoundCurve.hasZ).toBe(true);
+  expect(compoundCurve.getLineString(0)).toBeInstanceOf(CircularString);
+  expect(compoundCurve.getLineString(1).geometryType).toEqual(
+    GeometryType.LineString,
+  );
+  testRoundTrip(compoundCurve);
+
+  const curvePolygon = WKTReader.readGeometry(
+    "CURVEPOLYGON (COMPOUNDCURVE (CIRCULARSTRING (0 0, 2 2, 4 0), (4 0, 0 0))," +
+      " (1 0.5, 2 1, 3 0.5, 1 0.5))",
+  ) as CurvePolygon;
+  expect(curvePolygon).toBeInstanceOf(CurvePolygon);
+  expect(curvePolygon.numRings()).toEqual(2);
+  expect(curvePolygon.getRing(0)).toBeInstanceOf(CompoundCurve);
+  testRoundTrip(curvePolygon);
+
+  const multiCurve = WKTReader.readGeometry(
+    "MULTICURVE ((0 0, 1 1), CIRCULARSTRING (0 0, 1 1, 2 0))",
+  );
+  expect(multiCurve).toBeInstanceOf(ExtendedGeometryCollection);
+  expect(multiCurve.geometryType).toEqual(GeometryType.MultiCurve);
+  testRoundTrip(multiCurve);
+
+  const multiSurface = WKTReader.readGeometry(
+    "MULTISURFACE (((0 0, 1 0, 1 1, 0 0)), " +
+      "CURVEPOLYGON (CIRCULARSTRING (0 0, 1 1, 2 0, 1 -1, 0 0)))",
+  );
+  expect(multiSurface.geometryType).toEqual(GeometryType.MultiSurface);
+  testRoundTrip(multiSurface);
+
+  const polyhedralSurface = WKTReader.readGeometry(
+    "POLYHEDRALSURFACE Z (((0 0 0, 0 1 0, 1 1 0, 0 0 0)), " +
+      "((0 0 0, 0 1 0, 0 1 1, 0 0 0)))",
+  ) as PolyhedralSurface;
+  expect(polyhedralSurface).toBeInstanceOf(PolyhedralSurface);
+  expect(polyhedralSurface.numPolygons()).toEqual(2);
+  testRoundTrip(polyhedralSurface);
+
+  const tin = WKTReader.readGeometry(
+    "TIN (((0 0, 0 1, 1 0, 0 0)), ((1 0, 0 1, 1 1, 1 0)))",
+  ) as TIN;
+  expect(tin).toBeInstanceOf(TIN);
+  expect(tin.getPolygon(1)).toBeInstanceOf(Triangle);
+  testRoundTrip(tin);
+
+  const triangle = WKTReader.readGeometry("TRIANGLE ((0 0, 0 1, 1 0, 0 0))");
+  expect(triangle).toBeInstanceOf(Triangle);
+  testRoundTrip(triangle);
+});
+
+Deno.test("test WKT multi point forms", () => {
+  const parenthesized = WKTReader.readGeometry("MULTIPOINT ((1 2), (3 4))");
+  const bare = WKTReader.readGeometry("MULTIPOINT (1 2, 3 4)");
+  expect(parenthesized.equals(bare)).toBe(true);
+  expect(WKTWriter.writeGeometry(bare)).toEqual("MULTIPOINT ((1 2), (3 4))");
+});
+
+Deno.test("test WKT geometry collection", () => {
+  const text = "GEOMETRYCOLLECTION Z (POINT Z (1 2 3), " +
+    "LINESTRING Z (0 0 0, 1 1 1), POLYGON Z ((0 0 0, 1 0 0, 1 1 0, 0 0 0)))";
+  const geometry = WKTReader.readGeometry(text);
+  expect(geometry.hasZ).toBe(true);
+  expect(testRoundTrip(geometry)).toEqual(text);
+
+  const polygon = Polygon.createFromLineString(
+    LineString.createFromPoints([
+      Point.createFromXY(0, 0),
+      Point.createFromXY(10, 0),
+      Point.createFromXY(10, 10),
+      Point.createFromXY(0, 0),
+    ]),
+  );
+  expect(testRoundTrip(polygon)).toEqual(
+    "POLYGON ((0 0, 10 0, 10 10, 0 0))",
+  );
+});
+
+Deno.test("test WKT parse errors", () => {
+  const expectError = (text: string, message: string) => {
+    expect(() => WKTReader.readGeometry(text)).toThrow(SFException);
+    expect(() => WKTReader.readGeometry(text)).toThrow(message);
+  };
+
+  expectError(
+    "POINT (1 2",
+    "Unexpected end of text, expected ')' at column 11",
+  );
+  expectError("POINT (1 2a)", "Invalid number '2a' at column 10");
+  expectError("POINT (1 a)", "found 1 at column 8");
+  expectError("POINTS (1 2)", "Unknown geometry type 'POINTS' at column 1");
+  expectError("LINESTRING (1 2, 3 4 5)", "Expected 2 coordinate values");
+  expectError("POINT Z (1 2)", "found 2 at column 10");
+  expectError("POINT (1 2) POINT", "expected end of text at column 13");
+  expectError("LINESTRING [1 2]", "at column 12");
+  expectError(
+    "COMPOUNDCURVE (POLYGON ((0 0, 1 0, 1 1, 0 0)))",
+    "Unexpected geometry type 'POLYGON' at column 16",
+  );
+  expectError(
+    "MULTILINESTRING Z ((0 0 0, 1 1 1), LINESTRING M (0 0 0))",
+    "at column 36",
+  );
+});
+
+Deno.test("test EWKT srid", () => {
+  const geometry = WKTReader.readGeometry(
+    "SRID=4326;MULTIPOINT ((1 2), (3 4))",
+  );
+  expect(geometry.srid).toEqual(4326);
+  expect((geometry as MultiPoint).getPoint(0).srid).toBeUndefined();
+  expect(WKTWriter.writeGeometry(geometry)).toEqual(
+    "MULTIPOINT ((1 2), (3 4))",
+  );
+  expect(WKTWriter.writeGeometry(geometry, true)).toEqual(
+    "SRID=4326;MULTIPOINT ((1 2), (3 4))",
+  );
+
+  const copy = geometry.copy();
+  expect(copy.srid).toEqual(4326);
+  expect(copy.equals(geometry)).toBe(true);
+  copy.srid = 3857;
+  expect(copy.equals(geometry)).toBe(false);
+
+  const point = WKTReader.readGeometry("srid = 3857 ; POINT (1 2)");
+  expect(point.srid).toEqual(3857);
+  expect(WKTReader.readGeometry("POINT (1 2)").srid).toBeUndefined();
+  expect(WKTWriter.writeGeometry(Point.createFromXY(1, 2), true)).toEqual(
+    "POINT (1 2)",
+  );
+
+  expect(() => WKTReader.readGeometry("SRID=4326.5;POINT (1 2)")).toThrow(
+    "Invalid SRID '4326.5' at column 6",
+  );
+  expect(() => WKTReader.readGeometry("SRID=4326 POINT (1 2)")).toThrow(
+    "Unexpected token 'POINT', expected ';' at column 11",
+  );
+});